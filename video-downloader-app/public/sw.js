@@ -71,6 +71,15 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // Leave media downloads alone: video files, stream manifests and segments,
+  // and byte range requests are too large (or too partial) to cache
+  if (
+    request.headers.has('range') ||
+    /\.(mp4|m4v|webm|mov|m3u8|mpd|ts|m4s|aac)$/i.test(url.pathname)
+  ) {
+    return;
+  }
+
   // Handle API requests with network-first strategy
   if (url.pathname.startsWith('/api/')) {
     event.respondWith(networkFirstStrategy(request));
@@ -0,0 +1,141 @@
+#!/usr/bin/env node
+
+// Stub of the server's creator feed endpoints, for testing subscriptions without
+// YouTube or TikTok. Every channel or creator asked for gets a made-up feed, and
+// new uploads can be published on demand:
+//
+//   npm run feed:stub
+//   VITE_FEED_PROXY=http://localhost:3100/api/feeds npm run dev
+//
+//   # publish an upload (all parameters but platform and source are optional)
+//   curl -X POST "http://localhost:3100/stub/uploads?platform=youtube&source=@creator&title=New%20video&duration=300&short=false"
+//
+// Set STUB_UPLOAD_EVERY to a number of seconds to publish an upload to every
+// feed at that interval. Queued uploads have made-up video IDs, so downloading
+// them fails; the point is to watch the subscriptions queue them.
+
+const express = require('express');
+const cors = require('cors');
+
+const PORT = process.env.STUB_FEED_PORT || 3100;
+const UPLOAD_EVERY_SECONDS = Number(process.env.STUB_UPLOAD_EVERY) || 0;
+const ID_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+const feeds = new Map();
+let uploadCount = 0;
+
+function randomId(length, characters) {
+  let id = '';
+  for (let i = 0; i < length; i++) {
+    id += characters[Math.floor(Math.random() * characters.length)];
+  }
+  return id;
+}
+
+function createUpload(platform, source, { title, duration, short } = {}) {
+  uploadCount += 1;
+  const username = source.replace(/^@/, '');
+
+  if (platform === 'tiktok') {
+    const videoId = randomId(19, '0123456789').replace(/^0/, '1');
+    return {
+      videoId,
+      url: `https://www.tiktok.com/@${username}/video/${videoId}`,
+      title: title || `Stub TikTok ${uploadCount}`,
+      duration: duration ?? 30,
+      thumbnail: '',
+      publishedAt: new Date().toISOString(),
+      isShort: false,
+    };
+  }
+
+  const videoId = randomId(11, ID_CHARACTERS);
+  return {
+    videoId,
+    url: short ? `https://www.youtube.com/shorts/${videoId}` : `https://www.youtube.com/watch?v=${videoId}`,
+    title: title || `Stub ${short ? 'Short' : 'video'} ${uploadCount}`,
+    duration: duration ?? (short ? 45 : 600),
+    thumbnail: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+    publishedAt: new Date().toISOString(),
+    isShort: Boolean(short),
+  };
+}
+
+// Feeds start with a video, a Short and a long video, so the filters have something to act on
+function getFeed(platform, source) {
+  const key = `${platform}:${source}`;
+  if (!feeds.has(key)) {
+    feeds.set(key, {
+      name: `${source.replace(/^@/, '')} (stub)`,
+      uploads: [
+        createUpload(platform, source, { title: 'Two hour livestream recap', duration: 7200 }),
+        createUpload(platform, source, { short: true }),
+        createUpload(platform, source),
+      ],
+    });
+    console.log(`[Stub Feeds] New feed: ${key}`);
+  }
+  return feeds.get(key);
+}
+
+function publish(platform, source, options) {
+  const feed = getFeed(platform, source);
+  const upload = createUpload(platform, source, options);
+  feed.uploads.unshift(upload);
+  console.log(`[Stub Feeds] Published to ${platform}:${source}: ${upload.title} (${upload.url})`);
+  return upload;
+}
+
+const app = express();
+app.use(cors());
+
+app.get('/api/feeds/:platform', (req, res) => {
+  const { platform } = req.params;
+  const source = String(req.query.source || '').trim();
+  if (platform !== 'youtube' && platform !== 'tiktok') {
+    return res.status(404).json({ error: `No feeds for ${platform}` });
+  }
+  if (!source) {
+    return res.status(400).json({ error: 'Missing source' });
+  }
+  if (/not-?found/i.test(source)) {
+    return res.status(404).json({ error: 'Feed failed', details: 'Channel not found' });
+  }
+
+  res.json(getFeed(platform, source));
+});
+
+app.post('/stub/uploads', (req, res) => {
+  const platform = String(req.query.platform || 'youtube');
+  const source = String(req.query.source || '').trim();
+  if (!source) {
+    return res.status(400).json({ error: 'Missing source' });
+  }
+
+  const upload = publish(platform, source, {
+    title: req.query.title ? String(req.query.title) : undefined,
+    duration: req.query.duration ? Number(req.query.duration) : undefined,
+    short: req.query.short === 'true',
+  });
+  res.status(201).json(upload);
+});
+
+app.get('/stub/feeds', (req, res) => {
+  res.json(Object.fromEntries(feeds));
+});
+
+if (UPLOAD_EVERY_SECONDS > 0) {
+  setInterval(() => {
+    for (const key of feeds.keys()) {
+      const [platform, ...source] = key.split(':');
+      publish(platform, source.join(':'));
+    }
+  }, UPLOAD_EVERY_SECONDS * 1000);
+}
+
+app.listen(PORT, () => {
+  console.log(`[Stub Feeds] Serving made-up creator feeds on http://localhost:${PORT}/api/feeds`);
+  if (UPLOAD_EVERY_SECONDS > 0) {
+    console.log(`[Stub Feeds] Publishing an upload to every feed each ${UPLOAD_EVERY_SECONDS}s`);
+  }
+});
@@ -5,15 +5,159 @@ const axios = require("axios");
 const ytdl = require("@distube/ytdl-core");
 const cors = require("cors");
 const puppeteer = require("puppeteer");
-const { exec } = require("child_process");
+const { WebSocketServer, WebSocket } = require("ws");
+const { exec, execFile, spawn } = require("child_process");
 const fs = require("fs");
 const path = require("path");
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-// Enable CORS for frontend
-app.use(cors());
+// Enable CORS for frontend; the client reads the range headers to resume downloads
+app.use(cors({
+  exposedHeaders: ["Content-Length", "Content-Range", "Accept-Ranges", "ETag", "Last-Modified", "Retry-After"],
+}));
+
+// === RANGE REQUESTS =====================================
+// Downloads honour "Range: bytes=START-[END]" so the client can resume an
+// interrupted transfer. If-Range makes sure it only continues the same file.
+
+// Parse the Range header against the file size
+// Returns null to send the whole file, "unsatisfiable", or an inclusive { start, end }
+function parseRange(req, size) {
+  const match = /^bytes=(\d+)-(\d*)$/.exec(req.headers.range || "");
+  if (!match) return null;
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end };
+}
+
+// Set the headers for a full (200) or partial (206) response
+// Returns the byte range to send, or null if a 416 response has been sent
+function writeRangeHeaders(req, res, size, etag) {
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("ETag", etag);
+
+  const ifRange = req.headers["if-range"];
+  const range = !ifRange || ifRange === etag ? parseRange(req, size) : null;
+  if (range === "unsatisfiable") {
+    res.setHeader("Content-Range", `bytes */${size}`);
+    res.status(416).end();
+    return null;
+  }
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader("Content-Length", range.end - range.start + 1);
+    return range;
+  }
+  res.setHeader("Content-Length", size);
+  return { start: 0, end: size - 1 };
+}
+
+// Stream a file from a CDN to the client, passing Range through so an interrupted
+// download can resume. Sends a 416 if the CDN rejects the range; other errors are thrown.
+async function proxyMediaStream(req, res, mediaUrl, referer) {
+  const headers = {
+    'Referer': referer,
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+  };
+  if (req.headers.range) headers['Range'] = req.headers.range;
+  if (req.headers['if-range']) headers['If-Range'] = req.headers['if-range'];
+
+  let mediaResponse;
+  try {
+    mediaResponse = await axios.get(mediaUrl, { responseType: 'stream', headers });
+  } catch (error) {
+    if (error.response?.status === 416) {
+      // The requested range is past the end of the file
+      if (error.response.headers['content-range']) {
+        res.setHeader('Content-Range', error.response.headers['content-range']);
+      }
+      res.status(416).end();
+      return;
+    }
+    throw error;
+  }
+
+  // Forward the size and range headers from the CDN (Content-Length also drives byte-level progress)
+  res.status(mediaResponse.status);
+  for (const header of ['content-length', 'content-range', 'accept-ranges', 'etag', 'last-modified']) {
+    if (mediaResponse.headers[header]) {
+      res.setHeader(header, mediaResponse.headers[header]);
+    }
+  }
+  // A CDN connection that fails mid-transfer must not crash the server
+  mediaResponse.data.on('error', (error) => {
+    console.error('[Media Proxy] Upstream stream error:', error.message);
+    res.destroy(error);
+  });
+  // Stop the CDN request when the client goes away
+  res.on('close', () => {
+    mediaResponse.data.destroy();
+  });
+  mediaResponse.data.pipe(res);
+}
+
+// yt-dlp downloads are kept for a while after an interrupted transfer so it can resume
+const TEMP_DIR = path.join(__dirname, 'temp');
+const TEMP_FILE_MAX_AGE_MS = 60 * 60 * 1000;
+
+function cleanupTempFiles() {
+  if (!fs.existsSync(TEMP_DIR)) return;
+  for (const name of fs.readdirSync(TEMP_DIR)) {
+    const file = path.join(TEMP_DIR, name);
+    try {
+      if (Date.now() - fs.statSync(file).mtimeMs > TEMP_FILE_MAX_AGE_MS) {
+        fs.unlinkSync(file);
+        console.log(`[YouTube Download] Removed stale temp file: ${name}`);
+      }
+    } catch (err) {
+      console.warn(`[YouTube Download] Could not remove temp file ${name}:`, err.message);
+    }
+  }
+}
+
+// === DOWNLOAD ERRORS ====================================
+// Error responses of the download endpoints name the kind of failure in "code",
+// so the app knows whether to retry and what to tell the user. The kinds are
+// those of DownloadErrorKind in the app.
+const DOWNLOAD_ERROR_STATUS = {
+  'network': 502,
+  'not-found': 404,
+  'private': 403,
+  'age-restricted': 403,
+  'rate-limited': 429,
+  'server-down': 503,
+  'unsupported-format': 422,
+  'unknown': 500,
+};
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN'];
+
+// Kind of failure of an error from ytdl-core, yt-dlp, axios or puppeteer
+function classifyDownloadError(error) {
+  const status = error.statusCode || error.response?.status;
+  const message = (error.message || '').toLowerCase();
+
+  // YouTube asks to sign in to prove you are not a bot when it throttles a server
+  if (status === 429 || /too many requests|rate.?limit|not a bot/.test(message)) return 'rate-limited';
+  if (/age.?restricted|confirm your age|inappropriate for some users/.test(message)) return 'age-restricted';
+  if (status === 401 || status === 403 || message.includes('private')) return 'private';
+  if (status === 404 || status === 410 || /not found|unavailable|deleted/.test(message)) return 'not-found';
+  if (/requested format|format not available/.test(message)) return 'unsupported-format';
+  if (NETWORK_ERROR_CODES.includes(error.code) || /timed? ?out|socket hang up/.test(message)) return 'network';
+  return 'unknown';
+}
+
+// Respond with the error's kind, passing on how long the platform asked to wait
+function sendDownloadError(res, error, summary) {
+  const code = classifyDownloadError(error);
+  const retryAfter = error.response?.headers?.['retry-after'];
+  if (retryAfter) res.setHeader('Retry-After', retryAfter);
+  res.status(DOWNLOAD_ERROR_STATUS[code]).json({ error: summary, details: error.message, code });
+}
 
 // === YOUTUBE METADATA PROXY (LEGAL) =====================
 app.get("/api/youtube", async (req, res) => {
@@ -163,29 +307,247 @@ app.get("/api/youtube", async (req, res) => {
   }
 });
 
+// === YOUTUBE FORMATS ====================================
+// Formats are listed from ytdl-core's video info and downloaded by itag, so the
+// client gets exactly the format it chose. Adaptive formats carry video or audio
+// only; those are merged into one MP4 by yt-dlp, or by ffmpeg under ytdl-core.
+
+// Video codecs by preference: H.264 plays everywhere, VP9 and AV1 need newer players
+const VIDEO_CODEC_PREFERENCE = ['avc1', 'vp9', 'vp09', 'av01'];
+
+// Formats that are single files (not HLS/DASH manifests or live streams)
+function downloadableFormats(formats) {
+  return formats.filter((format) => format.url && !format.isHLS && !format.isDashMPD && !format.isLive);
+}
+
+function isHdrFormat(format) {
+  return /HDR/.test(format.qualityLabel || '') ||
+    /SMPTEST2084|ARIB_STD_B67/.test(format.colorInfo?.transferCharacteristics || '');
+}
+
+// Short side of the frame, which YouTube's quality labels go by (so Shorts are 1080p, not 1920p)
+function formatHeight(format) {
+  return Math.min(format.width || format.height || 0, format.height || 0);
+}
+
+function videoCodecRank(format) {
+  const rank = VIDEO_CODEC_PREFERENCE.indexOf((format.videoCodec || '').split('.')[0]);
+  return rank === -1 ? VIDEO_CODEC_PREFERENCE.length : rank;
+}
+
+// Best audio-only format, preferring AAC (m4a) so it can go into an MP4 file
+function bestAudioFormat(formats) {
+  const audioFormats = formats.filter((format) => format.hasAudio && !format.hasVideo);
+  audioFormats.sort((a, b) =>
+    (a.container === 'mp4' ? 0 : 1) - (b.container === 'mp4' ? 0 : 1) ||
+    (b.audioBitrate || 0) - (a.audioBitrate || 0)
+  );
+  return audioFormats[0] || null;
+}
+
+// The fields of a format the client needs to describe it
+function describeFormat(format) {
+  return {
+    itag: format.itag,
+    container: format.container || null,
+    hasVideo: Boolean(format.hasVideo),
+    hasAudio: Boolean(format.hasAudio),
+    videoCodec: format.videoCodec || null,
+    audioCodec: format.audioCodec || null,
+    qualityLabel: format.qualityLabel || null,
+    width: format.width || 0,
+    height: format.height || 0,
+    fps: format.fps || 0,
+    hdr: isHdrFormat(format),
+    bitrate: format.bitrate || 0, // bits per second
+    audioBitrate: format.audioBitrate || 0, // kbps
+    contentLength: Number(format.contentLength) || 0, // bytes, 0 if unknown
+  };
+}
+
+// Pick the formats to download: the itags the client chose (e.g. "137+140"), or for
+// a quality such as "1080p" the best video up to that height plus the best audio.
+// Returns a muxed format, video then audio, or audio alone for MP3; null if an itag is not offered.
+function chooseYouTubeFormats(info, { formatId, quality, format }) {
+  const formats = downloadableFormats(info.formats);
+
+  if (format === 'mp3') {
+    const audio = bestAudioFormat(formats);
+    return audio ? [audio] : [];
+  }
+
+  if (formatId) {
+    const chosen = formatId.split('+').map((itag) => formats.find((candidate) => String(candidate.itag) === itag));
+    return chosen.every(Boolean) ? chosen : null;
+  }
+
+  const maxHeight = parseInt(quality, 10) || Infinity;
+  const videoFormats = formats.filter((candidate) => candidate.hasVideo);
+  const candidates = videoFormats.filter((candidate) => formatHeight(candidate) <= maxHeight);
+  // Highest resolution and frame rate; SDR over HDR and H.264 over newer codecs for compatibility
+  const [video] = (candidates.length > 0 ? candidates : videoFormats).sort((a, b) =>
+    formatHeight(b) - formatHeight(a) ||
+    (b.fps || 0) - (a.fps || 0) ||
+    Number(isHdrFormat(a)) - Number(isHdrFormat(b)) ||
+    videoCodecRank(a) - videoCodecRank(b) ||
+    (b.bitrate || 0) - (a.bitrate || 0)
+  );
+  if (!video) return [];
+  if (video.hasAudio) return [video];
+
+  const audio = bestAudioFormat(formats);
+  return audio ? [video, audio] : [video];
+}
+
+const commandExists = (command) =>
+  new Promise((resolve) => exec(`which ${command}`, (error) => resolve(!error)));
+
+// Merge a video-only and an audio-only format into an MP4 file, streaming both from
+// YouTube into ffmpeg. Writes to a .part file first so a failed merge is never served.
+function mergeWithFfmpeg(info, videoFormat, audioFormat, outputFile) {
+  const partFile = `${outputFile}.part`;
+
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(
+      'ffmpeg',
+      ['-y', '-loglevel', 'error', '-i', 'pipe:3', '-i', 'pipe:4',
+        '-map', '0:v:0', '-map', '1:a:0', '-c', 'copy', '-movflags', '+faststart', '-f', 'mp4', partFile],
+      { stdio: ['ignore', 'ignore', 'pipe', 'pipe', 'pipe'] }
+    );
+
+    let stderr = '';
+    ffmpeg.stderr.on('data', (chunk) => {
+      stderr += chunk;
+    });
+    ffmpeg.on('error', reject);
+    ffmpeg.on('close', (code) => {
+      if (code === 0) {
+        fs.renameSync(partFile, outputFile);
+        resolve();
+      } else {
+        fs.rmSync(partFile, { force: true });
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+
+    const sources = [
+      [ytdl.downloadFromInfo(info, { format: videoFormat }), ffmpeg.stdio[3]],
+      [ytdl.downloadFromInfo(info, { format: audioFormat }), ffmpeg.stdio[4]],
+    ];
+    for (const [source, pipe] of sources) {
+      source.on('error', (error) => {
+        ffmpeg.kill();
+        reject(error);
+      });
+      // ffmpeg closing its input early is reported by its exit code
+      pipe.on('error', () => {});
+      source.pipe(pipe);
+    }
+  });
+}
+
+// === YOUTUBE FORMATS ENDPOINT ==========================
+app.get("/api/youtube/formats", async (req, res) => {
+  const videoId = req.query.id;
+
+  if (!videoId) {
+    return res.status(400).json({ error: "Missing id" });
+  }
+
+  try {
+    const info = await ytdl.getInfo(videoId);
+    res.json({
+      videoId,
+      duration: Number(info.videoDetails.lengthSeconds) || 0,
+      formats: downloadableFormats(info.formats).map(describeFormat),
+    });
+  } catch (err) {
+    console.error('[YouTube Formats] Error:', err.message);
+    sendDownloadError(res, err, "Failed to list formats");
+  }
+});
+
+// Qualities the download endpoint works with, and the yt-dlp format used for each when the video info is unavailable
+const YOUTUBE_QUALITY_FORMATS = {
+  '2160p': 'bestvideo[height<=2160]+bestaudio/best[height<=2160]',
+  '1440p': 'bestvideo[height<=1440]+bestaudio/best[height<=1440]',
+  '1080p': 'bestvideo[height<=1080]+bestaudio/best[height<=1080]',
+  '720p': 'bestvideo[height<=720]+bestaudio/best[height<=720]',
+  '480p': 'bestvideo[height<=480]+bestaudio/best[height<=480]',
+  '360p': 'bestvideo[height<=360]+bestaudio/best[height<=360]',
+  '240p': 'bestvideo[height<=240]+bestaudio/best[height<=240]',
+  '144p': 'bestvideo[height<=144]+bestaudio/best[height<=144]',
+};
+
+// Map a requested quality label ("1080p", "1080p60", "2160p60 HDR") to the highest listed
+// quality not above it; returns null for anything that is not a quality label
+function toYouTubeQuality(label) {
+  const match = typeof label === 'string' ? /^(\d{3,4})p(\d{2,3})?( HDR)?$/.exec(label) : null;
+  if (!match) return null;
+  const height = Number(match[1]);
+  return Object.keys(YOUTUBE_QUALITY_FORMATS).find((quality) => parseInt(quality, 10) <= height) || '144p';
+}
+
 // === DOWNLOAD ENDPOINT (ONLY FOR CONTENT YOU OWN!) ====
 app.get("/api/youtube/download", async (req, res) => {
   const videoId = req.query.id;
-  const quality = req.query.quality || '720p';
+  const quality = toYouTubeQuality(req.query.quality || '720p');
   const format = req.query.format || 'mp4';
+  // Exact format from /api/youtube/formats: an itag, or video and audio itags joined by "+"
+  const formatId = req.query.formatId;
+  // MP3 bitrate in kbps; yt-dlp encodes at it, ytdl-core sends the original audio to be encoded by the client
+  const audioBitrate = req.query.audioBitrate;
 
   if (!videoId) {
     return res.status(400).json({ error: "Missing id" });
   }
+  // The ID and quality end up in a file path and in the yt-dlp arguments
+  if (typeof videoId !== 'string' || !/^[\w-]{11}$/.test(videoId)) {
+    return res.status(400).json({ error: "Invalid id" });
+  }
+  if (!quality) {
+    return res.status(400).json({ error: "Invalid quality" });
+  }
+  if (format !== 'mp4' && format !== 'mp3') {
+    return res.status(400).json({ error: "Invalid format" });
+  }
+  if (formatId && !/^\d+(\+\d+)?$/.test(formatId)) {
+    return res.status(400).json({ error: "Invalid formatId" });
+  }
+  if (audioBitrate && !/^\d{2,3}$/.test(audioBitrate)) {
+    return res.status(400).json({ error: "Invalid audioBitrate" });
+  }
 
   try {
     console.log(`[YouTube Download] Starting download for video: ${videoId}, quality: ${quality}, format: ${format}`);
     
     // Try to get video info for title (optional, may fail)
     let title = `video_${videoId}`;
+    let info = null;
     try {
-    const info = await ytdl.getInfo(videoId);
+      info = await ytdl.getInfo(videoId);
       title = info.videoDetails.title || title;
       console.log(`[YouTube Download] Video title: ${title}`);
     } catch (infoError) {
       console.warn(`[YouTube Download] Could not get video info, using default title:`, infoError.message);
     }
 
+    // Pick the exact formats to download
+    let chosenFormats = null;
+    if (info) {
+      chosenFormats = chooseYouTubeFormats(info, { formatId, quality, format });
+      if (!chosenFormats) {
+        return res.status(422).json({
+          error: "Format not available",
+          details: `Format ${formatId} is no longer offered for this video. Please choose another quality.`,
+          code: 'unsupported-format',
+        });
+      }
+      console.log(`[YouTube Download] Formats: ${chosenFormats.map((chosen) => `${chosen.itag} (${chosen.mimeType})`).join(' + ')}`);
+    }
+    // The format, or "video+audio" pair, in the itag notation yt-dlp also uses
+    const formatSelector = chosenFormats?.length ? chosenFormats.map((chosen) => chosen.itag).join('+') : formatId;
+
     // Sanitize filename
     const sanitizedTitle = title.replace(/[^a-z0-9]/gi, '_').substring(0, 100);
     const fileExtension = format === 'mp3' ? 'mp3' : 'mp4';
@@ -195,55 +557,120 @@ app.get("/api/youtube/download", async (req, res) => {
     res.setHeader("Content-Type", format === 'mp3' ? "audio/mpeg" : "video/mp4");
     res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
 
-    // Select format based on quality and format type
-    let downloadOptions = {};
-    
-    if (format === 'mp3') {
-      // For audio, get the best audio format
-      downloadOptions = { filter: 'audioonly', quality: 'highestaudio' };
-    } else {
-      // For video, use quality parameter
-      // ytdl-core quality options: 'lowest', 'lowestvideo', 'highest', 'highestvideo', or itag number
-      const qualityMap = {
-        '1080p': 'highest',
-        '720p': 'highest',
-        '480p': 'highest',
-        '360p': 'lowest'
-      };
-      
-      const qualityOption = qualityMap[quality] || 'highest';
-      downloadOptions = { quality: qualityOption };
+    const tempFileName = path.basename(
+      format === 'mp3' ? `${videoId}_${audioBitrate || 'best'}.mp3` : `${videoId}_${formatSelector || quality}.${fileExtension}`
+    );
+    const tempFile = path.resolve(TEMP_DIR, tempFileName);
+    // Kept files are served and deleted, so the path must never leave the temp directory
+    if (path.dirname(tempFile) !== path.resolve(TEMP_DIR)) {
+      return res.status(400).json({ error: "Invalid download parameters" });
     }
 
-    console.log(`[YouTube Download] Download options: ${JSON.stringify(downloadOptions)}`);
+    // Stream the file, honouring Range. It is removed once the client has received
+    // the end of it, and kept for a resume if the transfer is interrupted.
+    const sendTempFile = () => {
+      const stats = fs.statSync(tempFile);
+      const range = writeRangeHeaders(req, res, stats.size, `"${stats.size}-${Math.round(stats.mtimeMs)}"`);
+      if (!range) return;
+
+      const fileStream = fs.createReadStream(tempFile, range);
+      fileStream.pipe(res);
+
+      res.on('finish', () => {
+        if (range.end === stats.size - 1 && fs.existsSync(tempFile)) {
+          fs.unlinkSync(tempFile);
+          console.log(`[YouTube Download] Completed and cleaned up: ${videoId}`);
+        }
+      });
+
+      fileStream.on('error', (err) => {
+        console.error('[YouTube Download] File stream error:', err);
+        if (!res.headersSent) {
+          res.status(500).json({ error: "File stream error", details: err.message });
+        } else {
+          res.end();
+        }
+      });
+    };
+
+    // Separate video and audio formats are merged into the temp file with ffmpeg
+    const mergeWithYtdlCore = async () => {
+      const [videoFormat, audioFormat] = chosenFormats;
+      if (fs.existsSync(tempFile)) {
+        console.log(`[YouTube Download] Serving kept file for ${videoId}`);
+        return sendTempFile();
+      }
+      if (!(await commandExists('ffmpeg'))) {
+        return res.status(501).json({
+          error: "Cannot merge video and audio",
+          details: "This quality has separate video and audio streams. Install yt-dlp or ffmpeg on the server to download it.",
+          code: 'unsupported-format',
+        });
+      }
+
+      try {
+        fs.mkdirSync(TEMP_DIR, { recursive: true });
+        console.log(`[YouTube Download] Merging formats ${formatSelector} with ffmpeg`);
+        await mergeWithFfmpeg(info, videoFormat, audioFormat, tempFile);
+        sendTempFile();
+      } catch (mergeError) {
+        console.error('[YouTube Download] Merge error:', mergeError);
+        if (!res.headersSent) {
+          res.status(500).json({ error: "Merge failed", details: mergeError.message });
+        }
+      }
+    };
 
     // Helper function to download with ytdl-core
     const downloadWithYtdlCore = () => {
-      // Download and stream - use direct ytdl call (simpler, more reliable)
-      const stream = ytdl(videoId, downloadOptions);
+      if (chosenFormats?.length === 2) {
+        return mergeWithYtdlCore();
+      }
+
+      let stream = null;
+
+      // With the video info, the size of the chosen format is known, so Range requests can be honoured
+      const [chosenFormat] = chosenFormats || [];
+      // ytdl-core cannot encode MP3: send the audio as it is, with its real type
+      if (format === 'mp3' && chosenFormat?.mimeType) {
+        res.setHeader("Content-Type", chosenFormat.mimeType.split(';')[0]);
+      }
+      const size = Number(chosenFormat?.contentLength);
+      if (size > 0) {
+        const range = writeRangeHeaders(req, res, size, `"${videoId}-${chosenFormat.itag}-${size}"`);
+        if (!range) return;
+        stream = ytdl.downloadFromInfo(info, { format: chosenFormat, range });
+      } else if (chosenFormat) {
+        stream = ytdl.downloadFromInfo(info, { format: chosenFormat });
+      }
+
+      if (!stream) {
+        // Without the video info, let ytdl-core pick the requested itag, or the best file with video and audio
+        let downloadOptions = { filter: 'audioandvideo', quality: 'highest' };
+        if (format === 'mp3') {
+          downloadOptions = { filter: 'audioonly', quality: 'highestaudio' };
+        } else if (formatId && !formatId.includes('+')) {
+          downloadOptions = { quality: formatId };
+        }
+        console.log(`[YouTube Download] Download options: ${JSON.stringify(downloadOptions)}`);
+        stream = ytdl(videoId, downloadOptions);
+
+        // Send the size of the chosen format so the client can show byte-level progress
+        stream.on('info', (_info, streamFormat) => {
+          if (streamFormat?.contentLength && !res.headersSent) {
+            res.setHeader("Content-Length", streamFormat.contentLength);
+          }
+          if (format === 'mp3' && streamFormat?.mimeType && !res.headersSent) {
+            res.setHeader("Content-Type", streamFormat.mimeType.split(';')[0]);
+          }
+        });
+      }
       
       // Handle stream errors
       stream.on('error', (error) => {
         console.error('[YouTube Download] Stream error:', error);
         if (!res.headersSent) {
-          let statusCode = 500;
-          let errorMessage = "Stream error";
-          
-          if (error.statusCode === 403) {
-            statusCode = 403;
-            errorMessage = "YouTube is blocking this download. This may be due to YouTube's recent API changes. Please try again later or use a different video.";
-          } else if (error.statusCode === 404) {
-            statusCode = 404;
-            errorMessage = "Video not found or unavailable.";
-          } else if (error.message?.includes('403')) {
-            statusCode = 403;
-            errorMessage = "Access denied. YouTube may be blocking downloads for this video.";
-          }
-          
-          res.status(statusCode).json({ 
-            error: errorMessage, 
-            details: error.message 
-          });
+          sendDownloadError(res, error, "Stream error");
         } else {
           // Headers already sent, end the response
           res.end();
@@ -269,33 +696,32 @@ app.get("/api/youtube/download", async (req, res) => {
         
         try {
           // Use yt-dlp for more reliable downloads
-          const tempDir = path.join(__dirname, 'temp');
-          if (!fs.existsSync(tempDir)) {
-            fs.mkdirSync(tempDir, { recursive: true });
+          if (!fs.existsSync(TEMP_DIR)) {
+            fs.mkdirSync(TEMP_DIR, { recursive: true });
           }
           
-          const tempFile = path.join(tempDir, `${videoId}.${fileExtension}`);
+          // A previous transfer of this file was interrupted: continue from it
+          if (fs.existsSync(tempFile)) {
+            console.log(`[YouTube Download] Serving kept file for ${videoId}`);
+            return sendTempFile();
+          }
+
           const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
           
-          // Build yt-dlp command
-          let ytDlpCmd = 'yt-dlp';
+          // Build yt-dlp arguments; they are passed without a shell
+          let ytDlpArgs;
           if (format === 'mp3') {
-            ytDlpCmd += ` -f "bestaudio" -x --audio-format mp3 -o "${tempFile}" "${videoUrl}"`;
+            const audioQuality = audioBitrate ? ['--audio-quality', `${audioBitrate}K`] : [];
+            ytDlpArgs = ['-f', formatSelector || 'bestaudio', '-x', '--audio-format', 'mp3', ...audioQuality, '-o', tempFile, videoUrl];
           } else {
-            // Map quality to yt-dlp format
-            const qualityMap = {
-              '1080p': 'bestvideo[height<=1080]+bestaudio/best[height<=1080]',
-              '720p': 'bestvideo[height<=720]+bestaudio/best[height<=720]',
-              '480p': 'bestvideo[height<=480]+bestaudio/best[height<=480]',
-              '360p': 'bestvideo[height<=360]+bestaudio/best[height<=360]'
-            };
-            const formatSpec = qualityMap[quality] || 'best';
-            ytDlpCmd += ` -f "${formatSpec}" -o "${tempFile}" "${videoUrl}"`;
+            // Without the video info, map quality to a yt-dlp format
+            const formatSpec = formatSelector || YOUTUBE_QUALITY_FORMATS[quality];
+            ytDlpArgs = ['-f', formatSpec, '--merge-output-format', 'mp4', '-o', tempFile, videoUrl];
           }
           
-          console.log(`[YouTube Download] Using yt-dlp: ${ytDlpCmd}`);
+          console.log(`[YouTube Download] Using yt-dlp: yt-dlp ${ytDlpArgs.join(' ')}`);
           
-          exec(ytDlpCmd, { timeout: 300000 }, (error, stdout, stderr) => {
+          execFile('yt-dlp', ytDlpArgs, { timeout: 300000 }, (error) => {
             if (error) {
               console.error('[YouTube Download] yt-dlp error:', error);
               // Fallback to ytdl-core
@@ -309,25 +735,7 @@ app.get("/api/youtube/download", async (req, res) => {
               return downloadWithYtdlCore();
             }
             
-            // Stream the file
-            const fileStream = fs.createReadStream(tempFile);
-            fileStream.pipe(res);
-            
-            fileStream.on('end', () => {
-              // Clean up temp file
-              fs.unlinkSync(tempFile);
-              console.log(`[YouTube Download] Completed and cleaned up: ${videoId}`);
-            });
-            
-            fileStream.on('error', (err) => {
-              console.error('[YouTube Download] File stream error:', err);
-              if (fs.existsSync(tempFile)) {
-                fs.unlinkSync(tempFile);
-              }
-              if (!res.headersSent) {
-                res.status(500).json({ error: "File stream error", details: err.message });
-              }
-            });
+            sendTempFile();
           });
         } catch (ytDlpError) {
           console.warn('[YouTube Download] yt-dlp failed, falling back:', ytDlpError.message);
@@ -341,36 +749,124 @@ app.get("/api/youtube/download", async (req, res) => {
     
   } catch (err) {
     console.error('[YouTube Download] Error:', err);
-    let errorMessage = err.message || 'Download failed';
-    let statusCode = 500;
-    
-    // Handle specific error types
-    if (err.message?.includes('not found') || err.statusCode === 404) {
-      statusCode = 404;
-      errorMessage = 'Video not found or unavailable for download.';
-    } else if (err.message?.includes('private') || err.statusCode === 403 || err.message?.includes('403')) {
-      statusCode = 403;
-      errorMessage = 'Access denied. The video may be private, age-restricted, or YouTube is blocking downloads.';
-    } else if (err.message?.includes('Could not extract')) {
-      statusCode = 503;
-      errorMessage = 'YouTube download service is temporarily unavailable due to API changes. Please try again later.';
-    }
-    
     if (!res.headersSent) {
-      res.status(statusCode).json({ 
-        error: "Download failed", 
-        details: errorMessage 
-      });
+      sendDownloadError(res, err, "Download failed");
     }
   }
 });
 
+// === INSTAGRAM SCRAPING HELPER =========================
+// Instagram shortcodes (instagram.com/p/CODE, /reel/CODE) are not Graph API media IDs,
+// so posts are read from the page like TikTok videos are
+async function scrapeInstagramPost(url) {
+  const shortcode = (url.match(/instagram\.com\/(?:[\w.]+\/)?(?:p|reels?|tv)\/([a-zA-Z0-9_-]+)/i) || [])[1];
+  if (!shortcode) {
+    throw new Error('Invalid Instagram URL format');
+  }
+  const isReel = /\/reels?\//i.test(url);
+
+  let browser;
+  try {
+    browser = await puppeteer.launch({
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    });
+
+    const page = await browser.newPage();
+    await page.setUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+    );
+
+    // The embed page is served without a login and carries the post data
+    await page.goto(`https://www.instagram.com/p/${shortcode}/embed/captioned/`, {
+      waitUntil: 'networkidle2',
+      timeout: 30000,
+    });
+
+    const postData = await page.evaluate(() => {
+      // Post data is embedded as escaped JSON in a script tag; unescape it so it can be searched
+      const html = document.documentElement.innerHTML.replace(/\\\//g, '/').replace(/\\"/g, '"');
+      const readField = (name) => {
+        const match = html.match(new RegExp(`"${name}":"([^"]*)"`));
+        if (!match) return '';
+        try {
+          return JSON.parse(`"${match[1]}"`);
+        } catch {
+          return match[1];
+        }
+      };
+      const readNumber = (pattern) => {
+        const match = html.match(new RegExp(`${pattern}:([\\d.]+)`));
+        return match ? Number(match[1]) : 0;
+      };
+
+      return {
+        videoUrl: readField('video_url') || document.querySelector('video')?.getAttribute('src') || '',
+        thumbnail: readField('display_url') || document.querySelector('.EmbeddedMediaImage')?.getAttribute('src') || '',
+        caption: document.querySelector('.Caption')?.textContent?.trim() || '',
+        author: readField('username') || document.querySelector('.UsernameText')?.textContent?.trim() || '',
+        duration: readNumber('"video_duration"'),
+        likeCount: readNumber('"edge_liked_by":\\{"count"'),
+        timestamp: readNumber('"taken_at_timestamp"'),
+      };
+    });
+
+    if (!postData.videoUrl && !postData.thumbnail) {
+      throw new Error('Could not extract post data from Instagram page. The post may be private or deleted.');
+    }
+
+    // The caption block starts with the username
+    const caption = postData.author && postData.caption.startsWith(postData.author)
+      ? postData.caption.substring(postData.author.length).trim()
+      : postData.caption;
+
+    return {
+      postId: isReel ? undefined : shortcode,
+      reelId: isReel ? shortcode : undefined,
+      caption,
+      thumbnail: postData.thumbnail,
+      duration: postData.duration,
+      author: postData.author,
+      likeCount: postData.likeCount,
+      postDate: postData.timestamp ? new Date(postData.timestamp * 1000).toISOString() : undefined,
+      isReel,
+      videoUrl: postData.videoUrl,
+    };
+  } finally {
+    if (browser) {
+      await browser.close();
+    }
+  }
+}
+
+// Status code for an Instagram scraping failure
+function instagramErrorStatus(error) {
+  if (error.message?.includes('Invalid Instagram URL')) return 400;
+  if (error.message?.includes('private or deleted')) return 404;
+  return 500;
+}
+
 // === INSTAGRAM METADATA PROXY ===========================
 app.get("/api/instagram", async (req, res) => {
+  const postUrl = req.query.url;
   const postId = req.query.id || req.query.postId;
   const userId = process.env.IG_USER_ID; // Instagram Business Account ID
   const token = process.env.IG_ACCESS_TOKEN;
 
+  // Posts and reels by URL or shortcode; the Graph API below only takes numeric media IDs
+  if (postUrl || (postId && !/^\d+$/.test(postId))) {
+    try {
+      const postData = await scrapeInstagramPost(postUrl || `https://www.instagram.com/p/${postId}/`);
+      return res.json(postData);
+    } catch (error) {
+      console.error('Instagram scraping error:', error);
+      return res.status(instagramErrorStatus(error)).json({
+        error: "Instagram scraping failed",
+        details: error.message
+      });
+    }
+  }
+
   if (!postId && !userId) {
     return res.status(400).json({ error: "Missing id or userId" });
   }
@@ -512,10 +1008,7 @@ app.get("/api/tiktok", async (req, res) => {
     });
   } catch (error) {
     console.error('TikTok scraping error:', error);
-    res.status(500).json({ 
-      error: "TikTok scraping failed", 
-      details: error.message 
-    });
+    sendDownloadError(res, error, "TikTok scraping failed");
   }
 });
 
@@ -558,21 +1051,206 @@ app.get("/api/tiktok/download", async (req, res) => {
     res.setHeader('Content-Disposition', `attachment; filename="tiktok_${videoData.videoId}.mp4"`);
 
     // Stream video from TikTok CDN
-    const videoResponse = await axios.get(downloadUrl, {
-      responseType: 'stream',
-      headers: {
-        'Referer': 'https://www.tiktok.com/',
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      },
-    });
-
-    videoResponse.data.pipe(res);
+    await proxyMediaStream(req, res, downloadUrl, 'https://www.tiktok.com/');
   } catch (error) {
     console.error('TikTok download error:', error);
-    res.status(500).json({ 
-      error: "TikTok download failed", 
-      details: error.message 
+    if (!res.headersSent) {
+      sendDownloadError(res, error, "TikTok download failed");
+    }
+  }
+});
+
+// === INSTAGRAM DOWNLOAD PROXY ===========================
+app.get("/api/instagram/download", async (req, res) => {
+  const postId = req.query.id;
+  const postUrl = req.query.url;
+
+  if (!postId && !postUrl) {
+    return res.status(400).json({ error: "Missing id or url" });
+  }
+
+  try {
+    const postData = await scrapeInstagramPost(postUrl || `https://www.instagram.com/p/${postId}/`);
+
+    if (!postData.videoUrl) {
+      return res.status(404).json({
+        error: "Instagram download failed",
+        details: "This post does not contain a video."
+      });
+    }
+
+    const shortcode = postData.reelId || postData.postId;
+    res.setHeader('Content-Type', 'video/mp4');
+    res.setHeader('Content-Disposition', `attachment; filename="instagram_${shortcode}.mp4"`);
+
+    // Stream video from Instagram CDN
+    await proxyMediaStream(req, res, postData.videoUrl, 'https://www.instagram.com/');
+  } catch (error) {
+    console.error('Instagram download error:', error);
+    if (!res.headersSent) {
+      sendDownloadError(res, error, "Instagram download failed");
+    }
+  }
+});
+
+// === CREATOR FEEDS ======================================
+// Latest uploads of a YouTube channel or TikTok creator, for subscriptions.
+// Both endpoints respond with { name, uploads: [{ videoId, url, title, duration,
+// thumbnail, publishedAt, isShort }] }; scripts/stub-feed-server.cjs serves the
+// same shape with made-up uploads for testing.
+
+const FEED_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+function decodeXmlText(text) {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Channel ID (UC...) of a channel URL, @handle or ID
+async function resolveYouTubeChannelId(source) {
+  if (/^UC[\w-]{22}$/.test(source)) return source;
+
+  const idInUrl = source.match(/youtube\.com\/channel\/(UC[\w-]{22})/i);
+  if (idInUrl) return idInUrl[1];
+
+  const pageUrl = source.startsWith('@') ? `https://www.youtube.com/${source}` : source;
+  if (!/^https?:\/\/(www\.|m\.)?youtube\.com\//i.test(pageUrl)) {
+    throw Object.assign(new Error('Not a YouTube channel'), { status: 400 });
+  }
+
+  let page;
+  try {
+    page = await axios.get(pageUrl, { headers: { 'User-Agent': FEED_USER_AGENT, 'Accept-Language': 'en' }, timeout: 15000 });
+  } catch (error) {
+    if (error.response?.status === 404) {
+      throw Object.assign(new Error('Channel not found'), { status: 404 });
+    }
+    throw error;
+  }
+  const match =
+    page.data.match(/<link rel="canonical" href="https:\/\/www\.youtube\.com\/channel\/(UC[\w-]{22})"/) ||
+    page.data.match(/"externalId":"(UC[\w-]{22})"/);
+  if (!match) {
+    throw Object.assign(new Error('Channel not found'), { status: 404 });
+  }
+  return match[1];
+}
+
+// YouTube's channel feed lists the 15 latest uploads; Shorts link to /shorts/
+function parseYouTubeFeed(xml) {
+  const readTag = (text, pattern) => decodeXmlText((text.match(pattern) || [])[1] || '');
+  const uploads = [...xml.matchAll(/<entry>([\s\S]*?)<\/entry>/g)].map(([, entry]) => {
+    const videoId = readTag(entry, /<yt:videoId>([^<]*)<\/yt:videoId>/);
+    const link = readTag(entry, /<link rel="alternate" href="([^"]*)"/);
+    return {
+      videoId,
+      url: link || `https://www.youtube.com/watch?v=${videoId}`,
+      title: readTag(entry, /<title>([^<]*)<\/title>/),
+      duration: 0, // not in the feed
+      thumbnail: readTag(entry, /<media:thumbnail url="([^"]*)"/),
+      publishedAt: readTag(entry, /<published>([^<]*)<\/published>/),
+      isShort: link.includes('/shorts/'),
+    };
+  });
+
+  return { name: readTag(xml, /<title>([^<]*)<\/title>/), uploads };
+}
+
+app.get("/api/feeds/youtube", async (req, res) => {
+  const source = String(req.query.source || '').trim();
+  if (!source) {
+    return res.status(400).json({ error: "Missing source" });
+  }
+
+  try {
+    const channelId = await resolveYouTubeChannelId(source);
+    const feed = await axios.get(`https://www.youtube.com/feeds/videos.xml?channel_id=${channelId}`, {
+      headers: { 'User-Agent': FEED_USER_AGENT },
+      timeout: 15000,
     });
+    res.json(parseYouTubeFeed(feed.data));
+  } catch (error) {
+    console.error('[Feeds] YouTube feed error:', error.message);
+    const status = error.status || (error.response?.status === 404 ? 404 : 500);
+    res.status(status).json({ error: "YouTube feed failed", details: error.message });
+  }
+});
+
+// Latest videos of a TikTok creator, read from the item list the profile page loads
+async function scrapeTikTokUploads(username) {
+  let browser;
+  try {
+    browser = await puppeteer.launch({
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    });
+
+    const page = await browser.newPage();
+    await page.setUserAgent(FEED_USER_AGENT);
+
+    const items = [];
+    page.on('response', async (response) => {
+      if (!response.url().includes('/api/post/item_list')) return;
+      try {
+        const data = await response.json();
+        items.push(...(data.itemList || []));
+      } catch {
+        // Not JSON (e.g. a captcha page); the profile is then reported as empty
+      }
+    });
+
+    const pageResponse = await page.goto(`https://www.tiktok.com/@${encodeURIComponent(username)}`, {
+      waitUntil: 'networkidle2',
+      timeout: 30000,
+    });
+    if (pageResponse && pageResponse.status() === 404) {
+      throw Object.assign(new Error('Creator not found'), { status: 404 });
+    }
+
+    const name = await page.evaluate(() => {
+      const script = document.getElementById('__UNIVERSAL_DATA_FOR_REHYDRATION__');
+      try {
+        const data = JSON.parse(script?.textContent || '{}');
+        return data?.__DEFAULT_SCOPE__?.['webapp.user-detail']?.userInfo?.user?.nickname || '';
+      } catch {
+        return '';
+      }
+    });
+
+    return {
+      name: name || `@${username}`,
+      uploads: items.map((item) => ({
+        videoId: item.id,
+        url: `https://www.tiktok.com/@${item.author?.uniqueId || username}/video/${item.id}`,
+        title: (item.desc || '').split('\n')[0].trim() || 'TikTok Video',
+        duration: item.video?.duration || 0,
+        thumbnail: item.video?.cover || '',
+        publishedAt: new Date((item.createTime || 0) * 1000).toISOString(),
+        isShort: false,
+      })),
+    };
+  } finally {
+    if (browser) {
+      await browser.close();
+    }
+  }
+}
+
+app.get("/api/feeds/tiktok", async (req, res) => {
+  const username = String(req.query.source || '').trim().replace(/^@/, '');
+  if (!/^[\w.-]+$/.test(username)) {
+    return res.status(400).json({ error: "Missing or invalid source" });
+  }
+
+  try {
+    res.json(await scrapeTikTokUploads(username));
+  } catch (error) {
+    console.error('[Feeds] TikTok feed error:', error.message);
+    res.status(error.status || 500).json({ error: "TikTok feed failed", details: error.message });
   }
 });
 
@@ -581,8 +1259,222 @@ app.get("/health", (req, res) => {
   res.json({ status: "ok", port: PORT });
 });
 
-app.listen(PORT, () => {
+// === WATCH-TOGETHER ROOMS ===============================
+// Every participant plays their own library copy of the video; the server only
+// relays playback state. The state is stored as "position at updatedAt" so a
+// client can extrapolate the expected position at any moment and correct drift.
+const ROOMS_PATH = "/ws/rooms";
+const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const HEARTBEAT_INTERVAL = 30000;
+const rooms = new Map();
+
+function generateRoomCode() {
+  let code;
+  do {
+    code = Array.from({ length: 6 }, () =>
+      ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)]
+    ).join("");
+  } while (rooms.has(code));
+  return code;
+}
+
+function sendMessage(socket, message) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify({ ...message, serverTime: Date.now() }));
+  }
+}
+
+function broadcast(room, message) {
+  for (const participant of room.participants.values()) {
+    sendMessage(participant.socket, message);
+  }
+}
+
+function describeParticipants(room) {
+  return Array.from(room.participants.values()).map((participant) => ({
+    id: participant.id,
+    name: participant.name,
+    hasVideo: participant.hasVideo,
+    isHost: participant.id === room.hostId,
+  }));
+}
+
+// Extrapolate the shared position to "now" before applying a new action
+function currentPosition(state) {
+  if (!state.playing) return state.position;
+  return state.position + ((Date.now() - state.updatedAt) / 1000) * state.rate;
+}
+
+function leaveRoom(socket) {
+  const room = rooms.get(socket.roomCode);
+  if (!room) return;
+
+  room.participants.delete(socket.participantId);
+  socket.roomCode = null;
+
+  if (room.participants.size === 0) {
+    rooms.delete(room.code);
+    console.log(`[Rooms] Room ${room.code} closed`);
+    return;
+  }
+
+  // Hand the room over to the longest-present participant who has the video
+  if (room.hostId === socket.participantId) {
+    const nextHost =
+      Array.from(room.participants.values()).find((p) => p.hasVideo) ||
+      room.participants.values().next().value;
+    room.hostId = nextHost.id;
+  }
+
+  broadcast(room, { type: "presence", participants: describeParticipants(room) });
+}
+
+function handleJoin(socket, message) {
+  const video = message.video || {};
+  if (!video.key) {
+    return sendMessage(socket, { type: "error", message: "A video is required to join a room" });
+  }
+
+  leaveRoom(socket);
+
+  let room;
+  const code = typeof message.code === "string" ? message.code.trim().toUpperCase() : "";
+  if (code) {
+    room = rooms.get(code);
+    if (!room) {
+      return sendMessage(socket, { type: "error", message: `Room ${code} does not exist` });
+    }
+  } else {
+    room = {
+      code: generateRoomCode(),
+      hostId: socket.participantId,
+      video: { key: video.key, url: video.url || "", title: video.title || "Untitled Video" },
+      state: { playing: false, position: 0, rate: 1, updatedAt: Date.now() },
+      participants: new Map(),
+    };
+    rooms.set(room.code, room);
+    console.log(`[Rooms] Room ${room.code} created for ${room.video.key}`);
+  }
+
+  const name = String(message.name || "Guest").trim().substring(0, 40) || "Guest";
+  room.participants.set(socket.participantId, {
+    id: socket.participantId,
+    name,
+    socket,
+    hasVideo: video.key === room.video.key,
+  });
+  socket.roomCode = room.code;
+
+  sendMessage(socket, {
+    type: "joined",
+    code: room.code,
+    selfId: socket.participantId,
+    video: room.video,
+    state: room.state,
+    participants: describeParticipants(room),
+  });
+  broadcast(room, { type: "presence", participants: describeParticipants(room) });
+}
+
+function handleControl(socket, message) {
+  const room = rooms.get(socket.roomCode);
+  if (!room) return;
+
+  // Peers without the video cannot drive playback they are not watching
+  const participant = room.participants.get(socket.participantId);
+  if (!participant || !participant.hasVideo) return;
+
+  const state = room.state;
+  const position = Number.isFinite(message.position) ? Math.max(0, message.position) : currentPosition(state);
+
+  switch (message.action) {
+    case "play":
+      room.state = { ...state, playing: true, position, updatedAt: Date.now() };
+      break;
+    case "pause":
+      room.state = { ...state, playing: false, position, updatedAt: Date.now() };
+      break;
+    case "seek":
+      room.state = { ...state, position, updatedAt: Date.now() };
+      break;
+    case "rate": {
+      const rate = Number(message.rate);
+      if (!Number.isFinite(rate) || rate <= 0 || rate > 4) return;
+      room.state = { ...state, rate, position: currentPosition(state), updatedAt: Date.now() };
+      break;
+    }
+    default:
+      return;
+  }
+
+  broadcast(room, { type: "state", state: room.state, by: participant.id });
+}
+
+// Remove temp files of downloads that were never resumed
+cleanupTempFiles();
+setInterval(cleanupTempFiles, TEMP_FILE_MAX_AGE_MS).unref();
+
+const server = app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`Health check: http://localhost:${PORT}/health`);
+  console.log(`Watch-together rooms: ws://localhost:${PORT}${ROOMS_PATH}`);
+});
+
+const wss = new WebSocketServer({ server, path: ROOMS_PATH });
+
+wss.on("connection", (socket) => {
+  socket.participantId = `p_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 8)}`;
+  socket.roomCode = null;
+  socket.isAlive = true;
+
+  socket.on("pong", () => {
+    socket.isAlive = true;
+  });
+
+  socket.on("message", (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return sendMessage(socket, { type: "error", message: "Invalid message" });
+    }
+
+    switch (message.type) {
+      case "join":
+        handleJoin(socket, message);
+        break;
+      case "leave":
+        leaveRoom(socket);
+        break;
+      case "control":
+        handleControl(socket, message);
+        break;
+      case "ping":
+        // Clock sync: the client combines clientTime and serverTime to estimate its offset
+        sendMessage(socket, { type: "pong", clientTime: message.clientTime });
+        break;
+      default:
+        sendMessage(socket, { type: "error", message: `Unknown message type: ${message.type}` });
+    }
+  });
+
+  socket.on("close", () => leaveRoom(socket));
+  socket.on("error", (error) => {
+    console.error("[Rooms] Socket error:", error.message);
+  });
 });
 
+// Drop sockets that stopped answering pings so rooms don't keep ghost participants
+const heartbeat = setInterval(() => {
+  for (const socket of wss.clients) {
+    if (!socket.isAlive) {
+      socket.terminate();
+      continue;
+    }
+    socket.isAlive = false;
+    socket.ping();
+  }
+}, HEARTBEAT_INTERVAL);
+
+wss.on("close", () => clearInterval(heartbeat));
+
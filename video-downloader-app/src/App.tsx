@@ -5,7 +5,6 @@ import { KeyboardShortcutsProvider } from './contexts/KeyboardShortcutsContext';
 import { Layout } from './components/Layout';
 import { ScrollToTop } from './components/ScrollToTop';
 import { OfflineBanner } from './components/OfflineBanner';
-import { OfflineQueueProcessor } from './components/OfflineQueueProcessor';
 import NotificationContainer from './components/NotificationContainer';
 import ErrorBoundary from './components/ErrorBoundary';
 import HomePage from './pages/Home';
@@ -16,6 +15,9 @@ import CollectionDetailPage from './pages/CollectionDetail';
 import VideoDetailPage from './pages/VideoDetail';
 import NotificationsPage from './pages/Notifications';
 import TagsManagerPage from './pages/TagsManager';
+import DuplicatesPage from './pages/Duplicates';
+import TrashPage from './pages/Trash';
+import SubscriptionsPage from './pages/Subscriptions';
 import SettingsPage from './pages/Settings';
 import SharedWithMePage from './pages/SharedWithMe';
 import HowItWorksPage from './pages/HowItWorks';
@@ -31,7 +33,6 @@ function App() {
             <Router>
               <ScrollToTop />
               <OfflineBanner />
-              <OfflineQueueProcessor />
               <NotificationContainer />
               <Layout>
                 <ErrorBoundary>
@@ -44,6 +45,9 @@ function App() {
                     <Route path="/video/:id" element={<VideoDetailPage />} />
                     <Route path="/notifications" element={<NotificationsPage />} />
                     <Route path="/tags" element={<TagsManagerPage />} />
+                    <Route path="/duplicates" element={<DuplicatesPage />} />
+                    <Route path="/trash" element={<TrashPage />} />
+                    <Route path="/subscriptions" element={<SubscriptionsPage />} />
                     <Route path="/settings" element={<SettingsPage />} />
                     <Route path="/shared-with-me" element={<SharedWithMePage />} />
                     <Route path="/how-it-works" element={<HowItWorksPage />} />
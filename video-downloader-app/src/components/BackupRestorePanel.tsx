@@ -0,0 +1,278 @@
+import { useState, useRef } from 'react';
+import { Archive, FileUp, Loader2, RotateCcw, AlertTriangle, CheckCircle } from 'lucide-react';
+import { backupService } from '../services/backupService';
+import type { BackupArchive } from '../services/backupService';
+import { storageManager, StorageQuotaError } from '../services/storageManager';
+import { useSettings } from '../contexts/SettingsContext';
+import { useNotifications } from '../contexts/NotificationContext';
+import ConfirmModal from './ConfirmModal';
+import type { BackupProgress, RestoreMode, RestoreResult, StoragePolicy } from '../types';
+
+// Format bytes to human-readable
+const formatBytes = (bytes: number): string => {
+  if (bytes <= 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`;
+};
+
+const MODE_DESCRIPTIONS: Record<RestoreMode, string> = {
+  merge: 'Add videos, collections and tag groups that are missing. Nothing in your library is removed.',
+  replace: 'Delete your current library and trash first, so it matches the backup exactly.',
+};
+
+/**
+ * Create full library backups and restore them
+ */
+export const BackupRestorePanel = () => {
+  const { exportSettings, importSettings } = useSettings();
+  const { showSuccess, showError, showWarning } = useNotifications();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [progress, setProgress] = useState<BackupProgress | null>(null);
+  const [busy, setBusy] = useState<'backup' | 'restore' | null>(null);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const [showReplaceModal, setShowReplaceModal] = useState(false);
+
+  const handleCreateBackup = async () => {
+    try {
+      setBusy('backup');
+      const manifest = await backupService.saveBackup(
+        { settings: JSON.parse(exportSettings()), storagePolicy: { ...storageManager.getPolicy() } },
+        setProgress
+      );
+      showSuccess(`Backup created with ${manifest.videos.length} video${manifest.videos.length !== 1 ? 's' : ''}`);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Failed to create backup:', error);
+      showError('Failed to create backup. Please try again.');
+    } finally {
+      setBusy(null);
+      setProgress(null);
+    }
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const opened = await backupService.openBackup(file);
+      setArchive(opened);
+      setMode(opened.pendingJob?.mode ?? 'merge');
+      setResult(null);
+    } catch (error) {
+      console.error('Failed to open backup:', error);
+      showError(error instanceof Error ? error.message : 'Failed to open backup');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    setShowReplaceModal(false);
+
+    try {
+      setBusy('restore');
+      const restoreResult = await backupService.restoreBackup(archive, mode, setProgress);
+
+      const { settings, storagePolicy } = restoreResult.preferences;
+      if (settings) {
+        importSettings(JSON.stringify(settings));
+      }
+      if (storagePolicy) {
+        storageManager.setPolicy(storagePolicy as Partial<StoragePolicy>);
+      }
+
+      setResult(restoreResult);
+      setArchive(null);
+      if (restoreResult.failed.length > 0) {
+        showWarning(`Restore finished, but ${restoreResult.failed.length} video${restoreResult.failed.length !== 1 ? 's' : ''} could not be restored`);
+      } else {
+        showSuccess('Backup restored successfully');
+      }
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      if (error instanceof StorageQuotaError) {
+        showError(`${error.message} Then restore the same backup again to continue where it stopped.`);
+      } else {
+        showError('Restore was interrupted. Restore the same backup again to continue where it stopped.');
+      }
+      // Reopen so the resume details reflect how far the restore got
+      setArchive(await backupService.openBackup(archive.file).catch(() => null));
+    } finally {
+      setBusy(null);
+      setProgress(null);
+    }
+  };
+
+  const handleStartOver = async () => {
+    if (!archive?.pendingJob) return;
+    await backupService.discardRestoreJob(archive.manifest.backupId);
+    setArchive({ ...archive, pendingJob: null });
+  };
+
+  const pendingJob = archive?.pendingJob?.mode === mode ? archive.pendingJob : null;
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-300">
+        A backup is a single .zip file with your videos, thumbnails, tags, collections, tag groups and settings.
+      </p>
+
+      {/* Progress */}
+      {progress && (
+        <div>
+          <div className="flex items-center justify-between mb-2 text-sm text-gray-200">
+            <span className="truncate pr-4">
+              {busy === 'backup' ? 'Backing up' : 'Restoring'}: {progress.label}
+            </span>
+            <span className="flex-shrink-0">
+              {progress.current} / {progress.total}
+            </span>
+          </div>
+          <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-purple-500 to-pink-500 transition-all duration-300"
+              style={{ width: `${progress.total > 0 ? (progress.current / progress.total) * 100 : 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex gap-3">
+        <button
+          onClick={handleCreateBackup}
+          disabled={busy !== null}
+          className="flex-1 py-3 px-6 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors flex items-center justify-center gap-2"
+        >
+          {busy === 'backup' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Archive className="w-5 h-5" />}
+          Create Backup
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy !== null}
+          className="flex-1 py-3 px-6 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors flex items-center justify-center gap-2"
+        >
+          <FileUp className="w-5 h-5" />
+          Restore Backup
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          onChange={handleFileSelect}
+          className="hidden"
+        />
+      </div>
+
+      {/* Opened backup */}
+      {archive && (
+        <div className="p-4 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+          <div className="text-sm text-gray-200">
+            <p className="font-medium mb-1">
+              Backup from {new Date(archive.manifest.createdAt).toLocaleString()}
+            </p>
+            <p className="text-gray-600 dark:text-gray-400">
+              {archive.manifest.videos.length} video{archive.manifest.videos.length !== 1 ? 's' : ''} ·{' '}
+              {formatBytes(archive.manifest.mediaBytes)}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            {(Object.keys(MODE_DESCRIPTIONS) as RestoreMode[]).map((key) => (
+              <label key={key} className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="radio"
+                  name="restore-mode"
+                  value={key}
+                  checked={mode === key}
+                  onChange={() => setMode(key)}
+                  disabled={busy !== null}
+                  className="mt-1"
+                />
+                <span className="text-sm text-gray-200">
+                  <span className="font-medium capitalize">{key}</span>
+                  <span className="block text-xs text-gray-400">{MODE_DESCRIPTIONS[key]}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {pendingJob && (
+            <div className="flex items-start gap-2 text-sm text-yellow-300">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <p className="flex-1">
+                A previous restore of this backup stopped after {pendingJob.completedVideoIds.length} of{' '}
+                {pendingJob.totalVideos} videos. Restoring will continue from there.
+              </p>
+              <button
+                onClick={handleStartOver}
+                disabled={busy !== null}
+                className="text-xs text-yellow-200 hover:underline flex items-center gap-1 flex-shrink-0"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Start Over
+              </button>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={() => (mode === 'replace' && !pendingJob?.libraryCleared ? setShowReplaceModal(true) : handleRestore())}
+              disabled={busy !== null}
+              className="flex-1 py-2 px-4 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-semibold rounded-lg transition-colors flex items-center justify-center gap-2"
+            >
+              {busy === 'restore' && <Loader2 className="w-4 h-4 animate-spin" />}
+              {pendingJob ? 'Resume Restore' : 'Restore'}
+            </button>
+            <button
+              onClick={() => setArchive(null)}
+              disabled={busy !== null}
+              className="py-2 px-4 bg-gray-600 hover:bg-gray-700 disabled:opacity-50 text-white text-sm font-semibold rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Restore result */}
+      {result && (
+        <div className="p-4 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-200">
+          <div className="flex items-center gap-2 font-medium mb-2">
+            <CheckCircle className="w-4 h-4 text-green-500" />
+            Restore complete
+          </div>
+          <p className="text-gray-400">
+            {result.restored} restored · {result.skipped} already in library · {result.collections} collection
+            {result.collections !== 1 ? 's' : ''} · {result.tagGroups} tag group{result.tagGroups !== 1 ? 's' : ''}
+          </p>
+          {result.failed.length > 0 && (
+            <ul className="mt-2 space-y-1 text-red-300">
+              {result.failed.map((failure) => (
+                <li key={failure.id}>
+                  {failure.title}: {failure.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={showReplaceModal}
+        title="Replace Library?"
+        message="This will delete every video, collection and tag group in your library before restoring the backup. This action cannot be undone."
+        confirmText="Replace"
+        cancelText="Cancel"
+        onConfirm={handleRestore}
+        onCancel={() => setShowReplaceModal(false)}
+        danger={true}
+      />
+    </div>
+  );
+};
@@ -1,11 +1,7 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
-  Download,
   Loader2,
-  AlertCircle,
-  Youtube,
-  Music,
   CheckCircle,
   XCircle,
   Clock,
@@ -13,408 +9,168 @@ import {
   Pause,
   SkipForward,
   X,
-  FileText,
+  ListPlus,
   RefreshCw,
   History,
-  Download as DownloadIcon,
   Trash2,
-  FileDown
+  FileDown,
+  Zap
 } from 'lucide-react';
 import { parseVideoUrl } from '../utils/urlParser';
+import { formatTransferProgress } from '../utils/streamDownload';
+import { describeDownloadWait } from '../utils/downloadSchedule';
+import { DOWNLOAD_ERROR_GUIDANCE } from '../utils/downloadErrors';
+import { batchQueueService } from '../services/batchQueueService';
+import { downloadManager } from '../services/downloadManager';
+import type { DownloadRequest } from '../services/downloadManager';
+import { useDownloads } from '../hooks/useDownloads';
 import { youtubeService } from '../services/youtubeService';
-import { tiktokService } from '../services/tiktokService';
-import { storageService } from '../services/storageService';
-import type { VideoPlatform } from '../types';
-
-type QueueItemStatus = 'pending' | 'downloading' | 'completed' | 'failed' | 'skipped';
-
-interface QueueItem {
-  id: string;
-  url: string;
-  platform: VideoPlatform | null;
-  status: QueueItemStatus;
-  progress: number;
-  error?: string;
-  title?: string;
-  videoId?: string;
-}
-
-interface BatchHistory {
-  id: string;
-  timestamp: Date;
-  total: number;
-  completed: number;
-  failed: number;
-  items: QueueItem[];
-}
-
-const STORAGE_KEY = 'batchDownloader_queue';
-const HISTORY_STORAGE_KEY = 'batchDownloader_history';
+import type { YouTubeVideoList, YouTubeVideoListEntry } from '../services/youtubeService';
+import { collectionService } from '../services/collectionService';
+import { PlatformIcon } from './PlatformIcon';
+import { VideoListPicker } from './VideoListPicker';
+import { DownloadSchedulePicker } from './DownloadSchedulePicker';
+import type {
+  DuplicateAction,
+  DownloadPriority,
+  DownloadSchedule,
+  DownloadJobStatus as QueueItemStatus,
+  BatchHistory,
+} from '../types';
 
 const BatchDownloader = () => {
   const navigate = useNavigate();
   const [urlsText, setUrlsText] = useState('');
-  const [parsedUrls, setParsedUrls] = useState<QueueItem[]>([]);
-  const [queue, setQueue] = useState<QueueItem[]>([]);
-  const [isPaused, setIsPaused] = useState(false);
-  const [isDownloading, setIsDownloading] = useState(false);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const [invalidUrls, setInvalidUrls] = useState<string[]>([]);
+  const queue = useDownloads();
   const [history, setHistory] = useState<BatchHistory[]>([]);
   const [showHistory, setShowHistory] = useState(false);
   const [quality, setQuality] = useState('1080p');
   const [format, setFormat] = useState<'mp4' | 'mp3'>('mp4');
-  const abortControllerRef = useRef<AbortController | null>(null);
-
-  // Load queue from localStorage on mount
-  useEffect(() => {
-    const savedQueue = localStorage.getItem(STORAGE_KEY);
-    if (savedQueue) {
-      try {
-        const parsed = JSON.parse(savedQueue);
-        // Convert date strings back to Date objects
-        const queueWithDates = parsed.map((item: any) => ({
-          ...item,
-        }));
-        setQueue(queueWithDates);
-      } catch (error) {
-        console.error('Error loading queue from localStorage:', error);
-      }
-    }
-
-    // Load history
-    const savedHistory = localStorage.getItem(HISTORY_STORAGE_KEY);
-    if (savedHistory) {
-      try {
-        const parsed = JSON.parse(savedHistory);
-        const historyWithDates = parsed.map((h: any) => ({
-          ...h,
-          timestamp: new Date(h.timestamp),
-          items: h.items || [],
-        }));
-        setHistory(historyWithDates);
-      } catch (error) {
-        console.error('Error loading history from localStorage:', error);
-      }
-    }
-  }, []);
-
-  // Save queue to localStorage whenever it changes
+  const [duplicateAction, setDuplicateAction] = useState<DuplicateAction>('skip');
+  const [priority, setPriority] = useState<DownloadPriority>('normal');
+  const [schedule, setSchedule] = useState<DownloadSchedule | undefined>();
+  // Playlists and channels waiting for the user to pick videos, first one shown
+  const [videoLists, setVideoLists] = useState<YouTubeVideoList[]>([]);
+  const [loadingVideoLists, setLoadingVideoLists] = useState(false);
+  const [videoListError, setVideoListError] = useState<string | null>(null);
+
+  // Load history whenever it is opened; the download manager adds to it as batches finish
   useEffect(() => {
-    if (queue.length > 0) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
-    } else {
-      localStorage.removeItem(STORAGE_KEY);
-    }
-  }, [queue]);
-
-  // Parse URLs from textarea
-  const handleParseUrls = () => {
-    const lines = urlsText
-      .split('\n')
-      .map(line => line.trim())
-      .filter(line => line.length > 0);
-
-    const parsed: QueueItem[] = lines.map((url, index) => {
-      const parsedUrl = parseVideoUrl(url);
-      return {
-        id: `item-${Date.now()}-${index}`,
-        url,
-        platform: parsedUrl?.platform || null,
-        status: parsedUrl ? 'pending' : 'failed',
-        progress: 0,
-        error: parsedUrl ? undefined : 'Invalid URL format',
-        videoId: parsedUrl?.videoId,
-      };
+    if (!showHistory) return;
+    batchQueueService.loadHistory().then(setHistory).catch(error => {
+      console.error('Error loading batch history:', error);
     });
+  }, [showHistory]);
 
-    setParsedUrls(parsed);
-    setQueue(parsed);
+  // Queue downloads with the batch settings, as one batch in the history
+  const enqueueBatch = async (requests: Array<Pick<DownloadRequest, 'url' | 'platform' | 'title' | 'videoId' | 'collectionId' | 'collectionPosition'>>) => {
+    const batchId = `batch-${Date.now()}`;
+    try {
+      await downloadManager.enqueue(requests.map(request => ({
+        ...request,
+        quality,
+        format,
+        duplicateAction,
+        priority,
+        schedule,
+        batchId,
+      })));
+    } catch (error) {
+      console.error('Error queuing downloads:', error);
+      setVideoListError('Could not queue the downloads. Please try again.');
+    }
   };
 
-  // Check if server is running
-  const checkServerConnection = async (): Promise<boolean> => {
-    try {
-      const proxyUrl = import.meta.env.VITE_YOUTUBE_API_PROXY || 'http://localhost:3000/api/youtube';
-      const baseUrl = proxyUrl.replace('/api/youtube', '');
-      const response = await fetch(`${baseUrl}/health`, {
-        method: 'GET',
-        signal: AbortSignal.timeout(2000)
-      });
-      return response.ok;
-    } catch {
+  // Load the videos of playlist and channel URLs for the picker
+  const loadVideoLists = async (listUrls: string[]) => {
+    setLoadingVideoLists(true);
+    setVideoListError(null);
+    const lists: YouTubeVideoList[] = [];
+    const errors: string[] = [];
+    for (const listUrl of listUrls) {
       try {
-        const proxyUrl = import.meta.env.VITE_YOUTUBE_API_PROXY || 'http://localhost:3000/api/youtube';
-        const response = await fetch(`${proxyUrl}?id=test`, {
-          method: 'GET',
-          signal: AbortSignal.timeout(2000)
-        });
-        return true;
-      } catch {
-        return false;
+        lists.push(await youtubeService.getVideoList(listUrl));
+      } catch (error) {
+        errors.push(`${listUrl}: ${error instanceof Error ? error.message : 'Failed to load'}`);
       }
     }
+    setVideoLists(prev => [...prev, ...lists]);
+    setVideoListError(errors.length > 0 ? errors.join('\n') : null);
+    setLoadingVideoLists(false);
   };
 
-  // Download a single video
-  const downloadVideo = useCallback(async (item: QueueItem): Promise<void> => {
-    if (!item.platform || !item.videoId) {
-      throw new Error('Invalid video URL or platform');
-    }
-
-    const serverRunning = await checkServerConnection();
-    if (!serverRunning) {
-      throw new Error('Download server is not running. Please start the server.');
-    }
-
-    let videoBlob: Blob;
-    let metadata: any;
+  // Queue the videos picked from a playlist or channel, optionally collecting them in a new collection
+  const handleAddFromVideoList = async (entries: YouTubeVideoListEntry[], createCollection: boolean) => {
+    const list = videoLists[0];
+    setVideoLists(prev => prev.slice(1));
 
-    // Get metadata
-    if (item.platform === 'youtube') {
-      metadata = await youtubeService.getVideoMetadata(item.url);
-      videoBlob = await youtubeService.downloadVideo(item.videoId, quality, format);
-    } else if (item.platform === 'tiktok') {
-      metadata = await tiktokService.getVideoMetadata(item.url);
-      videoBlob = await tiktokService.downloadVideo(item.url, false);
-    } else {
-      throw new Error('Unsupported platform');
-    }
-
-    // Save to IndexedDB
-    const videoData = {
-      url: item.url,
-      platform: item.platform,
-      title: metadata.title || 'Untitled Video',
-      description: metadata.description || metadata.caption || '',
-      thumbnail: metadata.thumbnail || '',
-      duration: metadata.duration || 0,
-      author: metadata.author || 'Unknown',
-      quality: quality,
-      format: format,
-      videoBlob: videoBlob,
-      fileSize: videoBlob.size,
-    };
-
-    await storageService.saveVideo(videoData);
-  }, [quality, format]);
-
-  // Process queue
-  const processQueue = useCallback(async () => {
-    if (isPaused) {
-      setIsDownloading(false);
-      return;
-    }
-
-    setQueue(currentQueue => {
-      if (currentQueue.length === 0) {
-        setIsDownloading(false);
-        return currentQueue;
-      }
-
-      const pendingItems = currentQueue.filter(item => item.status === 'pending');
-      if (pendingItems.length === 0) {
-        setIsDownloading(false);
-        // All done - save to history
-        const completed = currentQueue.filter(item => item.status === 'completed').length;
-        const failed = currentQueue.filter(item => item.status === 'failed').length;
-        
-        if (completed > 0 || failed > 0) {
-          const historyItem: BatchHistory = {
-            id: `batch-${Date.now()}`,
-            timestamp: new Date(),
-            total: currentQueue.length,
-            completed,
-            failed,
-            items: [...currentQueue],
-          };
-          
-          setHistory(prevHistory => {
-            const newHistory = [historyItem, ...prevHistory].slice(0, 10); // Keep last 10
-            localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(newHistory));
-            return newHistory;
-          });
-        }
-        
-        return currentQueue;
+    let collectionId: string | undefined;
+    if (createCollection) {
+      try {
+        const source = list.type === 'playlist' ? 'YouTube playlist' : 'YouTube channel';
+        const collection = await collectionService.createCollection(
+          list.title,
+          list.author && list.author !== list.title ? `${source} by ${list.author}` : source,
+          'red'
+        );
+        await collectionService.updateCollection({ ...collection, sourceUrl: list.url });
+        collectionId = collection.id;
+      } catch (error) {
+        console.error('Error creating collection:', error);
+        setVideoListError(`Could not create the collection "${list.title}". The videos were queued without it.`);
       }
-
-      setIsDownloading(true);
-      const currentItem = pendingItems[0];
-      const currentItemIndex = currentQueue.findIndex(item => item.id === currentItem.id);
-      setCurrentIndex(currentItemIndex);
-
-      // Update status to downloading
-      const updatedQueue = currentQueue.map((item, index) =>
-        index === currentItemIndex
-          ? { ...item, status: 'downloading', progress: 0 }
-          : item
-      );
-
-      // Create abort controller
-      abortControllerRef.current = new AbortController();
-      const signal = abortControllerRef.current.signal;
-
-      // Start download process
-      (async () => {
-        try {
-          // Simulate progress updates
-          const progressInterval = setInterval(() => {
-            if (signal.aborted) {
-              clearInterval(progressInterval);
-              return;
-            }
-            setQueue(prev => prev.map((item, idx) =>
-              idx === currentItemIndex && item.status === 'downloading'
-                ? { ...item, progress: Math.min(item.progress + 2, 95) }
-                : item
-            ));
-          }, 500);
-
-          await downloadVideo(currentItem);
-
-          if (signal.aborted) {
-            clearInterval(progressInterval);
-            return;
-          }
-
-          clearInterval(progressInterval);
-
-          // Update status to completed
-          setQueue(prev => prev.map((item, idx) =>
-            idx === currentItemIndex
-              ? { ...item, status: 'completed', progress: 100 }
-              : item
-          ));
-        } catch (error: any) {
-          let errorMessage = 'Download failed';
-
-          if (error instanceof Error) {
-            errorMessage = error.message;
-
-            // Categorize errors with helpful suggestions
-            if (errorMessage.includes('quota exceeded') || errorMessage.includes('quotaExceeded')) {
-              errorMessage = 'YouTube API quota exceeded. Try again tomorrow.';
-            } else if (errorMessage.includes('Network error') || errorMessage.includes('ECONNREFUSED') || errorMessage.includes('ENOTFOUND')) {
-              errorMessage = 'Cannot connect to server. Ensure server is running.';
-            } else if (errorMessage.includes('404') || errorMessage.includes('not found') || errorMessage.includes('Video not found')) {
-              errorMessage = 'Video not found. May be deleted or private.';
-            } else if (errorMessage.includes('403') || errorMessage.includes('Access denied') || errorMessage.includes('forbidden')) {
-              errorMessage = 'Access denied. Video may be private, age-restricted, or requires sign-in.';
-            } else if (errorMessage.includes('timeout') || errorMessage.includes('ETIMEDOUT')) {
-              errorMessage = 'Request timeout. Check internet connection.';
-            } else if (errorMessage.includes('Invalid YouTube API key') || errorMessage.includes('invalidCredentials')) {
-              errorMessage = 'Invalid YouTube API key. Check configuration.';
-            } else if (errorMessage.includes('private') || errorMessage.includes('age-restricted')) {
-              errorMessage = 'Cannot download: Video is private or age-restricted.';
-            }
-          }
-
-          setQueue(prev => prev.map((item, idx) =>
-            idx === currentItemIndex
-              ? {
-                  ...item,
-                  status: 'failed',
-                  error: errorMessage,
-                }
-              : item
-          ));
-        } finally {
-          abortControllerRef.current = null;
-          // Continue with next item
-          setTimeout(() => {
-            processQueue();
-          }, 500);
-        }
-      })();
-
-      return updatedQueue;
-    });
-  }, [isPaused, downloadVideo]);
-
-  // Start downloads
-  const handleStart = () => {
-    if (queue.length === 0) {
-      handleParseUrls();
-      // Wait for queue to be set, then start
-      setTimeout(() => {
-        setIsPaused(false);
-        processQueue();
-      }, 100);
-      return;
     }
-    setIsPaused(false);
-    processQueue();
-  };
 
-  // Pause downloads
-  const handlePause = () => {
-    setIsPaused(true);
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
-    }
+    await enqueueBatch(entries.map(entry => ({
+      url: entry.url,
+      platform: 'youtube',
+      title: entry.title,
+      videoId: entry.videoId,
+      collectionId,
+      collectionPosition: collectionId ? entry.position : undefined,
+    })));
   };
 
-  // Resume downloads
-  const handleResume = () => {
-    setIsPaused(false);
-    processQueue();
-  };
+  // Queue the URLs from the textarea
+  const handleAddUrls = async () => {
+    const allLines = urlsText
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0);
 
-  // Skip current video
-  const handleSkip = (itemId: string) => {
-    setQueue(prev => prev.map(item =>
-      item.id === itemId
-        ? { ...item, status: 'skipped' }
-        : item
-    ));
-    if (isDownloading) {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-        abortControllerRef.current = null;
-      }
-      setTimeout(() => processQueue(), 100);
+    // Playlists and channels are expanded into their videos, picked in a dialog
+    const listUrls = allLines.filter(line => !parseVideoUrl(line) && youtubeService.getVideoListType(line));
+    const lines = allLines.filter(line => !listUrls.includes(line));
+    if (listUrls.length > 0) {
+      loadVideoLists(listUrls);
     }
-  };
 
-  // Cancel all
-  const handleCancel = () => {
-    setIsPaused(true);
-    setIsDownloading(false);
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
+    const requests = lines.flatMap(url => {
+      const parsedUrl = parseVideoUrl(url);
+      return parsedUrl ? [{ url, platform: parsedUrl.platform, videoId: parsedUrl.videoId }] : [];
+    });
+    setInvalidUrls(lines.filter(url => !parseVideoUrl(url)));
+    setUrlsText('');
+    if (requests.length > 0) {
+      await enqueueBatch(requests);
     }
-    setQueue(prev => prev.map(item =>
-      item.status === 'downloading' || item.status === 'pending'
-        ? { ...item, status: 'pending', progress: 0 }
-        : item
-    ));
   };
 
   // Retry failed
   const handleRetryFailed = () => {
-    setQueue(prev => prev.map(item =>
-      item.status === 'failed'
-        ? { ...item, status: 'pending', progress: 0, error: undefined }
-        : item
-    ));
-    setIsPaused(false);
-    processQueue();
+    queue
+      .filter(item => item.status === 'failed')
+      .forEach(item => downloadManager.resume(item.id));
   };
 
   // Clear queue
-  const handleClear = () => {
-    if (window.confirm('Are you sure you want to clear the queue?')) {
-      setQueue([]);
-      setParsedUrls([]);
-      setUrlsText('');
-      setIsPaused(false);
-      setIsDownloading(false);
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-        abortControllerRef.current = null;
+  const handleClear = async () => {
+    if (window.confirm('Are you sure you want to clear the queue? Unfinished downloads are cancelled.')) {
+      for (const item of queue) {
+        await downloadManager.remove(item.id);
       }
+      setInvalidUrls([]);
     }
   };
 
@@ -432,18 +188,6 @@ const BatchDownloader = () => {
     URL.revokeObjectURL(url);
   };
 
-  // Get platform icon
-  const getPlatformIcon = (platform: VideoPlatform | null) => {
-    switch (platform) {
-      case 'youtube':
-        return <Youtube className="w-4 h-4 text-red-600" />;
-      case 'tiktok':
-        return <Music className="w-4 h-4 text-black dark:text-white" />;
-      default:
-        return <AlertCircle className="w-4 h-4 text-gray-400" />;
-    }
-  };
-
   // Get status badge
   const getStatusBadge = (status: QueueItemStatus) => {
     const baseClasses = 'px-2 py-1 rounded-full text-xs font-semibold flex items-center gap-1 w-fit';
@@ -462,6 +206,13 @@ const BatchDownloader = () => {
             Downloading
           </span>
         );
+      case 'paused':
+        return (
+          <span className={`${baseClasses} bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300`}>
+            <Pause className="w-3 h-3" />
+            Paused
+          </span>
+        );
       case 'completed':
         return (
           <span className={`${baseClasses} bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300`}>
@@ -494,6 +245,9 @@ const BatchDownloader = () => {
   const completedCount = queue.filter(item => item.status === 'completed').length;
   const failedCount = queue.filter(item => item.status === 'failed').length;
   const pendingCount = queue.filter(item => item.status === 'pending').length;
+  const pausedCount = queue.filter(item => item.status === 'paused').length;
+  const isDownloading = queue.some(item => item.status === 'downloading');
+  const finishedCount = queue.length - pendingCount - pausedCount - queue.filter(item => item.status === 'downloading').length;
 
   return (
     <div className="w-full space-y-6">
@@ -525,26 +279,31 @@ const BatchDownloader = () => {
       {/* URL Input */}
       <div>
         <label htmlFor="batch-urls" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-          Video URLs (one per line)
+          Video, playlist or channel URLs (one per line)
         </label>
         <textarea
           id="batch-urls"
           value={urlsText}
           onChange={(e) => setUrlsText(e.target.value)}
-          placeholder="Paste video URLs here, one per line:&#10;https://youtube.com/watch?v=...&#10;https://tiktok.com/@user/video/...&#10;https://youtube.com/watch?v=..."
+          placeholder="Paste video URLs here, one per line:&#10;https://youtube.com/watch?v=...&#10;https://youtube.com/playlist?list=...&#10;https://tiktok.com/@user/video/...&#10;https://instagram.com/reel/..."
           className="w-full px-4 py-3 rounded-lg border-2 border-gray-300 dark:border-gray-600 focus:border-blue-500 dark:focus:border-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:bg-gray-700 dark:text-white resize-none min-h-[150px] font-mono text-sm"
           rows={6}
-          disabled={isDownloading}
         />
         <div className="flex items-center gap-2 mt-2">
           <button
-            onClick={handleParseUrls}
-            disabled={!urlsText.trim() || isDownloading}
+            onClick={handleAddUrls}
+            disabled={!urlsText.trim() || loadingVideoLists}
             className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg transition-colors flex items-center gap-2"
           >
-            <FileText className="w-4 h-4" />
-            Parse URLs
+            <ListPlus className="w-4 h-4" />
+            Add to Queue
           </button>
+          {loadingVideoLists && (
+            <span className="text-sm text-gray-600 dark:text-gray-400 flex items-center gap-2">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading playlist videos...
+            </span>
+          )}
           {queue.length > 0 && (
             <button
               onClick={handleClear}
@@ -555,61 +314,116 @@ const BatchDownloader = () => {
             </button>
           )}
         </div>
+        {invalidUrls.length > 0 && (
+          <p className="mt-2 text-sm text-red-600 dark:text-red-400 whitespace-pre-line" role="alert">
+            {`Not a supported video URL:\n${invalidUrls.join('\n')}`}
+          </p>
+        )}
+        {videoListError && (
+          <p className="mt-2 text-sm text-red-600 dark:text-red-400 whitespace-pre-line" role="alert">
+            {videoListError}
+          </p>
+        )}
       </div>
 
-      {/* Quality and Format Selectors */}
-      {queue.length > 0 && (
-        <div className="grid grid-cols-2 gap-4">
-          <div>
-            <label htmlFor="batch-quality" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Quality
+      {videoLists.length > 0 && (
+        <VideoListPicker
+          key={videoLists[0].url}
+          list={videoLists[0]}
+          onAdd={handleAddFromVideoList}
+          onCancel={() => setVideoLists(prev => prev.slice(1))}
+        />
+      )}
+
+      {/* Quality and Format Selectors, applied to the URLs added next */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="batch-quality" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Quality
+          </label>
+          <select
+            id="batch-quality"
+            value={quality}
+            onChange={(e) => setQuality(e.target.value)}
+            className="w-full px-4 py-2 rounded-lg border-2 border-gray-300 dark:border-gray-600 focus:border-blue-500 dark:focus:border-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:bg-gray-700 dark:text-white"
+          >
+            <option value="1080p">1080p (Full HD)</option>
+            <option value="720p">720p (HD)</option>
+            <option value="480p">480p (SD)</option>
+            <option value="360p">360p (Low)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Format
+          </label>
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name="batch-format"
+                value="mp4"
+                checked={format === 'mp4'}
+                onChange={(e) => setFormat(e.target.value as 'mp4' | 'mp3')}
+                className="w-4 h-4 text-blue-600"
+              />
+              <span className="text-gray-700 dark:text-gray-300">MP4</span>
             </label>
-            <select
-              id="batch-quality"
-              value={quality}
-              onChange={(e) => setQuality(e.target.value)}
-              disabled={isDownloading}
-              className="w-full px-4 py-2 rounded-lg border-2 border-gray-300 dark:border-gray-600 focus:border-blue-500 dark:focus:border-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:bg-gray-700 dark:text-white"
-            >
-              <option value="1080p">1080p (Full HD)</option>
-              <option value="720p">720p (HD)</option>
-              <option value="480p">480p (SD)</option>
-              <option value="360p">360p (Low)</option>
-            </select>
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Format
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name="batch-format"
+                value="mp3"
+                checked={format === 'mp3'}
+                onChange={(e) => setFormat(e.target.value as 'mp4' | 'mp3')}
+                className="w-4 h-4 text-blue-600"
+              />
+              <span className="text-gray-700 dark:text-gray-300">MP3</span>
             </label>
-            <div className="flex gap-4">
-              <label className="flex items-center gap-2 cursor-pointer">
-                <input
-                  type="radio"
-                  name="batch-format"
-                  value="mp4"
-                  checked={format === 'mp4'}
-                  onChange={(e) => setFormat(e.target.value as 'mp4' | 'mp3')}
-                  disabled={isDownloading}
-                  className="w-4 h-4 text-blue-600"
-                />
-                <span className="text-gray-700 dark:text-gray-300">MP4</span>
-              </label>
-              <label className="flex items-center gap-2 cursor-pointer">
-                <input
-                  type="radio"
-                  name="batch-format"
-                  value="mp3"
-                  checked={format === 'mp3'}
-                  onChange={(e) => setFormat(e.target.value as 'mp4' | 'mp3')}
-                  disabled={isDownloading}
-                  className="w-4 h-4 text-blue-600"
-                />
-                <span className="text-gray-700 dark:text-gray-300">MP3</span>
-              </label>
-            </div>
           </div>
         </div>
-      )}
+        <div>
+          <label htmlFor="batch-duplicates" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Videos Already in Library
+          </label>
+          <select
+            id="batch-duplicates"
+            value={duplicateAction}
+            onChange={(e) => setDuplicateAction(e.target.value as DuplicateAction)}
+            className="w-full px-4 py-2 rounded-lg border-2 border-gray-300 dark:border-gray-600 focus:border-blue-500 dark:focus:border-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:bg-gray-700 dark:text-white"
+          >
+            <option value="skip">Skip</option>
+            <option value="replace">Replace existing copy</option>
+            <option value="keep-both">Keep both</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="batch-priority" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Priority
+          </label>
+          <select
+            id="batch-priority"
+            value={priority}
+            onChange={(e) => setPriority(e.target.value as DownloadPriority)}
+            className="w-full px-4 py-2 rounded-lg border-2 border-gray-300 dark:border-gray-600 focus:border-blue-500 dark:focus:border-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:bg-gray-700 dark:text-white"
+          >
+            <option value="high">High</option>
+            <option value="normal">Normal</option>
+            <option value="low">Low</option>
+          </select>
+        </div>
+        <div className="col-span-2">
+          <label htmlFor="batch-schedule" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Start
+          </label>
+          <DownloadSchedulePicker
+            id="batch-schedule"
+            value={schedule}
+            onChange={setSchedule}
+            className="w-full px-4 py-2 rounded-lg border-2 border-gray-300 dark:border-gray-600 focus:border-blue-500 dark:focus:border-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:bg-gray-700 dark:text-white"
+          />
+        </div>
+      </div>
 
       {/* Overall Progress */}
       {queue.length > 0 && (
@@ -632,6 +446,7 @@ const BatchDownloader = () => {
             <span>Completed: {completedCount} / {queue.length}</span>
             <span>Failed: {failedCount}</span>
             <span>Pending: {pendingCount}</span>
+            {pausedCount > 0 && <span>Paused: {pausedCount}</span>}
           </div>
         </div>
       )}
@@ -639,31 +454,22 @@ const BatchDownloader = () => {
       {/* Controls */}
       {queue.length > 0 && (
         <div className="flex items-center gap-2 flex-wrap">
-          {!isDownloading && !isPaused && (
+          {(isDownloading || pendingCount > 0) && (
             <button
-              onClick={handleStart}
-              className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors flex items-center gap-2"
-            >
-              <Play className="w-4 h-4" />
-              Start
-            </button>
-          )}
-          {isDownloading && !isPaused && (
-            <button
-              onClick={handlePause}
+              onClick={() => downloadManager.pauseAll()}
               className="px-4 py-2 bg-yellow-600 hover:bg-yellow-700 text-white rounded-lg transition-colors flex items-center gap-2"
             >
               <Pause className="w-4 h-4" />
-              Pause
+              Pause All
             </button>
           )}
-          {isPaused && (
+          {pausedCount > 0 && (
             <button
-              onClick={handleResume}
+              onClick={() => downloadManager.resumeAll()}
               className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors flex items-center gap-2"
             >
               <Play className="w-4 h-4" />
-              Resume
+              Resume All ({pausedCount})
             </button>
           )}
           {failedCount > 0 && (
@@ -675,13 +481,13 @@ const BatchDownloader = () => {
               Retry Failed ({failedCount})
             </button>
           )}
-          {isDownloading && (
+          {finishedCount > 0 && (
             <button
-              onClick={handleCancel}
-              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors flex items-center gap-2"
+              onClick={() => downloadManager.clearFinished()}
+              className="px-4 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg transition-colors flex items-center gap-2"
             >
               <X className="w-4 h-4" />
-              Cancel All
+              Clear Finished ({finishedCount})
             </button>
           )}
         </div>
@@ -729,15 +535,15 @@ const BatchDownloader = () => {
                     </td>
                     <td className="px-4 py-3">
                       <div className="flex items-center gap-2">
-                        {getPlatformIcon(item.platform)}
+                        <PlatformIcon platform={item.platform} colored />
                         <span className="text-sm text-gray-700 dark:text-gray-300">
-                          {item.platform || 'Invalid'}
+                          {item.platform}
                         </span>
                       </div>
                     </td>
                     <td className="px-4 py-3">
                       <div className="max-w-xs truncate text-sm text-gray-700 dark:text-gray-300" title={item.url}>
-                        {item.url}
+                        {item.title || item.url}
                       </div>
                     </td>
                     <td className="px-4 py-3">
@@ -755,11 +561,49 @@ const BatchDownloader = () => {
                           <span className="text-xs text-gray-600 dark:text-gray-400 mt-1 block">
                             {item.progress}%
                           </span>
+                          {downloadManager.getTransfer(item.id) && (
+                            <span className="text-xs text-gray-500 dark:text-gray-400 block">
+                              {formatTransferProgress(downloadManager.getTransfer(item.id)!)}
+                            </span>
+                          )}
+                        </div>
+                      ) : item.status === 'pending' && item.waiting ? (
+                        <span className="text-xs text-gray-600 dark:text-gray-400" title={item.error}>
+                          {item.waiting.reason === 'retry' && item.errorKind && `${DOWNLOAD_ERROR_GUIDANCE[item.errorKind].title} · `}
+                          {describeDownloadWait(item.waiting)}
+                        </span>
+                      ) : item.status === 'paused' ? (
+                        <div className="w-32">
+                          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                            <div
+                              className="h-full bg-orange-500 rounded-full"
+                              style={{ width: `${item.progress}%` }}
+                            />
+                          </div>
+                          <span className="text-xs text-gray-600 dark:text-gray-400 mt-1 block">
+                            {item.progress}% · resumes where it stopped
+                          </span>
+                          {item.error && (
+                            <span className="text-xs text-red-600 dark:text-red-400 block truncate" title={item.error}>
+                              {item.error}
+                            </span>
+                          )}
                         </div>
                       ) : item.status === 'failed' ? (
-                        <div className="text-xs text-red-600 dark:text-red-400 max-w-xs truncate" title={item.error}>
+                        <div
+                          className="text-xs text-red-600 dark:text-red-400 max-w-xs truncate"
+                          title={item.errorKind ? `${item.error}\n${DOWNLOAD_ERROR_GUIDANCE[item.errorKind].remedy}` : item.error}
+                        >
+                          {item.errorKind && `${DOWNLOAD_ERROR_GUIDANCE[item.errorKind].title}: `}
                           {item.error}
                         </div>
+                      ) : item.status === 'skipped' && item.libraryVideoId ? (
+                        <button
+                          onClick={() => navigate(`/video/${item.libraryVideoId}`)}
+                          className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          Already in library
+                        </button>
                       ) : (
                         <span className="text-xs text-gray-500 dark:text-gray-400">-</span>
                       )}
@@ -767,8 +611,47 @@ const BatchDownloader = () => {
                     <td className="px-4 py-3">
                       <div className="flex items-center gap-2">
                         {item.status === 'pending' && (
+                          <select
+                            value={item.priority}
+                            onChange={(e) => downloadManager.setPriority(item.id, e.target.value as DownloadPriority)}
+                            className="text-xs px-2 py-1 rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                            aria-label="Priority"
+                          >
+                            <option value="high">High</option>
+                            <option value="normal">Normal</option>
+                            <option value="low">Low</option>
+                          </select>
+                        )}
+                        {item.status === 'pending' && item.waiting && (
                           <button
-                            onClick={() => handleSkip(item.id)}
+                            onClick={() => downloadManager.startNow(item.id)}
+                            className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+                            title="Start now"
+                          >
+                            <Zap className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+                          </button>
+                        )}
+                        {(item.status === 'pending' || item.status === 'downloading') && (
+                          <button
+                            onClick={() => downloadManager.pause(item.id)}
+                            className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+                            title="Pause"
+                          >
+                            <Pause className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+                          </button>
+                        )}
+                        {item.status === 'paused' && (
+                          <button
+                            onClick={() => downloadManager.resume(item.id)}
+                            className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+                            title="Resume"
+                          >
+                            <Play className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+                          </button>
+                        )}
+                        {(item.status === 'pending' || item.status === 'downloading' || item.status === 'paused') && (
+                          <button
+                            onClick={() => downloadManager.skip(item.id)}
                             className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
                             title="Skip"
                           >
@@ -777,22 +660,20 @@ const BatchDownloader = () => {
                         )}
                         {item.status === 'failed' && (
                           <button
-                            onClick={() => {
-                              setQueue(prev => prev.map(i =>
-                                i.id === item.id
-                                  ? { ...i, status: 'pending', progress: 0, error: undefined }
-                                  : i
-                              ));
-                              if (!isDownloading && !isPaused) {
-                                processQueue();
-                              }
-                            }}
+                            onClick={() => downloadManager.resume(item.id)}
                             className="p-1 hover:bg-blue-100 dark:hover:bg-blue-900/30 rounded transition-colors"
                             title="Retry"
                           >
                             <RefreshCw className="w-4 h-4 text-blue-600 dark:text-blue-400" />
                           </button>
                         )}
+                        <button
+                          onClick={() => downloadManager.remove(item.id)}
+                          className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+                          title="Remove"
+                        >
+                          <X className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+                        </button>
                       </div>
                     </td>
                   </tr>
@@ -804,13 +685,13 @@ const BatchDownloader = () => {
       )}
 
       {/* Summary */}
-      {queue.length > 0 && pendingCount === 0 && !isDownloading && (
+      {queue.length > 0 && pendingCount === 0 && pausedCount === 0 && !isDownloading && (
         <div className="bg-gradient-to-r from-green-50 to-emerald-50 dark:from-green-900/20 dark:to-emerald-900/20 rounded-xl p-6 border-2 border-green-200 dark:border-green-800">
           <div className="flex items-center gap-3 mb-4">
             <CheckCircle className="w-8 h-8 text-green-600" />
             <div>
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                Batch Complete!
+                Queue Complete!
               </h3>
               <p className="text-sm text-gray-600 dark:text-gray-400">
                 Downloaded {completedCount} of {queue.length} videos. {failedCount} failed.
@@ -828,6 +709,11 @@ const BatchDownloader = () => {
                   <div key={item.id} className="text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 p-2 rounded">
                     <div className="font-medium">{item.url}</div>
                     <div className="text-xs mt-1">{item.error}</div>
+                    {item.errorKind && (
+                      <div className="text-xs mt-1 text-gray-700 dark:text-gray-300">
+                        {DOWNLOAD_ERROR_GUIDANCE[item.errorKind].remedy}
+                      </div>
+                    )}
                   </div>
                 ))}
             </div>
@@ -287,7 +287,8 @@ export const ClipExtractor = ({ video, videoRef, onClose, onClipExtracted }: Cli
       const ffmpeg = ffmpegRef.current;
 
       // Write input file to FFmpeg's virtual filesystem
-      await ffmpeg.writeFile('input.mp4', await fetchFile(video.videoBlob));
+      const videoBlob = await storageService.getVideoBlob(video.id);
+      await ffmpeg.writeFile('input.mp4', await fetchFile(videoBlob));
 
       // Calculate duration
       const duration = endTime - startTime;
@@ -332,6 +333,10 @@ export const ClipExtractor = ({ video, videoRef, onClose, onClipExtracted }: Cli
         author: video.author,
         quality: video.quality,
         format: video.format,
+        // Bounds in the original video, which this one may already be a clip of
+        clipStart: (video.clipStart ?? 0) + startTime,
+        clipEnd: (video.clipStart ?? 0) + endTime,
+        audioBitrate: video.audioBitrate,
         videoBlob: extractedBlob,
         fileSize: extractedBlob.size,
         tags: [...video.tags, 'clip'],
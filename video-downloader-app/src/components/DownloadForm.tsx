@@ -4,10 +4,7 @@ import {
   Download,
   Loader2,
   AlertCircle,
-  Youtube,
-  Music,
   CheckCircle2,
-  Video,
   X,
   Info,
   FileDown,
@@ -18,21 +15,69 @@ import {
   ChevronDown,
   Clock,
   Scissors,
-  List
+  List,
+  Copy,
+  RotateCcw
 } from 'lucide-react';
-import { parseVideoUrl, getPlatformFromUrl } from '../utils/urlParser';
-import { youtubeService } from '../services/youtubeService';
-import { tiktokService } from '../services/tiktokService';
+import { parseVideoUrl, getPlatformFromUrl, getVideoSourceKey } from '../utils/urlParser';
+import { formatTransferProgress, getTransferPercent } from '../utils/streamDownload';
+import { parseTimecode } from '../utils/dateUtils';
+import { describeDownloadWait } from '../utils/downloadSchedule';
+import { DOWNLOAD_ERROR_GUIDANCE, RETRY_POLICIES } from '../utils/downloadErrors';
+import { platformRegistry } from '../services/platforms';
 import { storageService } from '../services/storageService';
-import { offlineQueue } from '../services/offlineQueue';
+import { storageManager } from '../services/storageManager';
+import { downloadManager } from '../services/downloadManager';
 import { useOffline } from '../hooks/useOffline';
+import { useDownloads } from '../hooks/useDownloads';
 import { useNotifications } from '../contexts/NotificationContext';
 import { QualityCard } from './QualityCard';
+import { PlatformIcon } from './PlatformIcon';
 import BatchDownloader from './BatchDownloader';
-import type { VideoPlatform, QualityOption } from '../types';
+import { DownloadSchedulePicker } from './DownloadSchedulePicker';
+import type {
+  VideoPlatform,
+  VideoMetadata,
+  QualityOption,
+  DuplicateAction,
+  TransferProgress,
+  Video as LibraryVideo,
+  ClipRange,
+  DownloadJob,
+  DownloadSchedule,
+  DownloadErrorKind,
+} from '../types';
 
 type DownloadStatus = 'idle' | 'fetching-metadata' | 'downloading' | 'processing' | 'saving' | 'completed' | 'failed';
 
+/** MP3 bitrate in kbps for each audio quality */
+const AUDIO_BITRATES = { high: 320, medium: 192, low: 128 } as const;
+
+/**
+ * Read the clip range from the advanced options
+ * @returns The clip (undefined for the whole video), or an error message
+ */
+function parseClipRange(startText: string, endText: string, duration: number): { clip?: ClipRange; error?: string } {
+  if (!startText.trim() && !endText.trim()) {
+    return {};
+  }
+
+  const start = startText.trim() ? parseTimecode(startText) : 0;
+  const end = endText.trim() ? parseTimecode(endText) : undefined;
+  if (start === null || end === null) {
+    return { error: 'Clip times must look like 1:30 or 01:30:00.' };
+  }
+  if (duration > 0 && start >= duration) {
+    return { error: 'The clip starts after the end of the video.' };
+  }
+  if (end !== undefined && end <= start) {
+    return { error: 'The clip must end after it starts.' };
+  }
+
+  // An end past the video is the end of the video
+  return { clip: { start, end: end !== undefined && duration > 0 ? Math.min(end, duration) : end } };
+}
+
 export interface DownloadFormRef {
   focusInput: () => void;
 }
@@ -43,8 +88,8 @@ export interface DownloadFormRef {
 const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
   const navigate = useNavigate();
   const { showSuccess, showError, showInfo, showWarning } = useNotifications();
-  const isOnline = useOffline();
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const { isOnline } = useOffline();
+  const jobs = useDownloads();
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const [batchMode, setBatchMode] = useState(false);
 
@@ -58,20 +103,27 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
   const [platform, setPlatform] = useState<VideoPlatform | null>(null);
   const [downloadStatus, setDownloadStatus] = useState<DownloadStatus>('idle');
   const [progress, setProgress] = useState(0);
+  const [transfer, setTransfer] = useState<TransferProgress | null>(null);
   const [stageMessage, setStageMessage] = useState('');
   const [error, setError] = useState<string | null>(null);
+  // Kind of the failed download, and its job to retry; unset for errors found before queueing
+  const [failure, setFailure] = useState<{ kind: DownloadErrorKind; jobId: string } | null>(null);
   const [quality, setQuality] = useState('1080p');
   const [format, setFormat] = useState<'mp4' | 'mp3'>('mp4');
   const [urlValidation, setUrlValidation] = useState<'valid' | 'invalid' | 'empty'>('empty');
   const [showPlatformIndicator, setShowPlatformIndicator] = useState(false);
   const [savedVideoId, setSavedVideoId] = useState<string | null>(null);
+  // Download manager job of the download started from this form
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [duplicatePrompt, setDuplicatePrompt] = useState<{ url: string; videos: LibraryVideo[] } | null>(null);
   const [availableQualities, setAvailableQualities] = useState<QualityOption[]>([]);
   const [fetchingQualities, setFetchingQualities] = useState(false);
-  const [videoMetadata, setVideoMetadata] = useState<any>(null);
+  const [videoMetadata, setVideoMetadata] = useState<VideoMetadata | null>(null);
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
   const [audioQuality, setAudioQuality] = useState<'high' | 'medium' | 'low'>('high');
   const [clipStartTime, setClipStartTime] = useState('');
   const [clipEndTime, setClipEndTime] = useState('');
+  const [schedule, setSchedule] = useState<DownloadSchedule | undefined>();
 
   // Debounced URL validation and quality fetching
   useEffect(() => {
@@ -101,25 +153,13 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
         // Fetch video metadata and available qualities
         setFetchingQualities(true);
         try {
-          let metadata: any;
-          let qualities: QualityOption[] = [];
-
-          if (parsed.platform === 'youtube') {
-            metadata = await youtubeService.getVideoMetadata(trimmedUrl);
-            const isShort = youtubeService.isShort(trimmedUrl);
-            qualities = await youtubeService.getAvailableQualities(
-              parsed.videoId,
-              metadata.duration,
-              isShort
-            );
-          } else if (parsed.platform === 'tiktok') {
-            metadata = await tiktokService.getVideoMetadata(trimmedUrl);
-            qualities = await tiktokService.getAvailableQualities(
-              trimmedUrl,
-              metadata.duration
-            );
-          }
+          const provider = platformRegistry.get(parsed.platform);
+          const metadata = await provider.getMetadata(trimmedUrl);
+          const qualities = await provider.getAvailableQualities(trimmedUrl, metadata);
 
+          if (!provider.capabilities.audioOnly) {
+            setFormat('mp4');
+          }
           setVideoMetadata(metadata);
           setAvailableQualities(qualities);
 
@@ -149,37 +189,90 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
     return () => clearTimeout(timeoutId);
   }, [url]);
 
-  // Check if server is running
-  const checkServerConnection = async (): Promise<boolean> => {
-    try {
-      const proxyUrl = import.meta.env.VITE_YOUTUBE_API_PROXY || 'http://localhost:3000/api/youtube';
-      const baseUrl = proxyUrl.replace('/api/youtube', '');
-      const response = await fetch(`${baseUrl}/health`, { 
-        method: 'GET',
-        signal: AbortSignal.timeout(2000)
-      });
-      return response.ok;
-    } catch {
-      // Try to ping the YouTube endpoint as a health check
-      try {
-        const proxyUrl = import.meta.env.VITE_YOUTUBE_API_PROXY || 'http://localhost:3000/api/youtube';
-        const response = await fetch(`${proxyUrl}?id=test`, {
-          method: 'GET',
-          signal: AbortSignal.timeout(2000)
-        });
-        // Even if it fails with 400, server is running
-        return true;
-      } catch {
-        return false;
+  // Follow the queued download in the download manager
+  useEffect(() => {
+    if (!jobId) return;
+
+    const job = jobs.find((item) => item.id === jobId);
+    if (!job) {
+      // Cancelled from the downloads tray
+      resetForm();
+      return;
+    }
+
+    switch (job.status) {
+      case 'pending':
+        setDownloadStatus('fetching-metadata');
+        if (job.waiting?.reason === 'retry' && job.errorKind) {
+          setStageMessage(`${DOWNLOAD_ERROR_GUIDANCE[job.errorKind].title}. ${describeDownloadWait(job.waiting)}...`);
+        } else {
+          setStageMessage(job.waiting ? describeDownloadWait(job.waiting) : 'Waiting for other downloads to finish...');
+        }
+        break;
+      case 'paused':
+        setStageMessage(job.error ?? `Paused at ${job.progress}%. Resume it from the downloads tray.`);
+        break;
+      case 'downloading': {
+        const jobTransfer = downloadManager.getTransfer(job.id) ?? null;
+        setProgress(job.progress);
+        setTransfer(jobTransfer);
+        if (job.stage === 'downloading') {
+          setDownloadStatus('downloading');
+          const percent = jobTransfer ? getTransferPercent(jobTransfer) : null;
+          setStageMessage(percent !== null ? `Downloading video... ${percent}%` : 'Downloading video...');
+        } else if (job.stage === 'processing') {
+          setDownloadStatus('processing');
+          setStageMessage(
+            job.format === 'mp3' ? 'Processing audio...' : job.options?.clip ? 'Cutting the clip...' : 'Processing video...'
+          );
+        } else if (job.stage === 'saving') {
+          setDownloadStatus('saving');
+          setStageMessage('Saving to library...');
+        } else {
+          setDownloadStatus('fetching-metadata');
+          setStageMessage('Fetching video information...');
+        }
+        break;
+      }
+      case 'completed':
+      case 'skipped': {
+        setJobId(null);
+        setTransfer(null);
+        setSavedVideoId(job.libraryVideoId ?? null);
+        setProgress(100);
+        setDownloadStatus('completed');
+        setStageMessage('Complete!');
+        showSuccess(`Video "${job.title || 'Untitled Video'}" ${job.duplicateAction === 'replace' ? 'replaced' : 'downloaded'} successfully!`);
+
+        // Identical files are stored once; let the user know they have a copy already
+        if (job.libraryVideoId) {
+          storageService.findIdenticalVideos(job.libraryVideoId).then((identicalVideos) => {
+            if (identicalVideos.length > 0) {
+              showInfo(`This file is identical to "${identicalVideos[0].title}" in your library.`);
+            }
+          });
+        }
+        break;
+      }
+      case 'failed': {
+        setJobId(null);
+        setTransfer(null);
+        const errorMessage = job.error || 'An error occurred during download';
+        showError(errorMessage);
+        setError(errorMessage);
+        setFailure({ kind: job.errorKind ?? 'unknown', jobId: job.id });
+        setDownloadStatus('failed');
+        break;
       }
     }
-  };
+  }, [jobId, jobs, showSuccess, showError, showInfo]);
 
   // Cancel download
   const handleCancel = () => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
+    if (jobId) {
+      downloadManager.remove(jobId).catch((error) => {
+        console.error('Error cancelling download:', error);
+      });
     }
     resetForm();
   };
@@ -188,228 +281,132 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
   const resetForm = () => {
     setDownloadStatus('idle');
     setProgress(0);
+    setTransfer(null);
     setStageMessage('');
     setError(null);
+    setFailure(null);
     setSavedVideoId(null);
-    abortControllerRef.current = null;
+    setDuplicatePrompt(null);
+    setJobId(null);
+  };
+
+  // Start the failed download again, continuing from the bytes already received
+  const handleRetry = () => {
+    if (!failure) return;
+    downloadManager.resume(failure.jobId);
+    setJobId(failure.jobId);
+    setError(null);
+    setFailure(null);
+    setDownloadStatus('fetching-metadata');
+    setStageMessage('Retrying...');
   };
 
   // Handle download function
-  const handleDownload = async () => {
+  const handleDownload = async (duplicateAction?: DuplicateAction) => {
     // Validate URL
     const parsed = parseVideoUrl(url);
     if (!parsed) {
-      setError('Invalid video URL. Please enter a valid YouTube or TikTok URL.');
+      setError('Invalid video URL. Please enter a YouTube, TikTok or Instagram URL, or a link to a video file or HLS/DASH stream.');
       setDownloadStatus('failed');
       return;
     }
 
-    // Check if offline - queue the download
-    const isOffline = !isOnline;
-    if (isOffline) {
-      try {
-        await offlineQueue.add(url, parsed.platform, quality, format);
-        setDownloadStatus('completed');
-        setStageMessage('Queued for download when online');
-        setError(null);
-        setProgress(100);
-        
-        // Show success message
-        setTimeout(() => {
-          resetForm();
-        }, 2000);
-        return;
-      } catch (error) {
-        setError('Failed to queue download. Please try again when online.');
-        setDownloadStatus('failed');
+    // Ask what to do when the video is already in the library
+    if (!duplicateAction) {
+      const existingCopies = await storageService.findVideosBySourceKey(getVideoSourceKey(url));
+      if (existingCopies.length > 0) {
+        setDuplicatePrompt({ url: url.trim(), videos: existingCopies });
         return;
       }
     }
+    setDuplicatePrompt(null);
 
-    // Create abort controller for cancellation
-    abortControllerRef.current = new AbortController();
-    const signal = abortControllerRef.current.signal;
-
-    // Check server connection first
-    setDownloadStatus('fetching-metadata');
-    setStageMessage('Checking server connection...');
-    setProgress(2);
-    setError(null);
-
-    const serverRunning = await checkServerConnection();
-    if (!serverRunning) {
-      const errorMsg = 'Download server is not running. Please start the server by running "npm run server" in a terminal, then try again.';
-      showError(errorMsg);
-      setError(errorMsg);
+    // Part of the video to keep, and the MP3 bitrate
+    const clipRange = parseClipRange(clipStartTime, clipEndTime, videoMetadata?.duration || 0);
+    if (clipRange.error) {
+      setError(clipRange.error);
       setDownloadStatus('failed');
       return;
     }
-
-    try {
-      let videoBlob: Blob;
-      let metadata: any;
-
-      // Step 1: Get video metadata (0-20% progress)
-      setDownloadStatus('fetching-metadata');
-      setStageMessage('Fetching video information...');
-      setProgress(5);
-      showInfo(`Starting download from ${parsed.platform === 'youtube' ? 'YouTube' : 'TikTok'}...`);
-
-      if (parsed.platform === 'youtube') {
-        metadata = await youtubeService.getVideoMetadata(url);
-        setProgress(20);
-        
-        // Step 2: Download video (20-80% progress)
-        setDownloadStatus('downloading');
-        setStageMessage('Downloading video...');
-        
-        // Track download progress
-        let downloadProgress = 20;
-        const progressInterval = setInterval(() => {
-          if (!signal.aborted && downloadProgress < 80) {
-            downloadProgress += 2;
-            setProgress(downloadProgress);
-            setStageMessage(`Downloading video... ${downloadProgress}%`);
-          }
-        }, 300);
-
-        try {
-          videoBlob = await youtubeService.downloadVideo(
-            parsed.videoId,
-            quality,
-            format
-          );
-        } finally {
-          clearInterval(progressInterval);
-        }
-      } else if (parsed.platform === 'tiktok') {
-        metadata = await tiktokService.getVideoMetadata(url);
-        setProgress(20);
-        
-        // Step 2: Download video (20-80% progress)
-        setDownloadStatus('downloading');
-        setStageMessage('Downloading video...');
-        
-        // Track download progress
-        let downloadProgress = 20;
-        const progressInterval = setInterval(() => {
-          if (!signal.aborted && downloadProgress < 80) {
-            downloadProgress += 2;
-            setProgress(downloadProgress);
-            setStageMessage(`Downloading video... ${downloadProgress}%`);
-          }
-        }, 300);
-
-        try {
-          videoBlob = await tiktokService.downloadVideo(url, false);
-        } finally {
-          clearInterval(progressInterval);
-        }
-      } else {
-        throw new Error('Platform not supported. Only YouTube and TikTok are currently supported.');
-      }
-
-      if (signal.aborted) {
-        return;
-      }
-
-      setProgress(85);
-      setDownloadStatus('processing');
-      setStageMessage('Processing video...');
-
-      // Small delay to show processing state
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      if (signal.aborted) {
+    const processingOptions = {
+      clip: clipRange.clip,
+      audioBitrate: format === 'mp3' ? AUDIO_BITRATES[audioQuality] : undefined,
+    };
+
+    // Warn before downloading a video that won't fit in storage
+    const estimatedSize = availableQualities.find((option) => option.resolution === quality)?.fileSize;
+    if (isOnline && estimatedSize) {
+      const capacity = await storageManager.checkCapacity(estimatedSize);
+      if (!capacity.fits && !storageManager.getPolicy().autoEvict) {
+        const errorMsg = 'Not enough storage space for this video. Free up space in Settings → Storage Management, or choose a lower quality.';
+        showWarning(errorMsg);
+        setError(errorMsg);
+        setDownloadStatus('failed');
         return;
       }
-
-      setProgress(90);
-      setDownloadStatus('saving');
-      setStageMessage('Saving to library...');
-
-      // Step 3: Save to IndexedDB (90-100% progress)
-      const videoData = {
-        url: url,
-        platform: parsed.platform,
-        title: metadata.title || 'Untitled Video',
-        description: metadata.description || metadata.caption || '',
-        thumbnail: metadata.thumbnail || '',
-        duration: metadata.duration || 0,
-        author: metadata.author || 'Unknown',
-        quality: quality,
-        format: format,
-        videoBlob: videoBlob,
-        fileSize: videoBlob.size,
-      };
-
-      setProgress(95);
-      const videoId = await storageService.saveVideo(videoData);
-      setSavedVideoId(videoId);
-      setProgress(100);
-      setDownloadStatus('completed');
-      setStageMessage('Complete!');
-      showSuccess(`Video "${metadata.title || 'Untitled Video'}" downloaded successfully!`);
-    } catch (err: any) {
-      if (signal.aborted) {
-        // User cancelled, don't show error
-        return;
+      if (capacity.nearLimit) {
+        showWarning('Storage is almost full. Consider freeing up space in Settings → Storage Management.');
       }
+    }
 
-      console.error('Download error:', err);
-      let errorMessage = 'An error occurred during download';
-      
-      if (err instanceof Error) {
-        errorMessage = err.message;
-        
-        // Check for common errors and provide helpful messages
-        if (errorMessage.includes('quota exceeded') || errorMessage.includes('quotaExceeded')) {
-          errorMessage = 'YouTube API quota exceeded. The daily limit has been reached. Please try again tomorrow or use a different API key.';
-        } else if (errorMessage.includes('Network error') || errorMessage.includes('ECONNREFUSED') || errorMessage.includes('ENOTFOUND')) {
-          errorMessage = 'Cannot connect to download server. Please make sure the server is running on port 3000. Run "npm run server" in a terminal.';
-        } else if (errorMessage.includes('404') || errorMessage.includes('not found') || errorMessage.includes('Video not found')) {
-          errorMessage = 'Video not found. The video may have been deleted, is private, or the URL is incorrect.';
-        } else if (errorMessage.includes('403') || errorMessage.includes('Access denied') || errorMessage.includes('forbidden')) {
-          errorMessage = 'Access denied. The video may be private, age-restricted, or your API key lacks permissions.';
-        } else if (errorMessage.includes('timeout') || errorMessage.includes('ETIMEDOUT')) {
-          errorMessage = 'Request timeout. The connection to YouTube API timed out. Please check your internet connection and try again.';
-        } else if (errorMessage.includes('Invalid YouTube API key') || errorMessage.includes('invalidCredentials')) {
-          errorMessage = 'Invalid YouTube API key. Please check your API key configuration in the .env file.';
-        } else if (errorMessage.includes('Unknown error') || (errorMessage.includes('Unknown') && !errorMessage.includes('network'))) {
-          errorMessage = 'An unexpected error occurred. Please check the console for details and try again.';
-        }
-      }
-      
-      showError(errorMessage);
-      setError(errorMessage);
+    // Downloads run in the download manager, so they continue on other pages
+    let job: DownloadJob;
+    try {
+      [job] = await downloadManager.enqueue([
+        {
+          url: url.trim(),
+          platform: parsed.platform,
+          videoId: parsed.videoId,
+          title: videoMetadata?.title,
+          thumbnail: videoMetadata?.thumbnail,
+          quality,
+          format,
+          formatId: availableQualities.find((option) => option.resolution === quality)?.formatId,
+          options: processingOptions,
+          // The library was checked above
+          duplicateAction: duplicateAction ?? 'keep-both',
+          // Started from here, so it goes ahead of queued batch downloads
+          priority: 'high',
+          schedule,
+        },
+      ]);
+    } catch (error) {
+      console.error('Error queuing download:', error);
+      setError('Failed to queue download. Please try again.');
       setDownloadStatus('failed');
+      return;
     }
-  };
 
-  // Get platform icon
-  const getPlatformIcon = () => {
-    switch (platform) {
-      case 'youtube':
-        return <Youtube className="w-6 h-6 text-red-600 dark:text-red-500" />;
-      case 'tiktok':
-        return <Video className="w-6 h-6 text-black dark:text-white" />;
-      default:
-        return null;
+    // Offline and scheduled downloads start later; the downloads tray shows them until then
+    if (!isOnline || schedule) {
+      setDownloadStatus('completed');
+      setStageMessage(
+        schedule?.startAt
+          ? describeDownloadWait({ reason: 'scheduled', until: schedule.startAt })
+          : schedule?.useWindows
+            ? 'Queued for the download windows'
+            : 'Queued for download when online'
+      );
+      setError(null);
+      setProgress(100);
+      setTimeout(() => {
+        resetForm();
+      }, 2000);
+      return;
     }
-  };
 
-  // Get platform display name
-  const getPlatformName = () => {
-    switch (platform) {
-      case 'youtube':
-        return 'YouTube';
-      case 'tiktok':
-        return 'TikTok';
-      default:
-        return '';
-    }
+    setError(null);
+    setProgress(0);
+    setDownloadStatus('fetching-metadata');
+    setStageMessage('Fetching video information...');
+    showInfo(`Starting download from ${platformRegistry.get(parsed.platform).branding.name}...`);
+    setJobId(job.id);
   };
 
+  const platformProvider = platform ? platformRegistry.get(platform) : null;
+  const platformName = platformProvider?.branding.name ?? '';
+  const audioOnlyUnsupported = !!platformProvider && !platformProvider.capabilities.audioOnly;
+
   // Get status icon
   const getStatusIcon = () => {
     switch (downloadStatus) {
@@ -482,7 +479,7 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
             id="video-url"
             value={url}
             onChange={(e) => setUrl(e.target.value)}
-            placeholder="Paste YouTube or TikTok video URL here..."
+            placeholder="Paste a YouTube, TikTok, Instagram or direct video URL here..."
             aria-label="Video URL input"
             aria-describedby="url-helper url-validation"
             disabled={isDownloading}
@@ -508,6 +505,7 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
             <ul className="list-disc list-inside space-y-0.5 ml-2">
               <li>YouTube: youtube.com/watch?v=VIDEO_ID or youtu.be/VIDEO_ID</li>
               <li>TikTok: tiktok.com/@username/video/VIDEO_ID</li>
+              <li>Instagram: instagram.com/p/POST_ID or instagram.com/reel/REEL_ID</li>
             </ul>
           </div>
 
@@ -528,10 +526,10 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
             className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800 animate-fadeIn"
             role="status"
             aria-live="polite"
-            aria-label={`Platform detected: ${getPlatformName()}`}
+            aria-label={`Platform detected: ${platformName}`}
           >
             <div className="flex items-center gap-3">
-              {getPlatformIcon()}
+              <PlatformIcon platform={platform} className="w-6 h-6" colored />
               <div className="flex-1">
                 <div className="flex items-center gap-2">
                   <CheckCircle2 className="w-5 h-5 text-green-600 dark:text-green-400" aria-hidden="true" />
@@ -540,7 +538,7 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
                   </p>
                 </div>
                 <p className="text-lg font-semibold text-green-700 dark:text-green-300 mt-0.5">
-                  {getPlatformName()}
+                  {platformName}
                 </p>
               </div>
             </div>
@@ -596,6 +594,11 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
                 {stageMessage}
               </span>
             </div>
+            {downloadStatus === 'downloading' && transfer && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {formatTransferProgress(transfer)}
+              </p>
+            )}
           </div>
         )}
 
@@ -629,6 +632,48 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
           </div>
         )}
 
+        {/* Duplicate Prompt */}
+        {downloadStatus === 'idle' && duplicatePrompt?.url === url.trim() && (
+          <div className="mb-6 p-6 bg-gradient-to-br from-yellow-50 to-amber-50 dark:from-yellow-900/20 dark:to-amber-900/20 rounded-xl border-2 border-yellow-200 dark:border-yellow-800 animate-fadeIn">
+            <div className="flex items-start gap-3 mb-4">
+              <Copy className="w-8 h-8 text-yellow-600 flex-shrink-0" />
+              <div className="flex-1">
+                <h3 className="font-semibold text-gray-900 dark:text-white text-lg mb-1">
+                  Already in Your Library
+                </h3>
+                <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+                  {duplicatePrompt.videos.map((video) => (
+                    <li key={video.id}>
+                      "{video.title}" · {video.quality} {video.format.toUpperCase()} · downloaded{' '}
+                      {new Date(video.downloadDate).toLocaleDateString()}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <button
+                onClick={() => navigate(`/video/${duplicatePrompt.videos[0].id}`)}
+                className="btn-glass py-3 px-4 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded-full transition-all duration-200"
+              >
+                Skip
+              </button>
+              <button
+                onClick={() => handleDownload('replace')}
+                className="btn-glass py-3 px-4 bg-yellow-600 hover:bg-yellow-700 text-white font-semibold rounded-full transition-all duration-200"
+              >
+                Replace
+              </button>
+              <button
+                onClick={() => handleDownload('keep-both')}
+                className="btn-glass py-3 px-4 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-full transition-all duration-200"
+              >
+                Keep Both
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Error Card */}
         {downloadStatus === 'failed' && error && (
           <div className="mb-6 p-6 bg-gradient-to-br from-red-50 to-pink-50 dark:from-red-900/20 dark:to-pink-900/20 rounded-xl border-2 border-red-200 dark:border-red-800 animate-fadeIn">
@@ -636,19 +681,42 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
               <XCircle className="w-8 h-8 text-red-600 flex-shrink-0" />
               <div className="flex-1">
                 <h3 className="font-semibold text-gray-900 dark:text-white text-lg mb-1">
-                  Download Failed
+                  {failure ? DOWNLOAD_ERROR_GUIDANCE[failure.kind].title : 'Download Failed'}
                 </h3>
                 <p className="text-sm text-red-800 dark:text-red-300">
                   {error}
                 </p>
+                {failure && (
+                  <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+                    {DOWNLOAD_ERROR_GUIDANCE[failure.kind].remedy}
+                  </p>
+                )}
               </div>
             </div>
-            <button
-              onClick={resetForm}
-              className="btn-glass w-full py-3 px-6 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-full transition-all duration-200"
-            >
-              Try Again
-            </button>
+            {failure && RETRY_POLICIES[failure.kind].maxRetries > 0 ? (
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  onClick={handleRetry}
+                  className="btn-glass py-3 px-6 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-full transition-all duration-200 flex items-center justify-center gap-2"
+                >
+                  <RotateCcw className="w-4 h-4" aria-hidden="true" />
+                  Retry
+                </button>
+                <button
+                  onClick={resetForm}
+                  className="btn-glass py-3 px-6 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white font-semibold rounded-full transition-all duration-200"
+                >
+                  Dismiss
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={resetForm}
+                className="btn-glass w-full py-3 px-6 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-full transition-all duration-200"
+              >
+                {failure?.kind === 'unsupported-format' ? 'Choose Another Quality' : 'Try Again'}
+              </button>
+            )}
           </div>
         )}
 
@@ -724,7 +792,7 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
                 value="mp3"
                 checked={format === 'mp3'}
                 onChange={(e) => setFormat(e.target.value as 'mp4' | 'mp3')}
-                disabled={isDownloading}
+                disabled={isDownloading || audioOnlyUnsupported}
                 aria-label="MP3 audio format"
                 className="w-5 h-5 text-blue-600 focus:ring-blue-500 focus:ring-2
                          border-gray-300 dark:border-gray-600 cursor-pointer disabled:opacity-50"
@@ -734,6 +802,11 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
               </span>
             </label>
           </div>
+          {audioOnlyUnsupported && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Audio-only downloads are not available for {platformName}.
+            </p>
+          )}
         </div>
 
         {/* Advanced Options */}
@@ -752,8 +825,8 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
 
           {showAdvancedOptions && (
             <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 space-y-4 animate-fadeIn">
-              {/* Audio Quality Selector (for video format) */}
-              {format === 'mp4' && (
+              {/* Audio Quality Selector (MP3 bitrate) */}
+              {format === 'mp3' && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     Audio Quality
@@ -787,7 +860,7 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
               )}
 
               {/* Clip Extraction */}
-              {format === 'mp4' && videoMetadata && (
+              {videoMetadata && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 flex items-center gap-2">
                     <Scissors className="w-4 h-4" />
@@ -834,16 +907,34 @@ const DownloadForm = forwardRef<DownloadFormRef>((props, ref) => {
                   </p>
                 </div>
               )}
+
+              {/* Schedule */}
+              <div>
+                <label htmlFor="download-schedule" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 flex items-center gap-2">
+                  <Clock className="w-4 h-4" />
+                  Start Download
+                </label>
+                <DownloadSchedulePicker
+                  id="download-schedule"
+                  value={schedule}
+                  onChange={setSchedule}
+                  disabled={isDownloading}
+                  className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:border-blue-500 dark:focus:border-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Set the download windows in Settings
+                </p>
+              </div>
             </div>
           )}
         </div>
 
         {/* Download Button - Only shown when idle */}
-        {downloadStatus === 'idle' && (
+        {downloadStatus === 'idle' && duplicatePrompt?.url !== url.trim() && (
           <button
-            onClick={handleDownload}
+            onClick={() => handleDownload()}
             disabled={isDownloadDisabled}
-            aria-label={platform ? `Download ${getPlatformName()} video` : 'Download video (disabled - enter valid URL)'}
+            aria-label={platform ? `Download ${platformName} video` : 'Download video (disabled - enter valid URL)'}
             className="btn-glass w-full py-4 px-6 rounded-full font-semibold text-white text-lg
                      bg-gradient-to-r from-blue-600 to-purple-600 
                      hover:from-blue-700 hover:to-purple-700
@@ -0,0 +1,63 @@
+import type { DownloadSchedule } from '../types';
+
+type ScheduleMode = 'now' | 'at' | 'windows';
+
+interface DownloadSchedulePickerProps {
+  id: string;
+  value: DownloadSchedule | undefined;
+  onChange: (schedule: DownloadSchedule | undefined) => void;
+  disabled?: boolean;
+  className?: string; // classes of the select and the date input
+}
+
+// Value of a datetime-local input for a date, in local time
+const toDateTimeInput = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Choose when a download starts: right away, at a set time, or during the
+ * download windows from Settings
+ */
+export const DownloadSchedulePicker = ({ id, value, onChange, disabled, className }: DownloadSchedulePickerProps) => {
+  const mode: ScheduleMode = value?.startAt ? 'at' : value?.useWindows ? 'windows' : 'now';
+
+  const handleModeChange = (next: ScheduleMode) => {
+    if (next === 'at') {
+      // Start on the next full hour unless the user picks another time
+      const startAt = new Date();
+      startAt.setHours(startAt.getHours() + 1, 0, 0, 0);
+      onChange({ startAt });
+    } else {
+      onChange(next === 'windows' ? { useWindows: true } : undefined);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2">
+      <select
+        id={id}
+        value={mode}
+        onChange={(e) => handleModeChange(e.target.value as ScheduleMode)}
+        disabled={disabled}
+        className={className}
+      >
+        <option value="now">Right away</option>
+        <option value="at">At a set time</option>
+        <option value="windows">During download windows</option>
+      </select>
+      {value?.startAt && (
+        <input
+          type="datetime-local"
+          value={toDateTimeInput(new Date(value.startAt))}
+          min={toDateTimeInput(new Date())}
+          onChange={(e) => e.target.value && onChange({ startAt: new Date(e.target.value) })}
+          disabled={disabled}
+          aria-label="Start time"
+          className={className}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,301 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  Download,
+  Pause,
+  Play,
+  X,
+  RefreshCw,
+  CheckCircle2,
+  AlertCircle,
+  SkipForward,
+  Loader2,
+  Clock,
+  WifiOff,
+  Zap,
+} from 'lucide-react';
+import { downloadManager } from '../services/downloadManager';
+import { useDownloads } from '../hooks/useDownloads';
+import { useOffline } from '../hooks/useOffline';
+import { formatTransferProgress } from '../utils/streamDownload';
+import { describeDownloadWait } from '../utils/downloadSchedule';
+import { DOWNLOAD_ERROR_GUIDANCE } from '../utils/downloadErrors';
+import { PlatformIcon } from './PlatformIcon';
+import type { DownloadJob, DownloadJobStatus, DownloadPriority } from '../types';
+
+/** Order of the statuses in the tray: running downloads first, finished ones last */
+const STATUS_ORDER: Record<DownloadJobStatus, number> = {
+  downloading: 0,
+  pending: 1,
+  paused: 2,
+  failed: 3,
+  completed: 4,
+  skipped: 4,
+};
+
+const STAGE_LABELS = {
+  metadata: 'Fetching video information...',
+  downloading: 'Downloading...',
+  processing: 'Processing...',
+  saving: 'Saving to library...',
+} as const;
+
+// Status line of a download
+const describeJob = (job: DownloadJob): string => {
+  switch (job.status) {
+    case 'downloading': {
+      const transfer = downloadManager.getTransfer(job.id);
+      return job.stage === 'downloading' && transfer ? formatTransferProgress(transfer) : STAGE_LABELS[job.stage ?? 'metadata'];
+    }
+    case 'pending':
+      if (job.waiting?.reason === 'retry' && job.errorKind) {
+        return `${DOWNLOAD_ERROR_GUIDANCE[job.errorKind].title} · ${describeDownloadWait(job.waiting)}`;
+      }
+      if (job.waiting) return describeDownloadWait(job.waiting);
+      return job.priority === 'normal' ? 'Queued' : `Queued · ${job.priority} priority`;
+    case 'paused':
+      return job.error ?? `Paused at ${job.progress}%`;
+    case 'failed':
+      if (job.errorKind) return `${DOWNLOAD_ERROR_GUIDANCE[job.errorKind].title}: ${job.error}`;
+      return job.error ?? 'Download failed';
+    case 'completed':
+      return 'Saved to library';
+    case 'skipped':
+      return job.libraryVideoId ? 'Already in library' : 'Skipped';
+  }
+};
+
+/**
+ * Downloads button in the navigation bar, with a dropdown listing every
+ * download in the download manager queue
+ */
+export const DownloadsTray = () => {
+  const navigate = useNavigate();
+  const jobs = useDownloads();
+  const { isOnline } = useOffline();
+  const [open, setOpen] = useState(false);
+  const trayRef = useRef<HTMLDivElement>(null);
+
+  // Close the dropdown when clicking outside
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (trayRef.current && !trayRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const activeCount = jobs.filter((job) => job.status === 'downloading' || job.status === 'pending').length;
+  const pausedCount = jobs.filter((job) => job.status === 'paused').length;
+  const finishedCount = jobs.filter((job) => STATUS_ORDER[job.status] >= STATUS_ORDER.failed).length;
+  const sortedJobs = [...jobs].sort(
+    (a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+
+  return (
+    <div className="relative" ref={trayRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2.5 hover:bg-white/10 rounded-full transition-all hover:scale-110"
+        aria-label="Downloads"
+      >
+        {jobs.some((job) => job.status === 'downloading') ? (
+          <Loader2 className="w-5 h-5 text-white animate-spin" />
+        ) : (
+          <Download className="w-5 h-5 text-white/80 hover:text-white" />
+        )}
+        {activeCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 bg-purple-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center ring-2 ring-white/20">
+            {activeCount}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -10, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -10, scale: 0.95 }}
+            transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+            className="absolute right-0 top-full mt-2 w-80 md:w-[26rem] bg-white/30 dark:bg-black/60 backdrop-blur-2xl border-2 border-white/60 dark:border-white/50 rounded-2xl shadow-2xl overflow-hidden z-[60]"
+          >
+            {/* Header */}
+            <div className="px-4 py-3 border-b border-white/10 flex items-center justify-between gap-2">
+              <h3 className="text-sm font-semibold text-white">Downloads</h3>
+              <div className="flex items-center gap-1">
+                {activeCount > 0 && (
+                  <button
+                    onClick={() => downloadManager.pauseAll()}
+                    className="px-2 py-1 text-xs text-white/80 hover:text-white hover:bg-white/10 rounded-full flex items-center gap-1"
+                  >
+                    <Pause className="w-3 h-3" />
+                    Pause all
+                  </button>
+                )}
+                {pausedCount > 0 && (
+                  <button
+                    onClick={() => downloadManager.resumeAll()}
+                    className="px-2 py-1 text-xs text-white/80 hover:text-white hover:bg-white/10 rounded-full flex items-center gap-1"
+                  >
+                    <Play className="w-3 h-3" />
+                    Resume all
+                  </button>
+                )}
+                {finishedCount > 0 && (
+                  <button
+                    onClick={() => downloadManager.clearFinished()}
+                    className="px-2 py-1 text-xs text-white/80 hover:text-white hover:bg-white/10 rounded-full"
+                  >
+                    Clear finished
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {!isOnline && activeCount > 0 && (
+              <div className="px-4 py-2 text-xs text-yellow-200 bg-yellow-500/10 border-b border-white/10 flex items-center gap-2">
+                <WifiOff className="w-3.5 h-3.5" />
+                Offline. Downloads start when you are back online.
+              </div>
+            )}
+
+            {/* Download List */}
+            <div className="max-h-96 overflow-y-auto">
+              {sortedJobs.length > 0 ? (
+                <ul className="divide-y divide-white/10">
+                  {sortedJobs.map((job) => (
+                    <li key={job.id} className="px-4 py-3">
+                      <div className="flex items-start gap-3">
+                        <PlatformIcon platform={job.platform} className="w-4 h-4 mt-0.5 flex-shrink-0" colored />
+                        <div className="flex-1 min-w-0">
+                          {job.libraryVideoId && (job.status === 'completed' || job.status === 'skipped') ? (
+                            <button
+                              onClick={() => {
+                                setOpen(false);
+                                navigate(`/video/${job.libraryVideoId}`);
+                              }}
+                              className="block w-full text-left text-sm text-white truncate hover:underline"
+                              title={job.title || job.url}
+                            >
+                              {job.title || job.url}
+                            </button>
+                          ) : (
+                            <p className="text-sm text-white truncate" title={job.title || job.url}>
+                              {job.title || job.url}
+                            </p>
+                          )}
+                          {(job.status === 'downloading' || job.status === 'paused') && (
+                            <div className="w-full h-1.5 bg-white/20 rounded-full overflow-hidden mt-1.5">
+                              <div
+                                className={`h-full rounded-full transition-all duration-300 ${
+                                  job.status === 'paused' ? 'bg-orange-400' : 'bg-gradient-to-r from-purple-400 to-pink-400'
+                                }`}
+                                style={{ width: `${job.progress}%` }}
+                              />
+                            </div>
+                          )}
+                          <p
+                            className={`text-xs mt-1 truncate flex items-center gap-1 ${
+                              job.status === 'failed' ? 'text-red-300' : 'text-white/60'
+                            }`}
+                            title={describeJob(job)}
+                          >
+                            {job.status === 'completed' && <CheckCircle2 className="w-3 h-3 text-green-400 flex-shrink-0" />}
+                            {job.status === 'failed' && <AlertCircle className="w-3 h-3 flex-shrink-0" />}
+                            {job.status === 'skipped' && <SkipForward className="w-3 h-3 flex-shrink-0" />}
+                            {job.status === 'pending' && <Clock className="w-3 h-3 flex-shrink-0" />}
+                            <span className="truncate">{describeJob(job)}</span>
+                          </p>
+                          {job.status === 'failed' && job.errorKind && (
+                            <p className="text-xs text-white/50 mt-0.5 line-clamp-2">
+                              {DOWNLOAD_ERROR_GUIDANCE[job.errorKind].remedy}
+                            </p>
+                          )}
+                        </div>
+
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          {job.status === 'pending' && (
+                            <select
+                              value={job.priority}
+                              onChange={(e) => downloadManager.setPriority(job.id, e.target.value as DownloadPriority)}
+                              className="bg-white/10 text-white text-xs rounded-full px-2 py-1 border border-white/10 focus:outline-none"
+                              aria-label="Priority"
+                            >
+                              <option value="high">High</option>
+                              <option value="normal">Normal</option>
+                              <option value="low">Low</option>
+                            </select>
+                          )}
+                          {job.status === 'pending' && job.waiting && (
+                            <button
+                              onClick={() => downloadManager.startNow(job.id)}
+                              className="p-1.5 hover:bg-white/10 rounded-full"
+                              aria-label="Start now"
+                              title="Start now"
+                            >
+                              <Zap className="w-3.5 h-3.5 text-white/80" />
+                            </button>
+                          )}
+                          {(job.status === 'pending' || job.status === 'downloading') && (
+                            <button
+                              onClick={() => downloadManager.pause(job.id)}
+                              className="p-1.5 hover:bg-white/10 rounded-full"
+                              aria-label="Pause"
+                              title="Pause"
+                            >
+                              <Pause className="w-3.5 h-3.5 text-white/80" />
+                            </button>
+                          )}
+                          {job.status === 'paused' && (
+                            <button
+                              onClick={() => downloadManager.resume(job.id)}
+                              className="p-1.5 hover:bg-white/10 rounded-full"
+                              aria-label="Resume"
+                              title="Resume"
+                            >
+                              <Play className="w-3.5 h-3.5 text-white/80" />
+                            </button>
+                          )}
+                          {job.status === 'failed' && (
+                            <button
+                              onClick={() => downloadManager.resume(job.id)}
+                              className="p-1.5 hover:bg-white/10 rounded-full"
+                              aria-label="Retry"
+                              title="Retry"
+                            >
+                              <RefreshCw className="w-3.5 h-3.5 text-white/80" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => downloadManager.remove(job.id)}
+                            className="p-1.5 hover:bg-white/10 rounded-full"
+                            aria-label={STATUS_ORDER[job.status] >= STATUS_ORDER.failed ? 'Remove from list' : 'Cancel download'}
+                            title={STATUS_ORDER[job.status] >= STATUS_ORDER.failed ? 'Remove from list' : 'Cancel download'}
+                          >
+                            <X className="w-3.5 h-3.5 text-white/60" />
+                          </button>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                /* Empty State */
+                <div className="px-4 py-8 text-center">
+                  <Download className="w-12 h-12 text-white/30 mx-auto mb-3" />
+                  <p className="text-sm text-white/70">No downloads yet</p>
+                </div>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -16,7 +16,7 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
     {
       icon: Download,
       title: 'Downloading Videos',
-      description: 'Paste a YouTube or TikTok URL in the download form and select your preferred quality and format.',
+      description: 'Paste a YouTube, TikTok or Instagram URL, or a link to a video file (.mp4, .webm) or HLS/DASH stream (.m3u8, .mpd), in the download form and select your preferred quality and format.',
       steps: [
         'Go to Dashboard or Home page',
         'Paste video URL in the input field',
@@ -54,7 +54,7 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
       description: 'Quickly find videos using search or filter by platform, date, or tags.',
       steps: [
         'Use search bar to find by title/description',
-        'Filter by platform (YouTube/TikTok)',
+        'Filter by platform (YouTube/TikTok/Instagram)',
         'Sort by date, title, or duration',
         'Filter by tags using sidebar',
       ],
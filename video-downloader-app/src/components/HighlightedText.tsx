@@ -0,0 +1,29 @@
+import type { SearchSnippet } from '../types';
+
+interface HighlightedTextProps {
+  snippet: SearchSnippet;
+  className?: string;
+}
+
+/**
+ * Render a search snippet with its matched ranges highlighted
+ */
+export const HighlightedText = ({ snippet, className = '' }: HighlightedTextProps) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start > cursor) {
+      parts.push(snippet.text.slice(cursor, start));
+    }
+    parts.push(
+      <mark key={index} className="bg-yellow-300 dark:bg-yellow-600 text-yellow-900 dark:text-yellow-100 px-0.5 rounded">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+
+  return <span className={className}>{parts}</span>;
+};
@@ -16,9 +16,16 @@ import {
   AlertTriangle,
   Info,
   ArrowRight,
+  Rss,
 } from 'lucide-react';
 import { useNotifications } from '../contexts/NotificationContext';
-import { storageService } from '../services/storageService';
+import { useSettings } from '../contexts/SettingsContext';
+import { storageManager } from '../services/storageManager';
+import { trashService } from '../services/trashService';
+import { resumableDownload } from '../services/resumableDownload';
+import { downloadManager } from '../services/downloadManager';
+import { subscriptionService } from '../services/subscriptionService';
+import { DownloadsTray } from './DownloadsTray';
 import type { NotificationType } from '../contexts/NotificationContext';
 
 interface LayoutProps {
@@ -35,6 +42,7 @@ const navLinks: NavLink[] = [
   { path: '/', label: 'Home', icon: Home },
   { path: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { path: '/transcripts', label: 'Transcripts', icon: FileText },
+  { path: '/subscriptions', label: 'Subscriptions', icon: Rss },
   { path: '/settings', label: 'Settings', icon: Settings },
 ];
 
@@ -42,10 +50,11 @@ export const Layout = ({ children }: LayoutProps) => {
   const location = useLocation();
   const navigate = useNavigate();
   const { notifications, showWarning, removeNotification } = useNotifications();
+  const { settings } = useSettings();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [notificationDropdownOpen, setNotificationDropdownOpen] = useState(false);
   const [storageUsed, setStorageUsed] = useState(0);
-  const [storageLimit] = useState(5 * 1024 * 1024 * 1024); // 5 GB
+  const [storageLimit, setStorageLimit] = useState(0);
   const [storageWarningShown, setStorageWarningShown] = useState(false);
   const notificationDropdownRef = useRef<HTMLDivElement>(null);
 
@@ -53,15 +62,17 @@ export const Layout = ({ children }: LayoutProps) => {
   useEffect(() => {
     const loadStorage = async () => {
       try {
-        const total = await storageService.getTotalStorageUsed();
-        setStorageUsed(total);
-        
-        // Show warning when storage is getting full (80% or more)
-        const storagePercent = (total / storageLimit) * 100;
-        if (storagePercent >= 80 && !storageWarningShown) {
-          showWarning(`Storage is ${storagePercent.toFixed(0)}% full. Consider deleting old videos.`);
+        const status = await storageManager.getStatus();
+        setStorageUsed(status.usage);
+        setStorageLimit(status.quota);
+
+        // Show warning when storage crosses the configured threshold
+        const storagePercent = status.quota > 0 ? (status.usage / status.quota) * 100 : 0;
+        const warningPercent = storageManager.getPolicy().warningThreshold * 100;
+        if (storagePercent >= warningPercent && !storageWarningShown) {
+          showWarning(`Storage is ${storagePercent.toFixed(0)}% full. Free up space in Settings → Storage Management.`);
           setStorageWarningShown(true);
-        } else if (storagePercent < 80) {
+        } else if (storagePercent < warningPercent) {
           setStorageWarningShown(false);
         }
       } catch (error) {
@@ -72,7 +83,50 @@ export const Layout = ({ children }: LayoutProps) => {
     loadStorage();
     const interval = setInterval(loadStorage, 30000);
     return () => clearInterval(interval);
-  }, [showWarning, storageLimit, storageWarningShown]);
+  }, [showWarning, storageWarningShown]);
+
+  // Purge trashed items past the retention period, now and every hour
+  useEffect(() => {
+    const purgeTrash = () => {
+      trashService.purgeExpired(settings.trashRetentionDays).catch((error) => {
+        console.error('Failed to purge trash:', error);
+      });
+    };
+
+    purgeTrash();
+    const interval = setInterval(purgeTrash, 60 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [settings.trashRetentionDays]);
+
+  // Delete the stored bytes of interrupted downloads nobody resumed within a week
+  useEffect(() => {
+    resumableDownload.purgeStale(7).catch((error) => {
+      console.error('Failed to purge partial downloads:', error);
+    });
+  }, []);
+
+  // Run queued downloads in the background, on every page
+  useEffect(() => {
+    downloadManager.setConcurrency(settings.maxConcurrentDownloads);
+    downloadManager.setConstraints({
+      windows: settings.downloadWindows,
+      deferOnMetered: settings.deferOnMeteredConnection,
+      deferOnSlow: settings.deferOnSlowConnection,
+    });
+    downloadManager.start().catch((error) => {
+      console.error('Failed to start the download manager:', error);
+    });
+  }, [
+    settings.maxConcurrentDownloads,
+    settings.downloadWindows,
+    settings.deferOnMeteredConnection,
+    settings.deferOnSlowConnection,
+  ]);
+
+  // Queue new uploads of subscribed channels and creators
+  useEffect(() => {
+    subscriptionService.startPolling(settings.subscriptionCheckMinutes);
+  }, [settings.subscriptionCheckMinutes]);
 
   // Close mobile menu on route change
   useEffect(() => {
@@ -129,7 +183,7 @@ export const Layout = ({ children }: LayoutProps) => {
     return gb < 0.01 ? '0 GB' : `${gb.toFixed(2)} GB`;
   };
 
-  const storagePercent = (storageUsed / storageLimit) * 100;
+  const storagePercent = storageLimit > 0 ? (storageUsed / storageLimit) * 100 : 0;
 
   return (
     <div className="min-h-screen">
@@ -219,6 +273,9 @@ export const Layout = ({ children }: LayoutProps) => {
               </div>
             </div>
 
+            {/* Downloads Tray */}
+            <DownloadsTray />
+
             {/* Notifications Dropdown */}
             <div className="relative" ref={notificationDropdownRef}>
               <button
@@ -409,7 +466,9 @@ export const Layout = ({ children }: LayoutProps) => {
                       style={{ width: `${Math.min(storagePercent, 100)}%` }}
                     />
                   </div>
-                  <p className="text-xs text-white/50 mt-2">{formatBytes(storageLimit)} total</p>
+                  {storageLimit > 0 && (
+                    <p className="text-xs text-white/50 mt-2">{formatBytes(storageLimit)} available to this app</p>
+                  )}
                 </div>
               </div>
             </motion.div>
@@ -128,6 +128,18 @@ const NotificationContainer = () => {
                       {notification.message}
                     </p>
                   </div>
+                  {notification.action && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        notification.action?.onClick();
+                        removeNotification(notification.id);
+                      }}
+                      className="px-3 py-1 rounded-lg bg-white/20 hover:bg-white/30 text-sm font-bold text-white transition-colors flex-shrink-0"
+                    >
+                      {notification.action.label}
+                    </button>
+                  )}
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -0,0 +1,28 @@
+import { AlertCircle } from 'lucide-react';
+import { platformRegistry } from '../services/platforms';
+
+interface PlatformIconProps {
+  /** Platform ID; unknown platforms show a neutral icon */
+  platform: string | null;
+  className?: string;
+  /** Use the platform's brand color instead of the surrounding text color */
+  colored?: boolean;
+}
+
+/**
+ * Icon of a video platform, taken from the platform registry
+ */
+export const PlatformIcon = ({ platform, className = 'w-4 h-4', colored = false }: PlatformIconProps) => {
+  const provider = platform ? platformRegistry.find(platform) : undefined;
+  if (!provider) {
+    return <AlertCircle className={`${className} text-gray-400`} aria-hidden="true" />;
+  }
+
+  const Icon = provider.branding.icon;
+  return (
+    <Icon
+      className={colored ? `${className} ${provider.branding.iconClassName}` : className}
+      aria-label={provider.branding.name}
+    />
+  );
+};
@@ -1,4 +1,5 @@
 import { Check, Info } from 'lucide-react';
+import { formatEta, getMeasuredThroughput } from '../utils/streamDownload';
 import type { QualityOption } from '../types';
 
 interface QualityCardProps {
@@ -19,25 +20,38 @@ const formatFileSize = (bytes: number): string => {
   return `${(bytes / Math.pow(k, i)).toFixed(1)} ${sizes[i]}`;
 };
 
+// Readable names of common codecs (e.g. 'avc1.640028' is H.264)
+const CODEC_NAMES: Record<string, string> = {
+  avc1: 'H.264',
+  avc3: 'H.264',
+  hev1: 'H.265',
+  hvc1: 'H.265',
+  vp8: 'VP8',
+  vp9: 'VP9',
+  vp09: 'VP9',
+  av01: 'AV1',
+  mp4a: 'AAC',
+  opus: 'Opus',
+  vorbis: 'Vorbis',
+};
+
+const codecName = (codec: string): string => CODEC_NAMES[codec.split('.')[0].toLowerCase()] ?? codec;
+
+const badgeClassName = 'px-2 py-0.5 rounded-full text-xs font-medium';
+
 /**
- * Estimate download time based on file size and average internet speed
- * Assumes average speed of 10 Mbps (1.25 MB/s)
+ * Estimate download time based on file size and the throughput measured on past downloads
+ * Assumes 10 Mbps (1.25 MB/s) until something has been downloaded
  */
 const estimateDownloadTime = (bytes: number): string => {
-  const avgSpeedMBps = 1.25; // 10 Mbps in MB/s
-  const megabytes = bytes / (1024 * 1024);
-  const seconds = megabytes / avgSpeedMBps;
-
-  if (seconds < 1) return '< 1s';
-  if (seconds < 60) return `~${Math.round(seconds)}s`;
-  const minutes = Math.floor(seconds / 60);
-  const remainingSeconds = Math.round(seconds % 60);
-  if (minutes < 1) return `~${remainingSeconds}s`;
-  return remainingSeconds > 0 ? `~${minutes}m ${remainingSeconds}s` : `~${minutes}m`;
+  const bytesPerSecond = getMeasuredThroughput() ?? 1.25 * 1024 * 1024;
+  return formatEta(bytes / bytesPerSecond);
 };
 
 export const QualityCard = ({ quality, selected, onSelect, duration }: QualityCardProps) => {
-  const { resolution, width, height, fileSize, label, recommended } = quality;
+  const { resolution, width, height, fileSize, exactSize, label, recommended } = quality;
+  const { videoCodec, audioCodec, fps, hdr, hasVideo, hasAudio, formatId } = quality;
+  const codecs = [videoCodec, audioCodec].filter((codec): codec is string => Boolean(codec)).map(codecName);
 
   return (
     <button
@@ -84,11 +98,46 @@ export const QualityCard = ({ quality, selected, onSelect, duration }: QualityCa
           {width} × {height} pixels
         </div>
 
+        {/* Format details, when the platform lists them */}
+        {(codecs.length > 0 || fps || hdr || hasVideo === false || hasAudio === false) && (
+          <div className="flex flex-wrap gap-1.5 mb-3">
+            {codecs.length > 0 && (
+              <span className={`${badgeClassName} bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300`}>
+                {codecs.join(' · ')}
+              </span>
+            )}
+            {fps ? (
+              <span className={`${badgeClassName} bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300`}>
+                {Math.round(fps)} fps
+              </span>
+            ) : null}
+            {hdr && (
+              <span className={`${badgeClassName} bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300`}>
+                HDR
+              </span>
+            )}
+            {hasVideo === false && (
+              <span className={`${badgeClassName} bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300`}>
+                Audio only
+              </span>
+            )}
+            {hasAudio === false && (
+              <span className={`${badgeClassName} bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300`}>
+                No audio
+              </span>
+            )}
+          </div>
+        )}
+
         {/* File size and download time */}
         <div className="flex items-center gap-4 text-sm">
           <div>
             <span className="text-gray-600 dark:text-gray-400">File size: </span>
-            <span className="font-semibold text-gray-900 dark:text-white">
+            <span
+              className="font-semibold text-gray-900 dark:text-white"
+              title={exactSize ? 'Exact size' : 'Estimated from the bitrate'}
+            >
+              {exactSize ? '' : '~'}
               {formatFileSize(fileSize)}
             </span>
           </div>
@@ -112,7 +161,9 @@ export const QualityCard = ({ quality, selected, onSelect, duration }: QualityCa
             <div className="flex items-start gap-2 text-xs text-purple-700 dark:text-purple-300">
               <Info className="w-3 h-3 mt-0.5 flex-shrink-0" />
               <span>
-                This quality offers the best balance between file size and video clarity.
+                {formatId?.includes('+')
+                  ? 'Video and audio come as separate streams and are merged into one MP4 file on download.'
+                  : 'This quality offers the best balance between file size and video clarity.'}
               </span>
             </div>
           </div>
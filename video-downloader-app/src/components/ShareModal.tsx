@@ -10,6 +10,8 @@ import {
   Check,
 } from 'lucide-react';
 import { useNotifications } from '../contexts/NotificationContext';
+import { recordShare } from '../services/sharingService';
+import type { ShareHistory } from '../services/sharingService';
 
 interface ShareModalProps {
   isOpen: boolean;
@@ -18,6 +20,7 @@ interface ShareModalProps {
   videoDescription: string;
   videoUrl: string;
   shareUrl?: string; // URL to share (defaults to current page URL)
+  videoId?: string; // Library video ID, used to record share history
 }
 
 const ShareModal = ({
@@ -27,6 +30,7 @@ const ShareModal = ({
   videoDescription,
   videoUrl,
   shareUrl,
+  videoId,
 }: ShareModalProps) => {
   const { showSuccess, showError } = useNotifications();
   const [showQR, setShowQR] = useState(false);
@@ -38,10 +42,19 @@ const ShareModal = ({
 
   if (!isOpen) return null;
 
+  // Record the share in history (failures must not block sharing)
+  const trackShare = (method: ShareHistory['shareMethod']) => {
+    if (!videoId) return;
+    recordShare('video', videoId, method).catch((error) => {
+      console.error('Failed to record share:', error);
+    });
+  };
+
   // Copy link to clipboard
   const handleCopyLink = async () => {
     try {
       await navigator.clipboard.writeText(videoUrl);
+      trackShare('link');
       setCopied(true);
       showSuccess('Link copied to clipboard!');
       setTimeout(() => setCopied(false), 2000);
@@ -60,6 +73,7 @@ const ShareModal = ({
           text: videoDescription,
           url: urlToShare,
         });
+        trackShare('social');
       } catch (error) {
         // User cancelled or error occurred
         if ((error as Error).name !== 'AbortError') {
@@ -71,6 +85,7 @@ const ShareModal = ({
 
   // Social media sharing
   const handleTwitterShare = () => {
+    trackShare('social');
     const text = encodeURIComponent(`${videoTitle}\n\n`);
     const url = encodeURIComponent(urlToShare);
     window.open(
@@ -81,6 +96,7 @@ const ShareModal = ({
   };
 
   const handleFacebookShare = () => {
+    trackShare('social');
     const url = encodeURIComponent(urlToShare);
     window.open(
       `https://www.facebook.com/sharer/sharer.php?u=${url}`,
@@ -90,6 +106,7 @@ const ShareModal = ({
   };
 
   const handleWhatsAppShare = () => {
+    trackShare('social');
     const text = encodeURIComponent(`${videoTitle}\n${urlToShare}`);
     window.open(
       `https://wa.me/?text=${text}`,
@@ -99,6 +116,7 @@ const ShareModal = ({
   };
 
   const handleLinkedInShare = () => {
+    trackShare('social');
     const url = encodeURIComponent(urlToShare);
     window.open(
       `https://www.linkedin.com/sharing/share-offsite/?url=${url}`,
@@ -108,6 +126,7 @@ const ShareModal = ({
   };
 
   const handleRedditShare = () => {
+    trackShare('social');
     const url = encodeURIComponent(urlToShare);
     const title = encodeURIComponent(videoTitle);
     window.open(
@@ -119,6 +138,7 @@ const ShareModal = ({
 
   // Email sharing
   const handleEmailShare = () => {
+    trackShare('email');
     const subject = encodeURIComponent(`Check out: ${videoTitle}`);
     const body = encodeURIComponent(
       `I thought you might be interested in this video:\n\n${videoTitle}\n\n${videoDescription}\n\nWatch it here: ${urlToShare}`
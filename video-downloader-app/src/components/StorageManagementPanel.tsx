@@ -0,0 +1,361 @@
+import { useState, useEffect, useCallback } from 'react';
+import { HardDrive, ShieldCheck, ShieldAlert, Eye, Trash2, Loader2 } from 'lucide-react';
+import { storageManager } from '../services/storageManager';
+import { storageService } from '../services/storageService';
+import { useNotifications } from '../contexts/NotificationContext';
+import ConfirmModal from './ConfirmModal';
+import type { EvictionPolicy, EvictionPlan, StoragePolicy, StorageStatus } from '../types';
+
+const GB = 1024 * 1024 * 1024;
+
+const POLICY_LABELS: Record<EvictionPolicy, string> = {
+  'oldest-unwatched': 'Oldest unwatched first',
+  largest: 'Largest first',
+  oldest: 'Oldest download first',
+};
+
+const WARNING_THRESHOLDS = [0.7, 0.8, 0.9, 0.95];
+
+// Format bytes to human-readable
+const formatBytes = (bytes: number): string => {
+  if (bytes <= 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`;
+};
+
+/**
+ * Storage quota, persistence and eviction settings
+ */
+export const StorageManagementPanel = () => {
+  const { showSuccess, showError, showWarning } = useNotifications();
+  const [status, setStatus] = useState<StorageStatus | null>(null);
+  const [policy, setPolicy] = useState<StoragePolicy>(() => storageManager.getPolicy());
+  const [protectedTagsInput, setProtectedTagsInput] = useState(() => policy.protectedTags.join(', '));
+  const [targetGb, setTargetGb] = useState('1');
+  const [plan, setPlan] = useState<EvictionPlan | null>(null);
+  const [planning, setPlanning] = useState(false);
+  const [evicting, setEvicting] = useState(false);
+  const [showEvictModal, setShowEvictModal] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await storageManager.getStatus());
+    } catch (error) {
+      console.error('Failed to load storage status:', error);
+    }
+  }, []);
+
+  // Load storage status and refresh it every 10 seconds
+  useEffect(() => {
+    loadStatus();
+    const interval = setInterval(loadStatus, 10000);
+    return () => clearInterval(interval);
+  }, [loadStatus]);
+
+  const updatePolicy = (updates: Partial<StoragePolicy>) => {
+    setPolicy(storageManager.setPolicy(updates));
+    setPlan(null);
+  };
+
+  const handleProtectedTagsBlur = () => {
+    const tags = protectedTagsInput
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+    updatePolicy({ protectedTags: tags });
+    setProtectedTagsInput(tags.join(', '));
+  };
+
+  const handleRequestPersistence = async () => {
+    try {
+      const granted = await storageManager.requestPersistence();
+      if (granted) {
+        showSuccess('Storage is now persistent. The browser will not clear your videos to free up space.');
+      } else {
+        showWarning('The browser declined persistent storage. Bookmarking or installing the app can help.');
+      }
+      await loadStatus();
+    } catch (error) {
+      console.error('Failed to request persistent storage:', error);
+      showError('Failed to request persistent storage');
+    }
+  };
+
+  const handlePreview = async () => {
+    const target = parseFloat(targetGb);
+    if (!(target > 0)) {
+      showError('Enter how much space to free up');
+      return;
+    }
+
+    try {
+      setPlanning(true);
+      setPlan(await storageManager.planEviction(target * GB, policy));
+    } catch (error) {
+      console.error('Failed to plan eviction:', error);
+      showError('Failed to preview eviction');
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  const handleEvict = async () => {
+    if (!plan) return;
+
+    try {
+      setEvicting(true);
+      const deleted = await storageService.applyEvictionPlan(plan);
+      showSuccess(`Removed ${deleted} video${deleted !== 1 ? 's' : ''}, freeing ${formatBytes(plan.bytesFreed)}`);
+      setPlan(null);
+      setShowEvictModal(false);
+      await loadStatus();
+    } catch (error) {
+      console.error('Failed to evict videos:', error);
+      showError('Failed to remove videos. Please try again.');
+    } finally {
+      setEvicting(false);
+    }
+  };
+
+  const usagePercent = status && status.quota > 0 ? (status.usage / status.quota) * 100 : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Storage Usage */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-gray-200">Storage Used</label>
+          <span className="text-lg font-bold text-purple-600 dark:text-purple-400">
+            {status ? formatBytes(status.usage) : '—'}
+          </span>
+        </div>
+
+        <div className="w-full h-4 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div
+            className={`h-full transition-all duration-300 ${
+              usagePercent >= policy.warningThreshold * 100
+                ? 'bg-gradient-to-r from-orange-500 to-red-500'
+                : 'bg-gradient-to-r from-purple-500 to-pink-500'
+            }`}
+            style={{ width: `${Math.min(usagePercent, 100)}%` }}
+          />
+        </div>
+
+        <div className="flex items-center justify-between mt-2 text-xs text-gray-500 dark:text-gray-400">
+          <span>{status ? `${formatBytes(status.mediaBytes)} in video files` : 'Loading...'}</span>
+          <span>
+            {status?.quota
+              ? `${formatBytes(status.available)} free of ${formatBytes(status.quota)}`
+              : 'Quota not reported by this browser'}
+          </span>
+        </div>
+      </div>
+
+      {/* Persistence */}
+      <div className="p-4 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg">
+        <div className="flex items-start gap-3">
+          {status?.persisted ? (
+            <ShieldCheck className="w-5 h-5 text-green-500 flex-shrink-0 mt-0.5" />
+          ) : (
+            <ShieldAlert className="w-5 h-5 text-yellow-500 flex-shrink-0 mt-0.5" />
+          )}
+          <div className="flex-1 text-sm text-gray-200">
+            <p className="font-medium mb-1">
+              {status?.persisted ? 'Persistent storage enabled' : 'Storage may be cleared by the browser'}
+            </p>
+            <p className="text-gray-600 dark:text-gray-400">
+              {status?.persisted
+                ? 'Your videos will only be removed when you delete them.'
+                : 'When disk space runs low, the browser may delete this site\'s data, including your videos.'}
+            </p>
+          </div>
+          {!status?.persisted && (
+            <button
+              onClick={handleRequestPersistence}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold rounded-lg transition-colors flex-shrink-0"
+            >
+              Make Persistent
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Eviction Policy */}
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="eviction-policy" className="block text-sm font-medium text-gray-200 mb-2">
+            Eviction Policy
+          </label>
+          <select
+            id="eviction-policy"
+            value={policy.evictionPolicy}
+            onChange={(e) => updatePolicy({ evictionPolicy: e.target.value as EvictionPolicy })}
+            className="w-full px-4 py-2 border-2 border-purple-500/20 rounded-lg bg-purple-900/30 backdrop-blur-xl text-white focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20"
+          >
+            {(Object.keys(POLICY_LABELS) as EvictionPolicy[]).map((key) => (
+              <option key={key} value={key}>
+                {POLICY_LABELS[key]}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-400">
+            Order in which videos are removed when space needs to be freed
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex-1">
+            <label htmlFor="auto-evict" className="block text-sm font-medium text-gray-200">
+              Free Up Space Automatically
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Remove videos using the policy above when a new download would not fit
+            </p>
+          </div>
+          <button
+            id="auto-evict"
+            onClick={() => updatePolicy({ autoEvict: !policy.autoEvict })}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+              policy.autoEvict ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                policy.autoEvict ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+
+        <div>
+          <label htmlFor="warning-threshold" className="block text-sm font-medium text-gray-200 mb-2">
+            Warn When Storage Is
+          </label>
+          <select
+            id="warning-threshold"
+            value={policy.warningThreshold}
+            onChange={(e) => updatePolicy({ warningThreshold: parseFloat(e.target.value) })}
+            className="w-full px-4 py-2 border-2 border-purple-500/20 rounded-lg bg-purple-900/30 backdrop-blur-xl text-white focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20"
+          >
+            {WARNING_THRESHOLDS.map((threshold) => (
+              <option key={threshold} value={threshold}>
+                {Math.round(threshold * 100)}% full
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="protected-tags" className="block text-sm font-medium text-gray-200 mb-2">
+            Protected Tags
+          </label>
+          <input
+            id="protected-tags"
+            type="text"
+            value={protectedTagsInput}
+            onChange={(e) => setProtectedTagsInput(e.target.value)}
+            onBlur={handleProtectedTagsBlur}
+            placeholder="e.g. favorites, keep"
+            className="w-full px-4 py-2 border-2 border-purple-500/20 rounded-lg bg-purple-900/30 backdrop-blur-xl text-white placeholder-gray-500 focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20"
+          />
+          <p className="mt-1 text-xs text-gray-400">Videos with any of these tags are never evicted</p>
+        </div>
+      </div>
+
+      {/* Dry Run */}
+      <div className="p-4 bg-purple-900/20 border border-purple-500/20 rounded-lg space-y-4">
+        <div className="flex items-end gap-3">
+          <div className="flex-1">
+            <label htmlFor="evict-target" className="block text-sm font-medium text-gray-200 mb-2">
+              Free Up (GB)
+            </label>
+            <input
+              id="evict-target"
+              type="number"
+              min="0.1"
+              step="0.1"
+              value={targetGb}
+              onChange={(e) => {
+                setTargetGb(e.target.value);
+                setPlan(null);
+              }}
+              className="w-full px-4 py-2 border-2 border-purple-500/20 rounded-lg bg-purple-900/30 backdrop-blur-xl text-white focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20"
+            />
+          </div>
+          <button
+            onClick={handlePreview}
+            disabled={planning}
+            className="py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            {planning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+            Preview
+          </button>
+        </div>
+
+        {plan && (
+          <div>
+            {plan.candidates.length === 0 ? (
+              <p className="text-sm text-gray-400">No videos can be evicted under this policy.</p>
+            ) : (
+              <>
+                <p className={`text-sm mb-2 ${plan.satisfied ? 'text-gray-200' : 'text-yellow-300'}`}>
+                  {plan.satisfied
+                    ? `These ${plan.candidates.length} videos would be removed, freeing ${formatBytes(plan.bytesFreed)}:`
+                    : `Only ${formatBytes(plan.bytesFreed)} can be freed by removing these ${plan.candidates.length} videos:`}
+                </p>
+                <ul className="max-h-60 overflow-y-auto space-y-1 mb-3" aria-label="Videos to be evicted">
+                  {plan.candidates.map(({ video, bytesFreed }) => (
+                    <li
+                      key={video.id}
+                      className="flex items-center justify-between gap-3 px-3 py-2 bg-black/20 rounded-lg text-sm"
+                    >
+                      <span className="text-white truncate">{video.title}</span>
+                      <span className="text-xs text-gray-400 flex-shrink-0">
+                        {bytesFreed > 0 ? formatBytes(bytesFreed) : 'shared file'}
+                        {video.lastWatchedAt ? '' : ' · unwatched'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  onClick={() => setShowEvictModal(true)}
+                  className="w-full py-2 px-4 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition-colors flex items-center justify-center gap-2"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Remove {plan.candidates.length} Video{plan.candidates.length !== 1 ? 's' : ''}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Storage Info */}
+      <div className="p-4 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg">
+        <div className="flex items-start gap-3">
+          <HardDrive className="w-5 h-5 text-gray-600 dark:text-gray-400 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-gray-200">
+            <p className="font-medium mb-1">About Storage Limits</p>
+            <p className="text-gray-600 dark:text-gray-400">
+              Videos are stored locally in your browser's IndexedDB. The quota above is reported by your browser and depends on available disk space.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmModal
+        isOpen={showEvictModal}
+        title="Remove Videos?"
+        message={`This will permanently delete ${plan?.candidates.length ?? 0} videos, freeing ${formatBytes(plan?.bytesFreed ?? 0)}. This action cannot be undone.`}
+        confirmText={evicting ? 'Removing...' : 'Remove'}
+        cancelText="Cancel"
+        onConfirm={handleEvict}
+        onCancel={() => setShowEvictModal(false)}
+        danger={true}
+        isLoading={evicting}
+      />
+    </div>
+  );
+};
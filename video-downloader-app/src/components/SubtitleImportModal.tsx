@@ -0,0 +1,277 @@
+import { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, FileUp, AlertTriangle, AlertCircle } from 'lucide-react';
+import {
+  decodeSubtitleFile,
+  parseSubtitles,
+  SubtitleParseError,
+  SUBTITLE_ENCODINGS,
+  SUBTITLE_FORMATS,
+} from '../utils/subtitleFormats';
+import { formatTime } from '../utils/transcriptParser';
+import type { Transcript } from '../types';
+
+interface SubtitleImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (transcript: Transcript) => void;
+  /** Video duration in seconds, to warn about cues after the end of the video */
+  duration: number;
+  /** Whether importing replaces a transcript the video already has */
+  hasTranscript: boolean;
+}
+
+const PREVIEW_CUES = 8;
+
+/**
+ * Subtitle Import Modal
+ * Reads an .srt, .vtt or transcript .json file and previews it before it is attached to a video
+ */
+const SubtitleImportModal = ({ isOpen, onClose, onImport, duration, hasTranscript }: SubtitleImportModalProps) => {
+  const [file, setFile] = useState<{ name: string; bytes: Uint8Array } | null>(null);
+  const [encoding, setEncoding] = useState<string | undefined>(undefined);
+  // Language typed by the user; until then the language found in the file
+  const [language, setLanguage] = useState<string | null>(null);
+
+  // Decode and parse whenever the file or the chosen encoding changes
+  const result = useMemo(() => {
+    if (!file) return null;
+    try {
+      const decoded = decodeSubtitleFile(file.bytes, encoding);
+      return { decoded, parsed: parseSubtitles(decoded.text, file.name), error: null };
+    } catch (error) {
+      const message =
+        error instanceof SubtitleParseError || error instanceof RangeError
+          ? error.message
+          : 'The file could not be read';
+      return { decoded: null, parsed: null, error: message };
+    }
+  }, [file, encoding]);
+
+  const parsed = result?.parsed ?? null;
+  const languageValue = language ?? parsed?.transcript.language ?? '';
+
+  const warnings = useMemo(() => {
+    if (!parsed) return [];
+    const lastEnd = parsed.transcript.cues[parsed.transcript.cues.length - 1].end;
+    return duration > 0 && lastEnd > duration + 1
+      ? [...parsed.warnings, `Cues run until ${formatTime(lastEnd)}, after the video ends at ${formatTime(duration)}`]
+      : parsed.warnings;
+  }, [parsed, duration]);
+
+  const reset = () => {
+    setFile(null);
+    setEncoding(undefined);
+    setLanguage(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    const bytes = new Uint8Array(await selected.arrayBuffer());
+    setFile({ name: selected.name, bytes });
+    setEncoding(undefined);
+    setLanguage(null);
+  };
+
+  const handleImport = () => {
+    if (!parsed) return;
+    onImport({ ...parsed.transcript, language: languageValue.trim() || undefined });
+    handleClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            onClick={handleClose}
+          />
+
+          {/* Modal */}
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+              className="bubble-card-no-tilt max-w-2xl w-full max-h-[90vh] flex flex-col pointer-events-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-white/10">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-purple-500/20 rounded-lg">
+                    <FileUp className="w-6 h-6 text-purple-400" />
+                  </div>
+                  <h2 className="text-2xl font-bold text-white dark:text-white">Import Subtitles</h2>
+                </div>
+                <button
+                  onClick={handleClose}
+                  className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                  aria-label="Close"
+                >
+                  <X className="w-5 h-5 text-gray-300" />
+                </button>
+              </div>
+
+              {/* Content */}
+              <div className="p-6 space-y-4 overflow-y-auto">
+                {/* File Input */}
+                <div>
+                  <label htmlFor="subtitle-file" className="block text-sm font-medium text-gray-300 dark:text-gray-300 mb-2">
+                    Subtitle File <span className="text-red-400">*</span>
+                  </label>
+                  <input
+                    id="subtitle-file"
+                    type="file"
+                    accept=".srt,.vtt,.json,application/x-subrip,text/vtt,application/json"
+                    onChange={handleFileChange}
+                    className="w-full text-sm text-gray-300 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0
+                             file:bg-purple-500 file:text-white file:font-medium hover:file:bg-purple-600 file:cursor-pointer"
+                  />
+                  <p className="text-xs text-gray-400 dark:text-gray-400 mt-2">
+                    SubRip (.srt), WebVTT (.vtt) or a transcript exported as JSON
+                  </p>
+                </div>
+
+                {result?.error && (
+                  <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-300">
+                    <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    <span>{result.error}</span>
+                  </div>
+                )}
+
+                {file && (
+                  <div className="grid grid-cols-2 gap-4">
+                    {/* Encoding */}
+                    <div>
+                      <label htmlFor="subtitle-encoding" className="block text-sm font-medium text-gray-300 dark:text-gray-300 mb-2">
+                        Encoding
+                      </label>
+                      <select
+                        id="subtitle-encoding"
+                        value={encoding ?? ''}
+                        onChange={(e) => setEncoding(e.target.value || undefined)}
+                        className="w-full px-3 py-2 rounded-lg border-2 border-gray-600 bg-gray-700 text-white
+                                 focus:border-purple-500 focus:outline-none"
+                      >
+                        <option value="">
+                          Detect{result?.decoded && !encoding ? ` (${result.decoded.encoding})` : ''}
+                        </option>
+                        {SUBTITLE_ENCODINGS.map((name) => (
+                          <option key={name} value={name}>
+                            {name}
+                          </option>
+                        ))}
+                      </select>
+                      {result?.decoded && !encoding && !result.decoded.certain && (
+                        <p className="text-xs text-yellow-400 mt-1">
+                          Guessed; choose another encoding if the text looks wrong
+                        </p>
+                      )}
+                    </div>
+
+                    {/* Language */}
+                    <div>
+                      <label htmlFor="subtitle-language" className="block text-sm font-medium text-gray-300 dark:text-gray-300 mb-2">
+                        Language
+                      </label>
+                      <input
+                        id="subtitle-language"
+                        type="text"
+                        value={languageValue}
+                        onChange={(e) => setLanguage(e.target.value)}
+                        placeholder="e.g. en, pt-BR"
+                        className="w-full px-3 py-2 rounded-lg border-2 border-gray-600 bg-gray-700 text-white
+                                 focus:border-purple-500 focus:outline-none"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {parsed && (
+                  <>
+                    <p className="text-sm text-gray-300">
+                      {SUBTITLE_FORMATS[parsed.format].label} • {parsed.transcript.cues.length} cue
+                      {parsed.transcript.cues.length !== 1 ? 's' : ''}
+                    </p>
+
+                    {warnings.length > 0 && (
+                      <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-sm text-yellow-300">
+                        <div className="flex items-center gap-2 font-medium mb-1">
+                          <AlertTriangle className="w-4 h-4" />
+                          {warnings.length} warning{warnings.length !== 1 ? 's' : ''}
+                        </div>
+                        <ul className="list-disc list-inside space-y-0.5 max-h-24 overflow-y-auto text-xs">
+                          {warnings.map((warning, index) => (
+                            <li key={index}>{warning}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {/* Preview */}
+                    <div className="rounded-lg border border-white/10 divide-y divide-white/5 max-h-64 overflow-y-auto">
+                      {parsed.transcript.cues.slice(0, PREVIEW_CUES).map((cue, index) => (
+                        <div key={index} className="flex gap-4 px-3 py-2 text-sm">
+                          <span className="font-mono text-gray-400 flex-shrink-0">
+                            {formatTime(cue.start)} → {formatTime(cue.end)}
+                          </span>
+                          <span className="text-gray-200 whitespace-pre-line">{cue.text}</span>
+                        </div>
+                      ))}
+                      {parsed.transcript.cues.length > PREVIEW_CUES && (
+                        <p className="px-3 py-2 text-xs text-gray-400">
+                          and {parsed.transcript.cues.length - PREVIEW_CUES} more
+                        </p>
+                      )}
+                    </div>
+
+                    {hasTranscript && (
+                      <p className="text-xs text-yellow-400">This replaces the current transcript of the video.</p>
+                    )}
+                  </>
+                )}
+              </div>
+
+              {/* Footer */}
+              <div className="flex items-center justify-end gap-3 p-6 border-t border-white/10">
+                <button
+                  onClick={handleClose}
+                  className="px-6 py-2.5 rounded-lg font-medium text-gray-300 hover:bg-white/10
+                           transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={!parsed}
+                  className="px-6 py-2.5 rounded-lg font-medium text-white bg-purple-500 hover:bg-purple-600
+                           disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200
+                           flex items-center gap-2"
+                >
+                  <FileUp className="w-4 h-4" />
+                  Attach Subtitles
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default SubtitleImportModal;
@@ -34,35 +34,41 @@ export const TagGroupManager = ({ onGroupSelect, selectedGroupId }: TagGroupMana
     loadGroups();
   }, []);
 
-  const loadGroups = () => {
-    const allGroups = tagGroupService.getAllGroups();
+  const loadGroups = async () => {
+    const allGroups = await tagGroupService.getAllGroups();
     setGroups(allGroups);
   };
 
-  const handleCreateGroup = () => {
+  const handleCreateGroup = async () => {
     if (!newGroupName.trim()) {
       showError('Group name is required');
       return;
     }
 
-    const newGroup = tagGroupService.createGroup(
-      newGroupName.trim(),
-      newGroupColor,
-      newGroupDescription.trim() || undefined
-    );
-    showSuccess(`Tag group "${newGroup.name}" created`);
-    loadGroups();
+    try {
+      const newGroup = await tagGroupService.createGroup(
+        newGroupName.trim(),
+        newGroupColor,
+        newGroupDescription.trim() || undefined
+      );
+      showSuccess(`Tag group "${newGroup.name}" created`);
+    } catch (error) {
+      console.error('Error creating tag group:', error);
+      showError('Failed to create tag group');
+      return;
+    }
+    await loadGroups();
     setShowCreateForm(false);
     setNewGroupName('');
     setNewGroupDescription('');
     setNewGroupColor(PRESET_COLORS[0]);
   };
 
-  const handleDeleteGroup = (id: string) => {
+  const handleDeleteGroup = async (id: string) => {
     if (window.confirm('Are you sure you want to delete this group? Tags will not be deleted.')) {
-      tagGroupService.deleteGroup(id);
+      await tagGroupService.deleteGroup(id);
       showSuccess('Tag group deleted');
-      loadGroups();
+      await loadGroups();
       if (selectedGroupId === id && onGroupSelect) {
         onGroupSelect(null);
       }
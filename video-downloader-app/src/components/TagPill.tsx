@@ -1,5 +1,6 @@
 import { Tag as TagIcon, X } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { tagGroupService } from '../services/tagGroupService';
 
 interface TagPillProps {
@@ -20,11 +21,8 @@ export const TagPill = ({
   className = '',
 }: TagPillProps) => {
   const navigate = useNavigate();
-  const group = tagGroupService.getGroupForTag(tag);
-  const tagGroupMap = tagGroupService.getTagGroupMap();
-  const groupId = tagGroupMap[tag];
-  const assignedGroup = groupId ? tagGroupService.getGroupById(groupId) : null;
-  const groupColor = assignedGroup?.color || group?.color || '#8b5cf6';
+  const group = useLiveQuery(() => tagGroupService.getGroupForTag(tag), [tag]);
+  const groupColor = group?.color || '#8b5cf6';
 
   const sizeClasses = {
     sm: 'px-2 py-0.5 text-xs',
@@ -0,0 +1,402 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  Undo2,
+  Redo2,
+  Save,
+  X,
+  Scissors,
+  Merge,
+  Minus,
+  Plus,
+  Crosshair,
+  Replace,
+  History,
+  RotateCcw,
+  Loader2,
+} from 'lucide-react';
+import { useEditHistory } from '../hooks/useEditHistory';
+import { transcriptService } from '../services/transcriptService';
+import { findCueIndex, formatTime } from '../utils/transcriptParser';
+import {
+  setCueText,
+  splitCue,
+  mergeWithNext,
+  setCueTime,
+  countMatches,
+  replaceInCues,
+  NUDGE_STEP,
+} from '../utils/transcriptEditing';
+import type { Transcript, TranscriptCue, TranscriptVersion, TranscriptVersionKind } from '../types';
+
+/**
+ * Props for TranscriptEditor component
+ */
+interface TranscriptEditorProps {
+  transcript: Transcript;
+  videoId: string;
+  currentTime: number; // current playback time in seconds
+  onSeek: (time: number) => void; // callback to seek video to specific time
+  onSaved: (transcript: Transcript) => void; // callback with the transcript after a save or restore
+  onClose: () => void; // callback to leave the editor
+}
+
+const VERSION_LABELS: Record<TranscriptVersionKind, string> = {
+  original: 'Original',
+  edit: 'Edited',
+  import: 'Imported',
+  restore: 'Restored',
+};
+
+/**
+ * Format seconds to MM:SS.mmm, precise enough to adjust cue timing
+ */
+const formatCueTime = (seconds: number): string =>
+  `${formatTime(seconds)}.${String(Math.round(seconds * 1000) % 1000).padStart(3, '0')}`;
+
+// Split near the middle of the text, at a space so no word is cut in two
+const middleOffset = (text: string): number => {
+  const middle = Math.floor(text.length / 2);
+  const space = text.lastIndexOf(' ', middle);
+  return space > 0 ? space : middle;
+};
+
+/**
+ * Transcript Editor Component
+ * Edits the cues of a transcript: text, splitting, merging, timing, find and replace,
+ * with undo/redo. Saves are kept as versions that can be restored.
+ */
+const TranscriptEditor = ({ transcript, videoId, currentTime, onSeek, onSaved, onClose }: TranscriptEditorProps) => {
+  const { value: cues, set, undo, redo, canUndo, canRedo } = useEditHistory<TranscriptCue[]>(transcript.cues);
+  const [findText, setFindText] = useState('');
+  const [replaceText, setReplaceText] = useState('');
+  const [matchCase, setMatchCase] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showVersions, setShowVersions] = useState(false);
+  const [versions, setVersions] = useState<TranscriptVersion[]>([]);
+  // Caret position in the cue text last edited, where Split cuts
+  const caretRef = useRef<{ index: number; offset: number } | null>(null);
+
+  const timed = transcript.timed;
+  const dirty = cues !== transcript.cues;
+  const matchCount = useMemo(() => countMatches(cues, findText, matchCase), [cues, findText, matchCase]);
+  const activeCueIndex = useMemo(() => (timed ? findCueIndex(cues, currentTime) : -1), [cues, timed, currentTime]);
+
+  // Load saved versions when the history is opened
+  useEffect(() => {
+    if (!showVersions) return;
+
+    transcriptService.getVersions(videoId)
+      .then(setVersions)
+      .catch((err) => {
+        console.error('Failed to load transcript versions:', err);
+        setError('Failed to load saved versions');
+      });
+  }, [showVersions, videoId]);
+
+  // Undo and redo with the usual shortcuts, also while typing in a cue
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      redo();
+    }
+  };
+
+  const handleSplit = (index: number) => {
+    const caret = caretRef.current;
+    const offset = caret && caret.index === index ? caret.offset : middleOffset(cues[index].text);
+    const split = splitCue(cues, index, offset, currentTime);
+    if (split === cues) {
+      setError('Place the cursor between words to split this cue');
+      return;
+    }
+    caretRef.current = null;
+    setError(null);
+    set(split);
+  };
+
+  const handleMerge = (index: number) => {
+    caretRef.current = null;
+    set(mergeWithNext(cues, index));
+  };
+
+  const handleReplaceAll = () => {
+    set(replaceInCues(cues, findText, replaceText, matchCase));
+  };
+
+  const handleSave = async () => {
+    if (!dirty || saving) return;
+
+    const edited: Transcript = {
+      ...transcript,
+      cues: cues.filter((cue) => cue.text.trim()),
+      source: 'manual',
+    };
+
+    try {
+      setSaving(true);
+      setError(null);
+      await transcriptService.saveEdit(videoId, edited);
+      onSaved(edited);
+      onClose();
+    } catch (err) {
+      console.error('Failed to save transcript:', err);
+      setError('Failed to save the transcript. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestore = async (version: TranscriptVersion) => {
+    if (dirty && !window.confirm('Discard your unsaved changes and restore this version?')) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const restored = await transcriptService.restoreVersion(videoId, version.id);
+      onSaved(restored);
+      onClose();
+    } catch (err) {
+      console.error('Failed to restore transcript version:', err);
+      setError('Failed to restore this version. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (dirty && !window.confirm('Discard your changes to the transcript?')) return;
+    onClose();
+  };
+
+  const toolbarButton = `flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300
+    bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors duration-200
+    disabled:opacity-50 disabled:cursor-not-allowed`;
+  const timeButton = `p-1 rounded text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600
+    hover:text-gray-900 dark:hover:text-white transition-colors duration-150`;
+
+  // Start or end of a cue with buttons to nudge it or set it to the playback time
+  const renderTimeControl = (index: number, edge: 'start' | 'end') => {
+    const time = cues[index][edge];
+    return (
+      <div className="flex items-center gap-0.5">
+        <button
+          onClick={() => set(setCueTime(cues, index, edge, time - NUDGE_STEP))}
+          className={timeButton}
+          aria-label={`Move ${edge} earlier`}
+          title={`${NUDGE_STEP}s earlier`}
+        >
+          <Minus className="w-3 h-3" />
+        </button>
+        <button
+          onClick={() => onSeek(time)}
+          className="px-1 font-mono text-xs text-gray-600 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400"
+          title="Play from here"
+        >
+          {formatCueTime(time)}
+        </button>
+        <button
+          onClick={() => set(setCueTime(cues, index, edge, time + NUDGE_STEP))}
+          className={timeButton}
+          aria-label={`Move ${edge} later`}
+          title={`${NUDGE_STEP}s later`}
+        >
+          <Plus className="w-3 h-3" />
+        </button>
+        <button
+          onClick={() => set(setCueTime(cues, index, edge, currentTime))}
+          className={timeButton}
+          aria-label={`Set ${edge} to the playback time`}
+          title={`Set ${edge} to ${formatCueTime(currentTime)}`}
+        >
+          <Crosshair className="w-3 h-3" />
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm"
+      onKeyDown={handleKeyDown}
+    >
+      {/* Toolbar */}
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 space-y-3">
+        <div className="flex flex-wrap gap-2 items-center">
+          <button onClick={undo} disabled={!canUndo} className={toolbarButton} title="Undo (Ctrl+Z)">
+            <Undo2 className="w-4 h-4" />
+            Undo
+          </button>
+          <button onClick={redo} disabled={!canRedo} className={toolbarButton} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-4 h-4" />
+            Redo
+          </button>
+          <button
+            onClick={() => setShowVersions(!showVersions)}
+            className={toolbarButton}
+            aria-expanded={showVersions}
+          >
+            <History className="w-4 h-4" />
+            Versions
+          </button>
+          <div className="flex-1" />
+          <button onClick={handleCancel} disabled={saving} className={toolbarButton}>
+            <X className="w-4 h-4" />
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!dirty || saving}
+            className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700
+                     rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save
+          </button>
+        </div>
+
+        {/* Find and replace */}
+        <div className="flex flex-wrap gap-2 items-center">
+          <input
+            type="text"
+            value={findText}
+            onChange={(e) => setFindText(e.target.value)}
+            placeholder="Find..."
+            className="flex-1 min-w-[8rem] px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg
+                     bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                     focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <input
+            type="text"
+            value={replaceText}
+            onChange={(e) => setReplaceText(e.target.value)}
+            placeholder="Replace with..."
+            className="flex-1 min-w-[8rem] px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg
+                     bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                     focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+            <input type="checkbox" checked={matchCase} onChange={(e) => setMatchCase(e.target.checked)} />
+            Match case
+          </label>
+          <button onClick={handleReplaceAll} disabled={matchCount === 0} className={toolbarButton}>
+            <Replace className="w-4 h-4" />
+            Replace all{findText && ` (${matchCount})`}
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+
+      {/* Saved versions */}
+      {showVersions && (
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50">
+          {versions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No saved versions yet. The current transcript is kept as the original when you first save.
+            </p>
+          ) : (
+            <ul className="space-y-2 max-h-48 overflow-y-auto">
+              {versions.map((version) => (
+                <li key={version.id} className="flex items-center justify-between gap-3 text-sm">
+                  <div>
+                    <span className="font-medium text-gray-900 dark:text-white">{VERSION_LABELS[version.kind]}</span>
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {` • ${new Date(version.savedAt).toLocaleString()} • ${version.transcript.cues.length} cues`}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => handleRestore(version)}
+                    disabled={saving}
+                    className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-blue-600 dark:text-blue-400
+                             hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition-colors duration-200
+                             disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    Restore
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Cues */}
+      <div className="max-h-[32rem] overflow-y-auto p-4 space-y-2">
+        {cues.map((cue, index) => (
+          <div
+            key={index}
+            className={`p-3 rounded-lg border-l-4 ${
+              index === activeCueIndex
+                ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-500'
+                : 'bg-gray-50 dark:bg-gray-900/30 border-transparent'
+            }`}
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              {timed ? (
+                <div className="flex flex-wrap items-center gap-1">
+                  {renderTimeControl(index, 'start')}
+                  <span className="text-gray-400">→</span>
+                  {renderTimeControl(index, 'end')}
+                </div>
+              ) : (
+                <span className="text-xs text-gray-500 dark:text-gray-400">Untimed</span>
+              )}
+              <div className="flex gap-1">
+                {timed && (
+                  <button
+                    onClick={() => handleSplit(index)}
+                    className={timeButton}
+                    aria-label="Split cue"
+                    title="Split at the cursor, timed at the playback position when it is inside the cue"
+                  >
+                    <Scissors className="w-4 h-4" />
+                  </button>
+                )}
+                {index < cues.length - 1 && (
+                  <button
+                    onClick={() => handleMerge(index)}
+                    className={timeButton}
+                    aria-label="Merge with next cue"
+                    title="Merge with the next cue"
+                  >
+                    <Merge className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+            <textarea
+              value={cue.text}
+              onChange={(e) => set(setCueText(cues, index, e.target.value), `text:${index}`)}
+              onSelect={(e) => {
+                caretRef.current = { index, offset: e.currentTarget.selectionStart };
+              }}
+              rows={timed ? 2 : 8}
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg
+                       bg-white dark:bg-gray-700 text-gray-900 dark:text-white resize-y
+                       focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              aria-label={timed ? `Text of cue at ${formatCueTime(cue.start)}` : 'Transcript text'}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Footer with cue count and unsaved state */}
+      <div className="px-4 py-2 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50">
+        <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
+          {`${cues.length} cue${cues.length !== 1 ? 's' : ''}`}
+          {dirty ? ' • Unsaved changes' : ' • No changes'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptEditor;
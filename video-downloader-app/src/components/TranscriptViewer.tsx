@@ -1,92 +1,23 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
-import { Info, Copy, Download, Search, X } from 'lucide-react';
-
-/**
- * Transcript segment with timestamp and text
- */
-interface TranscriptSegment {
-  timestamp: number; // in seconds
-  text: string;
-  formattedTime: string; // formatted as HH:MM:SS or MM:SS
-}
+import { Info, Copy, Download, Search, X, FileUp, Pencil } from 'lucide-react';
+import TranscriptEditor from './TranscriptEditor';
+import { findCueIndex, formatTime, transcriptToText, TRANSCRIPT_SOURCE_LABELS } from '../utils/transcriptParser';
+import { formatSubtitles, SUBTITLE_FORMATS } from '../utils/subtitleFormats';
+import type { SubtitleFormat } from '../utils/subtitleFormats';
+import type { Transcript } from '../types';
 
 /**
  * Props for TranscriptViewer component
  */
 interface TranscriptViewerProps {
-  transcript: string | null;
+  transcript: Transcript | null;
   currentTime: number; // current playback time in seconds
   onSeek: (time: number) => void; // callback to seek video to specific time
+  onImport?: () => void; // callback to import subtitles in place of the transcript
+  videoId?: string; // video the transcript belongs to; editing needs it and onSaved
+  onSaved?: (transcript: Transcript) => void; // callback with the transcript after it is edited or restored
 }
 
-/**
- * Parse transcript text into segments
- * Supports formats like:
- * - [00:01:23] Text here
- * - [01:23] Text here
- * - 00:01:23 Text here
- * - 01:23 Text here
- */
-const parseTranscript = (transcript: string): TranscriptSegment[] => {
-  const segments: TranscriptSegment[] = [];
-  
-  // Split by lines
-  const lines = transcript.split('\n').filter(line => line.trim());
-  
-  // Regex patterns for different timestamp formats
-  const patterns = [
-    // [HH:MM:SS] or [MM:SS]
-    /\[(\d{1,2}):(\d{2})(?::(\d{2}))?\]\s*(.+)/,
-    // HH:MM:SS or MM:SS (without brackets)
-    /^(\d{1,2}):(\d{2})(?::(\d{2}))?\s+(.+)/,
-  ];
-  
-  for (const line of lines) {
-    for (const pattern of patterns) {
-      const match = line.match(pattern);
-      if (match) {
-        const hours = match[3] ? parseInt(match[1], 10) : 0;
-        const minutes = match[3] ? parseInt(match[2], 10) : parseInt(match[1], 10);
-        const seconds = match[3] ? parseInt(match[3], 10) : parseInt(match[2], 10);
-        const text = match[4] || match[match.length - 1];
-        
-        const timestamp = hours * 3600 + minutes * 60 + seconds;
-        const formattedTime = match[3] 
-          ? `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
-          : `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
-        
-        segments.push({ timestamp, text: text.trim(), formattedTime });
-        break;
-      }
-    }
-  }
-  
-  // If no timestamps found, create a single segment
-  if (segments.length === 0 && transcript.trim()) {
-    segments.push({
-      timestamp: 0,
-      text: transcript.trim(),
-      formattedTime: '00:00'
-    });
-  }
-  
-  return segments;
-};
-
-/**
- * Format seconds to HH:MM:SS or MM:SS
- */
-const formatTime = (seconds: number): string => {
-  const hours = Math.floor(seconds / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  
-  if (hours > 0) {
-    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
-  }
-  return `${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
-};
-
 /**
  * Highlight search text in a string
  */
@@ -111,49 +42,39 @@ const highlightText = (text: string, searchQuery: string): React.ReactNode => {
 
 /**
  * Transcript Viewer Component
- * Displays video transcript with timestamps, search, and export functionality
+ * Displays the cues of a video transcript with their times, search, export, and an editing mode
  */
-const TranscriptViewer = ({ transcript, currentTime, onSeek }: TranscriptViewerProps) => {
+const TranscriptViewer = ({ transcript, currentTime, onSeek, onImport, videoId, onSaved }: TranscriptViewerProps) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [copied, setCopied] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [editing, setEditing] = useState(false);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
-  const activeSegmentRef = useRef<HTMLDivElement>(null);
+  const activeCueRef = useRef<HTMLDivElement>(null);
   
-  // Parse transcript into segments
-  const segments = useMemo(() => {
-    if (!transcript) return [];
-    return parseTranscript(transcript);
-  }, [transcript]);
+  const cues = useMemo(() => transcript?.cues ?? [], [transcript]);
+  const timed = !!transcript?.timed;
   
-  // Filter segments based on search query
-  const filteredSegments = useMemo(() => {
-    if (!searchQuery.trim()) return segments;
+  // Filter cues based on search query, keeping their position in the transcript
+  const filteredCues = useMemo(() => {
+    const indexed = cues.map((cue, index) => ({ cue, index }));
+    if (!searchQuery.trim()) return indexed;
     
     const query = searchQuery.toLowerCase();
-    return segments.filter(segment => 
-      segment.text.toLowerCase().includes(query)
-    );
-  }, [segments, searchQuery]);
+    return indexed.filter(({ cue }) => cue.text.toLowerCase().includes(query));
+  }, [cues, searchQuery]);
   
-  // Find current active segment based on currentTime
-  const activeSegmentIndex = useMemo(() => {
-    if (segments.length === 0) return -1;
-    
-    // Find the last segment whose timestamp is <= currentTime
-    for (let i = segments.length - 1; i >= 0; i--) {
-      if (segments[i].timestamp <= currentTime) {
-        return i;
-      }
-    }
-    
-    return 0;
-  }, [segments, currentTime]);
+  // Cue playing at the current time; untimed transcripts have none
+  const activeCueIndex = useMemo(
+    () => (timed ? Math.max(findCueIndex(cues, currentTime), 0) : -1),
+    [cues, timed, currentTime]
+  );
   
   // Auto-scroll to active segment
   useEffect(() => {
-    if (activeSegmentRef.current && scrollContainerRef.current) {
+    if (activeCueRef.current && scrollContainerRef.current) {
       const container = scrollContainerRef.current;
-      const activeElement = activeSegmentRef.current;
+      const activeElement = activeCueRef.current;
       
       const containerRect = container.getBoundingClientRect();
       const elementRect = activeElement.getBoundingClientRect();
@@ -169,14 +90,14 @@ const TranscriptViewer = ({ transcript, currentTime, onSeek }: TranscriptViewerP
         });
       }
     }
-  }, [activeSegmentIndex, currentTime]);
+  }, [activeCueIndex, currentTime]);
   
   // Handle copy to clipboard
   const handleCopy = async () => {
     if (!transcript) return;
     
     try {
-      await navigator.clipboard.writeText(transcript);
+      await navigator.clipboard.writeText(transcriptToText(transcript));
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
@@ -184,15 +105,17 @@ const TranscriptViewer = ({ transcript, currentTime, onSeek }: TranscriptViewerP
     }
   };
   
-  // Handle export transcript
-  const handleExport = () => {
+  // Handle export transcript in a text or subtitle format
+  const handleExport = (format: SubtitleFormat) => {
     if (!transcript) return;
+    setShowExportMenu(false);
     
-    const blob = new Blob([transcript], { type: 'text/plain' });
+    const { extension, mimeType } = SUBTITLE_FORMATS[format];
+    const blob = new Blob([formatSubtitles(transcript, format)], { type: mimeType });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `transcript_${new Date().getTime()}.txt`;
+    a.download = `transcript_${new Date().getTime()}.${extension}`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -211,6 +134,19 @@ const TranscriptViewer = ({ transcript, currentTime, onSeek }: TranscriptViewerP
     );
   }
   
+  if (editing && videoId && onSaved) {
+    return (
+      <TranscriptEditor
+        transcript={transcript}
+        videoId={videoId}
+        currentTime={currentTime}
+        onSeek={onSeek}
+        onSaved={onSaved}
+        onClose={() => setEditing(false)}
+      />
+    );
+  }
+  
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
       {/* Header with search and actions */}
@@ -242,6 +178,18 @@ const TranscriptViewer = ({ transcript, currentTime, onSeek }: TranscriptViewerP
           
           {/* Action buttons */}
           <div className="flex gap-2">
+            {videoId && onSaved && (
+              <button
+                onClick={() => setEditing(true)}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300
+                         bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600
+                         rounded-lg transition-colors duration-200"
+                title="Fix the text and timing of the transcript"
+              >
+                <Pencil className="w-4 h-4" />
+                Edit
+              </button>
+            )}
             <button
               onClick={handleCopy}
               className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300
@@ -251,22 +199,57 @@ const TranscriptViewer = ({ transcript, currentTime, onSeek }: TranscriptViewerP
               <Copy className="w-4 h-4" />
               {copied ? 'Copied!' : 'Copy'}
             </button>
-            <button
-              onClick={handleExport}
-              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300
-                       bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600
-                       rounded-lg transition-colors duration-200"
-            >
-              <Download className="w-4 h-4" />
-              Export
-            </button>
+            <div className="relative">
+              <button
+                onClick={() => setShowExportMenu(!showExportMenu)}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300
+                         bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600
+                         rounded-lg transition-colors duration-200"
+                aria-haspopup="menu"
+                aria-expanded={showExportMenu}
+              >
+                <Download className="w-4 h-4" />
+                Export
+              </button>
+              {showExportMenu && (
+                <div
+                  role="menu"
+                  className="absolute right-0 top-full mt-1 w-44 bg-white dark:bg-gray-800 rounded-lg shadow-xl
+                           border border-gray-200 dark:border-gray-700 overflow-hidden z-20"
+                >
+                  {(Object.keys(SUBTITLE_FORMATS) as SubtitleFormat[]).map((format) => (
+                    <button
+                      key={format}
+                      role="menuitem"
+                      onClick={() => handleExport(format)}
+                      className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300
+                               hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors duration-200"
+                    >
+                      {SUBTITLE_FORMATS[format].label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {onImport && (
+              <button
+                onClick={onImport}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300
+                         bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600
+                         rounded-lg transition-colors duration-200"
+                title="Replace the transcript with an SRT or WebVTT file"
+              >
+                <FileUp className="w-4 h-4" />
+                Import
+              </button>
+            )}
           </div>
         </div>
         
         {/* Search results count */}
         {searchQuery && (
           <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-            Found {filteredSegments.length} of {segments.length} segments
+            Found {filteredCues.length} of {cues.length} cues
           </div>
         )}
       </div>
@@ -277,20 +260,27 @@ const TranscriptViewer = ({ transcript, currentTime, onSeek }: TranscriptViewerP
         className="max-h-96 overflow-y-auto p-4 space-y-1"
         style={{ scrollBehavior: 'smooth' }}
       >
-        {filteredSegments.length === 0 ? (
+        {filteredCues.length === 0 ? (
           <div className="text-center py-8 text-gray-500 dark:text-gray-400">
-            <p className="text-sm">No matching segments found</p>
+            <p className="text-sm">No matching cues found</p>
           </div>
+        ) : !timed ? (
+          // Text without timing cannot be seeked to
+          filteredCues.map(({ cue, index }) => (
+            <p key={index} className="p-3 text-sm leading-relaxed text-gray-700 dark:text-gray-300 whitespace-pre-line">
+              {highlightText(cue.text, searchQuery)}
+            </p>
+          ))
         ) : (
-          filteredSegments.map((segment, index) => {
-            const isActive = segments.indexOf(segment) === activeSegmentIndex;
-            const segmentIndex = segments.indexOf(segment);
+          filteredCues.map(({ cue, index }) => {
+            const isActive = index === activeCueIndex;
+            const formattedTime = formatTime(cue.start);
             
             return (
               <div
-                key={`${segment.timestamp}-${index}`}
-                ref={isActive ? activeSegmentRef : null}
-                onClick={() => onSeek(segment.timestamp)}
+                key={`${cue.start}-${index}`}
+                ref={isActive ? activeCueRef : null}
+                onClick={() => onSeek(cue.start)}
                 className={`
                   flex gap-4 p-3 rounded-lg cursor-pointer transition-all duration-200
                   ${isActive 
@@ -303,10 +293,10 @@ const TranscriptViewer = ({ transcript, currentTime, onSeek }: TranscriptViewerP
                 onKeyDown={(e) => {
                   if (e.key === 'Enter' || e.key === ' ') {
                     e.preventDefault();
-                    onSeek(segment.timestamp);
+                    onSeek(cue.start);
                   }
                 }}
-                aria-label={`Jump to ${segment.formattedTime}: ${segment.text.substring(0, 50)}...`}
+                aria-label={`Jump to ${formattedTime}: ${cue.text.substring(0, 50)}...`}
               >
                 {/* Timestamp */}
                 <div className={`
@@ -317,7 +307,7 @@ const TranscriptViewer = ({ transcript, currentTime, onSeek }: TranscriptViewerP
                   }
                 `}
                 >
-                  {segment.formattedTime}
+                  {formattedTime}
                 </div>
                 
                 {/* Text */}
@@ -329,7 +319,7 @@ const TranscriptViewer = ({ transcript, currentTime, onSeek }: TranscriptViewerP
                   }
                 `}
                 >
-                  {highlightText(segment.text, searchQuery)}
+                  {highlightText(cue.text, searchQuery)}
                 </div>
               </div>
             );
@@ -337,11 +327,13 @@ const TranscriptViewer = ({ transcript, currentTime, onSeek }: TranscriptViewerP
         )}
       </div>
       
-      {/* Footer with segment count */}
+      {/* Footer with cue count, source and language */}
       <div className="px-4 py-2 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50">
         <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
-          {segments.length} transcript segment{segments.length !== 1 ? 's' : ''}
-          {searchQuery && ` • ${filteredSegments.length} matching`}
+          {timed ? `${cues.length} cue${cues.length !== 1 ? 's' : ''}` : 'Untimed'}
+          {` • ${TRANSCRIPT_SOURCE_LABELS[transcript.source]}`}
+          {transcript.language && ` • ${transcript.language}`}
+          {searchQuery && ` • ${filteredCues.length} matching`}
         </p>
       </div>
     </div>
@@ -3,8 +3,6 @@ import { useNavigate } from 'react-router-dom';
 import {
   Play,
   MoreVertical,
-  Youtube,
-  Music,
   Clock,
   Download,
   Eye,
@@ -14,10 +12,13 @@ import {
   FileText,
 } from 'lucide-react';
 import type { Video } from '../types';
-import { formatRelativeTime } from '../utils/dateUtils';
+import { formatRelativeTime, formatTimecode } from '../utils/dateUtils';
 import { storageService } from '../services/storageService';
 import { TagPill } from './TagPill';
+import { PlatformIcon } from './PlatformIcon';
+import { platformRegistry } from '../services/platforms';
 import { useNotifications } from '../contexts/NotificationContext';
+import { useTrash } from '../hooks/useTrash';
 
 interface VideoCardProps {
   video: Video;
@@ -51,12 +52,14 @@ const VideoCard = ({
 }: VideoCardProps) => {
   const navigate = useNavigate();
   const { showSuccess, showError } = useNotifications();
+  const { trashVideo } = useTrash();
   const [menuOpen, setMenuOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
-  // Determine if video is vertical (TikTok, YouTube Shorts)
-  const isVertical = video.platform === 'tiktok' || 
-                     (video.platform === 'youtube' && video.url.includes('/shorts/'));
+  const provider = platformRegistry.find(video.platform);
+
+  // Determine if video is vertical (TikTok, YouTube Shorts, Instagram Reels)
+  const isVertical = !!provider?.isVertical(video.url);
 
   // Format duration
   const formatDuration = (seconds: number): string => {
@@ -77,29 +80,6 @@ const VideoCard = ({
     return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
   };
 
-  // Get platform icon
-  const getPlatformIcon = () => {
-    switch (video.platform) {
-      case 'youtube':
-        return <Youtube className="w-4 h-4" />;
-      case 'tiktok':
-        return <Music className="w-4 h-4" />;
-      default:
-        return null;
-    }
-  };
-
-  // Get platform badge color
-  const getPlatformBadgeColor = (): string => {
-    switch (video.platform) {
-      case 'youtube':
-        return 'bg-red-600 dark:bg-red-700';
-      case 'tiktok':
-        return 'bg-black dark:bg-gray-800';
-      default:
-        return 'bg-gray-600 dark:bg-gray-700';
-    }
-  };
 
   // Handle card click
   const handleCardClick = (e: React.MouseEvent) => {
@@ -194,21 +174,12 @@ const VideoCard = ({
     }
   };
 
-  // Default delete handler
+  // Default delete handler: move to the trash, undoable from the notification
   const handleDelete = () => {
-    if (window.confirm(`Are you sure you want to delete "${video.title}"?`)) {
-      if (onDelete) {
-        onDelete(video);
-      } else {
-        storageService.deleteVideo(video.id)
-          .then(() => {
-            showSuccess(`Video "${video.title}" deleted successfully.`);
-          })
-          .catch((error) => {
-            console.error('Error deleting video:', error);
-            showError('Failed to delete video. Please try again.');
-          });
-      }
+    if (onDelete) {
+      onDelete(video);
+    } else {
+      trashVideo(video);
     }
   };
 
@@ -297,11 +268,11 @@ const VideoCard = ({
           } z-10`}
         >
           <div
-            className={`${getPlatformBadgeColor()} px-2 py-1 rounded-md text-white text-xs font-semibold flex items-center gap-1 shadow-lg backdrop-blur-sm`}
+            className={`${provider?.branding.badgeClassName ?? 'bg-gray-600 dark:bg-gray-700'} px-2 py-1 rounded-md text-white text-xs font-semibold flex items-center gap-1 shadow-lg backdrop-blur-sm`}
           >
-            {getPlatformIcon()}
+            <PlatformIcon platform={video.platform} />
             <span className="hidden sm:inline">
-              {video.platform.charAt(0).toUpperCase() + video.platform.slice(1)}
+              {provider?.branding.name ?? video.platform}
             </span>
           </div>
         </div>
@@ -456,6 +427,16 @@ const VideoCard = ({
           <span className="px-2 py-1 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded-md text-xs font-medium">
             {video.quality}
           </span>
+          {video.audioBitrate && (
+            <span className="px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md text-xs font-medium">
+              {video.audioBitrate} kbps
+            </span>
+          )}
+          {video.clipStart !== undefined && (
+            <span className="px-2 py-1 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 rounded-md text-xs font-medium">
+              Clip {formatTimecode(video.clipStart)}–{video.clipEnd !== undefined ? formatTimecode(video.clipEnd) : 'end'}
+            </span>
+          )}
         </div>
 
         {/* Tags */}
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { X, ListVideo, FolderPlus, Plus } from 'lucide-react';
+import type { YouTubeVideoList, YouTubeVideoListEntry } from '../services/youtubeService';
+
+interface VideoListPickerProps {
+  /** Playlist or channel to pick videos from */
+  list: YouTubeVideoList;
+  /** Called with the chosen videos, in list order */
+  onAdd: (entries: YouTubeVideoListEntry[], createCollection: boolean) => void;
+  onCancel: () => void;
+}
+
+// Format duration as m:ss or h:mm:ss
+const formatDuration = (seconds: number): string => {
+  if (!seconds) return '--:--';
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  return hours > 0
+    ? `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+    : `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Dialog listing the videos of a YouTube playlist or channel, to choose which
+ * ones go into the batch queue
+ */
+export const VideoListPicker = ({ list, onAdd, onCancel }: VideoListPickerProps) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(
+    () => new Set(list.entries.map((entry) => entry.videoId))
+  );
+  // Playlists are usually wanted together; channels rarely are
+  const [createCollection, setCreateCollection] = useState(list.type === 'playlist');
+
+  const allSelected = selectedIds.size === list.entries.length;
+  const selectedEntries = list.entries.filter((entry) => selectedIds.has(entry.videoId));
+  const selectedDuration = selectedEntries.reduce((sum, entry) => sum + entry.duration, 0);
+
+  const toggleEntry = (videoId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(videoId)) {
+        next.delete(videoId);
+      } else {
+        next.add(videoId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(list.entries.map((entry) => entry.videoId)));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="video-list-picker-title"
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-3xl w-full max-h-[85vh] overflow-hidden flex flex-col"
+      >
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h3 id="video-list-picker-title" className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+              <ListVideo className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <span className="truncate">{list.title}</span>
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {list.type === 'playlist' ? 'Playlist' : 'Channel'}
+              {list.author && list.author !== list.title && ` by ${list.author}`}
+              {' · '}
+              {list.entries.length} videos
+              {list.truncated && ' (only the first ones are listed)'}
+            </p>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={toggleAll}
+              className="w-4 h-4 text-blue-600 rounded"
+            />
+            Select all
+          </label>
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {selectedEntries.length} selected · {formatDuration(selectedDuration)}
+          </span>
+        </div>
+
+        <ul className="overflow-y-auto flex-1 divide-y divide-gray-200 dark:divide-gray-700">
+          {list.entries.map((entry) => (
+            <li key={entry.videoId}>
+              <label className="flex items-center gap-3 px-6 py-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900/50">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(entry.videoId)}
+                  onChange={() => toggleEntry(entry.videoId)}
+                  className="w-4 h-4 text-blue-600 rounded flex-shrink-0"
+                />
+                <span className="w-8 text-xs text-gray-500 dark:text-gray-400 text-right flex-shrink-0">
+                  {entry.position + 1}
+                </span>
+                {entry.thumbnail ? (
+                  <img
+                    src={entry.thumbnail}
+                    alt=""
+                    loading="lazy"
+                    className="w-20 h-11 object-cover rounded flex-shrink-0 bg-gray-200 dark:bg-gray-700"
+                  />
+                ) : (
+                  <div className="w-20 h-11 rounded flex-shrink-0 bg-gray-200 dark:bg-gray-700" />
+                )}
+                <span className="flex-1 min-w-0 text-sm text-gray-900 dark:text-gray-100 truncate" title={entry.title}>
+                  {entry.title}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 font-mono flex-shrink-0">
+                  {formatDuration(entry.duration)}
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between gap-4 flex-wrap">
+          <label className="flex items-center gap-2 cursor-pointer text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={createCollection}
+              onChange={(e) => setCreateCollection(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded"
+            />
+            <FolderPlus className="w-4 h-4" />
+            Add to a new collection named “{list.title}”
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onAdd(selectedEntries, createCollection)}
+              disabled={selectedEntries.length === 0}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg transition-colors flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add {selectedEntries.length} to Queue
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
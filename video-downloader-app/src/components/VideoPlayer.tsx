@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   Play,
   Pause,
@@ -7,19 +7,68 @@ import {
   Maximize,
   Minimize,
   Gauge,
+  Captions,
+  CaptionsOff,
+  PictureInPicture2,
 } from 'lucide-react';
+import { useSettings } from '../contexts/SettingsContext';
+import type { CaptionSize, CaptionBackground, CaptionPosition } from '../contexts/SettingsContext';
+import { toWebVtt } from '../utils/subtitleFormats';
+import { TRANSCRIPT_SOURCE_LABELS } from '../utils/transcriptParser';
+import type { Transcript } from '../types';
 
 interface VideoPlayerProps {
   videoBlob: Blob;
   autoplay?: boolean;
   onTimeUpdate?: (currentTime: number) => void;
   videoRef?: React.RefObject<HTMLVideoElement>;
+  /** Transcripts to offer as captions, one track each; untimed transcripts are left out */
+  captions?: Transcript[];
+}
+
+const CAPTION_SIZES: { value: CaptionSize; label: string }[] = [
+  { value: 'small', label: 'Small' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'large', label: 'Large' },
+  { value: 'x-large', label: 'Extra large' },
+];
+
+const CAPTION_BACKGROUNDS: { value: CaptionBackground; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'translucent', label: 'Translucent' },
+  { value: 'solid', label: 'Solid' },
+];
+
+const CAPTION_POSITIONS: { value: CaptionPosition; label: string }[] = [
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'top', label: 'Top' },
+];
+
+// Cue settings that place captions; the browser puts them at the bottom by default
+const CAPTION_CUE_SETTINGS: Record<CaptionPosition, string | undefined> = {
+  bottom: undefined,
+  top: 'line:0',
+};
+
+// Name of a caption track, such as "English (Auto-generated)"
+function getCaptionLabel(transcript: Transcript): string {
+  const source = TRANSCRIPT_SOURCE_LABELS[transcript.source];
+  if (!transcript.language) return source;
+
+  let language = transcript.language;
+  try {
+    language = new Intl.DisplayNames(undefined, { type: 'language' }).of(transcript.language) ?? language;
+  } catch {
+    // Not a valid language code; show it as it is
+  }
+  return `${language} (${source})`;
 }
 
 /**
  * Custom video player component with full controls
  */
-const VideoPlayer = ({ videoBlob, autoplay = false, onTimeUpdate, videoRef: externalVideoRef }: VideoPlayerProps) => {
+const VideoPlayer = ({ videoBlob, autoplay = false, onTimeUpdate, videoRef: externalVideoRef, captions }: VideoPlayerProps) => {
+  const { settings, updateSetting } = useSettings();
   const internalVideoRef = useRef<HTMLVideoElement>(null);
   const videoRef = externalVideoRef || internalVideoRef;
   const containerRef = useRef<HTMLDivElement>(null);
@@ -32,8 +81,27 @@ const VideoPlayer = ({ videoBlob, autoplay = false, onTimeUpdate, videoRef: exte
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showVolumeSlider, setShowVolumeSlider] = useState(false);
   const [showSpeedMenu, setShowSpeedMenu] = useState(false);
+  const [showCaptionsMenu, setShowCaptionsMenu] = useState(false);
+  const [isPictureInPicture, setIsPictureInPicture] = useState(false);
   const [blobUrl, setBlobUrl] = useState<string | null>(null);
 
+  // Only timed transcripts can be shown as captions
+  const captionTracks = useMemo(
+    () => (captions ?? []).filter((transcript) => transcript.timed && transcript.cues.length > 0),
+    [captions]
+  );
+
+  // Track picked in the captions menu; only applies to the tracks it was picked from
+  const [chosenTrack, setChosenTrack] = useState<{ tracks: Transcript[]; index: number } | null>(null);
+
+  // Track shown as captions: the one picked, else the one in the preferred language, else the first; -1 when off
+  const activeTrack = useMemo(() => {
+    if (!settings.captionsEnabled || captionTracks.length === 0) return -1;
+    if (chosenTrack?.tracks === captionTracks) return chosenTrack.index;
+    const preferred = captionTracks.findIndex((transcript) => transcript.language === settings.captionLanguage);
+    return preferred === -1 ? 0 : preferred;
+  }, [captionTracks, chosenTrack, settings.captionsEnabled, settings.captionLanguage]);
+
   // Create blob URL from videoBlob
   useEffect(() => {
     const url = URL.createObjectURL(videoBlob);
@@ -44,6 +112,33 @@ const VideoPlayer = ({ videoBlob, autoplay = false, onTimeUpdate, videoRef: exte
     };
   }, [videoBlob]);
 
+  // WebVTT file of each caption track as a data URL, which needs no revoking; the position is part of the cues
+  const trackUrls = useMemo(() => {
+    const cueSettings = CAPTION_CUE_SETTINGS[settings.captionPosition];
+    return captionTracks.map(
+      (transcript) => `data:text/vtt;charset=utf-8,${encodeURIComponent(toWebVtt(transcript, cueSettings))}`
+    );
+  }, [captionTracks, settings.captionPosition]);
+
+  // Show the active track; the browser renders it in fullscreen and picture-in-picture too
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const applyTrackModes = () => {
+      Array.from(video.textTracks).forEach((track, index) => {
+        track.mode = index === activeTrack ? 'showing' : 'disabled';
+      });
+    };
+
+    applyTrackModes();
+    // Tracks added by a new set of <track> elements start out disabled
+    video.textTracks.addEventListener('addtrack', applyTrackModes);
+    return () => {
+      video.textTracks.removeEventListener('addtrack', applyTrackModes);
+    };
+  }, [activeTrack, trackUrls, videoRef]);
+
   // Set video source when blob URL is ready
   useEffect(() => {
     if (videoRef.current && blobUrl) {
@@ -84,10 +179,27 @@ const VideoPlayer = ({ videoBlob, autoplay = false, onTimeUpdate, videoRef: exte
       setIsFullscreen(!!document.fullscreenElement);
     };
 
+    const handleEnterPictureInPicture = () => setIsPictureInPicture(true);
+    const handleLeavePictureInPicture = () => setIsPictureInPicture(false);
+
+    // Playback can also be driven from outside the controls (e.g. a watch-together room)
+    const handlePlay = () => setPlaying(true);
+    const handlePause = () => setPlaying(false);
+
+    // The chosen speed is kept in defaultPlaybackRate so temporary rate nudges don't show up
+    const handleRateChange = () => {
+      setPlaybackSpeed(video.defaultPlaybackRate);
+    };
+
     video.addEventListener('loadedmetadata', handleLoadedMetadata);
     video.addEventListener('timeupdate', handleTimeUpdate);
     video.addEventListener('ended', handleEnded);
     video.addEventListener('volumechange', handleVolumeChange);
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('pause', handlePause);
+    video.addEventListener('ratechange', handleRateChange);
+    video.addEventListener('enterpictureinpicture', handleEnterPictureInPicture);
+    video.addEventListener('leavepictureinpicture', handleLeavePictureInPicture);
     document.addEventListener('fullscreenchange', handleFullscreenChange);
 
     return () => {
@@ -95,6 +207,11 @@ const VideoPlayer = ({ videoBlob, autoplay = false, onTimeUpdate, videoRef: exte
       video.removeEventListener('timeupdate', handleTimeUpdate);
       video.removeEventListener('ended', handleEnded);
       video.removeEventListener('volumechange', handleVolumeChange);
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('pause', handlePause);
+      video.removeEventListener('ratechange', handleRateChange);
+      video.removeEventListener('enterpictureinpicture', handleEnterPictureInPicture);
+      video.removeEventListener('leavepictureinpicture', handleLeavePictureInPicture);
       document.removeEventListener('fullscreenchange', handleFullscreenChange);
     };
   }, [blobUrl]);
@@ -151,6 +268,7 @@ const VideoPlayer = ({ videoBlob, autoplay = false, onTimeUpdate, videoRef: exte
     const video = videoRef.current;
     if (!video) return;
 
+    video.defaultPlaybackRate = speed;
     video.playbackRate = speed;
     setPlaybackSpeed(speed);
     setShowSpeedMenu(false);
@@ -174,6 +292,34 @@ const VideoPlayer = ({ videoBlob, autoplay = false, onTimeUpdate, videoRef: exte
     }
   }, []);
 
+  // Toggle picture-in-picture
+  const togglePictureInPicture = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    try {
+      if (document.pictureInPictureElement) {
+        await document.exitPictureInPicture();
+      } else {
+        await video.requestPictureInPicture();
+      }
+    } catch (error) {
+      console.error('Picture-in-picture error:', error);
+    }
+  };
+
+  // Choose a caption track, or turn captions off with -1
+  const selectCaptionTrack = useCallback((index: number) => {
+    if (index === -1) {
+      updateSetting('captionsEnabled', false);
+      return;
+    }
+    updateSetting('captionsEnabled', true);
+    // The language is remembered for other videos; the track itself only for this one
+    updateSetting('captionLanguage', captionTracks[index].language ?? '');
+    setChosenTrack({ tracks: captionTracks, index });
+  }, [captionTracks, updateSetting]);
+
   // Format time to MM:SS
   const formatTime = (seconds: number): string => {
     if (isNaN(seconds) || !isFinite(seconds)) return '0:00';
@@ -195,11 +341,21 @@ const VideoPlayer = ({ videoBlob, autoplay = false, onTimeUpdate, videoRef: exte
       {/* Video Element */}
       <video
         ref={videoRef}
-        className="w-full h-auto"
+        className={`w-full h-auto captions-${settings.captionSize} captions-bg-${settings.captionBackground}`}
         playsInline
         preload="metadata"
         aria-label="Video player"
-      />
+      >
+        {trackUrls.map((url, index) => (
+          <track
+            key={url}
+            kind="subtitles"
+            src={url}
+            srcLang={captionTracks[index]?.language}
+            label={captionTracks[index] ? getCaptionLabel(captionTracks[index]) : undefined}
+          />
+        ))}
+      </video>
 
       {/* Controls Bar */}
       <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
@@ -329,6 +485,100 @@ const VideoPlayer = ({ videoBlob, autoplay = false, onTimeUpdate, videoRef: exte
             )}
           </div>
 
+          {/* Captions */}
+          {captionTracks.length > 0 && (
+            <div className="relative">
+              <button
+                onClick={() => setShowCaptionsMenu(!showCaptionsMenu)}
+                aria-label="Captions"
+                aria-expanded={showCaptionsMenu}
+                className={`p-2 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded ${
+                  activeTrack !== -1 ? 'text-blue-400' : 'text-white hover:text-blue-400'
+                }`}
+              >
+                {activeTrack !== -1 ? <Captions className="w-5 h-5" /> : <CaptionsOff className="w-5 h-5" />}
+              </button>
+
+              {/* Captions Menu */}
+              {showCaptionsMenu && (
+                <div className="absolute bottom-full right-0 mb-2 bg-gray-900 rounded-lg shadow-xl overflow-hidden min-w-[220px] max-h-80 overflow-y-auto">
+                  <div className="px-4 pt-2 pb-1 text-xs font-semibold text-gray-400 uppercase">Captions</div>
+                  <button
+                    onClick={() => selectCaptionTrack(-1)}
+                    className={`w-full px-4 py-2 text-left text-white hover:bg-gray-800 transition-colors duration-150 ${
+                      activeTrack === -1 ? 'bg-blue-600' : ''
+                    }`}
+                  >
+                    Off
+                  </button>
+                  {captionTracks.map((transcript, index) => (
+                    <button
+                      key={index}
+                      onClick={() => selectCaptionTrack(index)}
+                      className={`w-full px-4 py-2 text-left text-white hover:bg-gray-800 transition-colors duration-150 ${
+                        activeTrack === index ? 'bg-blue-600' : ''
+                      }`}
+                    >
+                      {getCaptionLabel(transcript)}
+                    </button>
+                  ))}
+
+                  <div className="px-4 pt-3 pb-2 space-y-2 border-t border-gray-800 mt-1">
+                    <label className="flex items-center justify-between gap-3 text-sm text-gray-300">
+                      Size
+                      <select
+                        value={settings.captionSize}
+                        onChange={(e) => updateSetting('captionSize', e.target.value as CaptionSize)}
+                        className="bg-gray-800 text-white rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {CAPTION_SIZES.map(({ value, label }) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center justify-between gap-3 text-sm text-gray-300">
+                      Background
+                      <select
+                        value={settings.captionBackground}
+                        onChange={(e) => updateSetting('captionBackground', e.target.value as CaptionBackground)}
+                        className="bg-gray-800 text-white rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {CAPTION_BACKGROUNDS.map(({ value, label }) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center justify-between gap-3 text-sm text-gray-300">
+                      Position
+                      <select
+                        value={settings.captionPosition}
+                        onChange={(e) => updateSetting('captionPosition', e.target.value as CaptionPosition)}
+                        className="bg-gray-800 text-white rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {CAPTION_POSITIONS.map(({ value, label }) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Picture-in-Picture Button */}
+          {document.pictureInPictureEnabled && (
+            <button
+              onClick={togglePictureInPicture}
+              aria-label={isPictureInPicture ? 'Exit picture-in-picture' : 'Enter picture-in-picture'}
+              className={`p-2 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded ${
+                isPictureInPicture ? 'text-blue-400' : 'text-white hover:text-blue-400'
+              }`}
+            >
+              <PictureInPicture2 className="w-5 h-5" />
+            </button>
+          )}
+
           {/* Fullscreen Button */}
           <button
             onClick={toggleFullscreen}
@@ -0,0 +1,261 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Users,
+  Copy,
+  LogOut,
+  Crown,
+  Loader2,
+  AlertTriangle,
+  ExternalLink,
+  PlayCircle,
+} from 'lucide-react';
+import { useWatchTogether } from '../hooks/useWatchTogether';
+import { storageService } from '../services/storageService';
+import { copyToClipboard } from '../services/sharingService';
+import { useNotifications } from '../contexts/NotificationContext';
+import type { Video } from '../types';
+
+interface WatchTogetherPanelProps {
+  video: Video;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  /** Room code to join automatically (e.g. from a `?room=` link) */
+  initialRoomCode?: string | null;
+}
+
+const NAME_STORAGE_KEY = 'watchTogether_displayName';
+
+const loadDisplayName = (): string => {
+  const stored = localStorage.getItem(NAME_STORAGE_KEY);
+  return stored || `Guest-${Math.random().toString(36).substring(2, 6).toUpperCase()}`;
+};
+
+/**
+ * Panel for creating, joining and showing a watch-together room
+ */
+export const WatchTogetherPanel = ({ video, videoRef, initialRoomCode }: WatchTogetherPanelProps) => {
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useNotifications();
+  const {
+    status,
+    roomCode,
+    selfId,
+    participants,
+    roomVideo,
+    hasRoomVideo,
+    error,
+    createRoom,
+    joinRoom,
+    leaveRoom,
+  } = useWatchTogether(videoRef, video);
+  const [displayName, setDisplayName] = useState(loadDisplayName);
+  const [codeInput, setCodeInput] = useState('');
+  const [libraryLookup, setLibraryLookup] = useState<{ key: string; match: Video | null } | null>(null);
+  const autoJoinedRef = useRef<string | null>(null);
+
+  // Remember the display name between sessions
+  useEffect(() => {
+    localStorage.setItem(NAME_STORAGE_KEY, displayName);
+  }, [displayName]);
+
+  // Join automatically when opened from a room link
+  useEffect(() => {
+    if (!initialRoomCode || status !== 'idle' || autoJoinedRef.current === `${video.id}:${initialRoomCode}`) return;
+    autoJoinedRef.current = `${video.id}:${initialRoomCode}`;
+    joinRoom(initialRoomCode, displayName);
+  }, [initialRoomCode, status, video.id, displayName, joinRoom]);
+
+  // When the room watches a different video, look for our own copy of it
+  useEffect(() => {
+    if (!roomVideo || hasRoomVideo) return;
+
+    const key = roomVideo.key;
+    let cancelled = false;
+    storageService
+      .findVideoBySourceKey(key)
+      .then((match) => {
+        if (!cancelled) setLibraryLookup({ key, match });
+      })
+      .catch((lookupError) => {
+        console.error('Error looking up room video:', lookupError);
+        if (!cancelled) setLibraryLookup({ key, match: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomVideo, hasRoomVideo]);
+
+  const handleCopyCode = async () => {
+    if (!roomCode) return;
+    // Video IDs differ between libraries, so guests join with the code from their own copy
+    const copied = await copyToClipboard(roomCode);
+    if (copied) {
+      showSuccess(`Room code ${roomCode} copied. Friends can enter it in Watch Together on their copy of this video`);
+    } else {
+      showError('Failed to copy room code');
+    }
+  };
+
+  // undefined while the lookup for the current room video is pending
+  const libraryCopy = roomVideo && libraryLookup?.key === roomVideo.key ? libraryLookup.match : undefined;
+  const isBusy = status === 'connecting';
+  const name = displayName.trim() || 'Guest';
+
+  return (
+    <div className="bg-purple-900/30 backdrop-blur-xl rounded-2xl border border-purple-500/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Users className="w-5 h-5 text-white" />
+          <h3 className="font-semibold text-white">Watch Together</h3>
+        </div>
+        {status === 'joined' && roomCode && (
+          <button
+            onClick={handleCopyCode}
+            className="px-3 py-1 bg-purple-600/30 hover:bg-purple-600/50 text-purple-200 rounded-full
+                     text-sm font-mono tracking-widest flex items-center gap-2 transition-colors"
+            aria-label="Copy room code"
+          >
+            {roomCode}
+            <Copy className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/30 border border-red-500/30 rounded-lg flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-xs text-red-300">{error}</p>
+        </div>
+      )}
+
+      {status === 'joined' ? (
+        <>
+          {/* Fallback when the room is watching something else */}
+          {!hasRoomVideo && roomVideo && (
+            <div className="mb-4 p-3 bg-yellow-900/20 border border-yellow-500/30 rounded-lg">
+              <p className="text-sm text-yellow-200 mb-2">
+                This room is watching <span className="font-semibold">{roomVideo.title}</span>, which is not the video open here.
+              </p>
+              {libraryCopy ? (
+                <button
+                  onClick={() => navigate(`/video/${libraryCopy.id}?room=${roomCode}`)}
+                  className="w-full px-3 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium
+                           rounded-lg transition-colors flex items-center justify-center gap-2"
+                >
+                  <PlayCircle className="w-4 h-4" />
+                  Open my copy
+                </button>
+              ) : libraryCopy === null ? (
+                <>
+                  <p className="text-xs text-yellow-300/80 mb-2">
+                    It isn't in your library yet. Download it to watch in sync; you can stay in the room meanwhile.
+                  </p>
+                  {roomVideo.url && (
+                    <a
+                      href={roomVideo.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-purple-300 hover:text-purple-200 inline-flex items-center gap-1 break-all"
+                    >
+                      <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                      {roomVideo.url}
+                    </a>
+                  )}
+                </>
+              ) : (
+                <Loader2 className="w-4 h-4 animate-spin text-yellow-200" />
+              )}
+            </div>
+          )}
+
+          {/* Participants */}
+          <ul className="space-y-2 mb-4" aria-label="Room participants">
+            {participants.map((participant) => (
+              <li
+                key={participant.id}
+                className="flex items-center justify-between px-3 py-2 bg-black/20 rounded-lg"
+              >
+                <span className="text-sm text-white flex items-center gap-2">
+                  {participant.isHost && <Crown className="w-4 h-4 text-yellow-400" aria-label="Host" />}
+                  {participant.name}
+                  {participant.id === selfId && <span className="text-xs text-gray-400">(you)</span>}
+                </span>
+                {!participant.hasVideo && (
+                  <span className="text-xs text-yellow-300">Doesn't have this video</span>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <button
+            onClick={leaveRoom}
+            className="w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium
+                     rounded-lg transition-colors flex items-center justify-center gap-2"
+          >
+            <LogOut className="w-4 h-4" />
+            Leave Room
+          </button>
+        </>
+      ) : (
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="watch-together-name" className="block text-xs text-gray-300 mb-1">
+              Your name
+            </label>
+            <input
+              id="watch-together-name"
+              type="text"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              maxLength={40}
+              disabled={isBusy}
+              className="w-full px-3 py-2 text-sm rounded-lg bg-black/30 border border-purple-500/30 text-white
+                       focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+            />
+          </div>
+
+          <button
+            onClick={() => createRoom(name)}
+            disabled={isBusy}
+            className="w-full px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold
+                     rounded-lg transition-colors flex items-center justify-center gap-2
+                     disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Users className="w-4 h-4" />}
+            Start a Room
+          </button>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (codeInput.trim()) joinRoom(codeInput, name);
+            }}
+            className="flex gap-2"
+          >
+            <input
+              type="text"
+              value={codeInput}
+              onChange={(e) => setCodeInput(e.target.value.toUpperCase())}
+              placeholder="Room code"
+              maxLength={6}
+              disabled={isBusy}
+              aria-label="Room code"
+              className="flex-1 min-w-0 px-3 py-2 text-sm font-mono tracking-widest rounded-lg bg-black/30
+                       border border-purple-500/30 text-white focus:outline-none focus:ring-2
+                       focus:ring-purple-500 disabled:opacity-50"
+            />
+            <button
+              type="submit"
+              disabled={isBusy || !codeInput.trim()}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium rounded-lg
+                       transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Join
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
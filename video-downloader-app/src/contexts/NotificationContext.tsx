@@ -2,11 +2,17 @@ import { createContext, useContext, useState, useCallback, ReactNode } from 'rea
 
 export type NotificationType = 'success' | 'error' | 'warning' | 'info';
 
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
+}
+
 export interface Notification {
   id: string;
   type: NotificationType;
   message: string;
   duration?: number; // in milliseconds, default 5000
+  action?: NotificationAction;
 }
 
 interface NotificationContextType {
@@ -15,6 +21,7 @@ interface NotificationContextType {
   showError: (message: string, duration?: number) => void;
   showWarning: (message: string, duration?: number) => void;
   showInfo: (message: string, duration?: number) => void;
+  showUndo: (message: string, onUndo: () => void) => void;
   removeNotification: (id: string) => void;
   clearAll: () => void;
 }
@@ -22,6 +29,7 @@ interface NotificationContextType {
 const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
 
 const DEFAULT_DURATION = 5000; // 5 seconds
+const UNDO_DURATION = 8000; // 8 seconds, long enough to react to an accidental delete
 
 export const NotificationProvider = ({ children }: { children: ReactNode }) => {
   const [notifications, setNotifications] = useState<Notification[]>([]);
@@ -30,13 +38,14 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
     setNotifications((prev) => prev.filter((n) => n.id !== id));
   }, []);
 
-  const addNotification = useCallback((type: NotificationType, message: string, duration?: number) => {
+  const addNotification = useCallback((type: NotificationType, message: string, duration?: number, action?: NotificationAction) => {
     const id = `notification-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     const notification: Notification = {
       id,
       type,
       message,
       duration: duration ?? DEFAULT_DURATION,
+      action,
     };
 
     setNotifications((prev) => {
@@ -85,12 +94,20 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
     [addNotification]
   );
 
+  const showUndo = useCallback(
+    (message: string, onUndo: () => void) => {
+      addNotification('info', message, UNDO_DURATION, { label: 'Undo', onClick: onUndo });
+    },
+    [addNotification]
+  );
+
   const value: NotificationContextType = {
     notifications,
     showSuccess,
     showError,
     showWarning,
     showInfo,
+    showUndo,
     removeNotification,
     clearAll,
   };
@@ -1,21 +1,48 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import type { DownloadWindow } from '../types';
 
 export type Theme = 'light' | 'dark' | 'auto' | 'high-contrast';
 export type Language = 'en';
 export type VideoQuality = '2160p' | '1440p' | '1080p' | '720p' | '480p' | '360p';
 export type VideoFormat = 'mp4' | 'mp3';
+export type CaptionSize = 'small' | 'medium' | 'large' | 'x-large';
+export type CaptionBackground = 'none' | 'translucent' | 'solid';
+export type CaptionPosition = 'bottom' | 'top';
 
 export interface Settings {
   // Download Preferences
   defaultQuality: VideoQuality;
   defaultFormat: VideoFormat;
   autoGenerateTranscripts: boolean;
+  /** Downloads the download manager runs at the same time */
+  maxConcurrentDownloads: number;
+  /** Times of day that downloads scheduled for the download windows may run */
+  downloadWindows: DownloadWindow[];
+  /** Hold downloads back on metered connections (mobile data, Data Saver) */
+  deferOnMeteredConnection: boolean;
+  /** Hold downloads back on slow connections */
+  deferOnSlowConnection: boolean;
+  /** Minutes between checks of channel and creator subscriptions for new uploads */
+  subscriptionCheckMinutes: number;
+
+  // Storage
+  /** Days trashed items are kept before they are deleted permanently, 0 to keep them */
+  trashRetentionDays: number;
 
   // Interface Preferences
   theme: Theme;
   language: Language;
   compactView: boolean;
 
+  // Captions
+  /** Show the transcript as captions in the video player */
+  captionsEnabled: boolean;
+  /** Language code of the captions to show when a video has several, '' for the first */
+  captionLanguage: string;
+  captionSize: CaptionSize;
+  captionBackground: CaptionBackground;
+  captionPosition: CaptionPosition;
+
   // Advanced
   experimentalFeatures: boolean;
   developerMode: boolean;
@@ -35,12 +62,27 @@ const defaultSettings: Settings = {
   defaultQuality: '1080p',
   defaultFormat: 'mp4',
   autoGenerateTranscripts: false,
+  maxConcurrentDownloads: 2,
+  downloadWindows: [{ start: '01:00', end: '07:00' }],
+  deferOnMeteredConnection: true,
+  deferOnSlowConnection: true,
+  subscriptionCheckMinutes: 60,
+
+  // Storage
+  trashRetentionDays: 30,
 
   // Interface Preferences
   theme: 'auto',
   language: 'en',
   compactView: false,
 
+  // Captions
+  captionsEnabled: false,
+  captionLanguage: '',
+  captionSize: 'medium',
+  captionBackground: 'translucent',
+  captionPosition: 'bottom',
+
   // Advanced
   experimentalFeatures: false,
   developerMode: false,
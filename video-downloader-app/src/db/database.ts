@@ -1,22 +1,346 @@
 import Dexie from 'dexie';
-import type { Video } from '../types';
+import type { Transaction } from 'dexie';
+import type {
+  Video,
+  Collection,
+  MediaBlobRecord,
+  MediaChunkRecord,
+  SearchPosting,
+  SearchDocument,
+  RestoreJob,
+  TrashItem,
+  PartialDownload,
+  PartialDownloadChunk,
+  Subscription,
+  TranscriptVersion,
+} from '../types';
+import type { TagGroup, TagGroupAssignment } from '../types/tag.types';
+import type { QueuedDownload, BatchQueueItem, BatchHistory, DownloadJob } from '../types/queue.types';
+import type { ShareHistory } from '../services/sharingService';
+import { getVideoSourceKey } from '../utils/urlParser';
+import { parseLegacyTranscript } from '../utils/transcriptParser';
+
+/**
+ * Batch queue item as stored until version 11, with its position in the queue
+ */
+type BatchQueueRecord = BatchQueueItem & { order: number };
+
+/**
+ * localStorage keys used before the data moved into IndexedDB
+ */
+const LEGACY_KEYS = {
+  tagGroups: 'tagGroups',
+  tagGroupMap: 'tagGroupMap',
+  offlineQueue: 'offline-download-queue',
+  batchQueue: 'batchDownloader_queue',
+  batchHistory: 'batchDownloader_history',
+} as const;
+
+// Legacy keys are only cleared once the upgrade that imported them has committed
+const importedLegacyKeys = new Set<string>();
+
+/**
+ * Read a JSON value left in localStorage by an older version of the app
+ */
+function readLegacyJSON<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch (error) {
+    console.error(`VideoDatabase: Could not read legacy "${key}" from localStorage:`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Import tag groups and tag assignments from localStorage
+ */
+async function importLegacyTagGroups(tx: Transaction): Promise<void> {
+  const groups = readLegacyJSON<TagGroup[]>(LEGACY_KEYS.tagGroups, []);
+  const groupMap = readLegacyJSON<Record<string, string>>(LEGACY_KEYS.tagGroupMap, {});
+  const assignments: TagGroupAssignment[] = Object.entries(groupMap).map(([tagName, groupId]) => ({
+    tagName,
+    groupId,
+  }));
+
+  await tx.table('tagGroups').bulkPut(groups);
+  await tx.table('tagGroupAssignments').bulkPut(assignments);
+  importedLegacyKeys.add(LEGACY_KEYS.tagGroups);
+  importedLegacyKeys.add(LEGACY_KEYS.tagGroupMap);
+  console.log(`VideoDatabase: Migrated ${groups.length} tag groups and ${assignments.length} tag assignments`);
+}
+
+/**
+ * Read the offline queue and batch downloader queue/history left in localStorage
+ */
+function readLegacyQueues(): { offlineItems: QueuedDownload[]; batchItems: BatchQueueRecord[]; batchHistory: BatchHistory[] } {
+  const offlineItems = readLegacyJSON<QueuedDownload[]>(LEGACY_KEYS.offlineQueue, []).map((item) => ({
+    ...item,
+    timestamp: new Date(item.timestamp),
+  }));
+  const batchItems: BatchQueueRecord[] = readLegacyJSON<BatchQueueItem[]>(LEGACY_KEYS.batchQueue, []).map(
+    (item, order) => ({ ...item, order })
+  );
+  const batchHistory = readLegacyJSON<BatchHistory[]>(LEGACY_KEYS.batchHistory, []).map((entry) => ({
+    ...entry,
+    timestamp: new Date(entry.timestamp),
+    items: entry.items || [],
+  }));
+  return { offlineItems, batchItems, batchHistory };
+}
+
+/**
+ * Mark the legacy queue keys for removal once the transaction has committed
+ */
+function markLegacyQueuesImported(): void {
+  importedLegacyKeys.add(LEGACY_KEYS.offlineQueue);
+  importedLegacyKeys.add(LEGACY_KEYS.batchQueue);
+  importedLegacyKeys.add(LEGACY_KEYS.batchHistory);
+}
+
+/**
+ * Import the offline queue and batch downloader queue/history from localStorage
+ */
+async function importLegacyQueues(tx: Transaction): Promise<void> {
+  const { offlineItems, batchItems, batchHistory } = readLegacyQueues();
+
+  await tx.table('offlineQueue').bulkPut(offlineItems);
+  await tx.table('batchQueue').bulkPut(batchItems);
+  await tx.table('batchHistory').bulkPut(batchHistory);
+  markLegacyQueuesImported();
+  console.log(
+    `VideoDatabase: Migrated ${offlineItems.length} offline queue items, ${batchItems.length} batch queue items and ${batchHistory.length} batch history entries`
+  );
+}
+
+/**
+ * Turn the offline queue and the batch queue into download manager jobs
+ * The batch queue did not store its quality and format, so those items get the batch defaults.
+ */
+function queuesToDownloadJobs(offlineItems: QueuedDownload[], batchItems: BatchQueueRecord[]): DownloadJob[] {
+  const offlineJobs = offlineItems.map(
+    (item): DownloadJob => ({
+      id: item.id,
+      url: item.url,
+      platform: item.platform,
+      quality: item.quality,
+      format: item.format,
+      options: item.options,
+      // Offline downloads were saved without checking the library
+      duplicateAction: 'keep-both',
+      priority: 'normal',
+      status: 'pending',
+      progress: 0,
+      createdAt: new Date(item.timestamp),
+    })
+  );
+
+  const queuedAt = Date.now();
+  const batchJobs = batchItems
+    .filter((item) => item.platform)
+    .map(
+      (item): DownloadJob => ({
+        id: item.id,
+        url: item.url,
+        platform: item.platform!,
+        quality: '1080p',
+        format: 'mp4',
+        duplicateAction: 'skip',
+        priority: 'normal',
+        status: item.status === 'downloading' ? 'pending' : item.status,
+        progress: item.progress,
+        error: item.error,
+        title: item.title,
+        videoId: item.videoId,
+        libraryVideoId: item.libraryVideoId,
+        collectionId: item.collectionId,
+        collectionPosition: item.collectionPosition,
+        // Keep the queue order
+        createdAt: new Date(queuedAt + item.order),
+      })
+    );
+
+  return [...offlineJobs, ...batchJobs];
+}
+
+/**
+ * Move the offline queue and the batch queue into the download manager queue
+ */
+async function moveQueuesToDownloads(tx: Transaction): Promise<void> {
+  const offlineItems: QueuedDownload[] = await tx.table('offlineQueue').toArray();
+  const batchItems: BatchQueueRecord[] = await tx.table('batchQueue').orderBy('order').toArray();
+  const jobs = queuesToDownloadJobs(offlineItems, batchItems);
+
+  await tx.table('downloads').bulkPut(jobs);
+  console.log(`VideoDatabase: Moved ${jobs.length} queued downloads into the download manager`);
+}
+
+/**
+ * Import the offline queue and batch downloader queue/history from localStorage
+ * straight into the download manager queue, for a database created fresh
+ */
+async function importLegacyDownloads(tx: Transaction): Promise<void> {
+  const { offlineItems, batchItems, batchHistory } = readLegacyQueues();
+  const jobs = queuesToDownloadJobs(offlineItems, batchItems);
+
+  await tx.table('downloads').bulkPut(jobs);
+  await tx.table('batchHistory').bulkPut(batchHistory);
+  markLegacyQueuesImported();
+  console.log(`VideoDatabase: Migrated ${jobs.length} queued downloads and ${batchHistory.length} batch history entries`);
+}
 
 /**
  * VideoDatabase class extending Dexie for IndexedDB management
+ *
+ * Owns every IndexedDB table of the app. Schema changes must be added as a new
+ * version with an upgrade function; existing versions must never be edited.
  */
 export class VideoDatabase extends Dexie {
-  // Declare table with Video type
-  videos!: Dexie.Table<Video>;
+  // Declare tables with their record types
+  videos!: Dexie.Table<Video, string>;
+  collections!: Dexie.Table<Collection, string>;
+  tagGroups!: Dexie.Table<TagGroup, string>;
+  tagGroupAssignments!: Dexie.Table<TagGroupAssignment, string>;
+  shareHistory!: Dexie.Table<ShareHistory, string>;
+  downloads!: Dexie.Table<DownloadJob, string>;
+  batchHistory!: Dexie.Table<BatchHistory, string>;
+  mediaBlobs!: Dexie.Table<MediaBlobRecord, string>;
+  mediaChunks!: Dexie.Table<MediaChunkRecord, [string, number]>;
+  searchPostings!: Dexie.Table<SearchPosting, [string, string]>;
+  searchDocs!: Dexie.Table<SearchDocument, string>;
+  restoreJobs!: Dexie.Table<RestoreJob, string>;
+  trash!: Dexie.Table<TrashItem, string>;
+  partialDownloads!: Dexie.Table<PartialDownload, string>;
+  partialDownloadChunks!: Dexie.Table<PartialDownloadChunk, [string, number]>;
+  subscriptions!: Dexie.Table<Subscription, string>;
+  transcriptVersions!: Dexie.Table<TranscriptVersion, string>;
 
   constructor() {
     super('VideoDownloaderDB');
-    
-    // Define database schema
+
+    // Version 1: videos
     this.version(1).stores({
       videos: 'id, title, platform, downloadDate, tags'
     });
 
-    console.log('VideoDatabase: Database initialized with schema version 1');
+    // Version 2: collections, previously created by CollectionService through a raw
+    // indexedDB.open at version 3. Dexie adopts an existing store with its data.
+    this.version(2)
+      .stores({
+        collections: 'id, createdDate, modifiedDate, isSmart, parentId'
+      })
+      .upgrade((tx) =>
+        tx.table('collections').toCollection().modify((collection: Collection) => {
+          collection.videoIds = collection.videoIds || [];
+          collection.videoOrder = collection.videoOrder || [...collection.videoIds];
+          collection.createdDate = new Date(collection.createdDate);
+          collection.modifiedDate = new Date(collection.modifiedDate);
+        })
+      );
+
+    // Version 3: tag groups and tag-to-group assignments, previously in localStorage
+    this.version(3)
+      .stores({
+        tagGroups: 'id, name',
+        tagGroupAssignments: 'tagName, groupId'
+      })
+      .upgrade(importLegacyTagGroups);
+
+    // Version 4: share history and download queues, previously in localStorage
+    this.version(4)
+      .stores({
+        shareHistory: 'id, type, itemId, sharedAt',
+        offlineQueue: 'id, timestamp',
+        batchQueue: 'id, order, status',
+        batchHistory: 'id, timestamp'
+      })
+      .upgrade(importLegacyQueues);
+
+    // Version 5: content-addressed, chunked media store. Video files used to be kept
+    // inline on each video row; moving them requires hashing, which cannot run inside
+    // an upgrade transaction, so mediaStore.migrateInlineMedia() moves them after open.
+    this.version(5).stores({
+      videos: 'id, title, platform, downloadDate, tags, mediaHash',
+      mediaBlobs: 'hash, refCount',
+      mediaChunks: '[hash+index]'
+    });
+
+    // Version 6: full-text search index. Existing videos are indexed after open
+    // by searchIndex.ensureIndexed().
+    this.version(6).stores({
+      searchPostings: '[term+videoId], term, videoId',
+      searchDocs: 'videoId'
+    });
+
+    // Version 7: index videos by source (platform + video ID) for duplicate detection
+    this.version(7)
+      .stores({
+        videos: 'id, title, platform, downloadDate, tags, mediaHash, sourceKey'
+      })
+      .upgrade((tx) =>
+        tx.table('videos').toCollection().modify((video: Video) => {
+          video.sourceKey = getVideoSourceKey(video.url);
+        })
+      );
+
+    // Version 8: progress of backup restores, so an interrupted restore can resume
+    this.version(8).stores({
+      restoreJobs: 'backupId'
+    });
+
+    // Version 9: trash for soft-deleted videos, collections and tags
+    this.version(9).stores({
+      trash: 'id, kind, deletedAt'
+    });
+
+    // Version 10: bytes of interrupted downloads, so they can resume where they stopped
+    this.version(10).stores({
+      partialDownloads: 'key, updatedAt',
+      partialDownloadChunks: '[key+index]'
+    });
+
+    // Version 11: one download manager queue replaces the offline queue and the batch queue
+    this.version(11)
+      .stores({
+        downloads: 'id, status, createdAt',
+        offlineQueue: null,
+        batchQueue: null
+      })
+      .upgrade(moveQueuesToDownloads);
+
+    // Version 12: channel and creator subscriptions
+    this.version(12).stores({
+      subscriptions: 'id, platform, createdAt'
+    });
+
+    // Version 13: transcripts as timed cues instead of text
+    this.version(13)
+      .stores({})
+      .upgrade((tx) =>
+        tx.table('videos').toCollection().modify((video: Omit<Video, 'transcript'> & { transcript: unknown }) => {
+          if (typeof video.transcript === 'string') {
+            video.transcript = parseLegacyTranscript(video.transcript, video.duration || 0);
+          }
+        })
+      );
+
+    // Version 14: saved versions of edited transcripts
+    this.version(14).stores({
+      transcriptVersions: 'id, videoId, savedAt'
+    });
+
+    // A fresh database skips upgrade functions, but localStorage may still hold old data
+    this.on('populate', async (tx) => {
+      await importLegacyTagGroups(tx);
+      await importLegacyDownloads(tx);
+    });
+
+    this.on('ready', () => {
+      importedLegacyKeys.forEach((key) => localStorage.removeItem(key));
+      importedLegacyKeys.clear();
+    });
+
+    console.log('VideoDatabase: Database initialized with schema version', this.verno);
   }
 
   /**
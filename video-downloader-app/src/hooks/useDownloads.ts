@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { downloadManager } from '../services/downloadManager';
+import type { DownloadJob } from '../types';
+
+/**
+ * Custom hook for the download manager queue, updated as downloads progress
+ */
+export const useDownloads = (): DownloadJob[] => {
+  const [jobs, setJobs] = useState<DownloadJob[]>(() => downloadManager.getJobs());
+
+  useEffect(() => downloadManager.subscribe(setJobs), []);
+
+  return jobs;
+};
@@ -0,0 +1,78 @@
+import { useState, useCallback } from 'react';
+
+/** Undo steps kept; the oldest are dropped beyond this */
+const MAX_HISTORY = 200;
+
+interface EditHistory<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  /** Group of the last change; consecutive changes in the same group are undone together */
+  group: string | null;
+}
+
+/**
+ * Custom hook for a value with undo and redo
+ * @param initial - Starting value, which undo returns to at most
+ */
+export const useEditHistory = <T>(initial: T) => {
+  const [history, setHistory] = useState<EditHistory<T>>({ past: [], present: initial, future: [], group: null });
+
+  /**
+   * Change the value
+   * @param value - New value
+   * @param group - Changes with the same group in a row (such as typing in one field) form a single undo step
+   */
+  const set = useCallback((value: T, group: string | null = null) => {
+    setHistory((current) => {
+      if (group !== null && group === current.group) {
+        return { ...current, present: value, future: [] };
+      }
+      return {
+        past: [...current.past, current.present].slice(-MAX_HISTORY),
+        present: value,
+        future: [],
+        group,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((current) => {
+      if (current.past.length === 0) return current;
+      return {
+        past: current.past.slice(0, -1),
+        present: current.past[current.past.length - 1],
+        future: [current.present, ...current.future],
+        group: null,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((current) => {
+      if (current.future.length === 0) return current;
+      return {
+        past: [...current.past, current.present],
+        present: current.future[0],
+        future: current.future.slice(1),
+        group: null,
+      };
+    });
+  }, []);
+
+  // Start over from a value, forgetting the history
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], group: null });
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
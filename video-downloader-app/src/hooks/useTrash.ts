@@ -0,0 +1,100 @@
+import { useCallback } from 'react';
+import { useNotifications } from '../contexts/NotificationContext';
+import { trashService } from '../services/trashService';
+import type { TrashItem } from '../types';
+
+/**
+ * Custom hook for moving items to the trash with an undo notification
+ * Each function calls onChange after the item is trashed (inTrash = true) and again
+ * if it is restored (inTrash = false), so the caller can reload what it shows.
+ */
+export const useTrash = () => {
+  const { showUndo, showSuccess, showError } = useNotifications();
+
+  // Move items to the trash and offer to put them back
+  const trashWithUndo = useCallback(
+    async (trash: () => Promise<TrashItem[]>, label: string, failure: string, onChange?: (inTrash: boolean) => void): Promise<boolean> => {
+      let items: TrashItem[];
+      try {
+        items = await trash();
+      } catch (error) {
+        console.error('Error moving to trash:', error);
+        showError(failure);
+        return false;
+      }
+
+      onChange?.(true);
+      showUndo(`${label} moved to Trash`, async () => {
+        try {
+          for (const item of items) {
+            await trashService.restore(item.id);
+          }
+          showSuccess(`Restored ${label}`);
+          onChange?.(false);
+        } catch (error) {
+          console.error('Error restoring from trash:', error);
+          showError(error instanceof Error ? error.message : 'Failed to restore from Trash');
+        }
+      });
+      return true;
+    },
+    [showUndo, showSuccess, showError]
+  );
+
+  const trashVideo = useCallback(
+    (video: { id: string; title: string }, onChange?: (inTrash: boolean) => void) =>
+      trashWithUndo(
+        async () => [await trashService.trashVideo(video.id)],
+        `"${video.title}"`,
+        'Failed to delete video. Please try again.',
+        onChange
+      ),
+    [trashWithUndo]
+  );
+
+  const trashVideos = useCallback(
+    (videos: Array<{ id: string; title: string }>, onChange?: (inTrash: boolean) => void) =>
+      trashWithUndo(
+        async () => {
+          const items: TrashItem[] = [];
+          for (const video of videos) {
+            items.push(await trashService.trashVideo(video.id));
+          }
+          return items;
+        },
+        videos.length === 1 ? `"${videos[0].title}"` : `${videos.length} videos`,
+        'Failed to delete videos. Please try again.',
+        onChange
+      ),
+    [trashWithUndo]
+  );
+
+  const trashCollection = useCallback(
+    (collection: { id: string; name: string }, onChange?: (inTrash: boolean) => void) =>
+      trashWithUndo(
+        async () => [await trashService.trashCollection(collection.id)],
+        `Collection "${collection.name}"`,
+        'Failed to delete collection',
+        onChange
+      ),
+    [trashWithUndo]
+  );
+
+  const trashTag = useCallback(
+    (tagName: string, onChange?: (inTrash: boolean) => void) =>
+      trashWithUndo(
+        async () => [await trashService.trashTag(tagName)],
+        `Tag "${tagName}"`,
+        'Failed to delete tag',
+        onChange
+      ),
+    [trashWithUndo]
+  );
+
+  return {
+    trashVideo,
+    trashVideos,
+    trashCollection,
+    trashTag,
+  };
+};
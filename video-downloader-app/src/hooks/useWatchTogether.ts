@@ -0,0 +1,247 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { WatchTogetherClient } from '../services/watchTogetherService';
+import type {
+  RoomParticipant,
+  RoomPlaybackState,
+  RoomVideo,
+  RoomServerMessage,
+} from '../services/watchTogetherService';
+import { getVideoSourceKey } from '../utils/urlParser';
+import type { Video } from '../types';
+
+export type RoomStatus = 'idle' | 'connecting' | 'joined' | 'error';
+
+/** Drift above this is corrected by seeking */
+const HARD_DRIFT_SECONDS = 1;
+/** Drift above this is corrected by nudging the playback rate */
+const SOFT_DRIFT_SECONDS = 0.15;
+const RATE_NUDGE = 0.05;
+const DRIFT_CHECK_INTERVAL = 1000;
+
+/**
+ * Hook that keeps a video element in sync with a watch-together room
+ *
+ * Local play, pause, seek and speed changes are broadcast to the room, and
+ * remote changes are applied to the element. While playing, the element is
+ * periodically compared with the room's extrapolated position and corrected.
+ *
+ * @param videoRef - Ref to the video element being watched
+ * @param video - Library video being watched (its source URL identifies it in the room)
+ */
+export const useWatchTogether = (
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  video: Video | null
+) => {
+  const [status, setStatus] = useState<RoomStatus>('idle');
+  const [roomCode, setRoomCode] = useState<string | null>(null);
+  const [selfId, setSelfId] = useState<string | null>(null);
+  const [participants, setParticipants] = useState<RoomParticipant[]>([]);
+  const [roomVideo, setRoomVideo] = useState<RoomVideo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const clientRef = useRef<WatchTogetherClient | null>(null);
+  const stateRef = useRef<RoomPlaybackState | null>(null);
+  const syncedRef = useRef(false);
+
+  const sourceKey = video ? getVideoSourceKey(video.url) : null;
+  const hasRoomVideo = !!roomVideo && roomVideo.key === sourceKey;
+
+  // Bring the element in line with the room state
+  const applyRoomState = useCallback(() => {
+    const element = videoRef.current;
+    const client = clientRef.current;
+    const state = stateRef.current;
+    if (!element || !client || !state || !syncedRef.current) return;
+
+    if (element.defaultPlaybackRate !== state.rate) {
+      element.defaultPlaybackRate = state.rate;
+    }
+
+    const expected = client.getExpectedPosition(state);
+    const drift = element.currentTime - expected;
+
+    if (Math.abs(drift) > HARD_DRIFT_SECONDS || (!state.playing && Math.abs(drift) > SOFT_DRIFT_SECONDS)) {
+      element.currentTime = Math.max(0, expected);
+      element.playbackRate = state.rate;
+    } else if (state.playing && Math.abs(drift) > SOFT_DRIFT_SECONDS) {
+      // Small drift: speed up or slow down briefly instead of a visible jump
+      element.playbackRate = state.rate * (drift > 0 ? 1 - RATE_NUDGE : 1 + RATE_NUDGE);
+    } else if (element.playbackRate !== state.rate) {
+      element.playbackRate = state.rate;
+    }
+
+    if (state.playing && element.paused) {
+      element.play().catch((playError) => {
+        // Autoplay policies can block remote-initiated playback until the user interacts
+        console.warn('[WatchTogether] Could not start playback:', playError);
+        setError('Click play to join the room playback');
+      });
+    } else if (!state.playing && !element.paused) {
+      element.pause();
+    }
+  }, [videoRef]);
+
+  const handleMessage = useCallback((message: RoomServerMessage) => {
+    switch (message.type) {
+      case 'joined':
+        setStatus('joined');
+        setRoomCode(message.code);
+        setSelfId(message.selfId);
+        setParticipants(message.participants);
+        setRoomVideo(message.video);
+        setError(null);
+        stateRef.current = message.state;
+        syncedRef.current = message.participants.some((p) => p.id === message.selfId && p.hasVideo);
+        applyRoomState();
+        break;
+      case 'presence':
+        setParticipants(message.participants);
+        break;
+      case 'state':
+        stateRef.current = message.state;
+        applyRoomState();
+        break;
+      case 'error':
+        setError(message.message);
+        setStatus((current) => (current === 'joined' ? current : 'error'));
+        break;
+      case 'closed':
+        setStatus('error');
+        setError('Lost connection to the watch-together server');
+        setRoomCode(null);
+        setParticipants([]);
+        stateRef.current = null;
+        syncedRef.current = false;
+        break;
+    }
+  }, [applyRoomState]);
+
+  const connectAndJoin = useCallback(async (code: string | null, name: string) => {
+    if (!video || !sourceKey) return;
+
+    setStatus('connecting');
+    setError(null);
+
+    try {
+      if (!clientRef.current) {
+        const client = new WatchTogetherClient();
+        client.subscribe(handleMessage);
+        clientRef.current = client;
+      }
+      await clientRef.current.connect();
+      clientRef.current.join(code, name, { key: sourceKey, url: video.url, title: video.title });
+    } catch (connectError) {
+      console.error('[WatchTogether] Error joining room:', connectError);
+      clientRef.current?.disconnect();
+      clientRef.current = null;
+      setStatus('error');
+      setError(connectError instanceof Error ? connectError.message : 'Failed to join room');
+    }
+  }, [video, sourceKey, handleMessage]);
+
+  /**
+   * Create a new room for the current video
+   */
+  const createRoom = useCallback((name: string) => connectAndJoin(null, name), [connectAndJoin]);
+
+  /**
+   * Join an existing room by its code
+   */
+  const joinRoom = useCallback(
+    (code: string, name: string) => connectAndJoin(code.trim().toUpperCase(), name),
+    [connectAndJoin]
+  );
+
+  /**
+   * Leave the room and close the connection
+   */
+  const leaveRoom = useCallback(() => {
+    clientRef.current?.leave();
+    clientRef.current?.disconnect();
+    clientRef.current = null;
+    stateRef.current = null;
+    syncedRef.current = false;
+    setStatus('idle');
+    setRoomCode(null);
+    setSelfId(null);
+    setParticipants([]);
+    setRoomVideo(null);
+    setError(null);
+  }, []);
+
+  // Broadcast local playback changes
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!element || status !== 'joined' || !hasRoomVideo) return;
+
+    const send = (action: 'play' | 'pause' | 'seek' | 'rate', rate?: number) => {
+      clientRef.current?.sendControl(action, element.currentTime, rate);
+    };
+
+    // Events caused by applying remote state already match the room state, so they are not echoed
+    const handlePlay = () => {
+      if (!stateRef.current?.playing) send('play');
+    };
+    const handlePause = () => {
+      if (stateRef.current?.playing && !element.ended) send('pause');
+    };
+    const handleSeeked = () => {
+      const state = stateRef.current;
+      const client = clientRef.current;
+      if (!state || !client) return;
+      if (Math.abs(element.currentTime - client.getExpectedPosition(state)) > SOFT_DRIFT_SECONDS * 2) {
+        send('seek');
+      }
+    };
+    // The user-chosen speed lives in defaultPlaybackRate; playbackRate is also nudged for drift
+    const handleRateChange = () => {
+      const state = stateRef.current;
+      if (state && element.defaultPlaybackRate !== state.rate) {
+        send('rate', element.defaultPlaybackRate);
+      }
+    };
+
+    element.addEventListener('play', handlePlay);
+    element.addEventListener('pause', handlePause);
+    element.addEventListener('seeked', handleSeeked);
+    element.addEventListener('ratechange', handleRateChange);
+
+    return () => {
+      element.removeEventListener('play', handlePlay);
+      element.removeEventListener('pause', handlePause);
+      element.removeEventListener('seeked', handleSeeked);
+      element.removeEventListener('ratechange', handleRateChange);
+    };
+  }, [videoRef, status, hasRoomVideo]);
+
+  // Periodic drift correction
+  useEffect(() => {
+    if (status !== 'joined' || !hasRoomVideo) return;
+
+    const intervalId = setInterval(() => {
+      if (stateRef.current?.playing) {
+        applyRoomState();
+      }
+    }, DRIFT_CHECK_INTERVAL);
+
+    return () => clearInterval(intervalId);
+  }, [status, hasRoomVideo, applyRoomState]);
+
+  // Leave the room when the watched video changes or the page unmounts
+  useEffect(() => {
+    return () => leaveRoom();
+  }, [sourceKey, leaveRoom]);
+
+  return {
+    status,
+    roomCode,
+    selfId,
+    participants,
+    roomVideo,
+    hasRoomVideo,
+    error,
+    createRoom,
+    joinRoom,
+    leaveRoom,
+  };
+};
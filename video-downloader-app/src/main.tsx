@@ -4,6 +4,19 @@ import './index.css'
 import App from './App.tsx'
 // Initialize database when app loads
 import './db/database'
+import { mediaStore } from './services/mediaStore'
+import { searchIndex } from './services/searchIndex'
+
+// Bring data saved by older versions up to date (runs in the background):
+// move video files out of the video rows, then index videos for search
+mediaStore.migrateInlineMedia()
+  .catch((error) => {
+    console.error('[Media Store] Media migration failed:', error)
+  })
+  .then(() => searchIndex.ensureIndexed())
+  .catch((error) => {
+    console.error('[Search Index] Indexing failed:', error)
+  })
 
 // Register service worker for offline functionality
 if ('serviceWorker' in navigator) {
@@ -29,10 +29,15 @@ import {
   Clock,
   HardDrive,
   Video as VideoIcon,
+  FileText,
 } from 'lucide-react';
 import { collectionService } from '../services/collectionService';
 import { storageService } from '../services/storageService';
+import { transcriptService } from '../services/transcriptService';
 import { useNotifications } from '../contexts/NotificationContext';
+import { useTrash } from '../hooks/useTrash';
+import { SUBTITLE_FORMATS } from '../utils/subtitleFormats';
+import type { SubtitleFormat } from '../utils/subtitleFormats';
 import type { Collection, Video, CollectionStats } from '../types';
 
 interface SortableVideoItemProps {
@@ -147,6 +152,7 @@ const CollectionDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { showSuccess, showError } = useNotifications();
+  const { trashCollection } = useTrash();
   const [collection, setCollection] = useState<Collection | null>(null);
   const [videos, setVideos] = useState<Video[]>([]);
   const [stats, setStats] = useState<CollectionStats | null>(null);
@@ -154,6 +160,7 @@ const CollectionDetail = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState('');
   const [editDescription, setEditDescription] = useState('');
+  const [showTranscriptMenu, setShowTranscriptMenu] = useState(false);
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -266,18 +273,12 @@ const CollectionDetail = () => {
   };
 
   const handleDelete = async () => {
-    if (!window.confirm(`Delete collection "${collection?.name}"? Videos will not be deleted.`)) {
-      return;
-    }
+    if (!collection) return;
 
-    try {
-      await collectionService.deleteCollection(id!);
-      showSuccess('Collection deleted');
-      navigate('/downloads');
-    } catch (error) {
-      console.error('Error deleting collection:', error);
-      showError('Failed to delete collection');
-    }
+    // Videos are not deleted; undoing brings the user back to the collection
+    await trashCollection(collection, (inTrash) => {
+      navigate(inTrash ? '/downloads' : `/collection/${collection.id}`);
+    });
   };
 
   const handleExport = async () => {
@@ -297,6 +298,23 @@ const CollectionDetail = () => {
     }
   };
 
+  const handleExportTranscripts = async (format: SubtitleFormat) => {
+    setShowTranscriptMenu(false);
+    try {
+      const { blob, count } = await transcriptService.exportCollection(id!, format);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${collection?.name || 'collection'}_transcripts.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+      showSuccess(`Exported ${count} transcript${count !== 1 ? 's' : ''}`);
+    } catch (error) {
+      console.error('Error exporting transcripts:', error);
+      showError(error instanceof Error ? error.message : 'Failed to export transcripts');
+    }
+  };
+
   const handleShare = async () => {
     try {
       const link = await collectionService.generateShareableLink(id!);
@@ -444,6 +462,36 @@ const CollectionDetail = () => {
                 >
                   <DownloadIcon className="w-5 h-5 text-white" />
                 </button>
+                <div className="relative">
+                  <button
+                    onClick={() => setShowTranscriptMenu(!showTranscriptMenu)}
+                    className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                    title="Export transcripts"
+                    aria-haspopup="menu"
+                    aria-expanded={showTranscriptMenu}
+                  >
+                    <FileText className="w-5 h-5 text-white" />
+                  </button>
+                  {showTranscriptMenu && (
+                    <div
+                      role="menu"
+                      className="absolute right-0 top-full mt-2 w-48 bg-gray-800 rounded-lg shadow-xl
+                               border border-white/10 overflow-hidden z-20"
+                    >
+                      <p className="px-4 py-2 text-xs text-gray-400 border-b border-white/10">Export transcripts as</p>
+                      {(Object.keys(SUBTITLE_FORMATS) as SubtitleFormat[]).map((format) => (
+                        <button
+                          key={format}
+                          role="menuitem"
+                          onClick={() => handleExportTranscripts(format)}
+                          className="w-full px-4 py-2 text-left text-sm text-white hover:bg-white/10 transition-colors"
+                        >
+                          {SUBTITLE_FORMATS[format].label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
                 <button
                   onClick={handleDelete}
                   className="p-2 hover:bg-red-500/20 rounded-lg transition-colors"
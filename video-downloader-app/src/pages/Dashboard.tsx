@@ -6,33 +6,34 @@ import {
   TrendingUp,
   Clock,
   HardDrive,
-  Youtube,
-  Music,
   ArrowRight,
   Sparkles,
   Zap,
   Shield,
+  Copy,
+  Trash2,
 } from 'lucide-react';
 import DownloadForm from '../components/DownloadForm';
 import type { DownloadFormRef } from '../components/DownloadForm';
 import VideoCard from '../components/VideoCard';
+import { PlatformIcon } from '../components/PlatformIcon';
 import { storageService } from '../services/storageService';
-import { useNotifications } from '../contexts/NotificationContext';
+import { platformRegistry } from '../services/platforms';
+import { useTrash } from '../hooks/useTrash';
 import { useKeyboardShortcut } from '../hooks/useKeyboardShortcut';
 import { getShortcutByAction } from '../utils/keyboardShortcuts';
-import type { Video } from '../types';
+import type { Video, VideoPlatform } from '../types';
 
 const Dashboard = () => {
   const navigate = useNavigate();
-  const { showSuccess, showError } = useNotifications();
+  const { trashVideo } = useTrash();
   const downloadFormRef = useRef<DownloadFormRef>(null);
   const [recentVideos, setRecentVideos] = useState<Video[]>([]);
   const [loadingRecent, setLoadingRecent] = useState(true);
   const [stats, setStats] = useState({
     totalVideos: 0,
     totalStorage: 0,
-    youtubeCount: 0,
-    tiktokCount: 0,
+    platformCounts: {} as Partial<Record<VideoPlatform, number>>,
     totalTranscripts: 0,
     totalDuration: 0,
   });
@@ -55,16 +56,17 @@ const Dashboard = () => {
         setRecentVideos(recent);
 
         const totalStorage = await storageService.getTotalStorageUsed();
-        const youtubeVideos = allVideos.filter(v => v.platform === 'youtube');
-        const tiktokVideos = allVideos.filter(v => v.platform === 'tiktok');
-        const videosWithTranscripts = allVideos.filter(v => v.transcript && v.transcript.length > 0);
+        const platformCounts: Partial<Record<VideoPlatform, number>> = {};
+        for (const video of allVideos) {
+          platformCounts[video.platform] = (platformCounts[video.platform] ?? 0) + 1;
+        }
+        const videosWithTranscripts = allVideos.filter(v => v.transcript && v.transcript.cues.length > 0);
         const totalDuration = allVideos.reduce((acc, v) => acc + (v.duration || 0), 0);
 
         setStats({
           totalVideos: allVideos.length,
           totalStorage,
-          youtubeCount: youtubeVideos.length,
-          tiktokCount: tiktokVideos.length,
+          platformCounts,
           totalTranscripts: videosWithTranscripts.length,
           totalDuration: totalDuration,
         });
@@ -106,8 +108,8 @@ const Dashboard = () => {
           </div>
         </div>
 
-        {/* Stats Grid - 6 Widgets */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6 mb-8 md:mb-12">
+        {/* Stats Grid */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6 mb-8 md:mb-12">
           <div className="bubble-card p-8">
             <div className="flex items-center gap-4 mb-4">
               <div className="p-4 bg-purple-500/20 rounded-lg">
@@ -132,29 +134,19 @@ const Dashboard = () => {
             </div>
           </div>
 
-          <div className="bubble-card p-8">
-            <div className="flex items-center gap-4 mb-4">
-              <div className="p-4 bg-red-500/20 rounded-lg">
-                <Youtube className="w-8 h-8 text-red-400" />
-              </div>
-              <div>
-                <p className="text-sm text-gray-300 mb-1">YouTube Videos</p>
-                <p className="text-4xl font-bold text-white">{stats.youtubeCount}</p>
+          {platformRegistry.getAll().map((provider) => (
+            <div key={provider.id} className="bubble-card p-8">
+              <div className="flex items-center gap-4 mb-4">
+                <div className="p-4 bg-white/10 rounded-lg">
+                  <PlatformIcon platform={provider.id} className="w-8 h-8" colored />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-300 mb-1">{provider.branding.name} Videos</p>
+                  <p className="text-4xl font-bold text-white">{stats.platformCounts[provider.id] ?? 0}</p>
+                </div>
               </div>
             </div>
-          </div>
-
-          <div className="bubble-card p-8">
-            <div className="flex items-center gap-4 mb-4">
-              <div className="p-4 bg-gray-500/20 rounded-lg">
-                <Music className="w-8 h-8 text-white" />
-              </div>
-              <div>
-                <p className="text-sm text-gray-300 mb-1">TikTok Videos</p>
-                <p className="text-4xl font-bold text-white">{stats.tiktokCount}</p>
-              </div>
-            </div>
-          </div>
+          ))}
 
           <div className="bubble-card p-8">
             <div className="flex items-center gap-4 mb-4">
@@ -203,14 +195,32 @@ const Dashboard = () => {
           <div className="bubble-card p-6 md:p-8">
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-2xl font-bold text-white">Recent Downloads</h2>
-              <button
-                onClick={() => navigate('/downloads')}
-                className="bubble-btn-secondary px-4 py-2 flex items-center gap-2"
-                aria-label="View all downloads"
-              >
-                View All
-                <ArrowRight className="w-4 h-4" />
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => navigate('/duplicates')}
+                  className="bubble-btn-secondary px-4 py-2 flex items-center gap-2"
+                  aria-label="Find duplicate downloads"
+                >
+                  <Copy className="w-4 h-4" />
+                  Find Duplicates
+                </button>
+                <button
+                  onClick={() => navigate('/trash')}
+                  className="bubble-btn-secondary px-4 py-2 flex items-center gap-2"
+                  aria-label="Open trash"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Trash
+                </button>
+                <button
+                  onClick={() => navigate('/downloads')}
+                  className="bubble-btn-secondary px-4 py-2 flex items-center gap-2"
+                  aria-label="View all downloads"
+                >
+                  View All
+                  <ArrowRight className="w-4 h-4" />
+                </button>
+              </div>
             </div>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
               {recentVideos.map((video) => (
@@ -219,21 +229,14 @@ const Dashboard = () => {
                   video={video}
                   onEdit={(video) => navigate(`/video/${video.id}?edit=true`)}
                   onTranscript={(video) => navigate(`/video/${video.id}?tab=transcript`)}
-                  onDelete={async (video) => {
-                    if (window.confirm(`Are you sure you want to delete "${video.title}"?`)) {
-                      try {
-                        await storageService.deleteVideo(video.id);
-                        const allVideos = await storageService.getAllVideos();
-                        setRecentVideos(allVideos.slice(0, 6));
-                        const totalStorage = await storageService.getTotalStorageUsed();
-                        setStats(prev => ({ ...prev, totalVideos: allVideos.length, totalStorage }));
-                        showSuccess(`Video "${video.title}" deleted successfully.`);
-                      } catch (error) {
-                        console.error('Error deleting video:', error);
-                        showError('Failed to delete video. Please try again.');
-                      }
-                    }
-                  }}
+                  onDelete={(video) =>
+                    trashVideo(video, async () => {
+                      const allVideos = await storageService.getAllVideos();
+                      setRecentVideos(allVideos.slice(0, 6));
+                      const totalStorage = await storageService.getTotalStorageUsed();
+                      setStats(prev => ({ ...prev, totalVideos: allVideos.length, totalStorage }));
+                    })
+                  }
                 />
               ))}
             </div>
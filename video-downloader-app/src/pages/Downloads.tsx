@@ -1,19 +1,24 @@
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { Search, Download, Youtube, Music, ArrowUpDown, X, CheckSquare, Square, Loader2, Package, Video as VideoIcon } from 'lucide-react';
+import { Search, Download, ArrowUpDown, X, CheckSquare, Square, Loader2, Package, Video as VideoIcon } from 'lucide-react';
 import JSZip from 'jszip';
 import VideoCard from '../components/VideoCard';
+import { PlatformIcon } from '../components/PlatformIcon';
 import { TagSidebar } from '../components/TagSidebar';
 import { storageService } from '../services/storageService';
 import { tagService } from '../services/tagService';
+import { searchIndex } from '../services/searchIndex';
+import { platformRegistry } from '../services/platforms';
 import { useNotifications } from '../contexts/NotificationContext';
+import { useTrash } from '../hooks/useTrash';
 import { VideoGridSkeleton } from '../components/LoadingSkeleton';
 import { EmptyState } from '../components/EmptyState';
 import { useIntersectionObserver } from '../hooks/useIntersectionObserver';
+import { transcriptToText } from '../utils/transcriptParser';
 import type { Video, VideoPlatform } from '../types';
 import type { TagFilterLogic } from '../types/tag.types';
 
-type SortOption = 'newest' | 'oldest' | 'title-asc' | 'title-desc' | 'duration-long' | 'duration-short';
+type SortOption = 'relevance' | 'newest' | 'oldest' | 'title-asc' | 'title-desc' | 'duration-long' | 'duration-short';
 
 const Downloads = () => {
   const [videos, setVideos] = useState<Video[]>([]);
@@ -23,11 +28,13 @@ const Downloads = () => {
   const [platformFilter, setPlatformFilter] = useState<VideoPlatform | 'all'>('all');
   const [sortOption, setSortOption] = useState<SortOption>('newest');
   const [filteredVideos, setFilteredVideos] = useState<Video[]>([]);
+  const [searchScores, setSearchScores] = useState<{ query: string; scores: Map<string, number> } | null>(null);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [tagFilterLogic, setTagFilterLogic] = useState<TagFilterLogic>('OR');
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { showSuccess, showError } = useNotifications();
+  const { trashVideo } = useTrash();
 
   // Selection states
   const [selectedVideos, setSelectedVideos] = useState<Set<string>>(new Set());
@@ -61,6 +68,35 @@ const Downloads = () => {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  // Query the search index for the debounced search
+  useEffect(() => {
+    const query = debouncedSearchQuery.trim();
+    if (!query) return;
+
+    let cancelled = false;
+    searchIndex
+      .search(query, Infinity)
+      .then((results) => {
+        if (!cancelled) {
+          setSearchScores({ query, scores: new Map(results.map((result) => [result.videoId, result.score])) });
+        }
+      })
+      .catch((error) => {
+        console.error('Error searching videos:', error);
+        if (!cancelled) setSearchScores({ query, scores: new Map() });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedSearchQuery, videos]);
+
+  // Relevance scores for the current query, null when not searching
+  const activeScores =
+    debouncedSearchQuery.trim() && searchScores?.query === debouncedSearchQuery.trim()
+      ? searchScores.scores
+      : null;
+
   // Filter and sort videos function
   const filterVideos = useCallback(
     (videosToFilter: Video[]): Video[] => {
@@ -71,21 +107,21 @@ const Downloads = () => {
         filtered = filtered.filter((video) => video.platform === platformFilter);
       }
 
-      // Step 2: Filter by search query (case-insensitive)
+      // Step 2: Filter by search query (matches come from the search index)
       if (debouncedSearchQuery.trim()) {
-        const query = debouncedSearchQuery.toLowerCase().trim();
-        filtered = filtered.filter((video) => {
-          const titleMatch = video.title.toLowerCase().includes(query);
-          const descriptionMatch = video.description.toLowerCase().includes(query);
-          const authorMatch = video.author.toLowerCase().includes(query);
-          const tagsMatch = video.tags.some((tag) => tag.toLowerCase().includes(query));
-          return titleMatch || descriptionMatch || authorMatch || tagsMatch;
-        });
+        filtered = activeScores ? filtered.filter((video) => activeScores.has(video.id)) : [];
       }
 
       // Step 3: Apply sorting
       filtered.sort((a, b) => {
         switch (sortOption) {
+          case 'relevance':
+            if (activeScores) {
+              return (activeScores.get(b.id) ?? 0) - (activeScores.get(a.id) ?? 0);
+            }
+            return (
+              new Date(b.downloadDate).getTime() - new Date(a.downloadDate).getTime()
+            );
           case 'newest':
             return (
               new Date(b.downloadDate).getTime() - new Date(a.downloadDate).getTime()
@@ -109,7 +145,7 @@ const Downloads = () => {
 
       return filtered;
     },
-    [platformFilter, debouncedSearchQuery, sortOption]
+    [platformFilter, debouncedSearchQuery, sortOption, activeScores]
   );
 
   // Apply filters and update filtered videos state
@@ -142,18 +178,6 @@ const Downloads = () => {
     return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
   };
 
-  // Get platform icon
-  const getPlatformIcon = (platform: VideoPlatform | 'all') => {
-    switch (platform) {
-      case 'youtube':
-        return <Youtube className="w-4 h-4" />;
-      case 'tiktok':
-        return <Music className="w-4 h-4" />;
-      default:
-        return null;
-    }
-  };
-
   // Selection handlers
   const toggleVideoSelection = (videoId: string) => {
     setSelectedVideos((prev) => {
@@ -201,11 +225,11 @@ const Downloads = () => {
         const filename = `${sanitizedTitle}.${video.format}`;
 
         // Add video to zip
-        zip.file(filename, video.videoBlob);
+        zip.file(filename, await storageService.getVideoBlob(video.id));
 
         // Add transcript if available
         if (video.transcript) {
-          zip.file(`${sanitizedTitle}_transcript.txt`, video.transcript);
+          zip.file(`${sanitizedTitle}_transcript.txt`, transcriptToText(video.transcript));
         }
       }
 
@@ -299,26 +323,30 @@ const Downloads = () => {
               <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
                 {/* Platform Filters */}
                 <div className="flex flex-wrap gap-2">
-                  {(['all', 'youtube', 'tiktok'] as const).map((platform) => (
-                    <button
-                      key={platform}
-                      onClick={() => setPlatformFilter(platform)}
-                      className={`px-4 py-2 rounded-lg font-medium transition-all duration-200
-                    ${
-                      platformFilter === platform
-                        ? platform === 'all'
-                          ? 'bubble-btn'
-                          : platform === 'youtube'
-                          ? 'bg-red-600 text-white shadow-lg'
-                          : 'bg-gray-800 text-white shadow-lg'
+                  <button
+                    onClick={() => setPlatformFilter('all')}
+                    className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 flex items-center gap-2 ${
+                      platformFilter === 'all'
+                        ? 'bubble-btn'
                         : 'bubble-btn-secondary border-2 border-white/20 hover:border-purple-400'
-                    }
-                    flex items-center gap-2`}
+                    }`}
+                  >
+                    All
+                  </button>
+                  {platformRegistry.getAll().map((provider) => (
+                    <button
+                      key={provider.id}
+                      onClick={() => setPlatformFilter(provider.id)}
+                      className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 flex items-center gap-2 ${
+                        platformFilter === provider.id
+                          ? `${provider.branding.badgeClassName} text-white shadow-lg`
+                          : 'bubble-btn-secondary border-2 border-white/20 hover:border-purple-400'
+                      }`}
                     >
-                      {getPlatformIcon(platform)}
-                      <span className="capitalize">{platform}</span>
+                      <PlatformIcon platform={provider.id} />
+                      <span>{provider.branding.name}</span>
                     </button>
-              ))}
+                  ))}
                 </div>
 
                 {/* Sort Dropdown */}
@@ -331,6 +359,7 @@ const Downloads = () => {
                          focus:ring-2 focus:ring-purple-400/20 text-white
                          transition-all duration-200 cursor-pointer backdrop-blur-sm"
                   >
+                    <option value="relevance" className="bg-gray-800">Best Match</option>
                     <option value="newest" className="bg-gray-800">Newest First</option>
                     <option value="oldest" className="bg-gray-800">Oldest First</option>
                     <option value="title-asc" className="bg-gray-800">Title A-Z</option>
@@ -451,7 +480,7 @@ const Downloads = () => {
                 description={
                   debouncedSearchQuery || platformFilter !== 'all'
                     ? 'No videos match your filters. Try adjusting your search or filters.'
-                    : 'Start downloading videos from YouTube or TikTok to see them here.'
+                    : 'Start downloading videos from YouTube, TikTok or Instagram to see them here.'
                 }
                 action={
                   !debouncedSearchQuery && platformFilter === 'all'
@@ -507,21 +536,14 @@ const Downloads = () => {
                   onEdit={(video) => navigate(`/video/${video.id}?edit=true`)}
                   onTranscript={(video) => navigate(`/video/${video.id}?tab=transcript`)}
                   onDelete={async (video) => {
-                    if (window.confirm(`Are you sure you want to delete "${video.title}"?`)) {
-                      try {
-                        await storageService.deleteVideo(video.id);
-                        await loadVideos();
-                        // Remove from selection if deleted
-                        setSelectedVideos((prev) => {
-                          const newSet = new Set(prev);
-                          newSet.delete(video.id);
-                          return newSet;
-                        });
-                        showSuccess(`Video "${video.title}" deleted successfully.`);
-                      } catch (error) {
-                        console.error('Error deleting video:', error);
-                        showError('Failed to delete video. Please try again.');
-                      }
+                    const trashed = await trashVideo(video, loadVideos);
+                    if (trashed) {
+                      // Remove from selection if deleted
+                      setSelectedVideos((prev) => {
+                        const newSet = new Set(prev);
+                        newSet.delete(video.id);
+                        return newSet;
+                      });
                     }
                   }}
                 />
@@ -0,0 +1,176 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Copy, CheckCircle, Trash2, Check, Loader2 } from 'lucide-react';
+import { storageService } from '../services/storageService';
+import { useNotifications } from '../contexts/NotificationContext';
+import { useTrash } from '../hooks/useTrash';
+import ConfirmModal from '../components/ConfirmModal';
+import { PlatformIcon } from '../components/PlatformIcon';
+import type { DuplicateGroup, Video } from '../types';
+
+/**
+ * Library-wide view of videos that were downloaded more than once
+ */
+const Duplicates = () => {
+  const navigate = useNavigate();
+  const { showError } = useNotifications();
+  const { trashVideos } = useTrash();
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingDelete, setPendingDelete] = useState<{ videos: Video[]; label: string } | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const loadGroups = useCallback(async () => {
+    try {
+      setGroups(await storageService.findDuplicateGroups());
+    } catch (error) {
+      console.error('Error finding duplicates:', error);
+      showError('Failed to scan the library for duplicates');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+
+    setDeleting(true);
+    await trashVideos(pendingDelete.videos, loadGroups);
+    setPendingDelete(null);
+    setDeleting(false);
+  };
+
+  // Format bytes to human-readable
+  const formatStorage = (bytes: number): string => {
+    if (bytes === 0) return '0 B';
+    const k = 1024;
+    const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+  };
+
+  const formatDate = (date: Date): string =>
+    new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+  const duplicateCount = groups.reduce((sum, group) => sum + group.videos.length - 1, 0);
+
+  return (
+    <div className="min-h-screen text-white relative overflow-hidden pb-20">
+      <div className="relative z-10 pt-8 max-w-5xl mx-auto px-4">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-6">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            aria-label="Go back"
+          >
+            <ArrowLeft className="w-6 h-6 text-gray-300" />
+          </button>
+          <div>
+            <h1 className="text-3xl font-bold text-white">Duplicates</h1>
+            {!loading && groups.length > 0 && (
+              <p className="text-gray-300 mt-1">
+                {duplicateCount} extra cop{duplicateCount !== 1 ? 'ies' : 'y'} in {groups.length} group{groups.length !== 1 ? 's' : ''}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-10 h-10 animate-spin text-purple-400" />
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center animate-fadeIn">
+            <div className="bg-green-500/20 rounded-full p-6 mb-4">
+              <CheckCircle className="w-16 h-16 text-green-400" />
+            </div>
+            <h2 className="text-2xl font-semibold text-white mb-2">No duplicates found</h2>
+            <p className="text-gray-300">Every video in your library is unique.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {groups.map((group) => (
+              <section key={`${group.reason}:${group.key}`} className="bubble-card-no-tilt p-6">
+                <div className="flex items-center gap-3 mb-4">
+                  <Copy className="w-5 h-5 text-purple-400" />
+                  <h2 className="font-semibold text-white flex-1 truncate">
+                    {group.reason === 'source' ? group.videos[0].title : 'Identical files'}
+                  </h2>
+                  <span className="px-2 py-1 rounded text-xs font-semibold bg-purple-600/30 text-purple-200">
+                    {group.reason === 'source' ? 'Same video' : 'Same file, different sources'}
+                  </span>
+                </div>
+
+                <ul className="space-y-2">
+                  {group.videos.map((video) => (
+                    <li
+                      key={video.id}
+                      className="flex items-center gap-4 p-3 bg-black/20 rounded-lg"
+                    >
+                      {video.thumbnail ? (
+                        <img src={video.thumbnail} alt="" className="w-20 h-12 object-cover rounded flex-shrink-0" />
+                      ) : (
+                        <div className="w-20 h-12 rounded bg-gray-700 flex items-center justify-center flex-shrink-0">
+                          <PlatformIcon platform={video.platform} className="w-5 h-5" />
+                        </div>
+                      )}
+                      <button
+                        onClick={() => navigate(`/video/${video.id}`)}
+                        className="flex-1 min-w-0 text-left"
+                      >
+                        <p className="text-sm font-medium text-white truncate hover:underline">{video.title}</p>
+                        <p className="text-xs text-gray-400">
+                          {video.quality} · {video.format.toUpperCase()} · {formatStorage(video.fileSize || 0)} · {formatDate(video.downloadDate)}
+                          {video.tags.length > 0 && ` · ${video.tags.length} tag${video.tags.length !== 1 ? 's' : ''}`}
+                        </p>
+                      </button>
+                      <button
+                        onClick={() =>
+                          setPendingDelete({
+                            videos: group.videos.filter((other) => other.id !== video.id),
+                            label: `${group.videos.length - 1} other cop${group.videos.length > 2 ? 'ies' : 'y'}`,
+                          })
+                        }
+                        className="px-3 py-1.5 bg-green-600/30 hover:bg-green-600/50 text-green-200 text-xs font-medium rounded-lg transition-colors flex items-center gap-1 flex-shrink-0"
+                        aria-label={`Keep only "${video.title}" (${video.quality})`}
+                      >
+                        <Check className="w-3.5 h-3.5" />
+                        Keep This
+                      </button>
+                      <button
+                        onClick={() => setPendingDelete({ videos: [video], label: `"${video.title}" (${video.quality})` })}
+                        className="p-2 hover:bg-red-600/30 text-red-300 rounded-lg transition-colors flex-shrink-0"
+                        aria-label={`Delete "${video.title}" (${video.quality})`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ConfirmModal
+        isOpen={!!pendingDelete}
+        title="Move Duplicates to Trash?"
+        message={`${pendingDelete?.label ?? ''} will be moved to the Trash. Videos can be restored from the Trash until they are deleted permanently.`}
+        confirmText={deleting ? 'Moving...' : 'Move to Trash'}
+        cancelText="Cancel"
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setPendingDelete(null)}
+        danger={true}
+        isLoading={deleting}
+      />
+    </div>
+  );
+};
+
+export default Duplicates;
@@ -15,13 +15,13 @@ import {
 import VideoCard from '../components/VideoCard';
 import { storageService } from '../services/storageService';
 import { useSettings } from '../contexts/SettingsContext';
-import { useNotifications } from '../contexts/NotificationContext';
+import { useTrash } from '../hooks/useTrash';
 import type { Video } from '../types';
 
 const Home = () => {
   const navigate = useNavigate();
   const { settings } = useSettings();
-  const { showSuccess, showError } = useNotifications();
+  const { trashVideo } = useTrash();
   const [recentVideos, setRecentVideos] = useState<Video[]>([]);
   const [loadingRecent, setLoadingRecent] = useState(true);
   const [visibleElements, setVisibleElements] = useState<Set<string>>(new Set());
@@ -150,7 +150,7 @@ const Home = () => {
               animate={{ opacity: 1, x: 0 }}
               transition={{ duration: 0.6, delay: 0.6 }}
             >
-              {' '}YouTube & TikTok
+              {' '}YouTube, TikTok & Instagram
             </motion.span>
             <br />
             <motion.span 
@@ -169,7 +169,7 @@ const Home = () => {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.8, delay: 1 }}
           >
-            Download your favorite videos from YouTube and TikTok in high quality. Save them offline, generate transcripts, and manage your video library all in one place.
+            Download your favorite videos from YouTube, TikTok and Instagram in high quality. Save them offline, generate transcripts, and manage your video library all in one place.
           </motion.p>
 
           <div className="flex flex-col sm:flex-row items-center justify-center gap-4 mb-16 scroll-animate" data-section-id="hero-buttons">
@@ -208,7 +208,7 @@ const Home = () => {
           {/* Card 3 - Dark */}
           <div className="bubble-card p-8 scroll-animate" data-section-id="stat-3">
             <h2 className="text-5xl font-bold text-white mb-4">2</h2>
-            <p className="text-sm text-gray-300">Platforms supported<br />YouTube & TikTok.</p>
+            <p className="text-sm text-gray-300">Platforms supported<br />YouTube, TikTok & Instagram.</p>
           </div>
 
           {/* Card 4 - Dark */}
@@ -258,7 +258,7 @@ const Home = () => {
         <div className="max-w-4xl mx-auto bubble-card p-8 md:p-12 scroll-animate" data-section-id="about">
           <h2 className="text-4xl md:text-5xl font-bold mb-6 text-center text-white">About Our Platform</h2>
           <p className="text-xl text-gray-300 leading-relaxed mb-8 text-center">
-            Video Downloader is the ultimate solution for downloading and managing videos from YouTube and TikTok.
+            Video Downloader is the ultimate solution for downloading and managing videos from YouTube, TikTok and Instagram.
             Our platform combines speed, security, and simplicity to give you the best video downloading experience.
           </p>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -306,19 +306,12 @@ const Home = () => {
                     video={video}
                     onEdit={(video) => navigate(`/video/${video.id}?edit=true`)}
                     onTranscript={(video) => navigate(`/video/${video.id}?tab=transcript`)}
-                    onDelete={async (video) => {
-                      if (window.confirm(`Are you sure you want to delete "${video.title}"?`)) {
-                        try {
-                          await storageService.deleteVideo(video.id);
-                          const allVideos = await storageService.getAllVideos();
-                          setRecentVideos(allVideos.slice(0, 6));
-                          showSuccess(`Video "${video.title}" deleted successfully.`);
-                        } catch (error) {
-                          console.error('Error deleting video:', error);
-                          showError('Failed to delete video. Please try again.');
-                        }
-                      }
-                    }}
+                    onDelete={(video) =>
+                      trashVideo(video, async () => {
+                        const allVideos = await storageService.getAllVideos();
+                        setRecentVideos(allVideos.slice(0, 6));
+                      })
+                    }
                   />
                 </div>
               ))}
@@ -352,7 +345,7 @@ const Home = () => {
           <div>
             <h3 className="text-lg font-semibold text-white mb-4">Video Downloader</h3>
             <p className="text-sm text-gray-300">
-              Download and manage videos from YouTube and TikTok. Save them offline and generate transcripts.
+              Download and manage videos from YouTube, TikTok and Instagram. Save them offline and generate transcripts.
             </p>
           </div>
           <div>
@@ -1,5 +1,5 @@
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Download, FileText, Zap, Shield, CheckCircle, Youtube, Music } from 'lucide-react';
+import { ArrowLeft, Download, FileText, Zap, Shield, CheckCircle, Youtube, Music, Instagram } from 'lucide-react';
 
 const HowItWorks = () => {
   const navigate = useNavigate();
@@ -27,7 +27,7 @@ const HowItWorks = () => {
             How It Works
           </h1>
           <p className="text-lg text-gray-200 max-w-3xl">
-            Learn how to download videos from YouTube and TikTok, save them offline, and generate transcripts with our easy-to-use video downloader.
+            Learn how to download videos from YouTube, TikTok and Instagram, save them offline, and generate transcripts with our easy-to-use video downloader.
           </p>
         </div>
 
@@ -49,7 +49,7 @@ const HowItWorks = () => {
                   </h2>
                 </div>
                 <p className="text-gray-200 mb-4">
-                  Copy the URL of any YouTube or TikTok video you want to download. You can paste it in the download form on the Dashboard or Home page.
+                  Copy the URL of any YouTube, TikTok or Instagram video you want to download. You can paste it in the download form on the Dashboard or Home page.
                 </p>
                 <div className="bg-purple-900/50 rounded-lg p-4 border border-purple-500/20">
                   <p className="text-sm font-mono text-gray-200">
@@ -59,6 +59,7 @@ const HowItWorks = () => {
                     <li>• YouTube: youtube.com/watch?v=VIDEO_ID</li>
                     <li>• YouTube Shorts: youtube.com/shorts/VIDEO_ID</li>
                     <li>• TikTok: tiktok.com/@username/video/VIDEO_ID</li>
+                    <li>• Instagram: instagram.com/reel/SHORTCODE or instagram.com/p/SHORTCODE</li>
                   </ul>
                 </div>
               </div>
@@ -159,6 +160,10 @@ const HowItWorks = () => {
                     <Music className="w-4 h-4" />
                     <span>TikTok</span>
                   </div>
+                  <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    <Instagram className="w-4 h-4" />
+                    <span>Instagram</span>
+                  </div>
                 </div>
               </div>
             </div>
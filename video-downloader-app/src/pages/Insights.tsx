@@ -18,8 +18,6 @@ import {
   TrendingUp,
   HardDrive,
   Clock,
-  Youtube,
-  Music,
   BarChart3,
   Download,
   Sparkles,
@@ -31,10 +29,13 @@ import {
 } from 'lucide-react';
 import { storageService } from '../services/storageService';
 import { tagService } from '../services/tagService';
-import type { Video } from '../types';
+import { storageManager } from '../services/storageManager';
+import { platformRegistry } from '../services/platforms';
+import { PlatformIcon } from '../components/PlatformIcon';
+import type { Video, VideoPlatform } from '../types';
 
 type DateRange = '7days' | '30days' | '90days' | 'all';
-type PlatformFilter = 'all' | 'youtube' | 'tiktok';
+type PlatformFilter = 'all' | VideoPlatform;
 
 const Insights = () => {
   const [videos, setVideos] = useState<Video[]>([]);
@@ -42,6 +43,7 @@ const Insights = () => {
   const [dateRange, setDateRange] = useState<DateRange>('30days');
   const [platformFilter, setPlatformFilter] = useState<PlatformFilter>('all');
   const [tagStatistics, setTagStatistics] = useState<any>(null);
+  const [storageQuota, setStorageQuota] = useState(0);
 
   useEffect(() => {
     const loadVideos = async () => {
@@ -57,6 +59,10 @@ const Insights = () => {
     };
 
     loadVideos();
+    storageManager
+      .getStatus()
+      .then((status) => setStorageQuota(status.quota))
+      .catch((error) => console.error('Error loading storage quota:', error));
   }, []);
 
   // Filter videos based on date range and platform
@@ -87,14 +93,18 @@ const Insights = () => {
     const totalStorage = filteredVideos.reduce((sum, v) => sum + (v.fileSize || 0), 0);
     const totalDuration = filteredVideos.reduce((sum, v) => sum + (v.duration || 0), 0);
 
-    const youtubeCount = filteredVideos.filter(v => v.platform === 'youtube').length;
-    const tiktokCount = filteredVideos.filter(v => v.platform === 'tiktok').length;
+    const platformCounts = platformRegistry.getAll().map((provider) => ({
+      provider,
+      count: filteredVideos.filter(v => v.platform === provider.id).length,
+    }));
 
-    const mostUsedPlatform = youtubeCount >= tiktokCount ? 'YouTube' : 'TikTok';
+    // Ties go to the platform registered first
+    const mostUsedPlatform = platformCounts.reduce((most, platform) =>
+      platform.count > most.count ? platform : most
+    ).provider.branding.name;
 
-    // Estimate available storage (5GB for demo purposes)
-    const estimatedTotalStorage = 5 * 1024 * 1024 * 1024; // 5GB in bytes
-    const storagePercentage = (totalStorage / estimatedTotalStorage) * 100;
+    // Share of the browser storage quota, null if the browser doesn't report one
+    const storagePercentage = storageQuota > 0 ? (totalStorage / storageQuota) * 100 : null;
 
     return {
       totalVideos,
@@ -102,17 +112,15 @@ const Insights = () => {
       totalDuration,
       mostUsedPlatform,
       storagePercentage,
-      youtubeCount,
-      tiktokCount,
+      platformCounts,
     };
-  }, [filteredVideos]);
+  }, [filteredVideos, storageQuota]);
 
   // Platform distribution data
   const platformData = useMemo(() => {
-    return [
-      { name: 'YouTube', count: metrics.youtubeCount, color: '#FF0000' },
-      { name: 'TikTok', count: metrics.tiktokCount, color: '#000000' },
-    ].filter(d => d.count > 0);
+    return metrics.platformCounts
+      .map(({ provider, count }) => ({ name: provider.branding.name, count, color: provider.branding.chartColor }))
+      .filter(d => d.count > 0);
   }, [metrics]);
 
   // Downloads over time data
@@ -172,18 +180,13 @@ const Insights = () => {
 
   // Average file size per platform
   const avgFileSizePerPlatform = useMemo(() => {
-    const youtubeVideos = filteredVideos.filter(v => v.platform === 'youtube');
-    const tiktokVideos = filteredVideos.filter(v => v.platform === 'tiktok');
-
-    const youtubeAvg = youtubeVideos.length > 0
-      ? youtubeVideos.reduce((sum, v) => sum + (v.fileSize || 0), 0) / youtubeVideos.length
-      : 0;
-
-    const tiktokAvg = tiktokVideos.length > 0
-      ? tiktokVideos.reduce((sum, v) => sum + (v.fileSize || 0), 0) / tiktokVideos.length
-      : 0;
-
-    return { youtubeAvg, tiktokAvg };
+    return platformRegistry.getAll().map((provider) => {
+      const platformVideos = filteredVideos.filter(v => v.platform === provider.id);
+      const avgSize = platformVideos.length > 0
+        ? platformVideos.reduce((sum, v) => sum + (v.fileSize || 0), 0) / platformVideos.length
+        : 0;
+      return { platform: provider.id, name: provider.branding.name, avgSize };
+    });
   }, [filteredVideos]);
 
   // Recent downloads
@@ -274,13 +277,12 @@ const Insights = () => {
             </label>
             <div className="flex gap-2">
               {[
-                { value: 'all', label: 'All' },
-                { value: 'youtube', label: 'YouTube' },
-                { value: 'tiktok', label: 'TikTok' },
+                { value: 'all' as const, label: 'All' },
+                ...platformRegistry.getAll().map((provider) => ({ value: provider.id, label: provider.branding.name })),
               ].map((option) => (
                 <button
                   key={option.value}
-                  onClick={() => setPlatformFilter(option.value as PlatformFilter)}
+                  onClick={() => setPlatformFilter(option.value)}
                   className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
                     platformFilter === option.value
                       ? 'bg-purple-500 text-white'
@@ -316,9 +318,11 @@ const Insights = () => {
               <div>
                 <p className="text-sm text-gray-300 dark:text-gray-300">Storage Used</p>
                 <p className="text-3xl font-bold text-white dark:text-white">{formatStorage(metrics.totalStorage)}</p>
-                <p className="text-xs text-gray-400 dark:text-gray-400 mt-1">
-                  {metrics.storagePercentage.toFixed(1)}% of available
-                </p>
+                {metrics.storagePercentage !== null && (
+                  <p className="text-xs text-gray-400 dark:text-gray-400 mt-1">
+                    {metrics.storagePercentage.toFixed(1)}% of {formatStorage(storageQuota)} available
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -494,31 +498,21 @@ const Insights = () => {
             <HardDrive className="w-5 h-5 text-blue-400" />
             Average File Size by Platform
           </h2>
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
-            <div className="bg-white/5 rounded-lg p-6">
-              <div className="flex items-center gap-3 mb-2">
-                <Youtube className="w-8 h-8 text-red-500" />
-                <div>
-                  <p className="text-sm text-gray-300 dark:text-gray-300">YouTube</p>
-                  <p className="text-2xl font-bold text-white dark:text-white">
-                    {formatStorage(avgFileSizePerPlatform.youtubeAvg)}
-                  </p>
-                  <p className="text-xs text-gray-400 dark:text-gray-400">per video</p>
-                </div>
-              </div>
-            </div>
-            <div className="bg-white/5 rounded-lg p-6">
-              <div className="flex items-center gap-3 mb-2">
-                <Music className="w-8 h-8 text-black dark:text-white" />
-                <div>
-                  <p className="text-sm text-gray-300 dark:text-gray-300">TikTok</p>
-                  <p className="text-2xl font-bold text-white dark:text-white">
-                    {formatStorage(avgFileSizePerPlatform.tiktokAvg)}
-                  </p>
-                  <p className="text-xs text-gray-400 dark:text-gray-400">per video</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            {avgFileSizePerPlatform.map((entry) => (
+              <div key={entry.platform} className="bg-white/5 rounded-lg p-6">
+                <div className="flex items-center gap-3 mb-2">
+                  <PlatformIcon platform={entry.platform} className="w-8 h-8" colored />
+                  <div>
+                    <p className="text-sm text-gray-300 dark:text-gray-300">{entry.name}</p>
+                    <p className="text-2xl font-bold text-white dark:text-white">
+                      {formatStorage(entry.avgSize)}
+                    </p>
+                    <p className="text-xs text-gray-400 dark:text-gray-400">per video</p>
+                  </div>
                 </div>
               </div>
-            </div>
+            ))}
           </div>
         </div>
 
@@ -157,6 +157,14 @@ const PrivacyPolicy = () => {
                   TikTok video access is handled through a backend proxy. We only access publicly available video content and do not collect any personal information from TikTok.
                 </p>
               </div>
+              <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+                <h3 className="font-semibold text-gray-900 dark:text-white mb-2">
+                  Instagram Content
+                </h3>
+                <p className="text-sm text-gray-300">
+                  Instagram posts and reels are read from their public embed pages through a backend proxy. We only access publicly available content and never ask for your Instagram login.
+                </p>
+              </div>
             </div>
           </section>
 
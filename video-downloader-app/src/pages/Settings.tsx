@@ -10,7 +10,6 @@ import {
   Trash2,
   FileDown,
   FileUp,
-  HardDrive,
   Moon,
   Sun,
   Monitor,
@@ -23,10 +22,18 @@ import {
   AlertTriangle,
   Check,
   Info,
+  Archive,
+  Plus,
+  X,
+  Captions,
 } from 'lucide-react';
 import { useSettings } from '../contexts/SettingsContext';
+import type { CaptionSize, CaptionBackground, CaptionPosition } from '../contexts/SettingsContext';
 import { storageService } from '../services/storageService';
+import { MAX_CONCURRENCY } from '../services/downloadManager';
 import ConfirmModal from '../components/ConfirmModal';
+import { StorageManagementPanel } from '../components/StorageManagementPanel';
+import { BackupRestorePanel } from '../components/BackupRestorePanel';
 
 const Settings = () => {
   const navigate = useNavigate();
@@ -65,15 +72,6 @@ const Settings = () => {
     setTimeout(() => setToast(null), 3000);
   };
 
-  // Format bytes to human-readable
-  const formatBytes = (bytes: number): string => {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`;
-  };
-
   // Clear all downloads
   const handleClearAllDownloads = async () => {
     try {
@@ -116,7 +114,6 @@ const Settings = () => {
         settings,
         videos: videos.map((v) => ({
           ...v,
-          videoBlob: undefined, // Don't export blobs
           downloadDate: v.downloadDate.toISOString(),
         })),
         exportDate: new Date().toISOString(),
@@ -287,6 +284,125 @@ const Settings = () => {
                 </div>
               </div>
 
+              {/* Simultaneous Downloads */}
+              <div>
+                <label htmlFor="max-concurrent-downloads" className="block text-sm font-medium text-gray-200 mb-2">
+                  Simultaneous Downloads
+                </label>
+                <select
+                  id="max-concurrent-downloads"
+                  value={settings.maxConcurrentDownloads}
+                  onChange={(e) => updateSetting('maxConcurrentDownloads', Number(e.target.value))}
+                  className="w-full px-4 py-2 border-2 border-purple-500/20 rounded-lg bg-purple-900/30 backdrop-blur-xl text-white focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20"
+                >
+                  {Array.from({ length: MAX_CONCURRENCY }, (_, index) => index + 1).map((count) => (
+                    <option key={count} value={count}>
+                      {count === 1 ? '1 at a time' : `${count} at a time`}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-400">
+                  Queued downloads start in order of priority as earlier ones finish
+                </p>
+              </div>
+
+              {/* Download Windows */}
+              <div>
+                <span className="block text-sm font-medium text-gray-200 mb-2">
+                  Download Windows
+                </span>
+                <div className="space-y-2">
+                  {settings.downloadWindows.map((window, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="time"
+                        value={window.start}
+                        onChange={(e) => updateSetting('downloadWindows', settings.downloadWindows.map((item, i) => (i === index ? { ...item, start: e.target.value } : item)))}
+                        aria-label="Window start"
+                        className="px-3 py-2 border-2 border-purple-500/20 rounded-lg bg-purple-900/30 backdrop-blur-xl text-white focus:border-purple-500 focus:outline-none"
+                      />
+                      <span className="text-gray-400">to</span>
+                      <input
+                        type="time"
+                        value={window.end}
+                        onChange={(e) => updateSetting('downloadWindows', settings.downloadWindows.map((item, i) => (i === index ? { ...item, end: e.target.value } : item)))}
+                        aria-label="Window end"
+                        className="px-3 py-2 border-2 border-purple-500/20 rounded-lg bg-purple-900/30 backdrop-blur-xl text-white focus:border-purple-500 focus:outline-none"
+                      />
+                      <button
+                        onClick={() => updateSetting('downloadWindows', settings.downloadWindows.filter((_, i) => i !== index))}
+                        className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                        aria-label="Remove window"
+                      >
+                        <X className="w-4 h-4 text-gray-300" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => updateSetting('downloadWindows', [...settings.downloadWindows, { start: '22:00', end: '06:00' }])}
+                    className="px-3 py-1.5 text-sm text-purple-300 hover:text-white hover:bg-white/10 rounded-lg transition-colors flex items-center gap-1"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add window
+                  </button>
+                </div>
+                <p className="mt-1 text-xs text-gray-400">
+                  Downloads scheduled for the download windows only run between these times, e.g. overnight
+                </p>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex-1">
+                  <label htmlFor="defer-metered" className="block text-sm font-medium text-gray-200">
+                    Wait on Metered Connections
+                  </label>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Hold downloads back on mobile data or with Data Saver on, where the browser reports it
+                  </p>
+                </div>
+                <button
+                  id="defer-metered"
+                  onClick={() => updateSetting('deferOnMeteredConnection', !settings.deferOnMeteredConnection)}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  settings.deferOnMeteredConnection
+                    ? 'bg-blue-600'
+                    : 'bg-gray-300 dark:bg-gray-600'
+                }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    settings.deferOnMeteredConnection ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                  />
+                </button>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex-1">
+                  <label htmlFor="defer-slow" className="block text-sm font-medium text-gray-200">
+                    Wait on Slow Connections
+                  </label>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Hold downloads back while the browser reports a slow connection
+                  </p>
+                </div>
+                <button
+                  id="defer-slow"
+                  onClick={() => updateSetting('deferOnSlowConnection', !settings.deferOnSlowConnection)}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  settings.deferOnSlowConnection
+                    ? 'bg-blue-600'
+                    : 'bg-gray-300 dark:bg-gray-600'
+                }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    settings.deferOnSlowConnection ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                  />
+                </button>
+              </div>
+
               {/* Auto-generate Transcripts */}
               <div className="flex items-center justify-between">
                 <div className="flex-1">
@@ -341,43 +457,7 @@ const Settings = () => {
             </div>
 
             <div className="space-y-6">
-              {/* Storage Usage */}
-              <div>
-                <div className="flex items-center justify-between mb-2">
-                  <label className="text-sm font-medium text-gray-200">
-                    Storage Used
-                  </label>
-                  <span className="text-lg font-bold text-purple-600 dark:text-purple-400">
-                    {formatBytes(storageUsed)}
-                  </span>
-                </div>
-
-                {/* Progress Bar */}
-                <div className="w-full h-4 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
-                  <div
-                    className="h-full bg-gradient-to-r from-purple-500 to-pink-500 transition-all duration-300"
-                    style={{ width: `${Math.min((storageUsed / (5 * 1024 * 1024 * 1024)) * 100, 100)}%` }}
-                  />
-                </div>
-
-                <div className="flex items-center justify-between mt-2 text-xs text-gray-500 dark:text-gray-400">
-                  <span>{videoCount} videos stored</span>
-                  <span>Estimated limit: ~5 GB</span>
-                </div>
-              </div>
-
-              {/* Storage Info */}
-              <div className="p-4 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg">
-                <div className="flex items-start gap-3">
-                  <HardDrive className="w-5 h-5 text-gray-600 dark:text-gray-400 flex-shrink-0 mt-0.5" />
-                  <div className="text-sm text-gray-200">
-                    <p className="font-medium mb-1">About Storage Limits</p>
-                    <p className="text-gray-600 dark:text-gray-400">
-                      Videos are stored locally in your browser's IndexedDB. The actual limit depends on your browser and available disk space. Most browsers allow several GB of storage per site.
-                    </p>
-                  </div>
-                </div>
-              </div>
+              <StorageManagementPanel />
 
               {/* Action Buttons */}
               <div className="flex gap-3">
@@ -399,6 +479,18 @@ const Settings = () => {
             </div>
           </section>
 
+          {/* Backup & Restore */}
+          <section className="bubble-card-no-tilt p-8">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="p-2 bg-indigo-100 dark:bg-indigo-900/30 rounded-lg">
+                <Archive className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
+              </div>
+              <h2 className="text-2xl font-bold text-white">Backup & Restore</h2>
+            </div>
+
+            <BackupRestorePanel />
+          </section>
+
           {/* Interface Preferences */}
           <section className="bubble-card-no-tilt p-8">
             <div className="flex items-center gap-3 mb-6">
@@ -502,6 +594,96 @@ const Settings = () => {
             </div>
           </section>
 
+          {/* Captions */}
+          <section className="bubble-card-no-tilt p-8">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="p-2 bg-yellow-100 dark:bg-yellow-900/30 rounded-lg">
+                <Captions className="w-6 h-6 text-yellow-600 dark:text-yellow-400" />
+              </div>
+              <h2 className="text-2xl font-bold text-white">Captions</h2>
+            </div>
+
+            <div className="space-y-6">
+              {/* Show Captions */}
+              <div className="flex items-center justify-between">
+                <div className="flex-1">
+                  <label htmlFor="captions-enabled" className="text-sm font-medium text-gray-200">
+                    Show Captions
+                  </label>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Show transcripts as captions in the video player, including in fullscreen and picture-in-picture
+                  </p>
+                </div>
+                <button
+                  id="captions-enabled"
+                  onClick={() => updateSetting('captionsEnabled', !settings.captionsEnabled)}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  settings.captionsEnabled
+                    ? 'bg-blue-600'
+                    : 'bg-gray-300 dark:bg-gray-600'
+                }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    settings.captionsEnabled ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                  />
+                </button>
+              </div>
+
+              {/* Caption Size */}
+              <div>
+                <label htmlFor="caption-size" className="block text-sm font-medium text-gray-200 mb-2">
+                  Text Size
+                </label>
+                <select
+                  id="caption-size"
+                  value={settings.captionSize}
+                  onChange={(e) => updateSetting('captionSize', e.target.value as CaptionSize)}
+                  className="w-full px-4 py-2 border-2 border-purple-500/20 rounded-lg bg-purple-900/30 backdrop-blur-xl text-white focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20"
+                >
+                  <option value="small">Small</option>
+                  <option value="medium">Medium</option>
+                  <option value="large">Large</option>
+                  <option value="x-large">Extra large</option>
+                </select>
+              </div>
+
+              {/* Caption Background */}
+              <div>
+                <label htmlFor="caption-background" className="block text-sm font-medium text-gray-200 mb-2">
+                  Background
+                </label>
+                <select
+                  id="caption-background"
+                  value={settings.captionBackground}
+                  onChange={(e) => updateSetting('captionBackground', e.target.value as CaptionBackground)}
+                  className="w-full px-4 py-2 border-2 border-purple-500/20 rounded-lg bg-purple-900/30 backdrop-blur-xl text-white focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20"
+                >
+                  <option value="none">None (outlined text)</option>
+                  <option value="translucent">Translucent</option>
+                  <option value="solid">Solid</option>
+                </select>
+              </div>
+
+              {/* Caption Position */}
+              <div>
+                <label htmlFor="caption-position" className="block text-sm font-medium text-gray-200 mb-2">
+                  Position
+                </label>
+                <select
+                  id="caption-position"
+                  value={settings.captionPosition}
+                  onChange={(e) => updateSetting('captionPosition', e.target.value as CaptionPosition)}
+                  className="w-full px-4 py-2 border-2 border-purple-500/20 rounded-lg bg-purple-900/30 backdrop-blur-xl text-white focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20"
+                >
+                  <option value="bottom">Bottom</option>
+                  <option value="top">Top</option>
+                </select>
+              </div>
+            </div>
+          </section>
+
           {/* Privacy & Data */}
           <section className="bubble-card-no-tilt p-8">
             <div className="flex items-center gap-3 mb-6">
@@ -126,6 +126,7 @@ const SharedWithMe = () => {
           videoDescription={selectedVideo.description}
           videoUrl={selectedVideo.url}
           shareUrl={window.location.origin + `/video/${selectedVideo.id}`}
+          videoId={selectedVideo.id}
         />
       )}
     </div>
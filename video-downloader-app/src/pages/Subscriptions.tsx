@@ -0,0 +1,407 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { ArrowLeft, Rss, Plus, Loader2, RefreshCw, Pause, Play, Trash2, Clock, AlertCircle } from 'lucide-react';
+import { subscriptionService } from '../services/subscriptionService';
+import { platformRegistry } from '../services/platforms';
+import { useNotifications } from '../contexts/NotificationContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { PlatformIcon } from '../components/PlatformIcon';
+import { TagAutocomplete } from '../components/TagAutocomplete';
+import ConfirmModal from '../components/ConfirmModal';
+import type { Subscription, VideoFormat, VideoPlatform } from '../types';
+
+const CHECK_INTERVAL_OPTIONS = [
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: 'hour' },
+  { minutes: 180, label: '3 hours' },
+  { minutes: 360, label: '6 hours' },
+  { minutes: 1440, label: 'day' },
+];
+
+const QUALITY_OPTIONS = ['2160p', '1440p', '1080p', '720p', '480p', '360p'];
+
+const inputClassName =
+  'w-full px-4 py-2 border-2 border-purple-500/20 rounded-lg bg-purple-900/30 backdrop-blur-xl text-white placeholder-gray-400 focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20';
+
+// Platforms whose provider can list a channel's or creator's uploads
+const subscriptionPlatforms = platformRegistry.getAll().filter((provider) => provider.getUploads);
+
+// e.g. "Titles with: review, unboxing · Up to 20 min · No Shorts"
+const describeFilters = (subscription: Subscription): string => {
+  const { keywords, maxDuration, includeShorts } = subscription.filters;
+  const parts = [
+    keywords.length > 0 ? `Titles with: ${keywords.join(', ')}` : 'All uploads',
+    maxDuration ? `Up to ${Math.round(maxDuration / 60)} min` : '',
+    platformRegistry.get(subscription.platform).capabilities.shorts && !includeShorts ? 'No Shorts' : '',
+  ];
+  return parts.filter(Boolean).join(' · ');
+};
+
+const formatDateTime = (date: Date): string =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * YouTube channels and TikTok creators whose new uploads are downloaded automatically
+ */
+const Subscriptions = () => {
+  const navigate = useNavigate();
+  const { showSuccess, showError, showInfo } = useNotifications();
+  const { settings, updateSetting } = useSettings();
+  const subscriptions = useLiveQuery(() => subscriptionService.getAll(), []);
+
+  const [platform, setPlatform] = useState<VideoPlatform>(subscriptionPlatforms[0]?.id ?? 'youtube');
+  const [source, setSource] = useState('');
+  const [keywordsText, setKeywordsText] = useState('');
+  const [maxMinutes, setMaxMinutes] = useState('');
+  const [includeShorts, setIncludeShorts] = useState(true);
+  const [quality, setQuality] = useState<string>(settings.defaultQuality);
+  const [format, setFormat] = useState<VideoFormat>(settings.defaultFormat);
+  const [tags, setTags] = useState<string[]>([]);
+  const [adding, setAdding] = useState(false);
+  const [checkingId, setCheckingId] = useState<string | 'all' | null>(null);
+  const [pendingRemoval, setPendingRemoval] = useState<Subscription | null>(null);
+
+  const platformProvider = platformRegistry.get(platform);
+  const audioOnly = platformProvider.capabilities.audioOnly;
+
+  const handleSubscribe = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!source.trim()) return;
+
+    const minutes = parseFloat(maxMinutes);
+    try {
+      setAdding(true);
+      const subscription = await subscriptionService.add({
+        platform,
+        source,
+        filters: {
+          keywords: keywordsText.split(',').map((keyword) => keyword.trim()).filter(Boolean),
+          maxDuration: minutes > 0 ? Math.round(minutes * 60) : undefined,
+          includeShorts,
+        },
+        quality,
+        format: audioOnly ? format : 'mp4',
+        tags,
+      });
+      showSuccess(`Subscribed to ${subscription.name}. New uploads will be downloaded automatically.`);
+      setSource('');
+      setKeywordsText('');
+      setMaxMinutes('');
+      setTags([]);
+    } catch (error) {
+      console.error('Error subscribing:', error);
+      showError(error instanceof Error ? error.message : 'Failed to subscribe');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleCheck = async (subscription?: Subscription) => {
+    try {
+      setCheckingId(subscription?.id ?? 'all');
+      const queued = subscription
+        ? await subscriptionService.check(subscription.id)
+        : await subscriptionService.checkAll();
+      if (queued > 0) {
+        showSuccess(`Queued ${queued} new upload${queued !== 1 ? 's' : ''}`);
+      } else {
+        showInfo('No new uploads');
+      }
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to check for new uploads');
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
+  const handleToggle = async (subscription: Subscription) => {
+    try {
+      await subscriptionService.update(subscription.id, { enabled: !subscription.enabled });
+    } catch (error) {
+      console.error('Error updating subscription:', error);
+      showError('Failed to update the subscription');
+    }
+  };
+
+  const handleConfirmRemoval = async () => {
+    if (!pendingRemoval) return;
+
+    try {
+      await subscriptionService.remove(pendingRemoval.id);
+      showSuccess(`Unsubscribed from ${pendingRemoval.name}`);
+    } catch (error) {
+      console.error('Error unsubscribing:', error);
+      showError('Failed to unsubscribe. Please try again.');
+    } finally {
+      setPendingRemoval(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen text-white relative overflow-hidden pb-20">
+      <div className="relative z-10 pt-8 max-w-5xl mx-auto px-4">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-6">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            aria-label="Go back"
+          >
+            <ArrowLeft className="w-6 h-6 text-gray-300" />
+          </button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-white">Subscriptions</h1>
+            <p className="text-gray-300 mt-1">New uploads of the channels and creators you follow are downloaded automatically</p>
+          </div>
+          {subscriptions && subscriptions.length > 0 && (
+            <button
+              onClick={() => handleCheck()}
+              disabled={checkingId !== null}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white font-semibold rounded-lg transition-colors flex items-center gap-2"
+            >
+              <RefreshCw className={`w-4 h-4 ${checkingId === 'all' ? 'animate-spin' : ''}`} />
+              Check Now
+            </button>
+          )}
+        </div>
+
+        {/* Check Interval */}
+        <div className="bubble-card-no-tilt p-4 mb-6 flex items-center gap-3">
+          <Clock className="w-5 h-5 text-purple-400 flex-shrink-0" />
+          <label htmlFor="subscription-interval" className="text-sm text-gray-200 flex-1">
+            Check for new uploads every
+          </label>
+          <select
+            id="subscription-interval"
+            value={settings.subscriptionCheckMinutes}
+            onChange={(e) => updateSetting('subscriptionCheckMinutes', parseInt(e.target.value, 10))}
+            className="px-4 py-2 border-2 border-purple-500/20 rounded-lg bg-purple-900/30 backdrop-blur-xl text-white focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20"
+          >
+            {CHECK_INTERVAL_OPTIONS.map((option) => (
+              <option key={option.minutes} value={option.minutes}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Subscribe */}
+        <form onSubmit={handleSubscribe} className="bubble-card-no-tilt p-6 mb-6 space-y-4">
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Plus className="w-5 h-5 text-purple-400" />
+            Subscribe
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="subscription-platform" className="block text-sm font-medium text-gray-200 mb-2">
+                Platform
+              </label>
+              <select
+                id="subscription-platform"
+                value={platform}
+                onChange={(e) => setPlatform(e.target.value as VideoPlatform)}
+                className={inputClassName}
+              >
+                {subscriptionPlatforms.map((provider) => (
+                  <option key={provider.id} value={provider.id}>
+                    {provider.branding.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label htmlFor="subscription-source" className="block text-sm font-medium text-gray-200 mb-2">
+                {platformProvider.uploadsSource?.label ?? 'Creator'}
+              </label>
+              <input
+                id="subscription-source"
+                type="text"
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                placeholder={platformProvider.uploadsSource?.placeholder ?? ''}
+                className={inputClassName}
+                required
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label htmlFor="subscription-keywords" className="block text-sm font-medium text-gray-200 mb-2">
+                Title Keywords (Optional)
+              </label>
+              <input
+                id="subscription-keywords"
+                type="text"
+                value={keywordsText}
+                onChange={(e) => setKeywordsText(e.target.value)}
+                placeholder="review, tutorial"
+                className={inputClassName}
+              />
+              <p className="mt-1 text-xs text-gray-400">Only uploads with one of these words in the title; separate them with commas</p>
+            </div>
+            <div>
+              <label htmlFor="subscription-max-duration" className="block text-sm font-medium text-gray-200 mb-2">
+                Max Duration (Minutes)
+              </label>
+              <input
+                id="subscription-max-duration"
+                type="number"
+                min="1"
+                value={maxMinutes}
+                onChange={(e) => setMaxMinutes(e.target.value)}
+                placeholder="No limit"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="subscription-quality" className="block text-sm font-medium text-gray-200 mb-2">
+                Quality
+              </label>
+              <select
+                id="subscription-quality"
+                value={quality}
+                onChange={(e) => setQuality(e.target.value)}
+                className={inputClassName}
+              >
+                {QUALITY_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {audioOnly && (
+              <div>
+                <label htmlFor="subscription-format" className="block text-sm font-medium text-gray-200 mb-2">
+                  Format
+                </label>
+                <select
+                  id="subscription-format"
+                  value={format}
+                  onChange={(e) => setFormat(e.target.value as VideoFormat)}
+                  className={inputClassName}
+                >
+                  <option value="mp4">MP4 (Video)</option>
+                  <option value="mp3">MP3 (Audio)</option>
+                </select>
+              </div>
+            )}
+            {platformProvider.capabilities.shorts && (
+              <label className="flex items-center gap-2 cursor-pointer self-end pb-2">
+                <input
+                  type="checkbox"
+                  checked={includeShorts}
+                  onChange={(e) => setIncludeShorts(e.target.checked)}
+                  className="w-4 h-4 text-purple-600 rounded"
+                />
+                <span className="text-sm text-gray-200">Include Shorts</span>
+              </label>
+            )}
+            <div className="md:col-span-3">
+              <span className="block text-sm font-medium text-gray-200 mb-2">Tags for Downloaded Videos</span>
+              <TagAutocomplete value={tags} onChange={setTags} />
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={adding || !source.trim()}
+            className="px-5 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors flex items-center gap-2"
+          >
+            {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Rss className="w-4 h-4" />}
+            {adding ? 'Reading feed...' : 'Subscribe'}
+          </button>
+        </form>
+
+        {/* Subscription List */}
+        {!subscriptions ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-10 h-10 animate-spin text-purple-400" />
+          </div>
+        ) : subscriptions.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center animate-fadeIn">
+            <div className="bg-purple-500/20 rounded-full p-6 mb-4">
+              <Rss className="w-16 h-16 text-purple-400" />
+            </div>
+            <h2 className="text-2xl font-semibold text-white mb-2">No subscriptions yet</h2>
+            <p className="text-gray-300">Subscribe to a channel or creator to download their new uploads automatically.</p>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {subscriptions.map((subscription) => (
+              <li
+                key={subscription.id}
+                className={`flex items-center gap-4 p-3 bg-black/20 rounded-lg ${subscription.enabled ? '' : 'opacity-60'}`}
+              >
+                <PlatformIcon platform={subscription.platform} className="w-6 h-6 flex-shrink-0" colored />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-white truncate" title={subscription.source}>
+                    {subscription.name}
+                    {!subscription.enabled && <span className="ml-2 text-xs text-gray-400">Paused</span>}
+                  </p>
+                  <p className="text-xs text-gray-400 truncate">
+                    {describeFilters(subscription)} · {subscription.quality}
+                    {subscription.format === 'mp3' && ' MP3'}
+                    {subscription.tags.length > 0 && ` · Tagged ${subscription.tags.join(', ')}`}
+                  </p>
+                  {subscription.lastError ? (
+                    <p className="text-xs text-red-300 truncate flex items-center gap-1" title={subscription.lastError}>
+                      <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                      {subscription.lastError}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-gray-500">
+                      {subscription.queuedCount} video{subscription.queuedCount !== 1 ? 's' : ''} queued
+                      {subscription.lastCheckedAt && ` · Checked ${formatDateTime(subscription.lastCheckedAt)}`}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleCheck(subscription)}
+                  disabled={checkingId !== null}
+                  className="p-2 hover:bg-white/10 rounded-lg transition-colors flex-shrink-0 disabled:opacity-50"
+                  aria-label={`Check ${subscription.name} for new uploads`}
+                  title="Check now"
+                >
+                  <RefreshCw className={`w-4 h-4 text-gray-300 ${checkingId === subscription.id ? 'animate-spin' : ''}`} />
+                </button>
+                <button
+                  onClick={() => handleToggle(subscription)}
+                  className="p-2 hover:bg-white/10 rounded-lg transition-colors flex-shrink-0"
+                  aria-label={subscription.enabled ? `Pause ${subscription.name}` : `Resume ${subscription.name}`}
+                  title={subscription.enabled ? 'Pause' : 'Resume'}
+                >
+                  {subscription.enabled ? (
+                    <Pause className="w-4 h-4 text-gray-300" />
+                  ) : (
+                    <Play className="w-4 h-4 text-gray-300" />
+                  )}
+                </button>
+                <button
+                  onClick={() => setPendingRemoval(subscription)}
+                  className="p-2 hover:bg-red-600/30 text-red-300 rounded-lg transition-colors flex-shrink-0"
+                  aria-label={`Unsubscribe from ${subscription.name}`}
+                  title="Unsubscribe"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <ConfirmModal
+        isOpen={!!pendingRemoval}
+        title="Unsubscribe?"
+        message={`New uploads of "${pendingRemoval?.name ?? ''}" will no longer be downloaded. Videos already downloaded stay in your library.`}
+        confirmText="Unsubscribe"
+        cancelText="Cancel"
+        onConfirm={handleConfirmRemoval}
+        onCancel={() => setPendingRemoval(null)}
+        danger={true}
+      />
+    </div>
+  );
+};
+
+export default Subscriptions;
@@ -19,12 +19,14 @@ import { tagService } from '../services/tagService';
 import { tagGroupService } from '../services/tagGroupService';
 import { TagGroupManager } from '../components/TagGroupManager';
 import { useNotifications } from '../contexts/NotificationContext';
+import { useTrash } from '../hooks/useTrash';
 import ConfirmModal from '../components/ConfirmModal';
 import type { Tag } from '../types/tag.types';
 
 const TagsManager = () => {
   const navigate = useNavigate();
   const { showSuccess, showError, showWarning } = useNotifications();
+  const { trashTag } = useTrash();
   const [tags, setTags] = useState<Tag[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
@@ -47,7 +49,7 @@ const TagsManager = () => {
     try {
       setLoading(true);
       const allTags = await tagService.getAllTags();
-      const groupMap = tagGroupService.getTagGroupMap();
+      const groupMap = await tagGroupService.getTagGroupMap();
       setTagGroupMap(groupMap);
       
       // Filter by selected group if any
@@ -111,15 +113,12 @@ const TagsManager = () => {
   };
 
   const handleDeleteTag = async (tagName: string) => {
-    try {
-      await tagService.deleteTag(tagName);
-      showSuccess(`Tag "${tagName}" deleted from all videos`);
+    const trashed = await trashTag(tagName, async () => {
       await loadTags();
       await loadStatistics();
+    });
+    if (trashed) {
       setShowDeleteModal(null);
-    } catch (error) {
-      console.error('Error deleting tag:', error);
-      showError('Failed to delete tag');
     }
   };
 
@@ -418,7 +417,7 @@ const TagsManager = () => {
         title="Delete Tag"
         message={
           showDeleteModal
-            ? `Are you sure you want to delete "${showDeleteModal}"? This will remove the tag from all videos. This action cannot be undone.`
+            ? `Are you sure you want to delete "${showDeleteModal}"? This will remove the tag from all videos. You can restore it from the Trash.`
             : ''
         }
         confirmText="Delete"
@@ -1,24 +1,36 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Search, FileText, Youtube, Music, ArrowUpDown, X, Clock, Calendar, Download, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import { Search, FileText, ArrowUpDown, X, Clock, Calendar, Download, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
 import { storageService } from '../services/storageService';
-import { youtubeService } from '../services/youtubeService';
-import { tiktokService } from '../services/tiktokService';
+import { searchIndex } from '../services/searchIndex';
+import { platformRegistry } from '../services/platforms';
 import { parseVideoUrl } from '../utils/urlParser';
+import { formatTime, transcriptToText, TRANSCRIPT_SOURCE_LABELS } from '../utils/transcriptParser';
+import { HighlightedText } from '../components/HighlightedText';
+import { PlatformIcon } from '../components/PlatformIcon';
 import { useNotifications } from '../contexts/NotificationContext';
-import type { Video, VideoPlatform } from '../types';
+import type { Video, VideoPlatform, NewVideoInput, SearchResult, Transcript } from '../types';
 
-type SortOption = 'newest' | 'oldest' | 'title-asc' | 'title-desc';
+type SortOption = 'relevance' | 'newest' | 'oldest' | 'title-asc' | 'title-desc';
 type TranscriptStatus = 'idle' | 'processing' | 'completed' | 'error';
 
+const PREVIEW_LENGTH = 200;
+
+// Start of the transcript text, without timestamps
+const getTranscriptPreview = (transcript: Transcript | null): string => {
+  const text = transcript ? transcriptToText(transcript, false).trim() : '';
+  return text.length > PREVIEW_LENGTH ? `${text.substring(0, PREVIEW_LENGTH)}...` : text;
+};
+
 const Transcripts = () => {
   const [videos, setVideos] = useState<Video[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
   const [platformFilter, setPlatformFilter] = useState<VideoPlatform | 'all'>('all');
-  const [sortOption, setSortOption] = useState<SortOption>('newest');
+  const [sortOption, setSortOption] = useState<SortOption>('relevance');
   const [filteredVideos, setFilteredVideos] = useState<Video[]>([]);
+  const [searchResults, setSearchResults] = useState<{ query: string; results: Map<string, SearchResult> } | null>(null);
   const [transcriptUrl, setTranscriptUrl] = useState('');
   const [transcriptStatus, setTranscriptStatus] = useState<TranscriptStatus>('idle');
   const [transcriptMessage, setTranscriptMessage] = useState('');
@@ -32,7 +44,7 @@ const Transcripts = () => {
       setLoading(true);
       const allVideos = await storageService.getAllVideos();
       // Filter only videos that have transcripts
-      const videosWithTranscripts = allVideos.filter(video => video.transcript && video.transcript.trim().length > 0);
+      const videosWithTranscripts = allVideos.filter(video => video.transcript && video.transcript.cues.length > 0);
       setVideos(videosWithTranscripts);
     } catch (error) {
       console.error('Error loading transcripts:', error);
@@ -55,6 +67,35 @@ const Transcripts = () => {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  // Query the search index for the debounced search
+  useEffect(() => {
+    const query = debouncedSearchQuery.trim();
+    if (!query) return;
+
+    let cancelled = false;
+    searchIndex
+      .search(query)
+      .then((results) => {
+        if (!cancelled) {
+          setSearchResults({ query, results: new Map(results.map((result) => [result.videoId, result])) });
+        }
+      })
+      .catch((error) => {
+        console.error('Error searching transcripts:', error);
+        if (!cancelled) setSearchResults({ query, results: new Map() });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedSearchQuery, videos]);
+
+  // Results for the current query, null when not searching
+  const activeResults =
+    debouncedSearchQuery.trim() && searchResults?.query === debouncedSearchQuery.trim()
+      ? searchResults.results
+      : null;
+
   // Filter and sort videos function
   const filterVideos = useCallback(
     (videosToFilter: Video[]): Video[] => {
@@ -65,22 +106,19 @@ const Transcripts = () => {
         filtered = filtered.filter((video) => video.platform === platformFilter);
       }
 
-      // Filter by search query
+      // Filter by search query (matches come from the search index)
       if (debouncedSearchQuery.trim()) {
-        const query = debouncedSearchQuery.toLowerCase();
-        filtered = filtered.filter(
-          (video) =>
-            video.title.toLowerCase().includes(query) ||
-            video.description?.toLowerCase().includes(query) ||
-            video.author.toLowerCase().includes(query) ||
-            video.tags?.some((tag) => tag.toLowerCase().includes(query)) ||
-            video.transcript?.toLowerCase().includes(query)
-        );
+        filtered = activeResults ? filtered.filter((video) => activeResults.has(video.id)) : [];
       }
 
       // Sort videos
       filtered.sort((a, b) => {
         switch (sortOption) {
+          case 'relevance':
+            if (activeResults) {
+              return (activeResults.get(b.id)?.score ?? 0) - (activeResults.get(a.id)?.score ?? 0);
+            }
+            return new Date(b.downloadDate).getTime() - new Date(a.downloadDate).getTime();
           case 'newest':
             return new Date(b.downloadDate).getTime() - new Date(a.downloadDate).getTime();
           case 'oldest':
@@ -96,7 +134,7 @@ const Transcripts = () => {
 
       return filtered;
     },
-    [platformFilter, debouncedSearchQuery, sortOption]
+    [platformFilter, debouncedSearchQuery, sortOption, activeResults]
   );
 
   // Update filtered videos when filters change
@@ -115,29 +153,9 @@ const Transcripts = () => {
     });
   };
 
-  // Get platform icon
-  const getPlatformIcon = (platform: string) => {
-    switch (platform) {
-      case 'youtube':
-        return <Youtube className="w-4 h-4" />;
-      case 'tiktok':
-        return <Music className="w-4 h-4" />;
-      default:
-        return null;
-    }
-  };
-
   // Get platform color
-  const getPlatformColor = (platform: string): string => {
-    switch (platform) {
-      case 'youtube':
-        return 'bg-red-600';
-      case 'tiktok':
-        return 'bg-black dark:bg-gray-700';
-      default:
-        return 'bg-gray-600';
-    }
-  };
+  const getPlatformColor = (platform: string): string =>
+    platformRegistry.find(platform)?.branding.badgeClassName ?? 'bg-gray-600';
 
   // Check if filters are active
   const hasActiveFilters = platformFilter !== 'all' || debouncedSearchQuery.trim() !== '';
@@ -159,7 +177,7 @@ const Transcripts = () => {
 
     const parsed = parseVideoUrl(trimmedUrl);
     if (!parsed) {
-      showError('Invalid video URL. Please enter a valid YouTube or TikTok URL.');
+      showError('Invalid video URL. Please enter a valid YouTube, TikTok or Instagram URL.');
       return;
     }
 
@@ -167,53 +185,34 @@ const Transcripts = () => {
       setTranscriptStatus('processing');
       setTranscriptMessage('Fetching video metadata...');
 
-      let videoData: Video;
-      let transcript: string = '';
-
-      // Get video metadata and transcript based on platform
-      if (parsed.platform === 'youtube') {
-        const metadata = await youtubeService.getVideoMetadata(trimmedUrl);
-        setTranscriptMessage('Generating transcript...');
-        transcript = await youtubeService.getTranscript(trimmedUrl);
-
-        videoData = {
-          id: `yt_${parsed.videoId}_${Date.now()}`,
-          videoId: parsed.videoId,
-          title: metadata.title,
-          author: metadata.author,
-          platform: 'youtube' as VideoPlatform,
-          description: metadata.description || '',
-          thumbnail: metadata.thumbnail,
-          duration: metadata.duration,
-          downloadDate: new Date(),
-          transcript,
-          tags: [],
-          quality: '1080p',
-          format: 'mp4' as const,
-        };
-      } else if (parsed.platform === 'tiktok') {
-        const metadata = await tiktokService.getVideoMetadata(trimmedUrl);
-        setTranscriptMessage('Generating transcript...');
-        transcript = await tiktokService.getTranscript(trimmedUrl);
-
-        videoData = {
-          id: `tt_${Date.now()}`,
-          videoId: trimmedUrl,
-          title: metadata.title || 'TikTok Video',
-          author: metadata.author || 'Unknown',
-          platform: 'tiktok' as VideoPlatform,
-          description: metadata.description || '',
-          thumbnail: metadata.thumbnail || '',
-          duration: metadata.duration || 0,
-          downloadDate: new Date(),
-          transcript,
-          tags: [],
-          quality: '1080p',
-          format: 'mp4' as const,
-        };
+      const provider = platformRegistry.get(parsed.platform);
+      if (!provider.capabilities.transcripts) {
+        throw new Error(`Transcripts are not available for ${provider.branding.name} videos`);
       }
 
-      if (!transcript || transcript.trim().length === 0) {
+      // Get video metadata and transcript from the platform
+      const metadata = await provider.getMetadata(trimmedUrl);
+      setTranscriptMessage('Generating transcript...');
+      const transcript = await provider.getTranscript(trimmedUrl);
+
+      const videoData: NewVideoInput = {
+        id: `${provider.id}_${parsed.videoId}_${Date.now()}`,
+        url: trimmedUrl,
+        title: metadata.title || `${provider.branding.name} Video`,
+        author: metadata.author || 'Unknown',
+        platform: provider.id,
+        description: metadata.description || '',
+        thumbnail: metadata.thumbnail || '',
+        duration: metadata.duration || 0,
+        downloadDate: new Date(),
+        fileSize: 0,
+        transcript,
+        tags: [],
+        quality: '1080p',
+        format: 'mp4',
+      };
+
+      if (!transcript || transcript.cues.every((cue) => !cue.text.trim())) {
         throw new Error('No transcript available for this video');
       }
 
@@ -274,7 +273,7 @@ const Transcripts = () => {
             <h2 className="text-xl font-semibold text-white">Generate Transcript</h2>
           </div>
           <p className="text-gray-300 mb-4 text-sm">
-            Enter a YouTube or TikTok URL to automatically generate and save its transcript
+            Enter a YouTube, TikTok or Instagram URL to automatically generate and save its transcript
           </p>
 
           <div className="flex flex-col sm:flex-row gap-3">
@@ -289,7 +288,7 @@ const Transcripts = () => {
                     handleGenerateTranscript();
                   }
                 }}
-                placeholder="https://youtube.com/watch?v=... or https://tiktok.com/..."
+                placeholder="https://youtube.com/watch?v=..., https://tiktok.com/... or https://instagram.com/reel/..."
                 disabled={transcriptStatus === 'processing'}
                 className="w-full px-4 py-3 rounded-lg bg-white/5 border-2 border-white/10
                          focus:border-purple-400 focus:outline-none
@@ -367,28 +366,20 @@ const Transcripts = () => {
               >
                 All
               </button>
-              <button
-                onClick={() => setPlatformFilter('youtube')}
-                className={`px-4 py-2 rounded-lg font-medium transition-colors duration-200 flex items-center gap-2 ${
-                  platformFilter === 'youtube'
-                    ? 'bg-red-600 text-white'
-                    : 'bubble-btn-secondary'
-                }`}
-              >
-                <Youtube className="w-4 h-4" />
-                YouTube
-              </button>
-              <button
-                onClick={() => setPlatformFilter('tiktok')}
-                className={`px-4 py-2 rounded-lg font-medium transition-colors duration-200 flex items-center gap-2 ${
-                  platformFilter === 'tiktok'
-                    ? 'bg-gray-800 text-white'
-                    : 'bubble-btn-secondary'
-                }`}
-              >
-                <Music className="w-4 h-4" />
-                TikTok
-              </button>
+              {platformRegistry.getAll().map((provider) => (
+                <button
+                  key={provider.id}
+                  onClick={() => setPlatformFilter(provider.id)}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors duration-200 flex items-center gap-2 ${
+                    platformFilter === provider.id
+                      ? `${provider.branding.badgeClassName} text-white`
+                      : 'bubble-btn-secondary'
+                  }`}
+                >
+                  <PlatformIcon platform={provider.id} />
+                  {provider.branding.name}
+                </button>
+              ))}
               {hasActiveFilters && (
                 <button
                   onClick={clearFilters}
@@ -410,6 +401,7 @@ const Transcripts = () => {
                          focus:border-purple-400 focus:outline-none
                          focus:ring-2 focus:ring-purple-400/20 cursor-pointer backdrop-blur-sm"
               >
+                <option value="relevance" className="bg-gray-800">Best Match</option>
                 <option value="newest" className="bg-gray-800">Newest First</option>
                 <option value="oldest" className="bg-gray-800">Oldest First</option>
                 <option value="title-asc" className="bg-gray-800">Title A-Z</option>
@@ -454,74 +446,106 @@ const Transcripts = () => {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredVideos.map((video, index) => (
-              <div
-                key={video.id}
-                onClick={() => navigate(`/video/${video.id}?tab=transcript`)}
-                className="bubble-card overflow-hidden cursor-pointer transform hover:scale-[1.02] animate-fadeIn"
-                style={{
-                  animationDelay: `${Math.min(index * 50, 500)}ms`,
-                }}
-              >
-                {/* Header */}
-                <div className="p-4 border-b border-white/10">
-                  <div className="flex items-start justify-between mb-2">
-                    <h3 className="font-semibold text-lg text-white line-clamp-2 flex-1">
-                      {video.title}
-                    </h3>
-                    <span
-                      className={`px-2 py-1 rounded text-xs font-semibold text-white flex items-center gap-1 ${getPlatformColor(
-                        video.platform
-                      )}`}
-                    >
-                      {getPlatformIcon(video.platform)}
-                      {video.platform.charAt(0).toUpperCase() + video.platform.slice(1)}
-                    </span>
-                  </div>
-                  <p className="text-sm text-gray-300 mb-2">
-                    {video.author}
-                  </p>
-                  <div className="flex items-center gap-3 text-xs text-gray-400">
-                    <div className="flex items-center gap-1">
-                      <Calendar className="w-3 h-3" />
-                      {formatDate(video.downloadDate)}
+            {filteredVideos.map((video, index) => {
+              const result = activeResults?.get(video.id);
+              return (
+                <div
+                  key={video.id}
+                  onClick={() => navigate(`/video/${video.id}?tab=transcript`)}
+                  className="bubble-card overflow-hidden cursor-pointer transform hover:scale-[1.02] animate-fadeIn"
+                  style={{
+                    animationDelay: `${Math.min(index * 50, 500)}ms`,
+                  }}
+                >
+                  {/* Header */}
+                  <div className="p-4 border-b border-white/10">
+                    <div className="flex items-start justify-between mb-2">
+                      <h3 className="font-semibold text-lg text-white line-clamp-2 flex-1">
+                        {result ? <HighlightedText snippet={result.title} /> : video.title}
+                      </h3>
+                      <span
+                        className={`px-2 py-1 rounded text-xs font-semibold text-white flex items-center gap-1 ${getPlatformColor(
+                          video.platform
+                        )}`}
+                      >
+                        <PlatformIcon platform={video.platform} />
+                        {platformRegistry.find(video.platform)?.branding.name ?? video.platform}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-300 mb-2">
+                      {video.author}
+                    </p>
+                    <div className="flex items-center gap-3 text-xs text-gray-400">
+                      <div className="flex items-center gap-1">
+                        <Calendar className="w-3 h-3" />
+                        {formatDate(video.downloadDate)}
+                      </div>
                     </div>
                   </div>
-                </div>
 
-                {/* Transcript Preview */}
-                <div className="p-4">
-                  <div className="flex items-center gap-2 mb-2">
-                    <FileText className="w-4 h-4 text-purple-400" />
-                    <span className="text-xs font-medium text-gray-300 uppercase tracking-wide">
-                      Transcript Preview
-                    </span>
+                  {/* Transcript Preview */}
+                  <div className="p-4">
+                    <div className="flex items-center gap-2 mb-2">
+                      <FileText className="w-4 h-4 text-purple-400" />
+                      <span className="text-xs font-medium text-gray-300 uppercase tracking-wide">
+                        {result?.snippet ? 'Best Match' : 'Transcript Preview'}
+                      </span>
+                    </div>
+                    <p
+                      className="text-xs text-gray-300 line-clamp-3 leading-relaxed"
+                      style={{
+                        fontFamily: "'Inter', 'SF Pro Display', -apple-system, BlinkMacSystemFont, sans-serif",
+                        fontWeight: 400,
+                        letterSpacing: '0.01em',
+                      }}
+                    >
+                      {result?.snippet ? (
+                        <HighlightedText snippet={result.snippet} />
+                      ) : (
+                        getTranscriptPreview(video.transcript) || 'No transcript preview available'
+                      )}
+                    </p>
+
+                    {/* Jump to matching transcript segments */}
+                    {result && result.transcriptHits.some((hit) => hit.time !== null) && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {result.transcriptHits.map((hit, hitIndex) =>
+                          hit.time === null ? null : (
+                            <button
+                              key={hitIndex}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                navigate(`/video/${video.id}?tab=transcript&t=${Math.floor(hit.time ?? 0)}`);
+                              }}
+                              title={hit.snippet.text}
+                              className="px-2 py-1 rounded bg-purple-600/30 hover:bg-purple-600/50 text-purple-200
+                                       text-xs font-mono transition-colors"
+                            >
+                              {formatTime(hit.time)}
+                            </button>
+                          )
+                        )}
+                      </div>
+                    )}
                   </div>
-                  <p
-                    className="text-xs text-gray-300 line-clamp-3 leading-relaxed"
-                    style={{
-                      fontFamily: "'Inter', 'SF Pro Display', -apple-system, BlinkMacSystemFont, sans-serif",
-                      fontWeight: 400,
-                      letterSpacing: '0.01em',
-                    }}
-                  >
-                    {video.transcript?.replace(/\[.*?\]/g, '').trim().substring(0, 200) || 'No transcript preview available'}
-                    {video.transcript && video.transcript.length > 200 && '...'}
-                  </p>
-                </div>
 
-                {/* Footer */}
-                <div className="px-4 pb-4 pt-2 border-t border-white/10">
-                  <div className="flex items-center justify-between text-xs text-gray-300">
-                    <span>{video.transcript?.split('\n').length || 0} segments</span>
-                    <span className="flex items-center gap-1">
-                      <Clock className="w-3 h-3" />
-                      {Math.floor(video.duration / 60)}:{(video.duration % 60).toString().padStart(2, '0')}
-                    </span>
+                  {/* Footer */}
+                  <div className="px-4 pb-4 pt-2 border-t border-white/10">
+                    <div className="flex items-center justify-between text-xs text-gray-300">
+                      <span>
+                        {video.transcript && TRANSCRIPT_SOURCE_LABELS[video.transcript.source]}
+                        {video.transcript?.language && ` · ${video.transcript.language}`}
+                        {video.transcript?.timed && ` · ${video.transcript.cues.length} cues`}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {Math.floor(video.duration / 60)}:{(video.duration % 60).toString().padStart(2, '0')}
+                      </span>
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
@@ -0,0 +1,234 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Trash2, RotateCcw, Loader2, Video, Folder, Tag, Clock } from 'lucide-react';
+import { trashService } from '../services/trashService';
+import { useNotifications } from '../contexts/NotificationContext';
+import { useSettings } from '../contexts/SettingsContext';
+import ConfirmModal from '../components/ConfirmModal';
+import type { TrashItem, TrashItemKind } from '../types';
+
+const RETENTION_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Until I empty the trash' },
+];
+
+const KIND_ICONS: Record<TrashItemKind, typeof Video> = {
+  video: Video,
+  collection: Folder,
+  tag: Tag,
+};
+
+// Format bytes to human-readable
+const formatStorage = (bytes: number): string => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+};
+
+const describeItem = (item: TrashItem): string => {
+  switch (item.kind) {
+    case 'video':
+      return `Video · ${formatStorage(item.video.fileSize || 0)}`;
+    case 'collection':
+      return `Collection · ${item.collection.videoIds.length} video${item.collection.videoIds.length !== 1 ? 's' : ''}`;
+    case 'tag':
+      return `Tag · on ${item.videoIds.length} video${item.videoIds.length !== 1 ? 's' : ''}`;
+  }
+};
+
+/**
+ * Trashed videos, collections and tags, which can be restored or deleted permanently
+ */
+const Trash = () => {
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useNotifications();
+  const { settings, updateSetting } = useSettings();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingPurge, setPendingPurge] = useState<TrashItem | 'all' | null>(null);
+  const [purging, setPurging] = useState(false);
+
+  const loadItems = useCallback(async () => {
+    try {
+      setItems(await trashService.getItems());
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      showError('Failed to load the trash');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      await trashService.restore(item.id);
+      showSuccess(`Restored "${item.name}"`);
+      await loadItems();
+    } catch (error) {
+      console.error('Error restoring item:', error);
+      showError(error instanceof Error ? error.message : 'Failed to restore item');
+    }
+  };
+
+  const handleConfirmPurge = async () => {
+    if (!pendingPurge) return;
+
+    try {
+      setPurging(true);
+      if (pendingPurge === 'all') {
+        const count = await trashService.emptyTrash();
+        showSuccess(`Deleted ${count} item${count !== 1 ? 's' : ''} permanently`);
+      } else {
+        await trashService.purge(pendingPurge.id);
+        showSuccess(`Deleted "${pendingPurge.name}" permanently`);
+      }
+      setPendingPurge(null);
+      await loadItems();
+    } catch (error) {
+      console.error('Error deleting from trash:', error);
+      showError('Failed to delete permanently. Please try again.');
+    } finally {
+      setPurging(false);
+    }
+  };
+
+  const formatDate = (date: Date): string =>
+    new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+  const trashedBytes = items.reduce((sum, item) => sum + (item.kind === 'video' ? item.video.fileSize || 0 : 0), 0);
+
+  return (
+    <div className="min-h-screen text-white relative overflow-hidden pb-20">
+      <div className="relative z-10 pt-8 max-w-5xl mx-auto px-4">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-6">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            aria-label="Go back"
+          >
+            <ArrowLeft className="w-6 h-6 text-gray-300" />
+          </button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-white">Trash</h1>
+            {!loading && items.length > 0 && (
+              <p className="text-gray-300 mt-1">
+                {items.length} item{items.length !== 1 ? 's' : ''} · {formatStorage(trashedBytes)} of video files
+              </p>
+            )}
+          </div>
+          {items.length > 0 && (
+            <button
+              onClick={() => setPendingPurge('all')}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition-colors flex items-center gap-2"
+            >
+              <Trash2 className="w-4 h-4" />
+              Empty Trash
+            </button>
+          )}
+        </div>
+
+        {/* Retention */}
+        <div className="bubble-card-no-tilt p-4 mb-6 flex items-center gap-3">
+          <Clock className="w-5 h-5 text-purple-400 flex-shrink-0" />
+          <label htmlFor="trash-retention" className="text-sm text-gray-200 flex-1">
+            Delete trashed items permanently after
+          </label>
+          <select
+            id="trash-retention"
+            value={settings.trashRetentionDays}
+            onChange={(e) => updateSetting('trashRetentionDays', parseInt(e.target.value, 10))}
+            className="px-4 py-2 border-2 border-purple-500/20 rounded-lg bg-purple-900/30 backdrop-blur-xl text-white focus:border-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/20"
+          >
+            {RETENTION_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-10 h-10 animate-spin text-purple-400" />
+          </div>
+        ) : items.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center animate-fadeIn">
+            <div className="bg-purple-500/20 rounded-full p-6 mb-4">
+              <Trash2 className="w-16 h-16 text-purple-400" />
+            </div>
+            <h2 className="text-2xl font-semibold text-white mb-2">Trash is empty</h2>
+            <p className="text-gray-300">Deleted videos, collections and tags show up here.</p>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {items.map((item) => {
+              const Icon = KIND_ICONS[item.kind];
+              const purgeDate = trashService.getPurgeDate(item, settings.trashRetentionDays);
+
+              return (
+                <li key={item.id} className="flex items-center gap-4 p-3 bg-black/20 rounded-lg">
+                  {item.kind === 'video' && item.video.thumbnail ? (
+                    <img src={item.video.thumbnail} alt="" className="w-20 h-12 object-cover rounded flex-shrink-0" />
+                  ) : (
+                    <div className="w-20 h-12 rounded bg-gray-700 flex items-center justify-center flex-shrink-0">
+                      <Icon className="w-5 h-5" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-white truncate">{item.name}</p>
+                    <p className="text-xs text-gray-400">
+                      {describeItem(item)} · Deleted {formatDate(item.deletedAt)}
+                      {purgeDate && ` · Removed permanently on ${formatDate(purgeDate)}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRestore(item)}
+                    className="px-3 py-1.5 bg-green-600/30 hover:bg-green-600/50 text-green-200 text-xs font-medium rounded-lg transition-colors flex items-center gap-1 flex-shrink-0"
+                    aria-label={`Restore "${item.name}"`}
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => setPendingPurge(item)}
+                    className="p-2 hover:bg-red-600/30 text-red-300 rounded-lg transition-colors flex-shrink-0"
+                    aria-label={`Delete "${item.name}" permanently`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <ConfirmModal
+        isOpen={!!pendingPurge}
+        title={pendingPurge === 'all' ? 'Empty Trash?' : 'Delete Permanently?'}
+        message={
+          pendingPurge === 'all'
+            ? `This will permanently delete ${items.length} item${items.length !== 1 ? 's' : ''} and free their storage. This action cannot be undone.`
+            : `This will permanently delete "${pendingPurge?.name ?? ''}". This action cannot be undone.`
+        }
+        confirmText={purging ? 'Deleting...' : 'Delete Permanently'}
+        cancelText="Cancel"
+        onConfirm={handleConfirmPurge}
+        onCancel={() => setPendingPurge(null)}
+        danger={true}
+        isLoading={purging}
+      />
+    </div>
+  );
+};
+
+export default Trash;
@@ -1,12 +1,11 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
 import {
   ArrowLeft,
   Download,
   Share2,
   Trash2,
-  Youtube,
-  Music,
   Calendar,
   FileText,
   X,
@@ -21,34 +20,56 @@ import {
   Video as VideoIcon,
   AudioLines,
   Scissors,
+  FileUp,
 } from 'lucide-react';
 import VideoPlayer from '../components/VideoPlayer';
 import TranscriptViewer from '../components/TranscriptViewer';
 import ConfirmModal from '../components/ConfirmModal';
 import ShareModal from '../components/ShareModal';
+import SubtitleImportModal from '../components/SubtitleImportModal';
 import { TagAutocomplete } from '../components/TagAutocomplete';
 import { TagPill } from '../components/TagPill';
 import { ClipExtractor } from '../components/ClipExtractor';
+import { WatchTogetherPanel } from '../components/WatchTogetherPanel';
+import { PlatformIcon } from '../components/PlatformIcon';
 import { storageService } from '../services/storageService';
 import { tagService } from '../services/tagService';
 import { youtubeService } from '../services/youtubeService';
-import { useNotifications } from '../contexts/NotificationContext';
-import type { Video } from '../types';
+import { transcriptService } from '../services/transcriptService';
+import { platformRegistry } from '../services/platforms';
+import { useTrash } from '../hooks/useTrash';
+import { formatTimecode } from '../utils/dateUtils';
+import { transcriptToText } from '../utils/transcriptParser';
+import { formatSubtitles, SUBTITLE_FORMATS } from '../utils/subtitleFormats';
+import type { SubtitleFormat } from '../utils/subtitleFormats';
+import type { Transcript, TranscriptCue, TranscriptVersion, Video } from '../types';
+
+// Caption tracks: the current transcript, then the newest saved version of each other language and source
+const getCaptionTranscripts = (current: Transcript | null, versions: TranscriptVersion[]): Transcript[] => {
+  const tracks = new Map<string, Transcript>();
+  for (const transcript of [...(current ? [current] : []), ...versions.map((version) => version.transcript)]) {
+    const key = `${transcript.language ?? ''}:${transcript.source}`;
+    if (!tracks.has(key)) tracks.set(key, transcript);
+  }
+  return [...tracks.values()];
+};
 
 const VideoDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
-  const { showSuccess, showError } = useNotifications();
+  const { trashVideo } = useTrash();
   const videoRef = useRef<HTMLVideoElement>(null);
   const [video, setVideo] = useState<Video | null>(null);
+  // undefined while the video file is loading, null if it is unavailable
+  const [videoBlob, setVideoBlob] = useState<Blob | null | undefined>(undefined);
   const [loading, setLoading] = useState(true);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showFullDescription, setShowFullDescription] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [transcriptOpen, setTranscriptOpen] = useState(false);
   const [videoCurrentTime, setVideoCurrentTime] = useState(0);
-  const [transcript, setTranscript] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
   const [transcriptError, setTranscriptError] = useState<string | null>(null);
   const [generatingTranscript, setGeneratingTranscript] = useState(false);
 
@@ -77,6 +98,18 @@ const VideoDetail = () => {
   // Clip extractor state
   const [showClipExtractor, setShowClipExtractor] = useState(false);
 
+  // Subtitle import modal state
+  const [showSubtitleImport, setShowSubtitleImport] = useState(false);
+
+  // Saved transcript versions, newest first, which can hold other languages such as imported subtitles
+  const transcriptVersions = useLiveQuery(() => (id ? transcriptService.getVersions(id) : []), [id]);
+
+  // Caption tracks of the player; kept stable so the tracks are not rebuilt on every render
+  const captionTracks = useMemo(
+    () => getCaptionTranscripts(transcript, transcriptVersions ?? []),
+    [transcript, transcriptVersions]
+  );
+
   // Fetch video from IndexedDB
   useEffect(() => {
     const loadVideo = async () => {
@@ -121,6 +154,60 @@ const VideoDetail = () => {
     loadVideo();
   }, [id, navigate, searchParams]);
 
+  // Load the video file separately from the metadata
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+    storageService
+      .getVideoBlob(id)
+      .then((blob) => {
+        if (!cancelled) setVideoBlob(blob);
+      })
+      .catch((error) => {
+        console.error('Error loading video file:', error);
+        if (!cancelled) setVideoBlob(null);
+      });
+
+    return () => {
+      cancelled = true;
+      setVideoBlob(undefined);
+    };
+  }, [id]);
+
+  // Start at the time given in the URL (e.g. a transcript search hit)
+  const startTime = Number(searchParams.get('t'));
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!videoBlob || !element || !(startTime > 0)) return;
+
+    const seek = () => {
+      element.currentTime = startTime;
+    };
+
+    if (element.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      seek();
+      return;
+    }
+    element.addEventListener('loadedmetadata', seek, { once: true });
+    return () => element.removeEventListener('loadedmetadata', seek);
+  }, [videoBlob, startTime]);
+
+  // Record that the video was watched (used by the oldest-unwatched eviction policy)
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!id || !videoBlob || !element) return;
+
+    const handlePlay = () => {
+      storageService.markVideoWatched(id).catch((error) => {
+        console.error('Error recording watch:', error);
+      });
+    };
+
+    element.addEventListener('play', handlePlay, { once: true });
+    return () => element.removeEventListener('play', handlePlay);
+  }, [id, videoBlob]);
+
   // Close export menu when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -143,7 +230,7 @@ const VideoDetail = () => {
   
   // Generate transcript using Web Speech API in real-time
   const handleGenerateTranscript = async () => {
-    if (!video || !video.videoBlob || generatingTranscript) return;
+    if (!video || !videoBlob || generatingTranscript) return;
     
     try {
       setGeneratingTranscript(true);
@@ -163,7 +250,8 @@ const VideoDetail = () => {
       recognition.interimResults = true; // Get interim results for real-time display
       recognition.lang = 'en-US';
       
-      const transcriptSegments: Array<{ time: number; text: string }> = [];
+      // Results arrive as each phrase ends; a phrase starts where the previous one ended
+      const cues: TranscriptCue[] = [];
       const videoElement = videoRef.current;
       
       if (!videoElement) {
@@ -180,8 +268,10 @@ const VideoDetail = () => {
           const transcript = event.results[i][0].transcript;
           if (event.results[i].isFinal) {
             finalTranscript += transcript + ' ';
-            transcriptSegments.push({
-              time: currentTime,
+            const start = cues.length > 0 ? cues[cues.length - 1].end : 0;
+            cues.push({
+              start: Math.min(start, currentTime),
+              end: currentTime,
               text: transcript.trim(),
             });
           } else {
@@ -190,7 +280,7 @@ const VideoDetail = () => {
         }
         
         // Update real-time display
-        const allText = transcriptSegments.map(s => s.text).join(' ') + interimTranscript;
+        const allText = cues.map((cue) => cue.text).join(' ') + interimTranscript;
         setCurrentTranscriptText(allText);
       };
       
@@ -209,21 +299,15 @@ const VideoDetail = () => {
       };
       
       recognition.onend = () => {
-        // Format transcript with timestamps
-        const formattedTranscript = transcriptSegments
-          .map((segment) => {
-            const minutes = Math.floor(segment.time / 60);
-            const seconds = Math.floor(segment.time % 60);
-            return `[${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}] ${segment.text}`;
-          })
-          .join('\n');
-        
-        setTranscript(formattedTranscript);
-        setCurrentTranscriptText(formattedTranscript);
-        
+        const recognized: Transcript | null =
+          cues.length > 0 ? { cues, language: recognition.lang, source: 'asr', timed: true } : null;
+
+        setTranscript(recognized);
+        setCurrentTranscriptText(recognized ? transcriptToText(recognized) : '');
+
         // Save transcript to video
-        if (video && formattedTranscript) {
-          storageService.updateVideoMetadata(video.id, { transcript: formattedTranscript });
+        if (video && recognized) {
+          storageService.updateVideoMetadata(video.id, { transcript: recognized });
         }
         
         setGeneratingTranscript(false);
@@ -285,29 +369,9 @@ const VideoDetail = () => {
     return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
   };
 
-  // Get platform icon
-  const getPlatformIcon = (platform: string) => {
-    switch (platform) {
-      case 'youtube':
-        return <Youtube className="w-5 h-5" />;
-      case 'tiktok':
-        return <Music className="w-5 h-5" />;
-      default:
-        return null;
-    }
-  };
-
   // Get platform color
-  const getPlatformColor = (platform: string): string => {
-    switch (platform) {
-      case 'youtube':
-        return 'bg-red-600';
-      case 'tiktok':
-        return 'bg-black dark:bg-gray-700';
-      default:
-        return 'bg-gray-600';
-    }
-  };
+  const getPlatformColor = (platform: string): string =>
+    platformRegistry.find(platform)?.branding.badgeClassName ?? 'bg-gray-600';
 
   // Show toast notification
   const showToast = (type: 'success' | 'error', text: string) => {
@@ -317,14 +381,14 @@ const VideoDetail = () => {
 
   // Handle export video
   const handleExportVideo = async () => {
-    if (!video || exporting) return;
+    if (!video || !videoBlob || exporting) return;
 
     try {
       setExporting(true);
       setShowExportMenu(false);
 
       // Create blob URL for download
-      const blobUrl = URL.createObjectURL(video.videoBlob);
+      const blobUrl = URL.createObjectURL(videoBlob);
 
       // Create download link
       const link = document.createElement('a');
@@ -356,22 +420,23 @@ const VideoDetail = () => {
   };
 
   // Handle export transcript
-  const handleExportTranscript = async () => {
+  const handleExportTranscript = async (format: SubtitleFormat) => {
     if (!video || !transcript || exporting) return;
 
     try {
       setExporting(true);
       setShowExportMenu(false);
 
-      // Create a blob from the transcript text
-      const blob = new Blob([transcript], { type: 'text/plain;charset=utf-8' });
+      // Create a blob from the transcript in the chosen format
+      const { extension, mimeType } = SUBTITLE_FORMATS[format];
+      const blob = new Blob([formatSubtitles(transcript, format)], { type: `${mimeType};charset=utf-8` });
       const blobUrl = URL.createObjectURL(blob);
 
       // Create download link
       const link = document.createElement('a');
       link.href = blobUrl;
       const sanitizedTitle = video.title.replace(/[^a-z0-9\s\-_]/gi, '_').replace(/\s+/g, '_');
-      link.download = `${sanitizedTitle}_transcript.txt`;
+      link.download = `${sanitizedTitle}_transcript.${extension}`;
       link.style.display = 'none';
 
       // Append to body, click, and remove
@@ -394,6 +459,31 @@ const VideoDetail = () => {
     }
   };
 
+  // Handle subtitles imported from a file
+  const handleImportSubtitles = async (imported: Transcript) => {
+    if (!video) return;
+
+    try {
+      await transcriptService.attach(video.id, imported);
+      setTranscript(imported);
+      setTranscriptError(null);
+      setVideo({ ...video, transcript: imported });
+      showToast('success', `Subtitles attached (${imported.cues.length} cues).`);
+    } catch (error) {
+      console.error('Error attaching subtitles:', error);
+      showToast('error', 'Failed to attach subtitles. Please try again.');
+    }
+  };
+
+  // Handle a transcript saved or restored in the transcript editor
+  const handleTranscriptSaved = (saved: Transcript) => {
+    if (!video) return;
+
+    setTranscript(saved);
+    setVideo({ ...video, transcript: saved });
+    showToast('success', 'Transcript saved.');
+  };
+
   // Handle export as audio (Note: requires ffmpeg.wasm)
   const handleExportAudio = async () => {
     if (!video || exporting) return;
@@ -426,7 +516,7 @@ const VideoDetail = () => {
       await ffmpeg.load();
 
       // Write video file to ffmpeg
-      const videoData = await fetchFile(video.videoBlob);
+      const videoData = await fetchFile(videoBlob);
       await ffmpeg.writeFile('input.mp4', videoData);
 
       // Extract audio
@@ -468,14 +558,12 @@ const VideoDetail = () => {
   const handleDelete = async () => {
     if (!video || deleting) return;
 
-    try {
-      setDeleting(true);
-      await storageService.deleteVideo(video.id);
-      showSuccess(`Video "${video.title}" deleted successfully.`);
-      navigate('/downloads');
-    } catch (error) {
-      console.error('Error deleting video:', error);
-      showError('Failed to delete video. Please try again.');
+    setDeleting(true);
+    const trashed = await trashVideo(video, (inTrash) => {
+      // Undoing the delete brings the user back to the video
+      navigate(inTrash ? '/downloads' : `/video/${video.id}`);
+    });
+    if (!trashed) {
       setDeleting(false);
       setShowDeleteModal(false);
     }
@@ -674,12 +762,17 @@ const VideoDetail = () => {
           {/* Video Player Section */}
           <div className="lg:col-span-2 space-y-6">
             <div className="bg-purple-900/30 backdrop-blur-xl rounded-2xl overflow-hidden border border-purple-500/20">
-              {video.videoBlob ? (
+              {videoBlob ? (
                 <VideoPlayer 
-                  videoBlob={video.videoBlob} 
+                  videoBlob={videoBlob} 
                   videoRef={videoRef}
                   onTimeUpdate={setVideoCurrentTime}
+                  captions={captionTracks}
                 />
+              ) : videoBlob === undefined ? (
+                <div className="aspect-video bg-gray-200 dark:bg-gray-700 flex items-center justify-center">
+                  <Loader2 className="w-8 h-8 text-gray-500 animate-spin" />
+                </div>
               ) : (
                 <div className="aspect-video bg-gray-200 dark:bg-gray-700 flex items-center justify-center">
                   <p className="text-gray-500">Video not available</p>
@@ -774,6 +867,14 @@ const VideoDetail = () => {
                         <Mic className="w-5 h-5" />
                         <span>Start Transcription</span>
                       </button>
+                      <button
+                        onClick={() => setShowSubtitleImport(true)}
+                        className="w-full mt-3 px-4 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold
+                                 rounded-lg transition-colors duration-200 flex items-center justify-center gap-2"
+                      >
+                        <FileUp className="w-5 h-5" />
+                        <span>Import Subtitles</span>
+                      </button>
                       <p className="mt-3 text-xs text-gray-500 dark:text-gray-400 text-center">
                         Note: This feature uses Web Speech API and requires Chrome or Edge browser.
                         The video will play while generating the transcript.
@@ -800,21 +901,34 @@ const VideoDetail = () => {
                         transcript={transcript}
                         currentTime={videoCurrentTime}
                         onSeek={handleSeek}
+                        onImport={() => setShowSubtitleImport(true)}
+                        videoId={video.id}
+                        onSaved={handleTranscriptSaved}
                       />
                     </>
                   ) : (
                     <div className="py-6 text-center">
                       <p className="text-sm text-white mb-4">
-                        No transcript available. Click below to start transcribing.
+                        No transcript available. Start transcribing, or import an SRT or WebVTT file.
                       </p>
-                      <button
-                        onClick={handleGenerateTranscript}
-                        className="px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold
-                                 rounded-lg transition-colors duration-200 flex items-center justify-center gap-2 mx-auto"
-                      >
-                        <Mic className="w-5 h-5" />
-                        <span>Start Transcription</span>
-                      </button>
+                      <div className="flex flex-wrap items-center justify-center gap-3">
+                        <button
+                          onClick={handleGenerateTranscript}
+                          className="px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold
+                                   rounded-lg transition-colors duration-200 flex items-center justify-center gap-2"
+                        >
+                          <Mic className="w-5 h-5" />
+                          <span>Start Transcription</span>
+                        </button>
+                        <button
+                          onClick={() => setShowSubtitleImport(true)}
+                          className="px-4 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold
+                                   rounded-lg transition-colors duration-200 flex items-center justify-center gap-2"
+                        >
+                          <FileUp className="w-5 h-5" />
+                          <span>Import Subtitles</span>
+                        </button>
+                      </div>
                     </div>
                   )}
                 </div>
@@ -908,8 +1022,8 @@ const VideoDetail = () => {
                     video.platform
                   )}`}
                 >
-                  {getPlatformIcon(video.platform)}
-                  {video.platform.charAt(0).toUpperCase() + video.platform.slice(1)}
+                  <PlatformIcon platform={video.platform} className="w-5 h-5" />
+                  {platformRegistry.find(video.platform)?.branding.name ?? video.platform}
                 </span>
                 <span className="text-white font-medium">
                   {video.author}
@@ -933,6 +1047,16 @@ const VideoDetail = () => {
                 <span className="px-3 py-1 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 rounded-full text-xs font-medium uppercase">
                   {video.format}
                 </span>
+                {video.audioBitrate && (
+                  <span className="px-3 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-full text-xs font-medium">
+                    {video.audioBitrate} kbps
+                  </span>
+                )}
+                {video.clipStart !== undefined && (
+                  <span className="px-3 py-1 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 rounded-full text-xs font-medium">
+                    Clip {formatTimecode(video.clipStart)}–{video.clipEnd !== undefined ? formatTimecode(video.clipEnd) : 'end'}
+                  </span>
+                )}
               </div>
 
               {/* Description */}
@@ -1151,24 +1275,34 @@ const VideoDetail = () => {
                         </div>
                       </button>
 
-                      <button
-                        onClick={handleExportTranscript}
-                        disabled={exporting || !transcript}
-                        className="w-full px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700
-                                 transition-colors duration-200 flex items-center gap-3
-                                 disabled:opacity-50 disabled:cursor-not-allowed border-t
-                                 border-gray-200 dark:border-gray-700"
-                      >
-                        <FileText className="w-5 h-5 text-green-600 dark:text-green-400" />
-                        <div>
-                          <div className="font-medium text-white">
-                            Export Transcript
-                          </div>
-                          <div className="text-xs text-gray-300">
-                            {transcript ? 'Download as TXT file' : 'No transcript available'}
+                      <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+                        <div className="flex items-center gap-3">
+                          <FileText className="w-5 h-5 text-green-600 dark:text-green-400" />
+                          <div>
+                            <div className="font-medium text-white">
+                              Export Transcript
+                            </div>
+                            <div className="text-xs text-gray-300">
+                              {transcript ? 'Download as text or subtitles' : 'No transcript available'}
+                            </div>
                           </div>
                         </div>
-                      </button>
+                        <div className="grid grid-cols-4 gap-2 mt-3">
+                          {(Object.keys(SUBTITLE_FORMATS) as SubtitleFormat[]).map((format) => (
+                            <button
+                              key={format}
+                              onClick={() => handleExportTranscript(format)}
+                              disabled={exporting || !transcript}
+                              title={SUBTITLE_FORMATS[format].label}
+                              className="px-2 py-1.5 text-xs font-semibold text-white bg-gray-700 hover:bg-gray-600
+                                       rounded transition-colors duration-200
+                                       disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {SUBTITLE_FORMATS[format].extension.toUpperCase()}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
                     </div>
                   )}
                 </div>
@@ -1205,6 +1339,13 @@ const VideoDetail = () => {
                 </button>
               </div>
             </div>
+
+            {/* Watch Together */}
+            <WatchTogetherPanel
+              video={video}
+              videoRef={videoRef}
+              initialRoomCode={searchParams.get('room')}
+            />
           </div>
         </div>
       </div>
@@ -1214,10 +1355,23 @@ const VideoDetail = () => {
         <ShareModal
           isOpen={showShareModal}
           onClose={() => setShowShareModal(false)}
-          video={video}
+          videoTitle={video.title}
+          videoDescription={video.description}
+          videoUrl={video.url}
+          shareUrl={window.location.origin + `/video/${video.id}`}
+          videoId={video.id}
         />
       )}
 
+      {/* Subtitle Import Modal */}
+      <SubtitleImportModal
+        isOpen={showSubtitleImport}
+        onClose={() => setShowSubtitleImport(false)}
+        onImport={handleImportSubtitles}
+        duration={video.duration}
+        hasTranscript={!!transcript}
+      />
+
       {/* Clip Extractor */}
       {showClipExtractor && (
         <ClipExtractor
@@ -1234,9 +1388,9 @@ const VideoDetail = () => {
       {/* Delete Confirmation Modal */}
       <ConfirmModal
         isOpen={showDeleteModal}
-        title="Delete Video?"
-        message={`This will permanently delete "${video.title}" from your library. This action cannot be undone.`}
-        confirmText="Delete"
+        title="Move to Trash?"
+        message={`"${video.title}" will be moved to the Trash. You can restore it from there until it is deleted permanently.`}
+        confirmText="Move to Trash"
         cancelText="Cancel"
         onConfirm={handleDelete}
         onCancel={() => {
@@ -1,5 +1,6 @@
 import { FFmpeg } from '@ffmpeg/ffmpeg';
 import { fetchFile } from '@ffmpeg/util';
+import type { ClipRange } from '../types';
 
 /**
  * Audio metadata interface
@@ -17,6 +18,12 @@ export interface AudioMetadata {
  */
 export type ProgressCallback = (progress: { ratio: number; time: number }) => void;
 
+// Input options that seek to a clip: -ss start [-t duration]
+const clipInputArgs = (clip: ClipRange): string[] => [
+  '-ss', clip.start.toString(),
+  ...(clip.end !== undefined ? ['-t', (clip.end - clip.start).toString()] : []),
+];
+
 /**
  * Audio Extractor Service
  * 
@@ -43,6 +50,8 @@ class AudioExtractor {
   private isInitialized: boolean = false;
   private isInitializing: boolean = false;
   private initPromise: Promise<void> | null = null;
+  // Settles when the FFmpeg job ahead of the last queued one is done
+  private queue: Promise<void> = Promise.resolve();
 
   /**
    * Initialize FFmpeg instance (lazy loading)
@@ -123,6 +132,23 @@ class AudioExtractor {
     }
   }
 
+  /**
+   * Wait until no other job is using FFmpeg
+   * Jobs share one instance, its virtual files and its progress events, so they
+   * run one at a time in the order they asked.
+   *
+   * @returns Function that lets the next job run; call it when done with FFmpeg
+   */
+  private async lock(): Promise<() => void> {
+    const previous = this.queue;
+    let release!: () => void;
+    this.queue = new Promise((resolve) => {
+      release = resolve;
+    });
+    await previous;
+    return release;
+  }
+
   /**
    * Extract audio from a video blob and convert to MP3
    * 
@@ -153,14 +179,16 @@ class AudioExtractor {
 
     const inputFileName = 'input.mp4';
     const outputFileName = 'output.mp3';
+    // progress is 0-1, time is in milliseconds
+    const handleProgress = ({ progress, time }: { progress: number; time: number }) => {
+      onProgress?.({ ratio: progress, time });
+    };
+    const release = await this.lock();
 
     try {
       // Set up progress tracking
       if (onProgress) {
-        this.ffmpeg.on('progress', ({ progress, time }) => {
-          // progress is 0-1, time is in milliseconds
-          onProgress({ ratio: progress, time });
-        });
+        this.ffmpeg.on('progress', handleProgress);
       }
 
       // Write video blob to FFmpeg's virtual file system
@@ -222,6 +250,9 @@ class AudioExtractor {
       }
       
       throw new Error('An unexpected error occurred while extracting audio');
+    } finally {
+      this.ffmpeg.off('progress', handleProgress);
+      release();
     }
   }
 
@@ -246,6 +277,7 @@ class AudioExtractor {
     }
 
     const inputFileName = 'input_metadata.mp3';
+    const release = await this.lock();
 
     try {
       // Write audio blob to virtual file system
@@ -286,6 +318,8 @@ class AudioExtractor {
       throw new Error(
         `Failed to get audio metadata: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
+    } finally {
+      release();
     }
   }
 
@@ -327,13 +361,15 @@ class AudioExtractor {
 
     const inputFileName = 'input_trim.mp3';
     const outputFileName = 'output_trim.mp3';
+    const handleProgress = ({ progress, time }: { progress: number; time: number }) => {
+      onProgress?.({ ratio: progress, time });
+    };
+    const release = await this.lock();
 
     try {
       // Set up progress tracking
       if (onProgress) {
-        this.ffmpeg.on('progress', ({ progress, time }) => {
-          onProgress({ ratio: progress, time });
-        });
+        this.ffmpeg.on('progress', handleProgress);
       }
 
       // Write audio blob to virtual file system
@@ -382,6 +418,220 @@ class AudioExtractor {
       throw new Error(
         `Failed to trim audio: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
+    } finally {
+      this.ffmpeg.off('progress', handleProgress);
+      release();
+    }
+  }
+
+  /**
+   * Remux stream segments into a single MP4 file without re-encoding
+   *
+   * @param tracks - Concatenated segments of each track; with two tracks, the
+   *                 video is taken from the first and the audio from the second
+   * @param onProgress - Optional callback for progress updates
+   * @returns Promise that resolves to the MP4 Blob
+   * @throws Error if remuxing fails
+   *
+   * @example
+   * ```typescript
+   * // fMP4 video and audio renditions of a DASH stream
+   * const video = await extractor.remuxToMp4([
+   *   { data: videoBlob, transportStream: false },
+   *   { data: audioBlob, transportStream: false },
+   * ]);
+   * ```
+   */
+  async remuxToMp4(
+    tracks: Array<{ data: Blob; transportStream: boolean }>,
+    onProgress?: ProgressCallback
+  ): Promise<Blob> {
+    await this.ensureInitialized();
+
+    if (!this.ffmpeg) {
+      throw new Error('FFmpeg is not initialized');
+    }
+
+    if (tracks.length === 0 || tracks.length > 2) {
+      throw new Error('Remuxing needs one or two tracks');
+    }
+
+    const inputFileNames = tracks.map(
+      (track, index) => `input_remux_${index}.${track.transportStream ? 'ts' : 'mp4'}`
+    );
+    const outputFileName = 'output_remux.mp4';
+    const handleProgress = ({ progress, time }: { progress: number; time: number }) => {
+      onProgress?.({ ratio: progress, time });
+    };
+    const release = await this.lock();
+
+    try {
+      if (onProgress) {
+        this.ffmpeg.on('progress', handleProgress);
+      }
+
+      for (let i = 0; i < tracks.length; i++) {
+        await this.ffmpeg.writeFile(inputFileNames[i], await fetchFile(tracks[i].data));
+      }
+
+      // -c copy: keep the encoded streams as they are
+      // -movflags +faststart: put the index first so playback can start before the file is read
+      const args: string[] = inputFileNames.flatMap((name) => ['-i', name]);
+      if (tracks.length === 2) {
+        args.push('-map', '0:v:0', '-map', '1:a:0');
+      }
+      args.push('-c', 'copy', '-movflags', '+faststart', '-y', outputFileName);
+
+      const exitCode = await this.ffmpeg.exec(args);
+      if (exitCode !== 0) {
+        throw new Error(`FFmpeg exited with code ${exitCode}`);
+      }
+
+      const outputData = await this.ffmpeg.readFile(outputFileName);
+
+      for (const name of inputFileNames) {
+        await this.ffmpeg.deleteFile(name);
+      }
+      await this.ffmpeg.deleteFile(outputFileName);
+
+      // readFile returns binary data unless an encoding is given
+      return new Blob([outputData as Uint8Array<ArrayBuffer>], { type: 'video/mp4' });
+    } catch (error) {
+      for (const name of [...inputFileNames, outputFileName]) {
+        try {
+          await this.ffmpeg.deleteFile(name);
+        } catch {
+          // Not written yet
+        }
+      }
+
+      console.error('[AudioExtractor] Error remuxing stream:', error);
+      throw new Error(
+        `Failed to combine the stream into an MP4 file: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      this.ffmpeg.off('progress', handleProgress);
+      release();
+    }
+  }
+
+  /**
+   * Cut a video file to a time range without re-encoding
+   * Without re-encoding, the clip starts at the keyframe at or before the start time.
+   *
+   * @param videoBlob - The video file as a Blob
+   * @param clip - Part of the video to keep, in seconds
+   * @param onProgress - Optional callback for progress updates
+   * @returns Promise that resolves to the MP4 clip
+   * @throws Error if cutting fails
+   *
+   * @example
+   * ```typescript
+   * // Keep 1:30 to 2:00
+   * const clip = await extractor.trimVideo(videoBlob, { start: 90, end: 120 });
+   * ```
+   */
+  async trimVideo(videoBlob: Blob, clip: ClipRange, onProgress?: ProgressCallback): Promise<Blob> {
+    const outputData = await this.runWithFiles(
+      videoBlob,
+      'input_clip.mp4',
+      'output_clip.mp4',
+      // -ss before -i seeks the input, so the whole file is not decoded up to the start
+      (input, output) => [
+        ...clipInputArgs(clip), '-i', input,
+        '-map', '0', '-c', 'copy', '-avoid_negative_ts', 'make_zero', '-movflags', '+faststart', '-y', output,
+      ],
+      onProgress
+    ).catch((error) => {
+      console.error('[AudioExtractor] Error cutting video:', error);
+      throw new Error(`Failed to cut the clip: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+
+    return new Blob([outputData], { type: 'video/mp4' });
+  }
+
+  /**
+   * Encode an audio or video file to MP3 at a constant bitrate
+   *
+   * @param mediaBlob - The audio or video file as a Blob
+   * @param bitrate - MP3 bitrate in kbps (e.g., 320, 192 or 128)
+   * @param clip - Optional part of the file to keep, in seconds
+   * @param onProgress - Optional callback for progress updates
+   * @returns Promise that resolves to the MP3 Blob
+   * @throws Error if encoding fails
+   *
+   * @example
+   * ```typescript
+   * const mp3 = await extractor.convertToMp3(audioBlob, 192);
+   * ```
+   */
+  async convertToMp3(
+    mediaBlob: Blob,
+    bitrate: number,
+    clip?: ClipRange,
+    onProgress?: ProgressCallback
+  ): Promise<Blob> {
+    const outputData = await this.runWithFiles(
+      mediaBlob,
+      'input_convert',
+      'output_convert.mp3',
+      (input, output) => [
+        ...(clip ? clipInputArgs(clip) : []), '-i', input,
+        '-vn', '-acodec', 'libmp3lame', '-b:a', `${bitrate}k`, '-y', output,
+      ],
+      onProgress
+    ).catch((error) => {
+      console.error('[AudioExtractor] Error encoding MP3:', error);
+      throw new Error(`Failed to encode the MP3: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+
+    return new Blob([outputData], { type: 'audio/mpeg' });
+  }
+
+  /**
+   * Write a file, run FFmpeg on it and read the output, cleaning up the virtual files
+   */
+  private async runWithFiles(
+    input: Blob,
+    inputFileName: string,
+    outputFileName: string,
+    buildArgs: (input: string, output: string) => string[],
+    onProgress?: ProgressCallback
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    await this.ensureInitialized();
+
+    if (!this.ffmpeg) {
+      throw new Error('FFmpeg is not initialized');
+    }
+
+    const handleProgress = ({ progress, time }: { progress: number; time: number }) => {
+      onProgress?.({ ratio: progress, time });
+    };
+    const release = await this.lock();
+
+    try {
+      if (onProgress) {
+        this.ffmpeg.on('progress', handleProgress);
+      }
+
+      await this.ffmpeg.writeFile(inputFileName, await fetchFile(input));
+      const exitCode = await this.ffmpeg.exec(buildArgs(inputFileName, outputFileName));
+      if (exitCode !== 0) {
+        throw new Error(`FFmpeg exited with code ${exitCode}`);
+      }
+
+      // readFile returns binary data unless an encoding is given
+      return (await this.ffmpeg.readFile(outputFileName)) as Uint8Array<ArrayBuffer>;
+    } finally {
+      this.ffmpeg.off('progress', handleProgress);
+      for (const name of [inputFileName, outputFileName]) {
+        try {
+          await this.ffmpeg.deleteFile(name);
+        } catch {
+          // Not written
+        }
+      }
+      release();
     }
   }
 
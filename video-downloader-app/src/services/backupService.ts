@@ -0,0 +1,462 @@
+import { db } from '../db/database';
+import { storageService } from './storageService';
+import { mediaStore } from './mediaStore';
+import { StorageQuotaError } from './storageManager';
+import { ZipWriter, readZipEntries, getZipEntryBlob, crc32Blob } from '../utils/zipArchive';
+import { toTranscript } from '../utils/transcriptParser';
+import type { ZipEntry, ZipSink } from '../utils/zipArchive';
+import type {
+  Video,
+  Collection,
+  BackupManifest,
+  BackupPreferences,
+  BackupProgress,
+  BackupVideoEntry,
+  RestoreJob,
+  RestoreMode,
+  RestoreResult,
+  Transcript,
+} from '../types';
+import type { TagGroup, TagGroupAssignment } from '../types/tag.types';
+
+const BACKUP_FORMAT = 'video-downloader-backup';
+/** Current backup format version; archives from newer versions are rejected */
+const BACKUP_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const DATA_PATHS = {
+  videos: 'data/videos.json',
+  collections: 'data/collections.json',
+  tagGroups: 'data/tag-groups.json',
+  preferences: 'data/preferences.json',
+};
+
+/**
+ * Backup archive that has been opened and validated
+ */
+export interface BackupArchive {
+  file: Blob;
+  manifest: BackupManifest;
+  entries: Map<string, ZipEntry>;
+  /** Unfinished restore of this backup, if one was interrupted */
+  pendingJob: RestoreJob | null;
+}
+
+type SaveFilePicker = (options?: {
+  suggestedName?: string;
+  types?: Array<{ description: string; accept: Record<string, string[]> }>;
+}) => Promise<FileSystemFileHandle>;
+
+type ProgressCallback = (progress: BackupProgress) => void;
+
+const invalid = (reason: string): Error => new Error(`Invalid backup: ${reason}`);
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Read and parse a JSON entry, checking it was not corrupted
+async function readJsonEntry<T>(archive: Pick<BackupArchive, 'file' | 'entries'>, path: string): Promise<T> {
+  const entry = archive.entries.get(path);
+  if (!entry) {
+    throw invalid(`${path} is missing`);
+  }
+  const blob = await getZipEntryBlob(archive.file, entry);
+  if ((await crc32Blob(blob)) !== entry.crc32) {
+    throw invalid(`${path} is corrupt`);
+  }
+  try {
+    return JSON.parse(await blob.text()) as T;
+  } catch {
+    throw invalid(`${path} is not valid JSON`);
+  }
+}
+
+// Check the manifest describes a backup this version can restore
+function validateManifest(manifest: unknown, entries: Map<string, ZipEntry>): BackupManifest {
+  if (typeof manifest !== 'object' || manifest === null) {
+    throw invalid('manifest is not an object');
+  }
+  const candidate = manifest as Partial<BackupManifest>;
+  if (candidate.format !== BACKUP_FORMAT) {
+    throw invalid('not a Video Downloader backup');
+  }
+  if (typeof candidate.version !== 'number' || !Number.isInteger(candidate.version) || candidate.version < 1) {
+    throw invalid('unknown backup version');
+  }
+  if (candidate.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Update the app to restore it.');
+  }
+  if (typeof candidate.backupId !== 'string' || !candidate.backupId) {
+    throw invalid('backup ID is missing');
+  }
+  if (!Array.isArray(candidate.videos) || !candidate.data) {
+    throw invalid('manifest is incomplete');
+  }
+
+  for (const path of Object.values(candidate.data)) {
+    if (typeof path !== 'string' || !entries.has(path)) {
+      throw invalid(`${path} is missing`);
+    }
+  }
+  for (const video of candidate.videos as BackupVideoEntry[]) {
+    if (typeof video?.id !== 'string') {
+      throw invalid('manifest lists a video without an ID');
+    }
+    for (const path of [video.mediaPath, video.thumbnailPath]) {
+      if (path && !entries.has(path)) {
+        throw invalid(`${path} is missing`);
+      }
+    }
+  }
+
+  return candidate as BackupManifest;
+}
+
+const reviveVideo = (video: Video): Video => ({
+  ...video,
+  downloadDate: new Date(video.downloadDate),
+  lastWatchedAt: video.lastWatchedAt ? new Date(video.lastWatchedAt) : undefined,
+  // Backups made before transcripts had cues hold the transcript text
+  transcript: toTranscript(video.transcript as Transcript | string | null, video.duration || 0),
+});
+
+const reviveCollection = (collection: Collection): Collection => ({
+  ...collection,
+  createdDate: new Date(collection.createdDate),
+  modifiedDate: new Date(collection.modifiedDate),
+});
+
+/**
+ * Backup service for complete library archives
+ *
+ * A backup is a zip archive with a manifest.json, the video files (stored once per
+ * content hash), thumbnails and JSON files for video metadata, collections, tag
+ * groups and preferences. Archives are written and read entry by entry, so video
+ * files are never loaded into memory all at once.
+ */
+export const backupService = {
+  /**
+   * Write a backup of the whole library to a sink
+   * @param sink - Receives the archive bytes in order
+   * @param preferences - App preferences to include
+   * @param onProgress - Called after each video
+   * @returns Promise that resolves to the manifest of the written backup
+   */
+  async createBackup(
+    sink: ZipSink,
+    preferences: BackupPreferences,
+    onProgress?: ProgressCallback
+  ): Promise<BackupManifest> {
+    const writer = new ZipWriter(sink);
+    const videos = await storageService.getAllVideos();
+    const writtenMedia = new Set<string>();
+    const entries: BackupVideoEntry[] = [];
+    const videoRecords: Video[] = [];
+    let mediaBytes = 0;
+
+    for (const [index, video] of videos.entries()) {
+      onProgress?.({ current: index, total: videos.length, label: video.title });
+      const entry: BackupVideoEntry = { id: video.id, title: video.title };
+      const record: Video = { ...video };
+
+      try {
+        const blob = await storageService.getVideoBlob(video.id);
+        const hash = video.mediaHash || (await mediaStore.hashBlob(blob));
+        entry.mediaHash = hash;
+        entry.mediaPath = `media/${hash}`;
+        if (!writtenMedia.has(hash)) {
+          await writer.addFile(entry.mediaPath, blob);
+          writtenMedia.add(hash);
+          mediaBytes += blob.size;
+        }
+      } catch (error) {
+        console.error(`[Backup Service] Video file for ${video.id} is unavailable:`, error);
+      }
+
+      // Inline thumbnails are stored as image files; blob: URLs don't survive a reload
+      if (video.thumbnail.startsWith('data:')) {
+        entry.thumbnailPath = `thumbnails/${video.id}`;
+        await writer.addFile(entry.thumbnailPath, await (await fetch(video.thumbnail)).blob());
+        record.thumbnail = '';
+      } else if (video.thumbnail.startsWith('blob:')) {
+        record.thumbnail = '';
+      }
+
+      entries.push(entry);
+      videoRecords.push(record);
+    }
+
+    onProgress?.({ current: videos.length, total: videos.length, label: 'Library data' });
+    const [collections, tagGroups, tagGroupAssignments] = await Promise.all([
+      db.collections.toArray(),
+      db.tagGroups.toArray(),
+      db.tagGroupAssignments.toArray(),
+    ]);
+
+    await writer.addFile(DATA_PATHS.videos, JSON.stringify(videoRecords));
+    await writer.addFile(DATA_PATHS.collections, JSON.stringify(collections));
+    await writer.addFile(DATA_PATHS.tagGroups, JSON.stringify({ groups: tagGroups, assignments: tagGroupAssignments }));
+    await writer.addFile(DATA_PATHS.preferences, JSON.stringify(preferences));
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      backupId: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      videos: entries,
+      data: DATA_PATHS,
+      mediaBytes,
+    };
+    await writer.addFile(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+    await writer.finish();
+
+    console.log(`[Backup Service] Backup ${manifest.backupId} created with ${entries.length} videos`);
+    return manifest;
+  },
+
+  /**
+   * Create a backup and save it as a file
+   * Streams straight to disk where the browser supports the File System Access API,
+   * otherwise the archive is assembled from disk-backed blobs and downloaded.
+   * @param preferences - App preferences to include
+   * @param onProgress - Called after each video
+   * @returns Promise that resolves to the manifest of the saved backup
+   * @throws AbortError if the user cancels choosing a file
+   */
+  async saveBackup(preferences: BackupPreferences, onProgress?: ProgressCallback): Promise<BackupManifest> {
+    const suggestedName = `video-downloader-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+    const showSaveFilePicker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+
+    if (showSaveFilePicker) {
+      const handle = await showSaveFilePicker({
+        suggestedName,
+        types: [{ description: 'Video Downloader backup', accept: { 'application/zip': ['.zip'] } }],
+      });
+      const writable = await handle.createWritable();
+      try {
+        const manifest = await this.createBackup((part) => writable.write(part), preferences, onProgress);
+        await writable.close();
+        return manifest;
+      } catch (error) {
+        await writable.abort();
+        throw error;
+      }
+    }
+
+    const parts: Array<Blob | Uint8Array<ArrayBuffer>> = [];
+    const manifest = await this.createBackup(async (part) => {
+      parts.push(part);
+    }, preferences, onProgress);
+
+    const url = URL.createObjectURL(new Blob(parts, { type: 'application/zip' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = suggestedName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    return manifest;
+  },
+
+  /**
+   * Open a backup archive and validate its manifest
+   * @param file - Backup archive
+   * @returns Promise that resolves to the opened archive
+   * @throws Error describing why the file is not a valid backup
+   */
+  async openBackup(file: Blob): Promise<BackupArchive> {
+    let zipEntries: ZipEntry[];
+    try {
+      zipEntries = await readZipEntries(file);
+    } catch (error) {
+      throw invalid(error instanceof Error ? error.message : 'unreadable archive');
+    }
+
+    const entries = new Map(zipEntries.map((entry) => [entry.name, entry]));
+    const manifest = validateManifest(await readJsonEntry<unknown>({ file, entries }, MANIFEST_PATH), entries);
+    const pendingJob = (await db.restoreJobs.get(manifest.backupId)) || null;
+
+    return { file, manifest, entries, pendingJob };
+  },
+
+  /**
+   * Restore a backup into the library
+   * Progress is saved after each video. Restoring the same backup again in the same
+   * mode resumes where an interrupted restore stopped.
+   * @param archive - Archive from openBackup
+   * @param mode - Merge into or replace the library
+   * @param onProgress - Called before each video
+   * @returns Promise that resolves to the outcome; preferences are returned for the caller to apply
+   * @throws StorageQuotaError if storage runs out (the restore can be resumed after freeing space)
+   */
+  async restoreBackup(archive: BackupArchive, mode: RestoreMode, onProgress?: ProgressCallback): Promise<RestoreResult> {
+    const { manifest } = archive;
+    const pending = await db.restoreJobs.get(manifest.backupId);
+    const job: RestoreJob = pending?.mode === mode
+      ? pending
+      : {
+          backupId: manifest.backupId,
+          mode,
+          libraryCleared: false,
+          completedVideoIds: [],
+          totalVideos: manifest.videos.length,
+          startedAt: new Date(),
+          updatedAt: new Date(),
+        };
+    await db.restoreJobs.put(job);
+
+    if (mode === 'replace' && !job.libraryCleared) {
+      // Trashed videos hold references to the cleared media, so the trash goes with the library
+      await db.transaction(
+        'rw',
+        [
+          db.videos,
+          db.mediaBlobs,
+          db.mediaChunks,
+          db.searchPostings,
+          db.searchDocs,
+          db.collections,
+          db.tagGroups,
+          db.tagGroupAssignments,
+          db.trash,
+          db.transcriptVersions,
+        ],
+        async () => {
+          await Promise.all([
+            db.videos.clear(),
+            db.mediaBlobs.clear(),
+            db.mediaChunks.clear(),
+            db.searchPostings.clear(),
+            db.searchDocs.clear(),
+            db.collections.clear(),
+            db.tagGroups.clear(),
+            db.tagGroupAssignments.clear(),
+            db.trash.clear(),
+            db.transcriptVersions.clear(),
+          ]);
+        }
+      );
+      job.libraryCleared = true;
+      await db.restoreJobs.put(job);
+    }
+
+    const videoRecords = await readJsonEntry<Video[]>(archive, manifest.data.videos);
+    const videosById = new Map(videoRecords.map((video) => [video.id, video]));
+    const completed = new Set(job.completedVideoIds);
+    const result: RestoreResult = {
+      restored: 0,
+      skipped: 0,
+      failed: [],
+      collections: 0,
+      tagGroups: 0,
+      preferences: { settings: null, storagePolicy: null },
+    };
+
+    for (const [index, entry] of manifest.videos.entries()) {
+      if (completed.has(entry.id)) continue;
+      onProgress?.({ current: index, total: manifest.videos.length, label: entry.title });
+
+      try {
+        const record = videosById.get(entry.id);
+        if (!record) {
+          throw new Error('Video metadata is missing from the backup');
+        }
+
+        // Already in the library: kept in merge mode, or restored before an interruption
+        if (await db.videos.get(entry.id)) {
+          result.skipped++;
+        } else {
+          if (!entry.mediaPath) {
+            throw new Error('The backup has no video file for this video');
+          }
+
+          const videoBlob = await getZipEntryBlob(archive.file, archive.entries.get(entry.mediaPath)!);
+          const thumbnail = entry.thumbnailPath
+            ? await blobToDataUrl(await getZipEntryBlob(archive.file, archive.entries.get(entry.thumbnailPath)!))
+            : record.thumbnail;
+
+          const video = reviveVideo(record);
+          await storageService.saveVideo({ ...video, thumbnail, videoBlob });
+
+          const saved = await db.videos.get(entry.id);
+          if (entry.mediaHash && saved?.mediaHash !== entry.mediaHash) {
+            await storageService.deleteVideo(entry.id);
+            throw new Error('The video file in the backup is corrupt');
+          }
+          result.restored++;
+        }
+      } catch (error) {
+        if (error instanceof StorageQuotaError) {
+          throw error;
+        }
+        console.error(`[Backup Service] Error restoring video ${entry.id}:`, error);
+        result.failed.push({
+          id: entry.id,
+          title: entry.title,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      job.completedVideoIds.push(entry.id);
+      job.updatedAt = new Date();
+      await db.restoreJobs.put(job);
+    }
+
+    onProgress?.({ current: manifest.videos.length, total: manifest.videos.length, label: 'Library data' });
+
+    // Collections, tag groups and assignments are idempotent, so they are simply re-applied on resume
+    const collections = await readJsonEntry<Collection[]>(archive, manifest.data.collections);
+    const tagGroupData = await readJsonEntry<{ groups: TagGroup[]; assignments: TagGroupAssignment[] }>(
+      archive,
+      manifest.data.tagGroups
+    );
+
+    await db.transaction('rw', db.collections, db.tagGroups, db.tagGroupAssignments, async () => {
+      for (const collection of collections.map(reviveCollection)) {
+        const existing = mode === 'merge' ? await db.collections.get(collection.id) : undefined;
+        if (existing) {
+          // Keep the library's collection and add the backup's videos to it
+          const videoIds = [...new Set([...existing.videoIds, ...collection.videoIds])];
+          const videoOrder = [...new Set([...(existing.videoOrder || existing.videoIds), ...(collection.videoOrder || collection.videoIds)])];
+          await db.collections.put({ ...existing, videoIds, videoOrder, modifiedDate: new Date() });
+        } else {
+          await db.collections.put(collection);
+        }
+        result.collections++;
+      }
+
+      for (const group of tagGroupData.groups) {
+        if (mode === 'replace' || !(await db.tagGroups.get(group.id))) {
+          await db.tagGroups.put(group);
+          result.tagGroups++;
+        }
+      }
+      for (const assignment of tagGroupData.assignments) {
+        if (mode === 'replace' || !(await db.tagGroupAssignments.get(assignment.tagName))) {
+          await db.tagGroupAssignments.put(assignment);
+        }
+      }
+    });
+
+    result.preferences = await readJsonEntry<BackupPreferences>(archive, manifest.data.preferences);
+    await db.restoreJobs.delete(manifest.backupId);
+
+    console.log(
+      `[Backup Service] Restored backup ${manifest.backupId}: ${result.restored} restored, ` +
+      `${result.skipped} skipped, ${result.failed.length} failed`
+    );
+    return result;
+  },
+
+  /**
+   * Forget an interrupted restore so the backup is restored from the start next time
+   * @param backupId - Backup ID from the manifest
+   */
+  async discardRestoreJob(backupId: string): Promise<void> {
+    await db.restoreJobs.delete(backupId);
+  },
+};
@@ -0,0 +1,33 @@
+import { db } from '../db/database';
+import type { BatchHistory } from '../types';
+
+const MAX_HISTORY_ENTRIES = 10;
+
+/**
+ * Batch queue service
+ * Persists the run history of batch downloads in IndexedDB; the queued
+ * downloads themselves are kept by the download manager
+ */
+export const batchQueueService = {
+  /**
+   * Load batch history, newest first
+   */
+  async loadHistory(): Promise<BatchHistory[]> {
+    return db.batchHistory.orderBy('timestamp').reverse().toArray();
+  },
+
+  /**
+   * Add a finished batch to history, keeping only the most recent entries
+   */
+  async addHistory(entry: BatchHistory): Promise<void> {
+    await db.transaction('rw', db.batchHistory, async () => {
+      await db.batchHistory.put(entry);
+      const staleKeys = await db.batchHistory
+        .orderBy('timestamp')
+        .reverse()
+        .offset(MAX_HISTORY_ENTRIES)
+        .primaryKeys();
+      await db.batchHistory.bulkDelete(staleKeys);
+    });
+  },
+};
@@ -1,51 +1,9 @@
-import type { Collection, CollectionStats, CollectionColorTheme, SmartCollectionRule, Video } from '../types';
+import type { Collection, CollectionStats, CollectionColorTheme, SmartCollectionRule, SmartCollectionRuleType, Video } from '../types';
 import { storageService } from './storageService';
-
-const DB_NAME = 'VideoDownloaderDB';
-const COLLECTION_STORE = 'collections';
-const DB_VERSION = 3; // Increment version for new object store
+import { integrityService } from './integrityService';
+import { db } from '../db/database';
 
 class CollectionService {
-  private db: IDBDatabase | null = null;
-
-  /**
-   * Initialize the IndexedDB database with collections store
-   */
-  async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve();
-      };
-
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Create collections store if it doesn't exist
-        if (!db.objectStoreNames.contains(COLLECTION_STORE)) {
-          const collectionStore = db.createObjectStore(COLLECTION_STORE, { keyPath: 'id' });
-          collectionStore.createIndex('createdDate', 'createdDate', { unique: false });
-          collectionStore.createIndex('modifiedDate', 'modifiedDate', { unique: false });
-          collectionStore.createIndex('isSmart', 'isSmart', { unique: false });
-          collectionStore.createIndex('parentId', 'parentId', { unique: false });
-        }
-      };
-    });
-  }
-
-  /**
-   * Ensure database is initialized
-   */
-  private async ensureDB(): Promise<IDBDatabase> {
-    if (!this.db) {
-      await this.init();
-    }
-    return this.db!;
-  }
-
   /**
    * Create a new collection
    */
@@ -57,8 +15,6 @@ class CollectionService {
     smartRules?: SmartCollectionRule[],
     parentId?: string
   ): Promise<Collection> {
-    const db = await this.ensureDB();
-
     const collection: Collection = {
       id: `collection_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       name,
@@ -80,113 +36,76 @@ class CollectionService {
       collection.videoOrder = collection.videoIds;
     }
 
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([COLLECTION_STORE], 'readwrite');
-      const store = transaction.objectStore(COLLECTION_STORE);
-      const request = store.add(collection);
-
-      request.onsuccess = () => resolve(collection);
-      request.onerror = () => reject(request.error);
-    });
+    await db.collections.add(collection);
+    return collection;
   }
 
   /**
    * Get all collections
    */
   async getAllCollections(): Promise<Collection[]> {
-    const db = await this.ensureDB();
-
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([COLLECTION_STORE], 'readonly');
-      const store = transaction.objectStore(COLLECTION_STORE);
-      const request = store.getAll();
-
-      request.onsuccess = () => {
-        const collections = request.result as Collection[];
-        // Convert date strings back to Date objects
-        collections.forEach(collection => {
-          collection.createdDate = new Date(collection.createdDate);
-          collection.modifiedDate = new Date(collection.modifiedDate);
-        });
-        resolve(collections);
-      };
-      request.onerror = () => reject(request.error);
-    });
+    return db.collections.toArray();
   }
 
   /**
    * Get collection by ID
    */
   async getCollection(id: string): Promise<Collection | null> {
-    const db = await this.ensureDB();
-
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([COLLECTION_STORE], 'readonly');
-      const store = transaction.objectStore(COLLECTION_STORE);
-      const request = store.get(id);
-
-      request.onsuccess = () => {
-        const collection = request.result as Collection | undefined;
-        if (collection) {
-          collection.createdDate = new Date(collection.createdDate);
-          collection.modifiedDate = new Date(collection.modifiedDate);
-          resolve(collection);
-        } else {
-          resolve(null);
-        }
-      };
-      request.onerror = () => reject(request.error);
-    });
+    const collection = await db.collections.get(id);
+    return collection || null;
   }
 
   /**
    * Update collection
    */
   async updateCollection(collection: Collection): Promise<Collection> {
-    const db = await this.ensureDB();
     collection.modifiedDate = new Date();
-
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([COLLECTION_STORE], 'readwrite');
-      const store = transaction.objectStore(COLLECTION_STORE);
-      const request = store.put(collection);
-
-      request.onsuccess = () => resolve(collection);
-      request.onerror = () => reject(request.error);
-    });
+    await db.collections.put(collection);
+    return collection;
   }
 
   /**
    * Delete collection
+   * Nested collections move up to the deleted collection's parent.
    */
   async deleteCollection(id: string): Promise<void> {
-    const db = await this.ensureDB();
-
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([COLLECTION_STORE], 'readwrite');
-      const store = transaction.objectStore(COLLECTION_STORE);
-      const request = store.delete(id);
-
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+    await db.transaction('rw', db.collections, async () => {
+      await integrityService.detachCollection(id);
+      await db.collections.delete(id);
     });
   }
 
   /**
    * Add video to collection
+   * With a source position (the video's position in the playlist the collection was
+   * created from), the video is placed before the first video that comes later in the
+   * playlist, so the collection keeps playlist order whatever order downloads finish in.
    */
-  async addVideoToCollection(collectionId: string, videoId: string): Promise<Collection> {
+  async addVideoToCollection(collectionId: string, videoId: string, sourcePosition?: number): Promise<Collection> {
     const collection = await this.getCollection(collectionId);
     if (!collection) {
       throw new Error('Collection not found');
     }
 
     if (!collection.videoIds.includes(videoId)) {
-      collection.videoIds.push(videoId);
       if (!collection.videoOrder) {
-        collection.videoOrder = [];
+        collection.videoOrder = [...collection.videoIds];
+      }
+
+      if (sourcePosition === undefined) {
+        collection.videoIds.push(videoId);
+        collection.videoOrder.push(videoId);
+      } else {
+        const positions = { ...collection.sourcePositions, [videoId]: sourcePosition };
+        const comesLater = (id: string) => positions[id] !== undefined && positions[id] > sourcePosition;
+        const insertInto = (ids: string[]) => {
+          const index = ids.findIndex(comesLater);
+          ids.splice(index === -1 ? ids.length : index, 0, videoId);
+        };
+        insertInto(collection.videoIds);
+        insertInto(collection.videoOrder);
+        collection.sourcePositions = positions;
       }
-      collection.videoOrder.push(videoId);
     }
 
     return this.updateCollection(collection);
@@ -351,12 +270,25 @@ class CollectionService {
     return this.updateCollection(collection);
   }
 
+  /**
+   * Refresh every smart collection that has a rule of the given type
+   * Runs inside the caller's transaction if there is one (covering videos and collections).
+   */
+  async refreshSmartCollections(ruleType: SmartCollectionRuleType): Promise<void> {
+    const collections = await db.collections
+      .filter(collection => collection.isSmart && !!collection.smartRules?.some(rule => rule.type === ruleType))
+      .toArray();
+
+    for (const collection of collections) {
+      await this.updateSmartCollection(collection.id);
+    }
+  }
+
   /**
    * Get nested collections (children of a parent collection)
    */
   async getNestedCollections(parentId: string): Promise<Collection[]> {
-    const allCollections = await this.getAllCollections();
-    return allCollections.filter(c => c.parentId === parentId);
+    return db.collections.where('parentId').equals(parentId).toArray();
   }
 
   /**
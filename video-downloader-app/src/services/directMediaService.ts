@@ -0,0 +1,228 @@
+import { manifestDownloader } from './manifestDownloader';
+import { resumableDownload } from './resumableDownload';
+import type { ResumableDownloadOptions } from './resumableDownload';
+import type { QualityOption, StreamManifest, StreamRendition } from '../types';
+
+/** How long to wait for the browser to read a media file's metadata */
+const PROBE_TIMEOUT_MS = 10000;
+
+/** File names that say nothing about the video (e.g. .../my-talk/master.m3u8) */
+const GENERIC_FILE_NAMES = new Set(['index', 'master', 'playlist', 'manifest', 'stream', 'video', 'media']);
+
+/**
+ * Video metadata read from a media file or manifest
+ */
+export interface DirectMediaMetadata {
+  title: string; // from the file name
+  host: string; // host name of the URL
+  duration: number; // in seconds, 0 if unknown
+  width: number; // in pixels, 0 if unknown
+  height: number; // in pixels, 0 if unknown
+}
+
+// Title from the last meaningful path segment, without its extension
+function titleFromUrl(url: URL): string {
+  const segments = url.pathname
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
+      }
+    });
+
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const name = segments[i].replace(/\.[a-z0-9]+$/i, '');
+    if (i > 0 && GENERIC_FILE_NAMES.has(name.toLowerCase())) continue;
+    const title = name.replace(/[_-]+/g, ' ').trim();
+    if (title) return title;
+  }
+  return url.hostname;
+}
+
+// Let the browser read a media file's duration and dimensions
+function probeMediaFile(url: string): Promise<{ duration: number; width: number; height: number } | null> {
+  return new Promise((resolve) => {
+    const video = document.createElement('video');
+    const finish = (result: { duration: number; width: number; height: number } | null) => {
+      clearTimeout(timer);
+      video.removeAttribute('src');
+      video.load();
+      resolve(result);
+    };
+    const timer = setTimeout(() => finish(null), PROBE_TIMEOUT_MS);
+
+    video.preload = 'metadata';
+    video.muted = true;
+    video.onloadedmetadata = () =>
+      finish({
+        duration: Number.isFinite(video.duration) ? Math.round(video.duration) : 0,
+        width: video.videoWidth,
+        height: video.videoHeight,
+      });
+    video.onerror = () => finish(null);
+    video.src = url;
+  });
+}
+
+// Size of a file from a HEAD request, 0 if the server does not say (or CORS hides it)
+async function fetchFileSize(url: string): Promise<number> {
+  try {
+    const response = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    return response.ok ? Number(response.headers.get('Content-Length')) || 0 : 0;
+  } catch {
+    return 0;
+  }
+}
+
+// Split an RFC 6381 codecs list (e.g. 'avc1.640028,mp4a.40.2') into its video and audio codec
+function splitCodecs(codecs: string | undefined): { videoCodec?: string; audioCodec?: string } {
+  const list = (codecs || '').split(',').map((codec) => codec.trim()).filter(Boolean);
+  const isAudio = (codec: string) => /^(mp4a|opus|vorbis|flac|ac-3|ec-3)/i.test(codec);
+  return { videoCodec: list.find((codec) => !isAudio(codec)), audioCodec: list.find(isAudio) };
+}
+
+// Renditions offered as qualities: the video renditions, or the audio ones for audio-only streams
+function selectableRenditions(manifest: StreamManifest): StreamRendition[] {
+  const video = manifest.renditions.filter((rendition) => rendition.kind === 'video');
+  return video.length > 0 ? video : manifest.renditions;
+}
+
+// Quality label of each rendition: its height, with the bitrate added where heights repeat
+function renditionLabels(renditions: StreamRendition[]): Map<StreamRendition, string> {
+  const heightCounts = new Map<number, number>();
+  for (const rendition of renditions) {
+    if (rendition.height) {
+      heightCounts.set(rendition.height, (heightCounts.get(rendition.height) || 0) + 1);
+    }
+  }
+
+  const labels = new Map<StreamRendition, string>();
+  renditions.forEach((rendition, index) => {
+    const kbps = Math.round(rendition.bandwidth / 1000);
+    let label: string;
+    if (rendition.height) {
+      label = (heightCounts.get(rendition.height) || 0) > 1 ? `${rendition.height}p ${kbps}k` : `${rendition.height}p`;
+    } else {
+      label = kbps > 0 ? `${kbps} kbps` : `Stream ${index + 1}`;
+    }
+    labels.set(rendition, label);
+  });
+  return labels;
+}
+
+/**
+ * Service for videos on any website: direct media files (MP4, WebM, MOV) and
+ * HLS or DASH streams
+ *
+ * Everything runs in the browser, so the site has to allow cross-origin requests
+ * (CORS). To try it locally, serve a folder with a static server that sends CORS
+ * headers, e.g. `npx http-server ./media --cors`, and paste
+ * http://localhost:8080/clip.mp4 or http://localhost:8080/hls/master.m3u8.
+ */
+export const directMediaService = {
+  /**
+   * Check whether a URL points to an HLS or DASH stream rather than a single file
+   * @param url - Media URL
+   * @returns true for .m3u8 and .mpd URLs
+   */
+  isStream(url: string): boolean {
+    return manifestDownloader.isManifestUrl(url);
+  },
+
+  /**
+   * Get metadata of a media file or stream
+   * @param url - Media URL
+   * @returns Promise that resolves to the metadata; unknown values are 0
+   * @throws Error if a stream manifest cannot be loaded or is not supported
+   */
+  async getVideoMetadata(url: string): Promise<DirectMediaMetadata> {
+    const parsedUrl = new URL(url);
+    const base = { title: titleFromUrl(parsedUrl), host: parsedUrl.hostname };
+
+    if (this.isStream(url)) {
+      const manifest = await manifestDownloader.load(url);
+      const [best] = selectableRenditions(manifest);
+      return { ...base, duration: Math.round(manifest.duration), width: best?.width || 0, height: best?.height || 0 };
+    }
+
+    const probe = await probeMediaFile(url);
+    return { ...base, duration: probe?.duration || 0, width: probe?.width || 0, height: probe?.height || 0 };
+  },
+
+  /**
+   * Get the qualities a media file or stream can be downloaded in
+   * A file has one quality (the original); a stream has one per video rendition.
+   * @param url - Media URL
+   * @param metadata - Metadata from getVideoMetadata
+   * @returns Promise that resolves to the available qualities
+   */
+  async getAvailableQualities(url: string, metadata: DirectMediaMetadata): Promise<QualityOption[]> {
+    if (!this.isStream(url)) {
+      const fileSize = await fetchFileSize(url);
+      return [
+        {
+          resolution: metadata.height ? `${metadata.height}p` : 'Original',
+          width: metadata.width,
+          height: metadata.height,
+          fileSize,
+          exactSize: fileSize > 0,
+          // (bytes * 8 / seconds) / 1000 = kbps
+          bitrate: fileSize && metadata.duration ? Math.round((fileSize * 8) / metadata.duration / 1000) : 0,
+          available: true,
+          recommended: true,
+          label: 'Original file',
+        },
+      ];
+    }
+
+    const manifest = await manifestDownloader.load(url);
+    const renditions = selectableRenditions(manifest);
+    const labels = renditionLabels(renditions);
+    const recommended = renditions.find((rendition) => !rendition.height || rendition.height <= 1080) ?? renditions[0];
+
+    return renditions.map((rendition) => {
+      const audioRendition = manifest.renditions.find((candidate) => candidate.id === rendition.audioRenditionId);
+      const audioBandwidth = audioRendition?.bandwidth || 0;
+      const codecs = splitCodecs(rendition.codecs);
+      return {
+        resolution: labels.get(rendition) || rendition.id,
+        width: rendition.width || 0,
+        height: rendition.height || 0,
+        // (bits per second / 8) * duration in seconds = bytes
+        fileSize: Math.round(((rendition.bandwidth + audioBandwidth) / 8) * manifest.duration),
+        bitrate: Math.round(rendition.bandwidth / 1000),
+        available: true,
+        recommended: rendition === recommended,
+        label: `${(rendition.bandwidth / 1_000_000).toFixed(1)} Mbps`,
+        videoCodec: codecs.videoCodec,
+        audioCodec: codecs.audioCodec ?? splitCodecs(audioRendition?.codecs).audioCodec,
+        fps: rendition.frameRate,
+      };
+    });
+  },
+
+  /**
+   * Download a media file, or a stream remuxed to MP4
+   * @param url - Media URL
+   * @param quality - Quality from getAvailableQualities; ignored for single files
+   * @param options - Abort signal, progress callback and resume key (single files only)
+   * @returns Promise that resolves to the video file
+   * @throws HttpStatusError if the server responds with an error status
+   */
+  async downloadVideo(url: string, quality: string, options: ResumableDownloadOptions = {}): Promise<Blob> {
+    if (!this.isStream(url)) {
+      return resumableDownload.download(url, options);
+    }
+
+    const manifest = await manifestDownloader.load(url, options.signal);
+    const renditions = selectableRenditions(manifest);
+    const labels = renditionLabels(renditions);
+    // Fall back to the best rendition when the quality is not listed (e.g. the stream changed)
+    const rendition = renditions.find((candidate) => labels.get(candidate) === quality) ?? renditions[0];
+
+    return manifestDownloader.download(manifest, rendition.id, options);
+  },
+};
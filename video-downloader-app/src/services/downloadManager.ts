@@ -0,0 +1,544 @@
+import { db } from '../db/database';
+import { getVideoSourceKey } from '../utils/urlParser';
+import { getTransferPercent } from '../utils/streamDownload';
+import { evaluateSchedule, getNetworkConnection, readNetworkConditions } from '../utils/downloadSchedule';
+import type { DownloadConstraints } from '../utils/downloadSchedule';
+import { DownloadError, getRetryDelay, toDownloadError } from '../utils/downloadErrors';
+import { platformRegistry } from './platforms';
+import { storageService } from './storageService';
+import { collectionService } from './collectionService';
+import { batchQueueService } from './batchQueueService';
+import { resumableDownload } from './resumableDownload';
+import { downloadProcessor } from './downloadProcessor';
+import type {
+  BatchHistory,
+  BatchQueueItem,
+  DownloadJob,
+  DownloadJobStatus,
+  DownloadPriority,
+  DownloadWait,
+  TransferProgress,
+} from '../types';
+
+/** Downloads running at the same time unless configured otherwise */
+export const DEFAULT_CONCURRENCY = 2;
+/** Most downloads that may run at the same time */
+export const MAX_CONCURRENCY = 5;
+
+/** Abort reason of a download stopped by pause, which keeps the received bytes */
+const PAUSE_REASON = 'paused';
+/** Abort reason of a download stopped because its window closed or the connection changed */
+const WAIT_REASON = 'waiting';
+
+/** Longest wait between checks of the schedules of waiting downloads */
+const SCHEDULE_CHECK_MS = 30 * 1000;
+
+/** Downloads wait on metered and slow connections unless configured otherwise */
+const DEFAULT_CONSTRAINTS: DownloadConstraints = { windows: [], deferOnMetered: true, deferOnSlow: true };
+
+const PRIORITY_ORDER: Record<DownloadPriority, number> = { high: 0, normal: 1, low: 2 };
+
+/** Statuses of downloads that have not finished */
+const UNFINISHED_STATUSES: DownloadJobStatus[] = ['pending', 'downloading', 'paused'];
+
+/**
+ * Download to queue; the manager fills in its ID, status and progress
+ */
+export type DownloadRequest = Omit<
+  DownloadJob,
+  | 'id'
+  | 'status'
+  | 'stage'
+  | 'progress'
+  | 'error'
+  | 'errorKind'
+  | 'retries'
+  | 'retryAt'
+  | 'libraryVideoId'
+  | 'waiting'
+  | 'createdAt'
+  | 'priority'
+  | 'duplicateAction'
+> &
+  Partial<Pick<DownloadJob, 'priority' | 'duplicateAction'>>;
+
+export type DownloadListener = (jobs: DownloadJob[]) => void;
+
+let jobs: DownloadJob[] = [];
+let loading: Promise<void> | null = null;
+let started = false;
+let concurrency = DEFAULT_CONCURRENCY;
+let constraints = DEFAULT_CONSTRAINTS;
+let scheduleTimer: ReturnType<typeof setTimeout> | null = null;
+const running = new Map<string, AbortController>();
+const transfers = new Map<string, TransferProgress>();
+const listeners = new Set<DownloadListener>();
+
+function notify(): void {
+  const snapshot = [...jobs];
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+// Replace a job with an updated copy, saving it unless only its progress changed
+function updateJob(id: string, changes: Partial<DownloadJob>, persist = true): DownloadJob | undefined {
+  const current = jobs.find((job) => job.id === id);
+  if (!current) return undefined;
+
+  const updated = { ...current, ...changes };
+  jobs = jobs.map((job) => (job.id === id ? updated : job));
+  if (persist) {
+    db.downloads.put(updated).catch((error) => {
+      console.error('[Download Manager] Error saving download:', error);
+    });
+  }
+  notify();
+  return updated;
+}
+
+// Higher priority first, then in the order they were queued
+const compareJobs = (a: DownloadJob, b: DownloadJob): number =>
+  PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+function load(): Promise<void> {
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const saved = await db.downloads.orderBy('createdAt').toArray();
+        // Downloads that were running when the page closed continue from their stored bytes
+        const restored = saved.map((job): DownloadJob =>
+          job.status === 'downloading' ? { ...job, status: 'pending', stage: undefined } : job
+        );
+        await db.downloads.bulkPut(restored.filter((job, index) => job !== saved[index]));
+        jobs = [...restored, ...jobs.filter((job) => !restored.some((item) => item.id === job.id))];
+        notify();
+      } catch (error) {
+        console.error('[Download Manager] Error loading downloads:', error);
+      }
+    })();
+  }
+  return loading;
+}
+
+// Check the download server's health endpoint
+async function isServerRunning(): Promise<boolean> {
+  const proxyUrl = import.meta.env.VITE_YOUTUBE_API_PROXY || 'http://localhost:3000/api/youtube';
+  try {
+    const response = await fetch(`${proxyUrl.replace('/api/youtube', '')}/health`, {
+      method: 'GET',
+      signal: AbortSignal.timeout(2000),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+const toBatchItem = (job: DownloadJob): BatchQueueItem => ({
+  id: job.id,
+  url: job.url,
+  platform: job.platform,
+  status: job.status,
+  progress: job.progress,
+  error: job.error,
+  title: job.title,
+  videoId: job.videoId,
+  libraryVideoId: job.libraryVideoId,
+  collectionId: job.collectionId,
+  collectionPosition: job.collectionPosition,
+});
+
+// Add a batch to the batch history once every download in it has finished
+function recordBatch(batchId: string): void {
+  const batchJobs = jobs.filter((job) => job.batchId === batchId);
+  if (batchJobs.some((job) => UNFINISHED_STATUSES.includes(job.status))) return;
+
+  const entry: BatchHistory = {
+    id: batchId,
+    timestamp: new Date(),
+    total: batchJobs.length,
+    completed: batchJobs.filter((job) => job.status === 'completed').length,
+    failed: batchJobs.filter((job) => job.status === 'failed').length,
+    items: batchJobs.map(toBatchItem),
+  };
+  batchQueueService.addHistory(entry).catch((error) => {
+    console.error('[Download Manager] Error saving batch history:', error);
+  });
+}
+
+function finishJob(id: string, changes: Partial<DownloadJob>): void {
+  const job = updateJob(id, { ...changes, stage: undefined });
+  if (job?.batchId) {
+    recordBatch(job.batchId);
+  }
+}
+
+const sameWait = (a: DownloadWait | undefined, b: DownloadWait | undefined): boolean =>
+  a?.reason === b?.reason && new Date(a?.until ?? 0).getTime() === new Date(b?.until ?? 0).getTime();
+
+// Check the schedules again when the next waiting download may start, or after a while
+function scheduleCheck(): void {
+  if (scheduleTimer) {
+    clearTimeout(scheduleTimer);
+    scheduleTimer = null;
+  }
+
+  const waits = jobs.filter((job) => job.status === 'pending' && job.waiting).map((job) => job.waiting!);
+  if (waits.length === 0) return;
+
+  const delay = Math.min(
+    SCHEDULE_CHECK_MS,
+    ...waits.filter((wait) => wait.until).map((wait) => new Date(wait.until!).getTime() - Date.now())
+  );
+  scheduleTimer = setTimeout(() => {
+    scheduleTimer = null;
+    pump();
+  }, Math.max(delay, 1000));
+}
+
+// Start pending downloads that may run now, highest priority first, until the concurrency
+// limit is reached, and stop running ones whose window has closed or whose connection changed
+function pump(): void {
+  if (!navigator.onLine) return;
+
+  const network = readNetworkConditions();
+  const now = new Date();
+
+  for (const job of jobs.filter((item) => item.status === 'pending' && !running.has(item.id)).sort(compareJobs)) {
+    const wait: DownloadWait | undefined =
+      job.retryAt && new Date(job.retryAt) > now
+        ? { reason: 'retry', until: new Date(job.retryAt) }
+        : (evaluateSchedule(job.schedule, constraints, network, now) ?? undefined);
+    if (!sameWait(wait, job.waiting)) {
+      updateJob(job.id, { waiting: wait });
+    }
+    if (!wait && running.size < concurrency) {
+      runJob(job);
+    }
+  }
+
+  // Processing and saving are left to finish
+  for (const [id, controller] of running) {
+    const job = jobs.find((item) => item.id === id);
+    if (job && (job.stage === 'metadata' || job.stage === 'downloading') && evaluateSchedule(job.schedule, constraints, network, now)) {
+      controller.abort(WAIT_REASON);
+    }
+  }
+
+  scheduleCheck();
+}
+
+async function runJob(queued: DownloadJob): Promise<void> {
+  const { id } = queued;
+  const controller = new AbortController();
+  const { signal } = controller;
+  running.set(id, controller);
+  updateJob(id, { status: 'downloading', stage: 'metadata', error: undefined, waiting: undefined, retryAt: undefined });
+
+  try {
+    const provider = platformRegistry.get(queued.platform);
+    if (provider.capabilities.requiresServer && !(await isServerRunning())) {
+      throw new DownloadError('server-down', 'Download server is not running. Please start the server by running "npm run server" in a terminal.');
+    }
+
+    const [existingCopy] =
+      queued.duplicateAction === 'keep-both' ? [] : await storageService.findVideosBySourceKey(getVideoSourceKey(queued.url));
+    if (existingCopy && queued.duplicateAction === 'skip') {
+      finishJob(id, { status: 'skipped', progress: 100, libraryVideoId: existingCopy.id });
+      return;
+    }
+
+    const metadata = await provider.getMetadata(queued.url);
+    signal.throwIfAborted();
+    updateJob(id, {
+      stage: 'downloading',
+      title: metadata.title || queued.title,
+      thumbnail: metadata.thumbnail || queued.thumbnail,
+    });
+
+    // Platforms without audio-only downloads always deliver video
+    const format = provider.capabilities.audioOnly ? queued.format : 'mp4';
+    const options = queued.options ?? {};
+    const downloaded = await provider.download(
+      { url: queued.url, quality: queued.quality, format, formatId: queued.formatId, audioBitrate: options.audioBitrate },
+      {
+        signal,
+        // Received bytes are kept under the job ID, so a paused download continues where it stopped
+        resumeKey: id,
+        onProgress: (transfer) => {
+          if (signal.aborted) return;
+          transfers.set(id, transfer);
+          const percent = getTransferPercent(transfer);
+          // The transfer is the first 80%; processing and saving take the rest
+          updateJob(id, percent === null ? {} : { progress: Math.round(percent * 0.8) }, false);
+        },
+      }
+    );
+    signal.throwIfAborted();
+    transfers.delete(id);
+
+    updateJob(id, { stage: 'processing', progress: 80 });
+    const videoBlob = downloadProcessor.needsProcessing(downloaded, format, options)
+      ? await downloadProcessor.process(downloaded, format, options, ({ ratio }) => {
+          if (!signal.aborted) {
+            updateJob(id, { progress: 80 + Math.round(Math.min(Math.max(ratio, 0), 1) * 10) }, false);
+          }
+        })
+      : downloaded;
+    signal.throwIfAborted();
+
+    updateJob(id, { stage: 'saving', progress: 90 });
+    const videoData = {
+      url: queued.url,
+      platform: queued.platform,
+      title: metadata.title || 'Untitled Video',
+      description: metadata.description || '',
+      thumbnail: metadata.thumbnail || '',
+      author: metadata.author || 'Unknown',
+      quality: queued.quality,
+      format,
+      ...downloadProcessor.getSavedFields(format, options, metadata.duration || 0),
+      tags: queued.tags,
+      videoBlob,
+      fileSize: videoBlob.size,
+    };
+    const libraryVideoId =
+      existingCopy && queued.duplicateAction === 'replace'
+        ? await storageService.replaceVideo(existingCopy.id, videoData)
+        : await storageService.saveVideo(videoData);
+
+    if (queued.collectionId) {
+      collectionService.addVideoToCollection(queued.collectionId, libraryVideoId, queued.collectionPosition).catch((error) => {
+        console.error('[Download Manager] Error adding video to collection:', error);
+      });
+    }
+
+    finishJob(id, { status: 'completed', progress: 100, libraryVideoId, errorKind: undefined });
+  } catch (error) {
+    if (signal.aborted) {
+      // Paused and waiting downloads keep their bytes; skipped and removed ones were updated by whoever aborted them
+      if (signal.reason === PAUSE_REASON) {
+        updateJob(id, { status: 'paused', stage: undefined });
+      } else if (signal.reason === WAIT_REASON) {
+        updateJob(id, { status: 'pending', stage: undefined });
+      }
+      return;
+    }
+
+    console.error(`[Download Manager] Error downloading ${queued.url}:`, error);
+    const downloadError = toDownloadError(error);
+    const retries = queued.retries ?? 0;
+    const retryDelay = getRetryDelay(downloadError, retries);
+    if (retryDelay !== null) {
+      console.log(`[Download Manager] Retrying ${queued.url} in ${Math.round(retryDelay / 1000)}s (${downloadError.kind})`);
+      updateJob(id, {
+        status: 'pending',
+        stage: undefined,
+        error: downloadError.message,
+        errorKind: downloadError.kind,
+        retries: retries + 1,
+        retryAt: new Date(Date.now() + retryDelay),
+      });
+      return;
+    }
+
+    // An interrupted transfer can continue from the bytes already received
+    const partial = await resumableDownload.getPartial(id).catch(() => undefined);
+    finishJob(id, { status: partial ? 'paused' : 'failed', error: downloadError.message, errorKind: downloadError.kind });
+  } finally {
+    running.delete(id);
+    transfers.delete(id);
+    pump();
+  }
+}
+
+function discardPartial(id: string): void {
+  resumableDownload.discard(id).catch((error) => {
+    console.error('[Download Manager] Error discarding partial download:', error);
+  });
+}
+
+/**
+ * Download manager
+ *
+ * Keeps one queue of downloads in IndexedDB and runs it outside of any page,
+ * so downloads continue across navigation and resume after a reload. Runs a
+ * configurable number of downloads at a time, highest priority first, and
+ * waits while the browser is offline. Downloads can be scheduled for a time
+ * or for the download windows, and wait on metered or slow connections.
+ * Failed downloads are retried with a backoff that depends on the kind of
+ * failure (see utils/downloadErrors).
+ */
+export const downloadManager = {
+  /**
+   * Load the saved queue and start downloading (no-op after the first call)
+   */
+  async start(): Promise<void> {
+    if (!started) {
+      started = true;
+      window.addEventListener('online', () => pump());
+      getNetworkConnection()?.addEventListener('change', () => pump());
+    }
+    await load();
+    pump();
+  },
+
+  /**
+   * Subscribe to changes of the queue; the listener is called right away with the current queue
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: DownloadListener): () => void {
+    listeners.add(listener);
+    listener([...jobs]);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * All downloads in the queue, in the order they were queued
+   */
+  getJobs(): DownloadJob[] {
+    return [...jobs];
+  },
+
+  /**
+   * Bytes received and speed of a running download
+   */
+  getTransfer(id: string): TransferProgress | undefined {
+    return transfers.get(id);
+  },
+
+  getConcurrency(): number {
+    return concurrency;
+  },
+
+  /**
+   * Set how many downloads run at the same time
+   * Running downloads above a lowered limit finish first.
+   */
+  setConcurrency(limit: number): void {
+    concurrency = Math.min(Math.max(Math.round(limit) || DEFAULT_CONCURRENCY, 1), MAX_CONCURRENCY);
+    pump();
+  },
+
+  /**
+   * Set the download windows and the network rules that hold queued downloads back
+   */
+  setConstraints(value: DownloadConstraints): void {
+    constraints = value;
+    pump();
+  },
+
+  /**
+   * Start a waiting download without regard to its schedule, the download windows or the connection
+   */
+  startNow(id: string): void {
+    updateJob(id, { schedule: { ignoreNetwork: true }, waiting: undefined, retryAt: undefined });
+    pump();
+  },
+
+  /**
+   * Add downloads to the queue
+   * @param requests - Downloads to queue, in order
+   * @returns Promise that resolves to the queued downloads
+   */
+  async enqueue(requests: DownloadRequest[]): Promise<DownloadJob[]> {
+    await load();
+
+    const now = Date.now();
+    const queued = requests.map(
+      (request, index): DownloadJob => ({
+        priority: 'normal',
+        duplicateAction: 'skip',
+        ...request,
+        id: `download-${now}-${index}-${Math.random().toString(36).slice(2, 9)}`,
+        status: 'pending',
+        progress: 0,
+        // One millisecond apart, to keep the order they were queued in
+        createdAt: new Date(now + index),
+      })
+    );
+
+    await db.downloads.bulkPut(queued);
+    jobs = [...jobs, ...queued];
+    notify();
+    pump();
+    return queued;
+  },
+
+  /**
+   * Pause a download; a running one keeps the bytes received so far
+   */
+  pause(id: string): void {
+    const controller = running.get(id);
+    if (controller) {
+      controller.abort(PAUSE_REASON);
+    } else if (jobs.some((job) => job.id === id && job.status === 'pending')) {
+      updateJob(id, { status: 'paused', waiting: undefined });
+    }
+  },
+
+  /**
+   * Queue a paused or failed download again; it continues from the bytes already received
+   */
+  resume(id: string): void {
+    const job = jobs.find((item) => item.id === id);
+    if (job?.status === 'paused' || job?.status === 'failed') {
+      updateJob(id, { status: 'pending', error: undefined, errorKind: undefined, retries: 0, retryAt: undefined });
+      pump();
+    }
+  },
+
+  /**
+   * Pause every download that has not finished
+   */
+  pauseAll(): void {
+    jobs.filter((job) => job.status === 'pending' || job.status === 'downloading').forEach((job) => this.pause(job.id));
+  },
+
+  /**
+   * Queue every paused download again
+   */
+  resumeAll(): void {
+    jobs.filter((job) => job.status === 'paused').forEach((job) => this.resume(job.id));
+  },
+
+  /**
+   * Change the priority of a download that has not started
+   */
+  setPriority(id: string, priority: DownloadPriority): void {
+    updateJob(id, { priority });
+    pump();
+  },
+
+  /**
+   * Stop a download and mark it skipped, dropping the bytes received so far
+   */
+  skip(id: string): void {
+    running.get(id)?.abort();
+    discardPartial(id);
+    finishJob(id, { status: 'skipped' });
+  },
+
+  /**
+   * Stop a download and take it out of the queue
+   */
+  async remove(id: string): Promise<void> {
+    running.get(id)?.abort();
+    discardPartial(id);
+    jobs = jobs.filter((job) => job.id !== id);
+    notify();
+    await db.downloads.delete(id);
+  },
+
+  /**
+   * Take completed, failed and skipped downloads out of the queue
+   */
+  async clearFinished(): Promise<void> {
+    const finished = jobs.filter((job) => !UNFINISHED_STATUSES.includes(job.status));
+    finished.forEach((job) => discardPartial(job.id));
+    jobs = jobs.filter((job) => UNFINISHED_STATUSES.includes(job.status));
+    notify();
+    await db.downloads.bulkDelete(finished.map((job) => job.id));
+  },
+};
@@ -0,0 +1,76 @@
+import { audioService } from './audioService';
+import type { ProgressCallback } from './audioService';
+import type { DownloadProcessingOptions, Video, VideoFormat } from '../types';
+
+/** MP3 bitrate in kbps when none was chosen */
+export const DEFAULT_MP3_BITRATE = 192;
+
+/**
+ * Applies the clip range and MP3 bitrate chosen for a download to the
+ * downloaded file, with ffmpeg.wasm, before it is saved to the library
+ */
+export const downloadProcessor = {
+  /**
+   * Check whether a download has to be processed before it is saved
+   * @param blob - Downloaded file
+   * @param format - Format the video is saved in
+   * @param options - Clip range and MP3 bitrate
+   * @returns true if the file has to be cut or encoded
+   */
+  needsProcessing(blob: Blob, format: VideoFormat, options: DownloadProcessingOptions): boolean {
+    // The server sends other audio formats when it cannot encode MP3 itself
+    return Boolean(options.clip) || (format === 'mp3' && blob.type !== 'audio/mpeg');
+  },
+
+  /**
+   * Cut the downloaded file to the clip range and encode MP3s at the chosen bitrate
+   * @param blob - Downloaded file
+   * @param format - Format the video is saved in
+   * @param options - Clip range and MP3 bitrate
+   * @param onProgress - Optional callback for progress updates
+   * @returns Promise that resolves to the file to save
+   * @throws Error if cutting or encoding fails
+   */
+  async process(
+    blob: Blob,
+    format: VideoFormat,
+    options: DownloadProcessingOptions,
+    onProgress?: ProgressCallback
+  ): Promise<Blob> {
+    const { clip } = options;
+
+    if (format === 'mp3') {
+      // An MP3 from the server is already at the requested bitrate; cutting it needs no re-encoding
+      if (blob.type === 'audio/mpeg') {
+        return clip ? audioService.trimAudio(blob, clip.start, clip.end) : blob;
+      }
+      return audioService.convertToMp3(blob, options.audioBitrate ?? DEFAULT_MP3_BITRATE, clip, onProgress);
+    }
+
+    return clip ? audioService.trimVideo(blob, clip, onProgress) : blob;
+  },
+
+  /**
+   * Library fields recording what was saved
+   * @param format - Format the video is saved in
+   * @param options - Clip range and MP3 bitrate
+   * @param duration - Duration of the whole video in seconds
+   * @returns Duration of the saved file, clip bounds and MP3 bitrate
+   */
+  getSavedFields(
+    format: VideoFormat,
+    options: DownloadProcessingOptions,
+    duration: number
+  ): Pick<Video, 'duration' | 'clipStart' | 'clipEnd' | 'audioBitrate'> {
+    const { clip } = options;
+    // A clip without an end runs to the end of the video, if its duration is known
+    const clipEnd = clip ? (clip.end ?? (duration || undefined)) : undefined;
+
+    return {
+      duration: clip ? Math.max(0, (clipEnd ?? duration) - clip.start) : duration,
+      clipStart: clip?.start,
+      clipEnd,
+      audioBitrate: format === 'mp3' ? (options.audioBitrate ?? DEFAULT_MP3_BITRATE) : undefined,
+    };
+  },
+};
@@ -1,5 +1,15 @@
 import axios from 'axios';
+import { HttpStatusError } from '../utils/streamDownload';
 import { parseVideoUrl } from '../utils/urlParser';
+import { DownloadError, toDownloadError } from '../utils/downloadErrors';
+import { resumableDownload } from './resumableDownload';
+import type { ResumableDownloadOptions } from './resumableDownload';
+import { createUntimedTranscript } from '../utils/transcriptParser';
+import type { QualityOption, Transcript } from '../types';
+
+/** Endpoints of the bundled download server (npm run server) */
+const DEFAULT_API_PROXY = 'http://localhost:3000/api/instagram';
+const DEFAULT_DOWNLOAD_PROXY = 'http://localhost:3000/api/instagram/download';
 
 /**
  * Instagram video metadata response interface
@@ -7,6 +17,7 @@ import { parseVideoUrl } from '../utils/urlParser';
 export interface InstagramVideoMetadata {
   postId?: string;
   reelId?: string;
+  title: string; // first line of the caption
   caption: string; // description
   thumbnail: string;
   duration: number; // in seconds, if available
@@ -48,8 +59,8 @@ export const instagramService = {
    */
   isValidInstagramUrl(url: string): boolean {
     const instagramPatterns = [
-      /^https?:\/\/(www\.)?instagram\.com\/(p|reel|tv)\/[a-zA-Z0-9_-]+\/?/i,
-      /^https?:\/\/(www\.)?instagram\.com\/[a-zA-Z0-9_.]+\/(p|reel|tv)\/[a-zA-Z0-9_-]+\/?/i,
+      /^https?:\/\/(www\.)?instagram\.com\/(p|reels?|tv)\/[a-zA-Z0-9_-]+\/?/i,
+      /^https?:\/\/(www\.)?instagram\.com\/[a-zA-Z0-9_.]+\/(p|reels?|tv)\/[a-zA-Z0-9_-]+\/?/i,
     ];
 
     return instagramPatterns.some((pattern) => pattern.test(url));
@@ -75,8 +86,8 @@ export const instagramService = {
 
     // Fallback: extract ID using regex
     const patterns = [
-      /instagram\.com\/(?:p|reel|tv)\/([a-zA-Z0-9_-]+)/i,
-      /instagram\.com\/[^\/]+\/(?:p|reel|tv)\/([a-zA-Z0-9_-]+)/i,
+      /instagram\.com\/(?:p|reels?|tv)\/([a-zA-Z0-9_-]+)/i,
+      /instagram\.com\/[^\/]+\/(?:p|reels?|tv)\/([a-zA-Z0-9_-]+)/i,
     ];
 
     for (const pattern of patterns) {
@@ -101,9 +112,8 @@ export const instagramService = {
   /**
    * Get video metadata from Instagram
    * 
-   * This function requires either:
-   * - Instagram Basic Display API access token in VITE_INSTAGRAM_ACCESS_TOKEN
-   * - A backend proxy endpoint at VITE_INSTAGRAM_API_PROXY (HIGHLY RECOMMENDED)
+   * Uses the backend proxy at VITE_INSTAGRAM_API_PROXY, or the bundled server by default.
+   * With only VITE_INSTAGRAM_ACCESS_TOKEN set, the Instagram Basic Display API is used instead.
    * 
    * @param url - Instagram post or reel URL
    * @returns Promise that resolves to video metadata
@@ -114,7 +124,7 @@ export const instagramService = {
     const isReel = this.isReel(url);
 
     const accessToken = import.meta.env.VITE_INSTAGRAM_ACCESS_TOKEN;
-    const apiProxy = import.meta.env.VITE_INSTAGRAM_API_PROXY;
+    const apiProxy = import.meta.env.VITE_INSTAGRAM_API_PROXY || (accessToken ? undefined : DEFAULT_API_PROXY);
 
     try {
       let response;
@@ -128,7 +138,7 @@ export const instagramService = {
           },
           timeout: 15000,
         });
-      } else if (accessToken) {
+      } else {
         // Use Instagram Basic Display API (limited functionality)
         // Note: This API has very limited access and may not work for all posts
         const apiUrl = 'https://graph.instagram.com/v18.0';
@@ -139,12 +149,6 @@ export const instagramService = {
           },
           timeout: 15000,
         });
-      } else {
-        throw new Error(
-          'Instagram API access token or proxy endpoint not configured. ' +
-          'Please set VITE_INSTAGRAM_ACCESS_TOKEN or VITE_INSTAGRAM_API_PROXY in your .env file. ' +
-          'Note: A backend proxy is highly recommended for Instagram operations.'
-        );
       }
 
       // Parse response based on source
@@ -161,7 +165,8 @@ export const instagramService = {
           const data = error.response.data;
 
           if (status === 404) {
-            throw new Error(
+            throw new DownloadError(
+              'not-found',
               'Post not found. The post may have been deleted, the URL is incorrect, or the account is private.'
             );
           }
@@ -169,17 +174,19 @@ export const instagramService = {
           if (status === 403) {
             // Check for specific error reasons
             if (data?.error?.error_subcode === 2108016) {
-              throw new Error('This account is private. You cannot access posts from private accounts.');
+              throw new DownloadError('private', 'This account is private. You cannot access posts from private accounts.');
             }
             if (data?.error?.code === 10) {
               throw new Error('Access denied. Invalid or expired access token.');
             }
-            throw new Error('Access denied. The post may be private or you lack permission to view it.');
+            throw new DownloadError('private', 'Access denied. The post may be private or you lack permission to view it.');
           }
 
           if (status === 429) {
-            throw new Error(
-              'Rate limit exceeded. Instagram has temporarily restricted access. Please wait before trying again.'
+            throw new DownloadError(
+              'rate-limited',
+              'Rate limit exceeded. Instagram has temporarily restricted access. Please wait before trying again.',
+              Number(error.response.headers['retry-after']) || undefined
             );
           }
 
@@ -187,18 +194,27 @@ export const instagramService = {
             throw new Error('Invalid request. Please check the Instagram URL or post ID.');
           }
 
-          throw new Error(`Instagram API error: ${data?.error?.message || 'Unknown error'}`);
+          throw toDownloadError(
+            new HttpStatusError(
+              status,
+              `Instagram API error: ${data?.details || data?.error?.message || data?.error || 'Unknown error'}`,
+              data?.code
+            )
+          );
         }
 
         if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
-          throw new Error('Request timeout. Please check your internet connection and try again.');
+          throw new DownloadError('network', 'Request timeout. Please check your internet connection and try again.');
         }
 
-        if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-          throw new Error('Network error. Unable to connect to Instagram API or proxy.');
+        if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED' || error.code === 'ERR_NETWORK') {
+          throw new DownloadError(
+            'server-down',
+            'Network error. Unable to connect to Instagram API or proxy. Make sure the server is running ("npm run server").'
+          );
         }
 
-        throw new Error(`Network error: ${error.message}`);
+        throw new DownloadError('network', `Network error: ${error.message}`);
       }
 
       // Re-throw if it's already our custom error
@@ -219,6 +235,7 @@ export const instagramService = {
     return {
       postId: isReel ? undefined : postId,
       reelId: isReel ? postId : undefined,
+      title: this.titleFromCaption(data.caption || '', isReel),
       caption: data.caption || '',
       thumbnail: data.thumbnail_url || data.media_url || '',
       duration: 0, // Instagram API doesn't provide duration
@@ -236,10 +253,12 @@ export const instagramService = {
    */
   parseProxyResponse(data: any, postId: string, isReel: boolean): InstagramVideoMetadata {
     // Backend proxy should return data in this format
+    const caption = data.caption || data.description || '';
     return {
       postId: data.postId || (isReel ? undefined : postId),
       reelId: data.reelId || (isReel ? postId : undefined),
-      caption: data.caption || data.description || '',
+      title: data.title || this.titleFromCaption(caption, isReel),
+      caption,
       thumbnail: data.thumbnail || data.thumbnailUrl || '',
       duration: data.duration || 0,
       author: data.author || data.username || 'Unknown User',
@@ -250,6 +269,62 @@ export const instagramService = {
     };
   },
 
+  /**
+   * Use the first line of a caption as the title
+   * @private
+   */
+  titleFromCaption(caption: string, isReel: boolean): string {
+    const firstLine = caption.split('\n').find((line) => line.trim().length > 0)?.trim() || '';
+    if (!firstLine) {
+      return isReel ? 'Instagram Reel' : 'Instagram Post';
+    }
+    return firstLine.length > 100 ? `${firstLine.substring(0, 97)}...` : firstLine;
+  },
+
+  /**
+   * Get the qualities a post can be downloaded in
+   * Instagram serves a single rendition of each video, so there is only one option.
+   * @param url - Instagram post or reel URL
+   * @param duration - Video duration in seconds, for the size estimate
+   * @returns Promise that resolves to the available quality
+   */
+  async getAvailableQualities(url: string, duration: number = 0): Promise<QualityOption[]> {
+    // Reels are vertical (9:16); feed videos are usually 4:5
+    const isReel = this.isReel(url);
+    const bitrate = 3500;
+
+    return [
+      {
+        resolution: '720p',
+        width: 720,
+        height: isReel ? 1280 : 900,
+        // (bitrate in kbps * 1000 / 8) * duration in seconds = bytes
+        fileSize: Math.round(((bitrate * 1000) / 8) * duration),
+        bitrate,
+        available: true,
+        recommended: true,
+        label: 'Original',
+      },
+    ];
+  },
+
+  /**
+   * Get a transcript for an Instagram video
+   * Instagram has no captions API, so the post caption is used as the transcript.
+   * @param url - Instagram post or reel URL
+   * @returns Promise that resolves to an untimed transcript of the caption
+   * @throws Error if the post has no caption
+   */
+  async getTranscript(url: string): Promise<Transcript> {
+    const metadata = await this.getVideoMetadata(url);
+
+    if (!metadata.caption || metadata.caption.trim().length === 0) {
+      throw new Error('No caption available for this Instagram post');
+    }
+
+    return createUntimedTranscript(metadata.caption, 'captions', metadata.duration);
+  },
+
   /**
    * Download video from Instagram
    * 
@@ -259,76 +334,59 @@ export const instagramService = {
    * - Dynamic content loading requires browser automation
    * - Rate limiting is strictly enforced
    * 
-   * This function REQUIRES a backend proxy that can:
+   * This function uses the bundled server (or VITE_INSTAGRAM_DOWNLOAD_PROXY), a backend proxy that can:
    * - Handle authentication
    * - Bypass CORS restrictions
    * - Use browser automation (Puppeteer/Playwright) if needed
    * - Manage rate limiting
    * 
    * @param url - Instagram post or reel URL
+   * @param options - Abort signal, byte-level progress callback and resume key;
+   *   an interrupted download continues where it stopped
    * @returns Promise that resolves to video blob data
    * @throws Error if download fails
    */
-  async downloadVideo(url: string): Promise<Blob> {
-    const downloadProxy = import.meta.env.VITE_INSTAGRAM_DOWNLOAD_PROXY;
-
-    if (!downloadProxy) {
-      throw new Error(
-        'Instagram download proxy not configured. ' +
-        'Please set VITE_INSTAGRAM_DOWNLOAD_PROXY in your .env file. ' +
-        'Direct download from Instagram is not possible due to CORS restrictions and authentication requirements. ' +
-        'A backend service with browser automation is required.'
-      );
-    }
-
+  async downloadVideo(url: string, options: ResumableDownloadOptions = {}): Promise<Blob> {
+    const downloadProxy = import.meta.env.VITE_INSTAGRAM_DOWNLOAD_PROXY || DEFAULT_DOWNLOAD_PROXY;
     const postId = this.extractPostId(url);
 
-    try {
-      const response = await axios.get(downloadProxy, {
-        params: {
-          url: url,
-          id: postId,
-        },
-        responseType: 'blob',
-        timeout: 300000, // 5 minutes timeout for large files
-        onDownloadProgress: (progressEvent) => {
-          // Progress can be handled by the caller
-          if (progressEvent.total) {
-            const percentCompleted = Math.round(
-              (progressEvent.loaded * 100) / progressEvent.total
-            );
-            // You can emit progress events here if needed
-          }
-        },
-      });
+    const params = new URLSearchParams({ url, id: postId });
 
-      return response.data;
+    try {
+      return await resumableDownload.download(`${downloadProxy}?${params}`, options);
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        if (error.response) {
-          const status = error.response.status;
-          if (status === 404) {
-            throw new Error('Post not found or unavailable for download.');
-          }
-          if (status === 403) {
-            throw new Error(
-              'Access denied. The post may be private, deleted, or you lack permission to download it.'
-            );
-          }
-          if (status === 429) {
-            throw new Error('Rate limit exceeded. Please wait before trying again.');
-          }
-          throw new Error(`Download failed: ${error.response.statusText}`);
-        }
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        throw error;
+      }
 
-        if (error.code === 'ECONNABORTED') {
-          throw new Error('Download timeout. The file may be too large or the connection is slow.');
+      if (error instanceof HttpStatusError) {
+        // The backend server names the kind of failure
+        if (error.code) {
+          throw toDownloadError(error);
+        }
+        if (error.status === 404) {
+          throw new DownloadError('not-found', 'Post not found or unavailable for download.');
+        }
+        if (error.status === 403) {
+          throw new DownloadError(
+            'private',
+            'Access denied. The post may be private, deleted, or you lack permission to download it.'
+          );
         }
+        if (error.status === 429) {
+          throw new DownloadError('rate-limited', 'Rate limit exceeded. Please wait before trying again.', error.retryAfter);
+        }
+        throw toDownloadError(error);
+      }
 
-        throw new Error(`Network error during download: ${error.message}`);
+      if (error instanceof TypeError) {
+        throw new DownloadError(
+          'server-down',
+          'Network error during download. Please make sure the server is running ("npm run server").'
+        );
       }
 
-      throw new Error('An unexpected error occurred during Instagram video download.');
+      throw new DownloadError('unknown', 'An unexpected error occurred during Instagram video download.');
     }
   },
 };
@@ -0,0 +1,120 @@
+import { db } from '../db/database';
+import { searchIndex } from './searchIndex';
+import type { CollectionMembership, SmartCollectionRule } from '../types';
+
+// Whether a smart rule selects exactly this tag (rules match case-insensitively)
+const isRuleForTag = (rule: SmartCollectionRule, tagName: string): boolean =>
+  rule.type === 'tag' && rule.operator === 'equals' && rule.value.toLowerCase() === tagName.toLowerCase();
+
+/**
+ * Integrity service keeping references between videos, tags and collections consistent
+ *
+ * Each function updates everything that refers to the changed item. They do not open
+ * transactions themselves: callers run them inside a transaction that also covers the
+ * change itself, so a failure leaves no half-applied cascade behind.
+ */
+export const integrityService = {
+  /**
+   * Remove a video from every collection it is in
+   * Must be called inside a transaction covering collections.
+   * @param videoId - ID of the video being removed from the library
+   * @returns Promise that resolves to the positions the video had, for restoring it
+   */
+  async detachVideo(videoId: string): Promise<CollectionMembership[]> {
+    const memberships: CollectionMembership[] = [];
+    const collections = await db.collections.filter((collection) => collection.videoIds.includes(videoId)).toArray();
+
+    for (const collection of collections) {
+      memberships.push({
+        collectionId: collection.id,
+        index: collection.videoIds.indexOf(videoId),
+        orderIndex: collection.videoOrder?.indexOf(videoId) ?? -1,
+      });
+      await db.collections.update(collection.id, {
+        videoIds: collection.videoIds.filter((id) => id !== videoId),
+        videoOrder: collection.videoOrder?.filter((id) => id !== videoId),
+        modifiedDate: new Date(),
+      });
+    }
+    return memberships;
+  },
+
+  /**
+   * Replace a tag everywhere it is referenced: on videos, in the tag group
+   * assignments and in smart collection rules
+   * Replacing with a tag that already exists merges the two; replacing with null
+   * deletes the tag. Rules for a deleted tag are kept (they match nothing until the
+   * tag is used again), so restoring the tag restores the smart collections too.
+   * Must be called inside a transaction covering videos, tagGroupAssignments and collections.
+   * @param tagName - Tag to replace
+   * @param replacement - New tag name, or null to delete the tag
+   * @returns Promise that resolves to the IDs of the videos whose tags changed
+   */
+  async replaceTag(tagName: string, replacement: string | null): Promise<string[]> {
+    const videos = await db.videos.filter((video) => !!video.tags?.includes(tagName)).toArray();
+    for (const video of videos) {
+      const tags = video.tags.filter((tag) => tag !== tagName);
+      if (replacement && !tags.includes(replacement)) {
+        tags.splice(video.tags.indexOf(tagName), 0, replacement);
+      }
+      await db.videos.update(video.id, { tags });
+    }
+
+    const assignment = await db.tagGroupAssignments.get(tagName);
+    if (assignment) {
+      await db.tagGroupAssignments.delete(tagName);
+      // A merge keeps the group of the tag merged into
+      if (replacement && !(await db.tagGroupAssignments.get(replacement))) {
+        await db.tagGroupAssignments.put({ tagName: replacement, groupId: assignment.groupId });
+      }
+    }
+
+    if (replacement) {
+      const collections = await db.collections
+        .filter((collection) => !!collection.smartRules?.some((rule) => isRuleForTag(rule, tagName)))
+        .toArray();
+      for (const collection of collections) {
+        await db.collections.update(collection.id, {
+          smartRules: collection.smartRules!.map((rule) =>
+            isRuleForTag(rule, tagName) ? { ...rule, value: replacement } : rule
+          ),
+          modifiedDate: new Date(),
+        });
+      }
+    }
+
+    return videos.map((video) => video.id);
+  },
+
+  /**
+   * Move the children of a collection up to the collection's own parent
+   * Must be called inside a transaction covering collections.
+   * @param collectionId - ID of the collection being removed
+   * @returns Promise that resolves to the IDs of the moved children, for restoring them
+   */
+  async detachCollection(collectionId: string): Promise<string[]> {
+    const collection = await db.collections.get(collectionId);
+    const children = await db.collections.where('parentId').equals(collectionId).toArray();
+
+    for (const child of children) {
+      await db.collections.update(child.id, { parentId: collection?.parentId, modifiedDate: new Date() });
+    }
+    return children.map((child) => child.id);
+  },
+
+  /**
+   * Update the search index for videos changed by a cascade
+   * Call after the transaction has committed. A failed update is only logged;
+   * searchIndex.ensureIndexed() catches up later.
+   * @param videoIds - IDs of the changed videos
+   */
+  async reindexVideos(videoIds: string[]): Promise<void> {
+    const videos = await db.videos.bulkGet(videoIds);
+    for (const video of videos) {
+      if (!video) continue;
+      await searchIndex.indexVideo(video).catch((error) => {
+        console.error('[Integrity Service] Error indexing video:', error);
+      });
+    }
+  },
+};
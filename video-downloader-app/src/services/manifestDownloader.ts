@@ -0,0 +1,242 @@
+import { audioService } from './audioService';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { createTransferMeter, HttpStatusError, toHttpStatusError } from '../utils/streamDownload';
+import type { StreamDownloadOptions } from '../utils/streamDownload';
+import {
+  detectManifestType,
+  isHlsMasterPlaylist,
+  parseDashManifest,
+  parseHlsMasterPlaylist,
+  parseHlsMediaPlaylist,
+} from '../utils/streamManifest';
+import type { StreamManifest, StreamRendition, StreamSegment, StreamTrack } from '../types';
+
+/** Segments fetched at the same time */
+const SEGMENT_CONCURRENCY = 4;
+/** Attempts per segment before the download fails */
+const SEGMENT_ATTEMPTS = 3;
+/** Wait before retrying a segment, multiplied by the attempt number */
+const RETRY_DELAY_MS = 1000;
+
+async function fetchText(url: string, signal?: AbortSignal): Promise<string> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw await toHttpStatusError(response);
+  }
+  return response.text();
+}
+
+// Network failures and server-side errors are worth another attempt
+const isRetryable = (error: unknown): boolean =>
+  error instanceof TypeError || (error instanceof HttpStatusError && (error.status >= 500 || error.status === 429));
+
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+async function fetchSegment(segment: StreamSegment, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const range = segment.byteRange;
+  const headers: Record<string, string> = range ? { Range: `bytes=${range.offset}-${range.offset + range.length - 1}` } : {};
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch(segment.url, { signal, headers });
+      if (!response.ok) {
+        throw await toHttpStatusError(response);
+      }
+      const data = await response.arrayBuffer();
+      // A server that ignores Range sends the whole file
+      return range && response.status === 200 ? data.slice(range.offset, range.offset + range.length) : data;
+    } catch (error) {
+      if (attempt >= SEGMENT_ATTEMPTS || signal?.aborted || !isRetryable(error)) {
+        throw error;
+      }
+      console.warn(`[Stream Download] Segment ${segment.sequence} failed, retrying:`, error);
+      await delay(RETRY_DELAY_MS * attempt, signal);
+    }
+  }
+}
+
+// Without an IV, HLS uses the media sequence number as a 128-bit big-endian integer
+function sequenceIv(sequence: number): Uint8Array<ArrayBuffer> {
+  const iv = new Uint8Array(16);
+  const view = new DataView(iv.buffer);
+  view.setUint32(8, Math.floor(sequence / 2 ** 32));
+  view.setUint32(12, sequence >>> 0);
+  return iv;
+}
+
+// Decrypts AES-128 segments, fetching each key once
+function createDecryptor(signal?: AbortSignal): (segment: StreamSegment, data: ArrayBuffer) => Promise<ArrayBuffer> {
+  const keys = new Map<string, Promise<CryptoKey>>();
+
+  const getKey = (url: string): Promise<CryptoKey> => {
+    let key = keys.get(url);
+    if (!key) {
+      key = fetch(url, { signal })
+        .then(async (response) => {
+          if (!response.ok) {
+            throw await toHttpStatusError(response);
+          }
+          return response.arrayBuffer();
+        })
+        .then((raw) => crypto.subtle.importKey('raw', raw, 'AES-CBC', false, ['decrypt']));
+      keys.set(url, key);
+    }
+    return key;
+  };
+
+  return async (segment, data) => {
+    if (!segment.key) return data;
+    const iv = segment.key.iv ?? sequenceIv(segment.sequence);
+    return crypto.subtle.decrypt({ name: 'AES-CBC', iv }, await getKey(segment.key.url), data);
+  };
+}
+
+/**
+ * HLS and DASH stream downloader
+ *
+ * Loads a manifest, fetches the segments of one rendition (plus its separate
+ * audio rendition, if any) a few at a time, and remuxes them into a single MP4
+ * file with ffmpeg.wasm. Live streams and DRM-protected streams are rejected.
+ */
+export const manifestDownloader = {
+  /**
+   * Check whether a URL points to an HLS playlist or a DASH manifest
+   * @param url - URL to check
+   * @returns true for .m3u8 and .mpd URLs
+   */
+  isManifestUrl(url: string): boolean {
+    try {
+      return /\.(m3u8|mpd)$/i.test(new URL(url).pathname);
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Load and parse a manifest
+   * @param url - Manifest URL
+   * @param signal - Optional abort signal
+   * @returns Promise that resolves to the manifest
+   * @throws HttpStatusError if the manifest cannot be fetched
+   * @throws Error if the file is not a manifest, or the stream is live or DRM-protected
+   */
+  async load(url: string, signal?: AbortSignal): Promise<StreamManifest> {
+    const text = await fetchText(url, signal);
+    const type = detectManifestType(text);
+
+    if (type === 'dash') {
+      return parseDashManifest(text, url);
+    }
+    if (type !== 'hls') {
+      throw new Error('The URL does not point to an HLS playlist or a DASH manifest.');
+    }
+
+    if (!isHlsMasterPlaylist(text)) {
+      // A single rendition
+      const playlist = parseHlsMediaPlaylist(text, url);
+      return {
+        type: 'hls',
+        url,
+        duration: playlist.duration,
+        renditions: [{ id: 'main', kind: 'video', bandwidth: 0, track: playlist.track }],
+      };
+    }
+
+    const renditions = parseHlsMasterPlaylist(text, url);
+    if (renditions.length === 0) {
+      throw new Error('The playlist does not list any renditions.');
+    }
+
+    // The master playlist has no duration; the media playlists do
+    const first = renditions[0];
+    const playlist = parseHlsMediaPlaylist(await fetchText(first.playlistUrl ?? url, signal), first.playlistUrl ?? url);
+    first.track = playlist.track;
+
+    return { type: 'hls', url, duration: playlist.duration, renditions };
+  },
+
+  /**
+   * Get the segments of a rendition, loading its media playlist if needed
+   * @param rendition - Rendition from a loaded manifest
+   * @param signal - Optional abort signal
+   * @returns Promise that resolves to the segments
+   */
+  async resolveTrack(rendition: StreamRendition, signal?: AbortSignal): Promise<StreamTrack> {
+    if (rendition.track) {
+      return rendition.track;
+    }
+    if (!rendition.playlistUrl) {
+      throw new Error(`Rendition "${rendition.id}" has no segments.`);
+    }
+    rendition.track = parseHlsMediaPlaylist(await fetchText(rendition.playlistUrl, signal), rendition.playlistUrl).track;
+    return rendition.track;
+  },
+
+  /**
+   * Download a rendition as an MP4 file
+   * @param manifest - Manifest from load()
+   * @param renditionId - ID of the video rendition to download
+   * @param options - Abort signal and progress callback
+   * @returns Promise that resolves to the MP4 file
+   * @throws HttpStatusError if a segment cannot be fetched after retrying
+   * @throws DOMException (AbortError) if the signal is aborted
+   */
+  async download(manifest: StreamManifest, renditionId: string, options: StreamDownloadOptions = {}): Promise<Blob> {
+    const { signal, onProgress } = options;
+
+    const rendition = manifest.renditions.find((candidate) => candidate.id === renditionId);
+    if (!rendition) {
+      throw new Error('The selected quality is not available anymore.');
+    }
+    const audioRendition = rendition.audioRenditionId
+      ? manifest.renditions.find((candidate) => candidate.id === rendition.audioRenditionId)
+      : undefined;
+    const renditions = audioRendition ? [rendition, audioRendition] : [rendition];
+    const tracks = await Promise.all(renditions.map((item) => this.resolveTrack(item, signal)));
+
+    // Segments do not announce their size; estimate it from the bitrate
+    const bandwidth = renditions.reduce((sum, item) => sum + item.bandwidth, 0);
+    const estimatedBytes = bandwidth > 0 && manifest.duration > 0 ? Math.round((bandwidth * manifest.duration) / 8) : null;
+    const meter = createTransferMeter(estimatedBytes, onProgress);
+    const decrypt = createDecryptor(signal);
+
+    const jobs = tracks.flatMap((track, trackIndex) =>
+      [...(track.init ? [track.init] : []), ...track.segments].map((segment) => ({ trackIndex, segment }))
+    );
+    const parts = await mapWithConcurrency(
+      jobs,
+      SEGMENT_CONCURRENCY,
+      async ({ segment }) => {
+        const data = await decrypt(segment, await fetchSegment(segment, signal));
+        meter.add(data.byteLength);
+        return data;
+      },
+      signal
+    );
+    meter.finish();
+
+    const trackFiles = tracks.map((track, trackIndex) => ({
+      data: new Blob(parts.filter((_, index) => jobs[index].trackIndex === trackIndex)),
+      transportStream: track.transportStream,
+    }));
+
+    // A single MP4 file (e.g. a DASH representation without segments) needs no remuxing
+    const [onlyTrack] = tracks;
+    if (tracks.length === 1 && !onlyTrack.init && onlyTrack.segments.length === 1 && !onlyTrack.transportStream) {
+      return new Blob([trackFiles[0].data], { type: 'video/mp4' });
+    }
+
+    return audioService.remuxToMp4(trackFiles);
+  },
+};
@@ -0,0 +1,181 @@
+import { db } from '../db/database';
+import type { Video } from '../types';
+
+/** Size of the chunks media files are split into */
+export const MEDIA_CHUNK_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Video row as written by schema version 4 and earlier, with the file inline
+ */
+type LegacyVideoRecord = Video & { videoBlob?: Blob };
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// Key range covering every chunk of a file
+const chunkRange = (hash: string): [[string, number], [string, number]] => [[hash, 0], [hash, Infinity]];
+
+/**
+ * Compute the content hash of a blob
+ * The hash is the SHA-256 of the concatenated SHA-256 digests of each chunk,
+ * so large files never have to be read into memory at once
+ */
+async function hashBlob(blob: Blob): Promise<string> {
+  const chunkDigests: Uint8Array[] = [];
+  for (let offset = 0; offset < blob.size; offset += MEDIA_CHUNK_SIZE) {
+    const chunk = await blob.slice(offset, offset + MEDIA_CHUNK_SIZE).arrayBuffer();
+    chunkDigests.push(new Uint8Array(await crypto.subtle.digest('SHA-256', chunk)));
+  }
+
+  const combined = new Uint8Array(chunkDigests.length * 32);
+  chunkDigests.forEach((digest, index) => combined.set(digest, index * 32));
+  return toHex(await crypto.subtle.digest('SHA-256', combined));
+}
+
+/**
+ * Store a blob under its hash, or add a reference if it is already stored
+ * Must be called inside a transaction covering mediaBlobs and mediaChunks
+ */
+async function storeHashedBlob(hash: string, blob: Blob): Promise<void> {
+  const existing = await db.mediaBlobs.get(hash);
+  if (existing) {
+    await db.mediaBlobs.update(hash, { refCount: existing.refCount + 1 });
+    return;
+  }
+
+  const chunks = [];
+  for (let offset = 0, index = 0; offset < blob.size; offset += MEDIA_CHUNK_SIZE, index++) {
+    chunks.push({ hash, index, data: blob.slice(offset, offset + MEDIA_CHUNK_SIZE) });
+  }
+
+  await db.mediaChunks.bulkPut(chunks);
+  await db.mediaBlobs.add({
+    hash,
+    size: blob.size,
+    type: blob.type || 'video/mp4',
+    chunkCount: chunks.length,
+    refCount: 1,
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * Media store for video files
+ * Files are content-addressed (identical files are stored once) and split into
+ * chunks, so video metadata can be queried without touching the files
+ */
+export const mediaStore = {
+  /**
+   * Compute the content hash of a blob
+   * @param blob - Blob to hash
+   * @returns Promise that resolves to the hex-encoded hash
+   */
+  hashBlob,
+
+  /**
+   * Store a blob and add a reference to it
+   * @param blob - Blob to store
+   * @returns Promise that resolves to the content hash identifying the blob
+   */
+  async putBlob(blob: Blob): Promise<string> {
+    const hash = await hashBlob(blob);
+    await db.transaction('rw', db.mediaBlobs, db.mediaChunks, () => storeHashedBlob(hash, blob));
+    return hash;
+  },
+
+  /**
+   * Load a stored blob by its hash
+   * @param hash - Content hash
+   * @returns Promise that resolves to the reassembled blob, or null if it is not stored
+   */
+  async getBlob(hash: string): Promise<Blob | null> {
+    const record = await db.mediaBlobs.get(hash);
+    if (!record) {
+      return null;
+    }
+
+    const [lower, upper] = chunkRange(hash);
+    const chunks = await db.mediaChunks.where('[hash+index]').between(lower, upper, true, true).toArray();
+    if (chunks.length !== record.chunkCount) {
+      console.error(`[Media Store] Blob ${hash} is missing chunks (${chunks.length}/${record.chunkCount})`);
+      return null;
+    }
+
+    return new Blob(chunks.map((chunk) => chunk.data), { type: record.type });
+  },
+
+  /**
+   * Remove a reference to a blob, deleting it when no videos use it anymore
+   * @param hash - Content hash
+   */
+  async releaseBlob(hash: string): Promise<void> {
+    await db.transaction('rw', db.mediaBlobs, db.mediaChunks, async () => {
+      const record = await db.mediaBlobs.get(hash);
+      if (!record) return;
+
+      if (record.refCount > 1) {
+        await db.mediaBlobs.update(hash, { refCount: record.refCount - 1 });
+        return;
+      }
+
+      const [lower, upper] = chunkRange(hash);
+      await db.mediaChunks.where('[hash+index]').between(lower, upper, true, true).delete();
+      await db.mediaBlobs.delete(hash);
+    });
+  },
+
+  /**
+   * Total size of all stored media files in bytes
+   */
+  async getTotalSize(): Promise<number> {
+    let total = 0;
+    await db.mediaBlobs.each((record) => {
+      total += record.size;
+    });
+    return total;
+  },
+
+  /**
+   * Move video files stored inline on video rows (schema version 4 and earlier)
+   * into the media store. Safe to run repeatedly; each video is moved atomically.
+   * @returns Promise that resolves to the number of videos migrated
+   */
+  async migrateInlineMedia(): Promise<number> {
+    const legacyIds = await db.videos
+      .filter((video) => !!(video as LegacyVideoRecord).videoBlob)
+      .primaryKeys();
+    if (legacyIds.length === 0) {
+      return 0;
+    }
+
+    console.log(`[Media Store] Moving ${legacyIds.length} video files into the media store...`);
+    let migrated = 0;
+
+    for (const id of legacyIds) {
+      try {
+        const row = (await db.videos.get(id)) as LegacyVideoRecord | undefined;
+        if (!row?.videoBlob) continue;
+
+        const blob = row.videoBlob;
+        const hash = await hashBlob(blob);
+
+        await db.transaction('rw', db.videos, db.mediaBlobs, db.mediaChunks, async () => {
+          await storeHashedBlob(hash, blob);
+          await db.videos
+            .where('id')
+            .equals(id)
+            .modify((video: LegacyVideoRecord) => {
+              video.mediaHash = hash;
+              delete video.videoBlob;
+            });
+        });
+        migrated++;
+      } catch (error) {
+        console.error(`[Media Store] Error migrating media for video ${id}:`, error);
+      }
+    }
+
+    console.log(`[Media Store] Moved ${migrated} video files into the media store`);
+    return migrated;
+  },
+};
@@ -0,0 +1,60 @@
+import { Globe } from 'lucide-react';
+import { directMediaService } from '../directMediaService';
+import type { PlatformProvider } from '../../types';
+
+/**
+ * Videos on any other website: direct media files and HLS/DASH streams,
+ * downloaded by the browser without the backend server
+ */
+export const genericProvider: PlatformProvider<'generic'> = {
+  id: 'generic',
+  branding: {
+    name: 'Web',
+    icon: Globe,
+    iconClassName: 'text-teal-600 dark:text-teal-400',
+    badgeClassName: 'bg-teal-600',
+    chartColor: '#0D9488',
+  },
+  urlPatterns: [
+    // Any http(s) URL whose path ends in a media or manifest extension; the whole URL is the ID
+    /^(https?:\/\/[^\s?#]+\.(?:mp4|m4v|webm|mov|m3u8|mpd)(?:[?#]\S*)?)$/i,
+  ],
+  capabilities: {
+    audioOnly: false,
+    transcripts: false,
+    // Direct media files continue where they stopped; HLS/DASH streams download their segments again
+    resumableDownloads: true,
+    requiresServer: false,
+    shorts: false,
+  },
+
+  isVertical() {
+    return false;
+  },
+
+  async getMetadata(url) {
+    const metadata = await directMediaService.getVideoMetadata(url);
+    return {
+      url,
+      platform: 'generic',
+      title: metadata.title,
+      description: '',
+      thumbnail: '',
+      duration: metadata.duration,
+      author: metadata.host,
+    };
+  },
+
+  async getAvailableQualities(url) {
+    const metadata = await directMediaService.getVideoMetadata(url);
+    return directMediaService.getAvailableQualities(url, metadata);
+  },
+
+  async download({ url, quality }, options) {
+    return directMediaService.downloadVideo(url, quality, options);
+  },
+
+  async getTranscript() {
+    throw new Error('Transcripts are not available for videos from other websites');
+  },
+};
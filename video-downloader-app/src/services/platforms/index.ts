@@ -0,0 +1,73 @@
+import { youtubeProvider } from './youtubeProvider';
+import { tiktokProvider } from './tiktokProvider';
+import { instagramProvider } from './instagramProvider';
+import { genericProvider } from './genericProvider';
+import type { PlatformProvider } from '../../types';
+
+/**
+ * Registered platforms, in the order URLs are matched against them
+ * To add a platform, implement a PlatformProvider and list it here.
+ * The generic provider matches any media URL, so it stays last.
+ */
+const providers = [youtubeProvider, tiktokProvider, instagramProvider, genericProvider] as const;
+
+/**
+ * IDs of the registered platforms (VideoPlatform)
+ */
+export type RegisteredPlatformId = (typeof providers)[number]['id'];
+
+/**
+ * Platform registry
+ *
+ * Everything platform-specific (URL patterns, metadata, qualities, downloads,
+ * transcripts, branding) is looked up here instead of branching on the platform ID.
+ */
+export const platformRegistry = {
+  /**
+   * Get all registered platforms
+   * @returns Providers in registration order
+   */
+  getAll(): readonly PlatformProvider<RegisteredPlatformId>[] {
+    return providers;
+  },
+
+  /**
+   * Get the provider of a platform
+   * @param id - Platform ID
+   * @returns The provider
+   * @throws Error if no provider is registered for the ID (e.g., a video from a removed platform)
+   */
+  get(id: RegisteredPlatformId): PlatformProvider<RegisteredPlatformId> {
+    const provider = this.find(id);
+    if (!provider) {
+      throw new Error(`Platform "${id}" is not supported.`);
+    }
+    return provider;
+  },
+
+  /**
+   * Find the provider of a platform ID that may not be registered
+   * @param id - Platform ID (e.g., from an imported backup)
+   * @returns The provider, or undefined if there is none
+   */
+  find(id: string): PlatformProvider<RegisteredPlatformId> | undefined {
+    return providers.find((provider) => provider.id === id);
+  },
+
+  /**
+   * Find the platform a URL belongs to
+   * @param url - Video URL
+   * @returns The provider and the video ID from the URL, or null if no platform matches
+   */
+  match(url: string): { provider: PlatformProvider<RegisteredPlatformId>; videoId: string } | null {
+    for (const provider of providers) {
+      for (const pattern of provider.urlPatterns) {
+        const match = url.match(pattern);
+        if (match && match[1]) {
+          return { provider, videoId: match[1] };
+        }
+      }
+    }
+    return null;
+  },
+};
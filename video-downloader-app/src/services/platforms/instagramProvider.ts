@@ -0,0 +1,58 @@
+import { Instagram } from 'lucide-react';
+import { instagramService } from '../instagramService';
+import type { PlatformProvider } from '../../types';
+
+/**
+ * Instagram posts and reels, read from their public embed pages by the backend server
+ */
+export const instagramProvider: PlatformProvider<'instagram'> = {
+  id: 'instagram',
+  branding: {
+    name: 'Instagram',
+    icon: Instagram,
+    iconClassName: 'text-pink-600 dark:text-pink-500',
+    badgeClassName: 'bg-pink-600',
+    chartColor: '#E1306C',
+  },
+  urlPatterns: [
+    // instagram.com/p/SHORTCODE, instagram.com/reel/SHORTCODE, optionally with
+    // the username in front (instagram.com/username/reel/SHORTCODE)
+    /instagram\.com\/(?:[\w.]+\/)?(?:p|reels?|tv)\/([a-zA-Z0-9_-]+)/i,
+  ],
+  capabilities: {
+    audioOnly: false,
+    transcripts: true,
+    resumableDownloads: true,
+    requiresServer: true,
+    shorts: false,
+  },
+
+  isVertical(url) {
+    return instagramService.isReel(url);
+  },
+
+  async getMetadata(url) {
+    const metadata = await instagramService.getVideoMetadata(url);
+    return {
+      url,
+      platform: 'instagram',
+      title: metadata.title,
+      description: metadata.caption,
+      thumbnail: metadata.thumbnail,
+      duration: metadata.duration,
+      author: metadata.author,
+    };
+  },
+
+  async getAvailableQualities(url, metadata) {
+    return instagramService.getAvailableQualities(url, metadata.duration);
+  },
+
+  async download({ url }, options) {
+    return instagramService.downloadVideo(url, options);
+  },
+
+  async getTranscript(url) {
+    return instagramService.getTranscript(url);
+  },
+};
@@ -0,0 +1,76 @@
+import { Music } from 'lucide-react';
+import { tiktokService } from '../tiktokService';
+import type { PlatformProvider } from '../../types';
+
+// TikTok has no titles; use the first line of the caption
+const titleFromDescription = (description: string): string => {
+  const firstLine = description.split('\n')[0].trim();
+  if (!firstLine) return 'TikTok Video';
+  return firstLine.length > 100 ? `${firstLine.slice(0, 97)}...` : firstLine;
+};
+
+/**
+ * TikTok videos, downloaded through the proxy at VITE_TIKTOK_DOWNLOAD_PROXY
+ */
+export const tiktokProvider: PlatformProvider<'tiktok'> = {
+  id: 'tiktok',
+  branding: {
+    name: 'TikTok',
+    icon: Music,
+    iconClassName: 'text-black dark:text-white',
+    badgeClassName: 'bg-black dark:bg-gray-700',
+    chartColor: '#000000',
+  },
+  urlPatterns: [
+    // tiktok.com/@username/video/VIDEO_ID
+    /tiktok\.com\/@[\w.-]+\/video\/(\d+)/i,
+    // Short links: vm.tiktok.com/SHORT_CODE or tiktok.com/t/SHORT_CODE
+    /vm\.tiktok\.com\/([a-zA-Z0-9]+)/i,
+    /tiktok\.com\/t\/([a-zA-Z0-9]+)/i,
+  ],
+  capabilities: {
+    audioOnly: false,
+    transcripts: true,
+    resumableDownloads: true,
+    requiresServer: true,
+    shorts: false,
+  },
+
+  isVertical() {
+    return true;
+  },
+
+  async getMetadata(url) {
+    const metadata = await tiktokService.getVideoMetadata(url);
+    return {
+      url,
+      platform: 'tiktok',
+      title: titleFromDescription(metadata.description),
+      description: metadata.description,
+      thumbnail: metadata.thumbnail,
+      duration: metadata.duration,
+      author: metadata.author,
+    };
+  },
+
+  async getAvailableQualities(url, metadata) {
+    return tiktokService.getAvailableQualities(url, metadata.duration);
+  },
+
+  async download({ url }, options) {
+    return tiktokService.downloadVideo(url, false, options);
+  },
+
+  async getTranscript(url) {
+    return tiktokService.getTranscript(url);
+  },
+
+  async getUploads(source) {
+    return tiktokService.getUploads(source);
+  },
+
+  uploadsSource: {
+    label: 'Creator',
+    placeholder: 'username or tiktok.com/@username',
+  },
+};
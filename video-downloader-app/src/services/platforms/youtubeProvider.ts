@@ -0,0 +1,73 @@
+import { Youtube } from 'lucide-react';
+import { youtubeService } from '../youtubeService';
+import type { PlatformProvider } from '../../types';
+
+/**
+ * YouTube videos and Shorts, downloaded through the backend server (npm run server)
+ */
+export const youtubeProvider: PlatformProvider<'youtube'> = {
+  id: 'youtube',
+  branding: {
+    name: 'YouTube',
+    icon: Youtube,
+    iconClassName: 'text-red-600 dark:text-red-500',
+    badgeClassName: 'bg-red-600',
+    chartColor: '#FF0000',
+  },
+  urlPatterns: [
+    // Shorts: youtube.com/shorts/VIDEO_ID
+    /youtube\.com\/shorts\/([a-zA-Z0-9_-]{11})/i,
+    // Regular videos: youtube.com/watch?v=VIDEO_ID or youtu.be/VIDEO_ID
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]{11})/i,
+    /youtube\.com\/embed\/([a-zA-Z0-9_-]{11})/i,
+  ],
+  capabilities: {
+    audioOnly: true,
+    transcripts: true,
+    resumableDownloads: true,
+    requiresServer: true,
+    shorts: true,
+  },
+
+  isVertical(url) {
+    return youtubeService.isShort(url);
+  },
+
+  async getMetadata(url) {
+    const metadata = await youtubeService.getVideoMetadata(url);
+    return {
+      url,
+      platform: 'youtube',
+      title: metadata.title,
+      description: metadata.description,
+      thumbnail: metadata.thumbnail,
+      duration: metadata.duration,
+      author: metadata.author,
+    };
+  },
+
+  async getAvailableQualities(url, metadata) {
+    return youtubeService.getAvailableQualities(youtubeService.extractVideoId(url), metadata.duration);
+  },
+
+  async download({ url, quality, format, formatId, audioBitrate }, options) {
+    return youtubeService.downloadVideo(youtubeService.extractVideoId(url), quality, format, {
+      ...options,
+      formatId,
+      audioBitrate,
+    });
+  },
+
+  async getTranscript(url) {
+    return youtubeService.getTranscript(url);
+  },
+
+  async getUploads(source) {
+    return youtubeService.getUploads(source);
+  },
+
+  uploadsSource: {
+    label: 'Channel',
+    placeholder: 'youtube.com/@channel, @handle or channel ID',
+  },
+};
@@ -0,0 +1,212 @@
+import { db } from '../db/database';
+import { createTransferMeter, toHttpStatusError } from '../utils/streamDownload';
+import type { StreamDownloadOptions } from '../utils/streamDownload';
+import type { PartialDownload } from '../types';
+
+/** Received bytes are written to IndexedDB in pieces of this size */
+const FLUSH_SIZE = 2 * 1024 * 1024;
+
+export interface ResumableDownloadOptions extends StreamDownloadOptions {
+  /** Key the received bytes are kept under; defaults to the URL */
+  resumeKey?: string;
+}
+
+// Key range covering every chunk of a partial download
+const chunkRange = (key: string): [[string, number], [string, number]] => [[key, 0], [key, Infinity]];
+
+// Parse a Content-Range header such as "bytes 100-999/1000"
+const parseContentRange = (header: string | null): { start: number; total: number | null } | null => {
+  const match = header?.match(/^bytes (\d+)-\d+\/(\d+|\*)$/);
+  if (!match) return null;
+  return { start: Number(match[1]), total: match[2] === '*' ? null : Number(match[2]) };
+};
+
+async function deletePartial(key: string): Promise<void> {
+  const [lower, upper] = chunkRange(key);
+  await db.transaction('rw', db.partialDownloads, db.partialDownloadChunks, async () => {
+    await db.partialDownloads.delete(key);
+    await db.partialDownloadChunks.where('[key+index]').between(lower, upper, true, true).delete();
+  });
+}
+
+async function readPartial(partial: PartialDownload): Promise<Blob> {
+  const [lower, upper] = chunkRange(partial.key);
+  const chunks = await db.partialDownloadChunks.where('[key+index]').between(lower, upper, true, true).toArray();
+  if (chunks.length !== partial.chunkCount) {
+    throw new Error(`Download is missing chunks (${chunks.length}/${partial.chunkCount})`);
+  }
+  return new Blob(chunks.map((chunk) => chunk.data), { type: partial.type });
+}
+
+/**
+ * Resumable download service
+ *
+ * Received bytes are stored in IndexedDB as they arrive. When a download is
+ * interrupted (the tab closes, the network drops, the user pauses), the next
+ * download of the same key asks the server only for the missing bytes with a
+ * Range request, and starts over if the file on the server has changed.
+ */
+export const resumableDownload = {
+  /**
+   * Download a URL, continuing a previous partial download of the same key
+   * @param url - URL to download
+   * @param options - Abort signal, progress callback and resume key
+   * @returns Promise that resolves to the downloaded file
+   * @throws HttpStatusError if the server responds with an error status
+   * @throws DOMException (AbortError) if the signal is aborted; received bytes are kept
+   */
+  async download(url: string, options: ResumableDownloadOptions = {}): Promise<Blob> {
+    const { signal, onProgress, resumeKey = url } = options;
+
+    let partial = await db.partialDownloads.get(resumeKey);
+    if (partial && partial.url !== url) {
+      // Same item, different file (e.g. another quality was chosen)
+      await deletePartial(resumeKey);
+      partial = undefined;
+    }
+
+    const headers: Record<string, string> = {};
+    if (partial && partial.receivedBytes > 0) {
+      headers.Range = `bytes=${partial.receivedBytes}-`;
+      if (partial.validator) {
+        headers['If-Range'] = partial.validator;
+      }
+    }
+
+    const response = await fetch(url, { signal, headers });
+    if (response.status === 416 && partial) {
+      // The stored bytes do not fit the file on the server anymore
+      await deletePartial(resumeKey);
+      return this.download(url, options);
+    }
+    if (!response.ok) {
+      throw await toHttpStatusError(response);
+    }
+
+    const contentRange = response.status === 206 ? parseContentRange(response.headers.get('Content-Range')) : null;
+    const resumed =
+      !!partial &&
+      !!contentRange &&
+      contentRange.start === partial.receivedBytes &&
+      (partial.totalBytes === null || contentRange.total === partial.totalBytes);
+
+    if (partial && !resumed) {
+      await deletePartial(resumeKey);
+      if (response.status === 206) {
+        // A range that does not continue the stored bytes is of no use
+        await response.body?.cancel();
+        return this.download(url, options);
+      }
+      // The server sent the whole file (it changed, or ignores Range)
+      partial = undefined;
+    }
+
+    const contentLength = Number(response.headers.get('Content-Length'));
+    const record: PartialDownload =
+      resumed && partial
+        ? { ...partial }
+        : {
+            key: resumeKey,
+            url,
+            type: response.headers.get('Content-Type') || 'video/mp4',
+            totalBytes: contentRange?.total ?? (contentLength > 0 ? contentLength : null),
+            receivedBytes: 0,
+            chunkCount: 0,
+            validator: response.headers.get('ETag') || response.headers.get('Last-Modified') || undefined,
+            updatedAt: new Date(),
+          };
+    // Only keep bytes the server will let us continue from
+    const canResume = resumed || response.headers.get('Accept-Ranges') === 'bytes';
+
+    const meter = createTransferMeter(record.totalBytes, onProgress, record.receivedBytes);
+    if (!response.body) {
+      const blob = await response.blob();
+      meter.add(blob.size);
+      meter.finish();
+      return blob;
+    }
+
+    const reader = response.body.getReader();
+    let buffered: Uint8Array<ArrayBuffer>[] = [];
+    let bufferedBytes = 0;
+
+    const flush = async () => {
+      if (!canResume || bufferedBytes === 0) return;
+      const data = new Blob(buffered);
+      const index = record.chunkCount;
+      buffered = [];
+      bufferedBytes = 0;
+      record.receivedBytes += data.size;
+      record.chunkCount += 1;
+      record.updatedAt = new Date();
+      await db.transaction('rw', db.partialDownloads, db.partialDownloadChunks, async () => {
+        await db.partialDownloadChunks.put({ key: record.key, index, data });
+        await db.partialDownloads.put({ ...record });
+      });
+    };
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered.push(value);
+        bufferedBytes += value.byteLength;
+        meter.add(value.byteLength);
+        if (bufferedBytes >= FLUSH_SIZE) {
+          await flush();
+        }
+      }
+    } catch (error) {
+      // Keep what arrived before the interruption
+      await flush().catch((flushError) => {
+        console.error('[Resumable Download] Error storing received bytes:', flushError);
+      });
+      throw error;
+    }
+
+    if (!canResume) {
+      meter.finish();
+      return new Blob(buffered, { type: record.type });
+    }
+
+    await flush();
+    const blob = await readPartial(record);
+    await deletePartial(resumeKey);
+    meter.finish();
+    return blob;
+  },
+
+  /**
+   * Get the stored state of a partial download
+   * @param resumeKey - Key the download is stored under
+   * @returns Promise that resolves to the partial download, or undefined if there is none
+   */
+  async getPartial(resumeKey: string): Promise<PartialDownload | undefined> {
+    return db.partialDownloads.get(resumeKey);
+  },
+
+  /**
+   * Delete the stored bytes of a partial download
+   * @param resumeKey - Key the download is stored under
+   */
+  async discard(resumeKey: string): Promise<void> {
+    await deletePartial(resumeKey);
+  },
+
+  /**
+   * Delete partial downloads that have not received bytes for a while
+   * @param maxAgeDays - Days after which an untouched partial download is deleted
+   * @returns Promise that resolves to the number of partial downloads deleted
+   */
+  async purgeStale(maxAgeDays: number): Promise<number> {
+    const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000);
+    const keys = await db.partialDownloads.where('updatedAt').below(cutoff).primaryKeys();
+    for (const key of keys) {
+      await deletePartial(key);
+    }
+    if (keys.length > 0) {
+      console.log(`[Resumable Download] Deleted ${keys.length} stale partial download(s)`);
+    }
+    return keys.length;
+  },
+};
@@ -0,0 +1,402 @@
+import { db } from '../db/database';
+import { tokenize, parseSearchQuery } from '../utils/searchTokenizer';
+import type {
+  Video,
+  SearchField,
+  SearchPosting,
+  SearchDocument,
+  SearchResult,
+  SearchSnippet,
+  TranscriptHit,
+} from '../types';
+
+/** Bump when tokenization or the stored format changes; outdated videos are reindexed */
+const INDEX_VERSION = 1;
+
+const SEARCH_FIELDS: SearchField[] = ['title', 'description', 'author', 'tags', 'transcript'];
+
+/** Relevance weight of a match in each field */
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2.5,
+  author: 2,
+  description: 1,
+  transcript: 0.8,
+};
+
+/** Weight of a prefix match relative to an exact term match */
+const PREFIX_WEIGHT = 0.5;
+/** Extra weight of a phrase match over its terms matched separately */
+const PHRASE_BOOST = 1.5;
+/** Terms shorter than this only match exactly */
+const MIN_PREFIX_LENGTH = 3;
+/** BM25 term frequency saturation and length normalization */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_CONTEXT = 40;
+const MAX_TRANSCRIPT_HITS = 5;
+
+type FieldPositions = Partial<Record<SearchField, Set<number>>>;
+
+interface Candidate {
+  score: number;
+  /** Indexes of the query clauses this video satisfies */
+  clauses: Set<number>;
+  matched: FieldPositions;
+}
+
+/**
+ * Split a video into terms with their positions, per field
+ */
+function analyzeVideo(video: Video) {
+  const fieldTerms: Record<SearchField, Array<[string, number]>> = {
+    title: tokenize(video.title).map((token, position) => [token.term, position]),
+    description: tokenize(video.description || '').map((token, position) => [token.term, position]),
+    author: tokenize(video.author || '').map((token, position) => [token.term, position]),
+    tags: [],
+    transcript: [],
+  };
+
+  // Leave a gap between tags so phrases never span two tags
+  let position = 0;
+  for (const tag of video.tags || []) {
+    for (const token of tokenize(tag)) {
+      fieldTerms.tags.push([token.term, position++]);
+    }
+    position++;
+  }
+
+  const segmentStarts: number[] = [];
+  position = 0;
+  for (const cue of video.transcript?.cues ?? []) {
+    segmentStarts.push(position);
+    for (const token of tokenize(cue.text)) {
+      fieldTerms.transcript.push([token.term, position++]);
+    }
+  }
+
+  return { fieldTerms, segmentStarts, timed: !!video.transcript?.timed };
+}
+
+/**
+ * Build the postings and document entry for a video
+ */
+function buildIndexEntries(video: Video): { postings: SearchPosting[]; doc: SearchDocument } {
+  const { fieldTerms, segmentStarts, timed } = analyzeVideo(video);
+  const postingsByTerm = new Map<string, SearchPosting>();
+
+  for (const field of SEARCH_FIELDS) {
+    for (const [term, position] of fieldTerms[field]) {
+      let posting = postingsByTerm.get(term);
+      if (!posting) {
+        posting = { term, videoId: video.id, positions: {} };
+        postingsByTerm.set(term, posting);
+      }
+      (posting.positions[field] ??= []).push(position);
+    }
+  }
+
+  const fieldLengths = Object.fromEntries(
+    SEARCH_FIELDS.map((field) => [field, fieldTerms[field].length])
+  ) as Record<SearchField, number>;
+
+  return {
+    postings: [...postingsByTerm.values()],
+    doc: { videoId: video.id, version: INDEX_VERSION, fieldLengths, segmentStarts, timed },
+  };
+}
+
+/**
+ * Inverse document frequency of a term found in `df` of `total` videos
+ */
+function inverseDocumentFrequency(df: number, total: number): number {
+  return Math.log(1 + (total - df + 0.5) / (df + 0.5));
+}
+
+/**
+ * BM25 weight of `tf` occurrences in a field of the given length
+ */
+function fieldWeight(tf: number, length: number, averageLength: number): number {
+  const normalization = 1 - BM25_B + BM25_B * (length / averageLength);
+  return (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * normalization);
+}
+
+/**
+ * Mark the tokens of a text whose positions matched
+ * @param positionOffset - Position of the text's first token within its field
+ */
+function highlightText(text: string, matched: Set<number> | undefined, positionOffset = 0): SearchSnippet {
+  const highlights: Array<[number, number]> = [];
+  if (matched && matched.size > 0) {
+    tokenize(text).forEach((token, index) => {
+      if (matched.has(index + positionOffset)) {
+        highlights.push([token.start, token.end]);
+      }
+    });
+  }
+  return { text, highlights };
+}
+
+/**
+ * Cut a highlighted text down to a window around its first highlight
+ */
+function excerpt(snippet: SearchSnippet, length = SNIPPET_LENGTH): SearchSnippet {
+  const { text, highlights } = snippet;
+  if (text.length <= length) {
+    return snippet;
+  }
+
+  const firstMatch = highlights.length > 0 ? highlights[0][0] : 0;
+  let start = Math.max(0, firstMatch - SNIPPET_CONTEXT);
+  // Start at a word boundary
+  if (start > 0) {
+    const space = text.lastIndexOf(' ', start);
+    start = space === -1 ? 0 : space + 1;
+  }
+  const end = Math.min(text.length, start + length);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const shift = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: highlights
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from + shift, to + shift] as [number, number]),
+  };
+}
+
+/**
+ * Index of the transcript segment containing a token position
+ */
+function segmentIndexAt(segmentStarts: number[], position: number): number {
+  let low = 0;
+  let high = segmentStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (segmentStarts[mid] <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Find the transcript segments containing matches
+ */
+function buildTranscriptHits(video: Video, doc: SearchDocument, matched: Set<number> | undefined): TranscriptHit[] {
+  if (!video.transcript || !matched || matched.size === 0) {
+    return [];
+  }
+
+  const cues = video.transcript.cues;
+  const segmentIndexes = [...new Set(
+    [...matched].sort((a, b) => a - b).map((position) => segmentIndexAt(doc.segmentStarts, position))
+  )].slice(0, MAX_TRANSCRIPT_HITS);
+
+  return segmentIndexes
+    .filter((index) => cues[index])
+    .map((index) => ({
+      time: doc.timed ? cues[index].start : null,
+      snippet: excerpt(highlightText(cues[index].text, matched, doc.segmentStarts[index])),
+    }));
+}
+
+/**
+ * Full-text search index over video titles, descriptions, authors, tags and transcripts
+ * Persisted in IndexedDB as an inverted index and updated incrementally when videos change
+ */
+export const searchIndex = {
+  /**
+   * Add or replace a video in the index
+   * @param video - Video to index
+   */
+  async indexVideo(video: Video): Promise<void> {
+    const { postings, doc } = buildIndexEntries(video);
+
+    await db.transaction('rw', db.searchPostings, db.searchDocs, async () => {
+      await db.searchPostings.where('videoId').equals(video.id).delete();
+      await db.searchPostings.bulkPut(postings);
+      await db.searchDocs.put(doc);
+    });
+  },
+
+  /**
+   * Remove a video from the index
+   * @param videoId - ID of the video to remove
+   */
+  async removeVideo(videoId: string): Promise<void> {
+    await db.transaction('rw', db.searchPostings, db.searchDocs, async () => {
+      await db.searchPostings.where('videoId').equals(videoId).delete();
+      await db.searchDocs.delete(videoId);
+    });
+  },
+
+  /**
+   * Index videos that are missing from the index or were indexed by an older version,
+   * and drop entries of videos that no longer exist
+   * @returns Promise that resolves to the number of videos (re)indexed
+   */
+  async ensureIndexed(): Promise<number> {
+    const [videoIds, docs] = await Promise.all([
+      db.videos.toCollection().primaryKeys(),
+      db.searchDocs.toArray(),
+    ]);
+
+    const existingIds = new Set(videoIds);
+    const upToDate = new Set(docs.filter((doc) => doc.version === INDEX_VERSION).map((doc) => doc.videoId));
+
+    for (const doc of docs) {
+      if (!existingIds.has(doc.videoId)) {
+        await this.removeVideo(doc.videoId);
+      }
+    }
+
+    let indexed = 0;
+    for (const id of videoIds) {
+      if (upToDate.has(id)) continue;
+      const video = await db.videos.get(id);
+      if (video) {
+        await this.indexVideo(video);
+        indexed++;
+      }
+    }
+
+    if (indexed > 0) {
+      console.log(`[Search Index] Indexed ${indexed} videos`);
+    }
+    return indexed;
+  },
+
+  /**
+   * Search the library
+   * All terms and "quoted phrases" must match; terms of 3+ characters also match as prefixes.
+   * @param query - Search query
+   * @param limit - Maximum number of results
+   * @returns Promise that resolves to results ordered by relevance
+   */
+  async search(query: string, limit = 100): Promise<SearchResult[]> {
+    const { terms, phrases } = parseSearchQuery(query);
+    const clauseCount = terms.length + phrases.length;
+    if (clauseCount === 0) {
+      return [];
+    }
+
+    const docs = await db.searchDocs.toArray();
+    if (docs.length === 0) {
+      return [];
+    }
+
+    const docsById = new Map(docs.map((doc) => [doc.videoId, doc]));
+    const averageLengths = Object.fromEntries(
+      SEARCH_FIELDS.map((field) => [
+        field,
+        Math.max(1, docs.reduce((sum, doc) => sum + doc.fieldLengths[field], 0) / docs.length),
+      ])
+    ) as Record<SearchField, number>;
+
+    const candidates = new Map<string, Candidate>();
+    const addMatch = (videoId: string, clause: number, field: SearchField, score: number, positions: number[]) => {
+      let candidate = candidates.get(videoId);
+      if (!candidate) {
+        candidate = { score: 0, clauses: new Set(), matched: {} };
+        candidates.set(videoId, candidate);
+      }
+      candidate.score += score;
+      candidate.clauses.add(clause);
+      const matchedPositions = (candidate.matched[field] ??= new Set());
+      positions.forEach((position) => matchedPositions.add(position));
+    };
+
+    // Single terms, exact or by prefix
+    await Promise.all(terms.map(async (term, clause) => {
+      const postings = term.length >= MIN_PREFIX_LENGTH
+        ? await db.searchPostings.where('term').startsWith(term).toArray()
+        : await db.searchPostings.where('term').equals(term).toArray();
+
+      const documentFrequency = new Map<string, number>();
+      postings.forEach((posting) => {
+        documentFrequency.set(posting.term, (documentFrequency.get(posting.term) || 0) + 1);
+      });
+
+      for (const posting of postings) {
+        const doc = docsById.get(posting.videoId);
+        if (!doc) continue;
+
+        const weight = posting.term === term ? 1 : PREFIX_WEIGHT;
+        const idf = inverseDocumentFrequency(documentFrequency.get(posting.term) || 1, docs.length);
+        for (const field of SEARCH_FIELDS) {
+          const positions = posting.positions[field];
+          if (!positions || positions.length === 0) continue;
+          const score = weight * idf * FIELD_BOOSTS[field]
+            * fieldWeight(positions.length, doc.fieldLengths[field], averageLengths[field]);
+          addMatch(posting.videoId, clause, field, score, positions);
+        }
+      }
+    }));
+
+    // Phrases: consecutive positions of every phrase term in the same field
+    await Promise.all(phrases.map(async (phrase, phraseIndex) => {
+      const clause = terms.length + phraseIndex;
+      const postingLists = await Promise.all(
+        phrase.map((term) => db.searchPostings.where('term').equals(term).toArray())
+      );
+      const postingsByVideo = postingLists.map((list) => new Map(list.map((posting) => [posting.videoId, posting])));
+      const idf = postingLists.reduce(
+        (sum, list) => sum + inverseDocumentFrequency(list.length, docs.length),
+        0
+      );
+
+      for (const [videoId, first] of postingsByVideo[0]) {
+        const doc = docsById.get(videoId);
+        if (!doc || !postingsByVideo.every((postings) => postings.has(videoId))) continue;
+
+        for (const field of SEARCH_FIELDS) {
+          const starts = (first.positions[field] || []).filter((start) =>
+            postingsByVideo.every((postings, offset) =>
+              postings.get(videoId)!.positions[field]?.includes(start + offset)
+            )
+          );
+          if (starts.length === 0) continue;
+
+          const score = PHRASE_BOOST * idf * FIELD_BOOSTS[field]
+            * fieldWeight(starts.length, doc.fieldLengths[field], averageLengths[field]);
+          const positions = starts.flatMap((start) => phrase.map((_, offset) => start + offset));
+          addMatch(videoId, clause, field, score, positions);
+        }
+      }
+    }));
+
+    const ranked = [...candidates.entries()]
+      .filter(([, candidate]) => candidate.clauses.size === clauseCount)
+      .sort(([, a], [, b]) => b.score - a.score)
+      .slice(0, limit);
+
+    const videos = await db.videos.bulkGet(ranked.map(([videoId]) => videoId));
+
+    return ranked.flatMap(([videoId, candidate], index) => {
+      const video = videos[index];
+      const doc = docsById.get(videoId);
+      if (!video || !doc) return [];
+
+      const transcriptHits = buildTranscriptHits(video, doc, candidate.matched.transcript);
+      const snippet = candidate.matched.description
+        ? excerpt(highlightText(video.description, candidate.matched.description))
+        : transcriptHits[0]?.snippet || null;
+
+      return [{
+        videoId,
+        score: candidate.score,
+        fields: SEARCH_FIELDS.filter((field) => candidate.matched[field]),
+        title: highlightText(video.title, candidate.matched.title),
+        snippet,
+        transcriptHits,
+      }];
+    });
+  },
+};
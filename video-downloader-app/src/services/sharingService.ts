@@ -1,5 +1,6 @@
 import type { Video } from '../types';
 import type { Collection } from '../types/video.types';
+import { db } from '../db/database';
 
 /**
  * Sharing service for generating shareable content
@@ -30,15 +31,14 @@ export interface ShareHistory {
 
 /**
  * Generate M3U playlist file content
+ * @param mediaUrls - Optional blob URLs of the local video files, keyed by video ID
  */
-export const generateM3UPlaylist = (videos: Video[]): string => {
+export const generateM3UPlaylist = (videos: Video[], mediaUrls: Record<string, string> = {}): string => {
   let m3u = '#EXTM3U\n';
   
   videos.forEach((video) => {
     // Use blob URL if available, otherwise original URL
-    const videoUrl = video.videoBlob 
-      ? URL.createObjectURL(video.videoBlob)
-      : video.url;
+    const videoUrl = mediaUrls[video.id] || video.url;
     
     m3u += `#EXTINF:${Math.floor(video.duration || 0)},${video.title}\n`;
     m3u += `${videoUrl}\n`;
@@ -140,10 +140,7 @@ export const exportCollectionAsJSON = (collection: Collection, videos: Video[]):
       createdAt: collection.createdAt,
       updatedAt: collection.updatedAt,
     },
-    videos: videos.map(v => {
-      const { videoBlob, ...videoMeta } = v;
-      return videoMeta;
-    }),
+    videos,
     exportedAt: new Date().toISOString(),
     appVersion: '1.0.0',
   };
@@ -280,6 +277,37 @@ export const downloadVideoReport = (video: Video, transcript?: string, notes?: s
   setTimeout(() => URL.revokeObjectURL(url), 100);
 };
 
+/**
+ * Record a share in the share history
+ */
+export const recordShare = async (
+  type: ShareHistory['type'],
+  itemId: string,
+  shareMethod: ShareHistory['shareMethod'],
+  recipient?: string
+): Promise<ShareHistory> => {
+  const entry: ShareHistory = {
+    id: `share-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    type,
+    itemId,
+    sharedAt: new Date(),
+    shareMethod,
+    recipient,
+  };
+  await db.shareHistory.add(entry);
+  return entry;
+};
+
+/**
+ * Get share history, newest first (optionally for a single item)
+ */
+export const getShareHistory = async (itemId?: string): Promise<ShareHistory[]> => {
+  const entries = itemId
+    ? await db.shareHistory.where('itemId').equals(itemId).toArray()
+    : await db.shareHistory.toArray();
+  return entries.sort((a, b) => b.sharedAt.getTime() - a.sharedAt.getTime());
+};
+
 export const sharingService = {
   generateM3UPlaylist,
   downloadM3UPlaylist,
@@ -292,5 +320,7 @@ export const sharingService = {
   generateEmailTemplate,
   generateVideoReport,
   downloadVideoReport,
+  recordShare,
+  getShareHistory,
 };
 
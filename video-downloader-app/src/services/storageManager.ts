@@ -0,0 +1,213 @@
+import { db } from '../db/database';
+import { mediaStore } from './mediaStore';
+import type {
+  Video,
+  EvictionPolicy,
+  StoragePolicy,
+  StorageStatus,
+  CapacityCheck,
+  EvictionCandidate,
+  EvictionPlan,
+} from '../types';
+
+const POLICY_STORAGE_KEY = 'storageManager_policy';
+
+/** Fraction of the quota kept free so IndexedDB writes don't fail halfway */
+const QUOTA_HEADROOM = 0.02;
+
+const DEFAULT_POLICY: StoragePolicy = {
+  evictionPolicy: 'oldest-unwatched',
+  autoEvict: false,
+  warningThreshold: 0.9,
+  protectedTags: [],
+};
+
+/**
+ * Error thrown when a file does not fit in the remaining storage
+ */
+export class StorageQuotaError extends Error {
+  capacity: CapacityCheck;
+
+  constructor(capacity: CapacityCheck) {
+    super(
+      `Not enough storage space: this video needs ${formatBytes(capacity.required)} but only ` +
+      `${formatBytes(capacity.available)} is available. Free up space in Settings → Storage Management.`
+    );
+    this.name = 'StorageQuotaError';
+    this.capacity = capacity;
+  }
+}
+
+/**
+ * Format bytes to human-readable
+ */
+const formatBytes = (bytes: number): string => {
+  if (bytes <= 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`;
+};
+
+const time = (date: Date | undefined): number => (date ? new Date(date).getTime() : 0);
+
+// Order videos so the first ones are evicted first
+const sortForEviction = (videos: Video[], policy: EvictionPolicy): Video[] => {
+  const sorted = [...videos];
+  switch (policy) {
+    case 'oldest-unwatched':
+      // Never-watched videos first (oldest download first), then least recently watched
+      return sorted.sort((a, b) => {
+        if (!a.lastWatchedAt !== !b.lastWatchedAt) return a.lastWatchedAt ? 1 : -1;
+        if (a.lastWatchedAt && b.lastWatchedAt) return time(a.lastWatchedAt) - time(b.lastWatchedAt);
+        return time(a.downloadDate) - time(b.downloadDate);
+      });
+    case 'largest':
+      return sorted.sort((a, b) => (b.fileSize || 0) - (a.fileSize || 0));
+    case 'oldest':
+      return sorted.sort((a, b) => time(a.downloadDate) - time(b.downloadDate));
+  }
+};
+
+/**
+ * Storage manager for the browser storage quota
+ * Reports real usage, requests persistent storage and plans evictions
+ */
+export const storageManager = {
+  /**
+   * Get the storage management policy
+   */
+  getPolicy(): StoragePolicy {
+    try {
+      const stored = localStorage.getItem(POLICY_STORAGE_KEY);
+      return stored ? { ...DEFAULT_POLICY, ...JSON.parse(stored) } : DEFAULT_POLICY;
+    } catch (error) {
+      console.error('[Storage Manager] Error loading storage policy:', error);
+      return DEFAULT_POLICY;
+    }
+  },
+
+  /**
+   * Update the storage management policy
+   */
+  setPolicy(updates: Partial<StoragePolicy>): StoragePolicy {
+    const policy = { ...this.getPolicy(), ...updates };
+    localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(policy));
+    return policy;
+  },
+
+  /**
+   * Get current storage usage, quota and persistence
+   */
+  async getStatus(): Promise<StorageStatus> {
+    const storage = typeof navigator !== 'undefined' ? navigator.storage : undefined;
+    const supported = typeof storage?.estimate === 'function';
+
+    const [estimate, persisted, mediaBytes] = await Promise.all([
+      supported ? storage!.estimate() : Promise.resolve<StorageEstimate>({}),
+      typeof storage?.persisted === 'function' ? storage.persisted() : Promise.resolve(false),
+      mediaStore.getTotalSize(),
+    ]);
+
+    const usage = estimate.usage ?? mediaBytes;
+    const quota = estimate.quota ?? 0;
+    return {
+      supported,
+      usage,
+      quota,
+      available: quota > 0 ? Math.max(0, quota - usage) : 0,
+      mediaBytes,
+      persisted,
+    };
+  },
+
+  /**
+   * Ask the browser to keep this site's data even under storage pressure
+   * @returns Promise that resolves to whether storage is now persistent
+   */
+  async requestPersistence(): Promise<boolean> {
+    if (typeof navigator === 'undefined' || typeof navigator.storage?.persist !== 'function') {
+      return false;
+    }
+    if (await navigator.storage.persisted()) {
+      return true;
+    }
+    const granted = await navigator.storage.persist();
+    console.log(`[Storage Manager] Persistent storage ${granted ? 'granted' : 'denied'}`);
+    return granted;
+  },
+
+  /**
+   * Check whether a file of the given size fits in storage
+   * When the browser cannot report a quota, every file is assumed to fit
+   * @param bytes - Size of the file to store
+   */
+  async checkCapacity(bytes: number): Promise<CapacityCheck> {
+    const status = await this.getStatus();
+    if (!status.supported || status.quota === 0) {
+      return { fits: true, nearLimit: false, required: bytes, available: Infinity, shortfall: 0 };
+    }
+
+    const { warningThreshold } = this.getPolicy();
+    const limit = status.quota * (1 - QUOTA_HEADROOM);
+    const usageAfter = status.usage + bytes;
+    const shortfall = Math.max(0, usageAfter - limit);
+
+    return {
+      fits: shortfall === 0,
+      nearLimit: usageAfter >= status.quota * warningThreshold,
+      required: bytes,
+      available: Math.max(0, limit - status.usage),
+      shortfall,
+    };
+  },
+
+  /**
+   * Work out which videos an eviction would remove, without removing anything
+   * Videos are taken in policy order until the target is freed. A file shared by
+   * several videos only counts once all of them are selected.
+   * @param targetBytes - Bytes to free
+   * @param policy - Storage policy to apply
+   */
+  async planEviction(targetBytes: number, policy: StoragePolicy): Promise<EvictionPlan> {
+    const protectedTags = new Set(policy.protectedTags.map((tag) => tag.toLowerCase()));
+    const videos = (await db.getAllVideos()).filter(
+      (video) => !video.tags.some((tag) => protectedTags.has(tag.toLowerCase()))
+    );
+
+    const hashes = [...new Set(videos.map((video) => video.mediaHash).filter((hash): hash is string => !!hash))];
+    const records = await db.mediaBlobs.bulkGet(hashes);
+    const blobsByHash = new Map(hashes.map((hash, index) => [hash, records[index]]));
+
+    const selectedPerHash = new Map<string, number>();
+    const candidates: EvictionCandidate[] = [];
+    let bytesFreed = 0;
+
+    for (const video of sortForEviction(videos, policy.evictionPolicy)) {
+      if (bytesFreed >= targetBytes) break;
+
+      let freed = 0;
+      if (video.mediaHash) {
+        const record = blobsByHash.get(video.mediaHash);
+        const selected = (selectedPerHash.get(video.mediaHash) || 0) + 1;
+        selectedPerHash.set(video.mediaHash, selected);
+        if (record && selected >= record.refCount) {
+          freed = record.size;
+        }
+      } else {
+        freed = video.fileSize || 0; // File not yet moved to the media store
+      }
+
+      candidates.push({ video, bytesFreed: freed });
+      bytesFreed += freed;
+    }
+
+    return {
+      policy: policy.evictionPolicy,
+      targetBytes,
+      candidates,
+      bytesFreed,
+      satisfied: bytesFreed >= targetBytes,
+    };
+  },
+};
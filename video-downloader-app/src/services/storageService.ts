@@ -1,5 +1,10 @@
 import { db } from '../db/database';
-import type { Video, VideoPlatform } from '../types';
+import { mediaStore } from './mediaStore';
+import { searchIndex } from './searchIndex';
+import { integrityService } from './integrityService';
+import { storageManager, StorageQuotaError } from './storageManager';
+import type { Video, VideoPlatform, NewVideoInput, DuplicateGroup, CapacityCheck, EvictionPlan } from '../types';
+import { getVideoSourceKey } from '../utils/urlParser';
 
 /**
  * Storage service for managing video data in IndexedDB
@@ -7,11 +12,13 @@ import type { Video, VideoPlatform } from '../types';
 export const storageService = {
   /**
    * Save a video to the database
-   * Validates required fields, assigns unique ID, and sets download date
+   * Validates required fields, assigns unique ID, and sets download date.
+   * The video file is stored in the media store and referenced by its hash.
    * @param video - Video object to save (id and downloadDate will be auto-generated if not provided)
    * @returns Promise that resolves to the video ID
+   * @throws StorageQuotaError if the file does not fit in storage and no space could be freed
    */
-  async saveVideo(video: Partial<Video>): Promise<string> {
+  async saveVideo(video: NewVideoInput): Promise<string> {
     // Validate required fields
     if (!video.url) {
       throw new Error('Video URL is required');
@@ -26,10 +33,14 @@ export const storageService = {
       throw new Error('Video blob is required');
     }
 
+    await this.ensureCapacity(video.videoBlob.size);
+    const mediaHash = await mediaStore.putBlob(video.videoBlob);
+
     // Create complete video object with auto-generated fields
     const completeVideo: Video = {
       id: video.id || crypto.randomUUID(),
       url: video.url,
+      sourceKey: getVideoSourceKey(video.url),
       platform: video.platform,
       title: video.title,
       description: video.description || '',
@@ -40,15 +51,84 @@ export const storageService = {
       fileSize: video.fileSize || video.videoBlob.size,
       quality: video.quality || 'unknown',
       format: video.format || 'mp4',
-      videoBlob: video.videoBlob,
+      clipStart: video.clipStart,
+      clipEnd: video.clipEnd,
+      audioBitrate: video.audioBitrate,
+      mediaHash,
       transcript: video.transcript || null,
       tags: video.tags || [],
+      lastWatchedAt: video.lastWatchedAt,
     };
 
-    await db.addVideo(completeVideo);
+    try {
+      await db.addVideo(completeVideo);
+    } catch (error) {
+      await mediaStore.releaseBlob(mediaHash);
+      throw error;
+    }
+
+    // A failed index update must not fail the save; ensureIndexed() catches up later
+    await searchIndex.indexVideo(completeVideo).catch((error) => {
+      console.error('[Storage Service] Error indexing video:', error);
+    });
     return completeVideo.id;
   },
 
+  /**
+   * Replace the file of a library video with a new download of it
+   * The video keeps its ID, tags, transcript and collection membership; the file,
+   * download details and platform metadata are updated.
+   * @param id - ID of the video to replace
+   * @param video - New download (must include videoBlob)
+   * @returns Promise that resolves to the video ID
+   * @throws Error if the video is not found
+   */
+  async replaceVideo(id: string, video: NewVideoInput): Promise<string> {
+    if (!video.videoBlob) {
+      throw new Error('Video blob is required');
+    }
+    const existing = await this.getVideo(id);
+
+    await this.ensureCapacity(video.videoBlob.size);
+    const mediaHash = await mediaStore.putBlob(video.videoBlob);
+
+    const changes: Partial<Video> = {
+      mediaHash,
+      fileSize: video.fileSize || video.videoBlob.size,
+      quality: video.quality || existing.quality,
+      format: video.format || existing.format,
+      downloadDate: new Date(),
+      title: video.title || existing.title,
+      description: video.description ?? existing.description,
+      thumbnail: video.thumbnail || existing.thumbnail,
+      duration: video.duration || existing.duration,
+      author: video.author || existing.author,
+      // Describe the new file; unset values clear those of the old one
+      clipStart: video.clipStart,
+      clipEnd: video.clipEnd,
+      audioBitrate: video.audioBitrate,
+    };
+
+    try {
+      await db.updateVideo(id, changes);
+    } catch (error) {
+      await mediaStore.releaseBlob(mediaHash);
+      throw error;
+    }
+
+    if (existing.mediaHash) {
+      await mediaStore.releaseBlob(existing.mediaHash);
+    }
+    if (existing.thumbnail.startsWith('blob:') && existing.thumbnail !== changes.thumbnail) {
+      URL.revokeObjectURL(existing.thumbnail);
+    }
+
+    await searchIndex.indexVideo({ ...existing, ...changes }).catch((error) => {
+      console.error('[Storage Service] Error indexing video:', error);
+    });
+    return id;
+  },
+
   /**
    * Get a video by its ID
    * @param id - Video ID
@@ -63,6 +143,27 @@ export const storageService = {
     return video;
   },
 
+  /**
+   * Load the video file of a video
+   * @param id - Video ID
+   * @returns Promise that resolves to the video file
+   * @throws Error if the video or its file is not found
+   */
+  async getVideoBlob(id: string): Promise<Blob> {
+    const video = (await db.getVideoById(id)) as (Video & { videoBlob?: Blob }) | undefined;
+    if (!video) {
+      throw new Error(`Video with id ${id} not found`);
+    }
+
+    const blob = video.mediaHash
+      ? await mediaStore.getBlob(video.mediaHash)
+      : video.videoBlob || null; // Not yet moved to the media store
+    if (!blob) {
+      throw new Error(`Video file for ${id} not found`);
+    }
+    return blob;
+  },
+
   /**
    * Get all videos sorted by download date (newest first)
    * @returns Promise that resolves to an array of videos
@@ -78,30 +179,88 @@ export const storageService = {
   },
 
   /**
-   * Delete a video by ID and revoke any blob URLs to prevent memory leaks
+   * Delete a video by ID, remove it from its collections, revoke its thumbnail blob URL
+   * and release its video file
    * @param id - Video ID to delete
    * @returns Promise that resolves when video is deleted
    */
   async deleteVideo(id: string): Promise<void> {
-    // Get the video first to revoke blob URLs
     const video = await db.getVideoById(id);
-    
-    if (video) {
-      // Revoke blob URL if thumbnail is a blob URL
-      if (video.thumbnail && video.thumbnail.startsWith('blob:')) {
-        URL.revokeObjectURL(video.thumbnail);
+
+    // Revoke blob URL if thumbnail is a blob URL
+    if (video?.thumbnail && video.thumbnail.startsWith('blob:')) {
+      URL.revokeObjectURL(video.thumbnail);
+    }
+
+    await db.transaction('rw', db.videos, db.collections, db.transcriptVersions, async () => {
+      await integrityService.detachVideo(id);
+      await db.transcriptVersions.where('videoId').equals(id).delete();
+      await db.deleteVideo(id);
+    });
+    await searchIndex.removeVideo(id).catch((error) => {
+      console.error('[Storage Service] Error removing video from search index:', error);
+    });
+
+    if (video?.mediaHash) {
+      await mediaStore.releaseBlob(video.mediaHash);
+    }
+  },
+
+  /**
+   * Make sure a file of the given size fits in storage, freeing up space if needed
+   * Checking up front avoids failing halfway through writing the file
+   * @param bytes - Size of the file to store
+   * @throws StorageQuotaError if the file does not fit and no space could be freed
+   */
+  async ensureCapacity(bytes: number): Promise<void> {
+    const capacity = await storageManager.checkCapacity(bytes);
+    if (!capacity.fits) {
+      await this.freeUpSpace(capacity);
+    }
+  },
+
+  /**
+   * Make room for a file that does not fit, evicting videos if the storage policy allows it
+   * @param capacity - Failed capacity check for the file
+   * @throws StorageQuotaError if automatic eviction is off or cannot free enough space
+   */
+  async freeUpSpace(capacity: CapacityCheck): Promise<void> {
+    const policy = storageManager.getPolicy();
+    if (policy.autoEvict) {
+      const plan = await storageManager.planEviction(capacity.shortfall, policy);
+      if (plan.satisfied) {
+        console.log(`[Storage Service] Evicting ${plan.candidates.length} videos to free ${plan.bytesFreed} bytes`);
+        await this.applyEvictionPlan(plan);
+        return;
       }
-      
-      // Revoke video blob URL if it exists
-      if (video.videoBlob) {
-        // If videoBlob is stored as a blob URL string, revoke it
-        // Otherwise, the blob will be garbage collected when deleted
-        const blobUrl = URL.createObjectURL(video.videoBlob);
-        URL.revokeObjectURL(blobUrl);
+    }
+    throw new StorageQuotaError(capacity);
+  },
+
+  /**
+   * Delete the videos selected by an eviction plan
+   * @param plan - Plan from storageManager.planEviction
+   * @returns Promise that resolves to the number of deleted videos
+   */
+  async applyEvictionPlan(plan: EvictionPlan): Promise<number> {
+    let deleted = 0;
+    for (const { video } of plan.candidates) {
+      try {
+        await this.deleteVideo(video.id);
+        deleted++;
+      } catch (error) {
+        console.error(`[Storage Service] Error evicting video ${video.id}:`, error);
       }
     }
+    return deleted;
+  },
 
-    await db.deleteVideo(id);
+  /**
+   * Record that a video was played (used by the oldest-unwatched eviction policy)
+   * @param id - Video ID
+   */
+  async markVideoWatched(id: string): Promise<void> {
+    await db.videos.update(id, { lastWatchedAt: new Date() });
   },
 
   /**
@@ -111,37 +270,40 @@ export const storageService = {
    * @returns Promise that resolves to the number of updated records
    */
   async updateVideoMetadata(id: string, changes: Partial<Video>): Promise<number> {
-    // Don't allow updating id, videoBlob, or downloadDate through this method
-    const { id: _, videoBlob: __, downloadDate: ___, ...allowedChanges } = changes;
-    
+    // Don't allow updating id, mediaHash, or downloadDate through this method
+    const { id: _, mediaHash: __, downloadDate: ___, ...allowedChanges } = changes;
+    if (allowedChanges.url) {
+      allowedChanges.sourceKey = getVideoSourceKey(allowedChanges.url);
+    }
+
     const updatedCount = await db.updateVideo(id, allowedChanges);
     if (updatedCount === 0) {
       throw new Error(`Video with id ${id} not found`);
     }
+
+    const updatedVideo = await db.getVideoById(id);
+    if (updatedVideo) {
+      await searchIndex.indexVideo(updatedVideo).catch((error) => {
+        console.error('[Storage Service] Error indexing video:', error);
+      });
+    }
     return updatedCount;
   },
 
   /**
    * Search videos by query string
-   * Searches through titles, descriptions, and tags
+   * Uses the full-text index over titles, descriptions, authors, tags and transcripts
    * @param query - Search query string
-   * @returns Promise that resolves to an array of matching videos
+   * @returns Promise that resolves to an array of matching videos, most relevant first
    */
   async searchVideos(query: string): Promise<Video[]> {
     if (!query.trim()) {
       return this.getAllVideos();
     }
 
-    const allVideos = await db.getAllVideos();
-    const lowerQuery = query.toLowerCase().trim();
-
-    return allVideos.filter((video) => {
-      const titleMatch = video.title.toLowerCase().includes(lowerQuery);
-      const descriptionMatch = video.description.toLowerCase().includes(lowerQuery);
-      const tagsMatch = video.tags.some((tag) => tag.toLowerCase().includes(lowerQuery));
-      
-      return titleMatch || descriptionMatch || tagsMatch;
-    });
+    const results = await searchIndex.search(query);
+    const videos = await db.videos.bulkGet(results.map((result) => result.videoId));
+    return videos.filter((video): video is Video => !!video);
   },
 
   /**
@@ -154,6 +316,72 @@ export const storageService = {
     return allVideos.filter((video) => video.platform === platform);
   },
 
+  /**
+   * Find library videos downloaded from the given source
+   * @param sourceKey - Source key as returned by getVideoSourceKey
+   * @returns Promise that resolves to the matching videos, newest first
+   */
+  async findVideosBySourceKey(sourceKey: string): Promise<Video[]> {
+    const videos = await db.videos.where('sourceKey').equals(sourceKey).toArray();
+    return videos.sort((a, b) => new Date(b.downloadDate).getTime() - new Date(a.downloadDate).getTime());
+  },
+
+  /**
+   * Find a library video downloaded from the given source
+   * @param sourceKey - Source key as returned by getVideoSourceKey
+   * @returns Promise that resolves to the newest matching video, or null if none is in the library
+   */
+  async findVideoBySourceKey(sourceKey: string): Promise<Video | null> {
+    const [newest] = await this.findVideosBySourceKey(sourceKey);
+    return newest || null;
+  },
+
+  /**
+   * Find other library videos whose file is identical to the given video's file
+   * @param id - Video ID
+   * @returns Promise that resolves to the other videos sharing the file
+   */
+  async findIdenticalVideos(id: string): Promise<Video[]> {
+    const video = await db.getVideoById(id);
+    if (!video?.mediaHash) {
+      return [];
+    }
+    const videos = await db.videos.where('mediaHash').equals(video.mediaHash).toArray();
+    return videos.filter((other) => other.id !== id);
+  },
+
+  /**
+   * Group library videos that are copies of each other
+   * Downloads of the same source (including at different qualities) are grouped first;
+   * identical files from different sources are grouped by content hash.
+   * @returns Promise that resolves to the duplicate groups, largest first
+   */
+  async findDuplicateGroups(): Promise<DuplicateGroup[]> {
+    const videos = await this.getAllVideos();
+    const bySource = new Map<string, Video[]>();
+    const byHash = new Map<string, Video[]>();
+
+    for (const video of videos) {
+      const sourceKey = video.sourceKey || getVideoSourceKey(video.url);
+      bySource.set(sourceKey, [...(bySource.get(sourceKey) || []), video]);
+      if (video.mediaHash) {
+        byHash.set(video.mediaHash, [...(byHash.get(video.mediaHash) || []), video]);
+      }
+    }
+
+    const groups: DuplicateGroup[] = [];
+    bySource.forEach((group, key) => {
+      if (group.length > 1) groups.push({ key, reason: 'source', videos: group });
+    });
+    byHash.forEach((group, key) => {
+      // Identical files from a single source are already covered by its source group
+      const sources = new Set(group.map((video) => video.sourceKey || getVideoSourceKey(video.url)));
+      if (group.length > 1 && sources.size > 1) groups.push({ key, reason: 'content', videos: group });
+    });
+
+    return groups.sort((a, b) => b.videos.length - a.videos.length);
+  },
+
   /**
    * Calculate total storage used by all videos
    * @returns Promise that resolves to total file size in bytes
@@ -174,9 +402,10 @@ export const storageService = {
    */
   async exportVideo(id: string): Promise<void> {
     const video = await this.getVideo(id);
-    
+    const videoBlob = await this.getVideoBlob(id);
+
     // Create blob URL for download
-    const blobUrl = URL.createObjectURL(video.videoBlob);
+    const blobUrl = URL.createObjectURL(videoBlob);
     
     try {
       // Sanitize filename - remove invalid characters
@@ -0,0 +1,249 @@
+import { db } from '../db/database';
+import { platformRegistry } from './platforms';
+import { downloadManager } from './downloadManager';
+import type { CreatorUpload, PlatformProvider, Subscription, SubscriptionFilters } from '../types';
+
+/** Subscriptions are checked this often unless configured otherwise */
+export const DEFAULT_CHECK_INTERVAL_MINUTES = 60;
+
+/** Wait after the app opens before the first check, so it does not slow down loading */
+const FIRST_CHECK_DELAY_MS = 15 * 1000;
+
+/** Uploads remembered per subscription; feeds only list the latest ones */
+const MAX_SEEN_IDS = 500;
+
+/**
+ * Channel or creator to subscribe to; the service fills in the rest
+ */
+export type NewSubscription = Pick<Subscription, 'platform' | 'source' | 'filters' | 'quality' | 'format' | 'tags'>;
+
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let firstCheckTimer: ReturnType<typeof setTimeout> | null = null;
+let pollMinutes = 0;
+let checking: Promise<number> | null = null;
+
+// Provider of a subscription's platform, if it supports subscriptions
+function getFeedProvider(platform: string): PlatformProvider & Required<Pick<PlatformProvider, 'getUploads'>> {
+  const provider = platformRegistry.find(platform);
+  if (!provider?.getUploads) {
+    throw new Error(`Subscriptions are not supported for ${provider?.branding.name ?? platform}.`);
+  }
+  return provider as PlatformProvider & Required<Pick<PlatformProvider, 'getUploads'>>;
+}
+
+function matchesFilters(upload: CreatorUpload, duration: number, filters: SubscriptionFilters): boolean {
+  if (upload.isShort && !filters.includeShorts) return false;
+  // Unknown durations are let through
+  if (filters.maxDuration && duration > filters.maxDuration) return false;
+  if (filters.keywords.length === 0) return true;
+
+  const title = upload.title.toLowerCase();
+  return filters.keywords.some((keyword) => title.includes(keyword.toLowerCase()));
+}
+
+// Feeds without durations (YouTube) need the video metadata for the duration filter
+async function readDuration(provider: PlatformProvider, upload: CreatorUpload, filters: SubscriptionFilters): Promise<number> {
+  if (upload.duration || !filters.maxDuration || (upload.isShort && !filters.includeShorts)) {
+    return upload.duration;
+  }
+  const metadata = await provider.getMetadata(upload.url);
+  return metadata.duration || 0;
+}
+
+async function checkAll(): Promise<number> {
+  const subscriptions = await db.subscriptions.toArray();
+  let queued = 0;
+  // One at a time, to keep the server from opening a browser per creator at once
+  for (const subscription of subscriptions.filter((item) => item.enabled)) {
+    try {
+      queued += await subscriptionService.check(subscription.id);
+    } catch (error) {
+      console.error(`[Subscriptions] Error checking ${subscription.name}:`, error);
+    }
+  }
+  return queued;
+}
+
+/**
+ * Subscriptions to YouTube channels and TikTok creators
+ *
+ * The poller reads each channel's or creator's feed of latest uploads from the
+ * backend server and queues the new ones that pass the subscription's filters in
+ * the download manager, with the subscription's quality and tags. Uploads that are
+ * in the feed when subscribing are not downloaded.
+ */
+export const subscriptionService = {
+  /**
+   * Get all subscriptions
+   * @returns Promise that resolves to the subscriptions, oldest first
+   */
+  async getAll(): Promise<Subscription[]> {
+    return db.subscriptions.orderBy('createdAt').toArray();
+  },
+
+  /**
+   * Subscribe to a channel or creator
+   * @param input - Platform, channel or creator, filters, quality, format and tags
+   * @returns Promise that resolves to the new subscription
+   * @throws Error if the platform has no subscriptions, the feed cannot be read or
+   *   the channel or creator is already subscribed to
+   */
+  async add(input: NewSubscription): Promise<Subscription> {
+    const source = input.source.trim();
+    const existing = await db.subscriptions.where('platform').equals(input.platform).toArray();
+    if (existing.some((subscription) => subscription.source.toLowerCase() === source.toLowerCase())) {
+      throw new Error('You are already subscribed to this channel.');
+    }
+
+    const feed = await getFeedProvider(input.platform).getUploads(source);
+    const subscription: Subscription = {
+      ...input,
+      id: crypto.randomUUID(),
+      source,
+      name: feed.name || source,
+      enabled: true,
+      seenVideoIds: feed.uploads.map((upload) => upload.videoId).slice(0, MAX_SEEN_IDS),
+      queuedCount: 0,
+      lastCheckedAt: new Date(),
+      createdAt: new Date(),
+    };
+    await db.subscriptions.add(subscription);
+    return subscription;
+  },
+
+  /**
+   * Update the filters, quality, tags or status of a subscription
+   * @param id - Subscription ID
+   * @param changes - Fields to change
+   */
+  async update(
+    id: string,
+    changes: Partial<Pick<Subscription, 'filters' | 'quality' | 'format' | 'tags' | 'enabled'>>
+  ): Promise<void> {
+    await db.subscriptions.update(id, changes);
+  },
+
+  /**
+   * Unsubscribe; videos already queued or downloaded stay
+   * @param id - Subscription ID
+   */
+  async remove(id: string): Promise<void> {
+    await db.subscriptions.delete(id);
+  },
+
+  /**
+   * Check a subscription for new uploads and queue the ones that pass its filters
+   * @param id - Subscription ID
+   * @returns Promise that resolves to the number of uploads queued
+   * @throws Error if the feed cannot be read; the error is also recorded on the subscription
+   */
+  async check(id: string): Promise<number> {
+    const subscription = await db.subscriptions.get(id);
+    if (!subscription) return 0;
+
+    try {
+      const provider = getFeedProvider(subscription.platform);
+      const feed = await provider.getUploads(subscription.source);
+      const seen = new Set(subscription.seenVideoIds);
+      const newUploads = feed.uploads.filter((upload) => !seen.has(upload.videoId));
+
+      const accepted: CreatorUpload[] = [];
+      const skipped = new Set<string>();
+      for (const upload of newUploads) {
+        let duration: number;
+        try {
+          duration = await readDuration(provider, upload, subscription.filters);
+        } catch (error) {
+          // Left unseen, so the next check tries it again
+          console.warn(`[Subscriptions] Skipping ${upload.url} from ${subscription.name}:`, error);
+          skipped.add(upload.videoId);
+          continue;
+        }
+        if (matchesFilters(upload, duration, subscription.filters)) {
+          accepted.push(upload);
+        }
+      }
+
+      if (accepted.length > 0) {
+        // Oldest first, so they download in the order they were published
+        await downloadManager.enqueue(
+          [...accepted].reverse().map((upload) => ({
+            url: upload.url,
+            platform: subscription.platform,
+            videoId: upload.videoId,
+            title: upload.title,
+            thumbnail: upload.thumbnail || undefined,
+            quality: subscription.quality,
+            format: subscription.format,
+            tags: subscription.tags,
+            // Downloads started by hand go first
+            priority: 'low',
+          }))
+        );
+        console.log(`[Subscriptions] Queued ${accepted.length} new upload(s) from ${subscription.name}`);
+      }
+
+      await db.subscriptions.update(id, {
+        name: feed.name || subscription.name,
+        seenVideoIds: [
+          ...newUploads.filter((upload) => !skipped.has(upload.videoId)).map((upload) => upload.videoId),
+          ...subscription.seenVideoIds,
+        ].slice(0, MAX_SEEN_IDS),
+        queuedCount: subscription.queuedCount + accepted.length,
+        lastCheckedAt: new Date(),
+        lastError: undefined,
+      });
+      return accepted.length;
+    } catch (error) {
+      await db.subscriptions.update(id, {
+        lastCheckedAt: new Date(),
+        lastError: error instanceof Error ? error.message : 'Could not check for new uploads',
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Check all active subscriptions for new uploads
+   * A check that is already running is shared rather than started again.
+   * @returns Promise that resolves to the number of uploads queued
+   */
+  async checkAll(): Promise<number> {
+    if (!checking) {
+      checking = checkAll().finally(() => {
+        checking = null;
+      });
+    }
+    return checking;
+  },
+
+  /**
+   * Check subscriptions at an interval, starting shortly after the call
+   * Calling it again only changes the interval.
+   * @param minutes - Minutes between checks
+   */
+  startPolling(minutes: number): void {
+    if (pollTimer && minutes === pollMinutes) return;
+
+    if (!pollTimer) {
+      firstCheckTimer = setTimeout(() => {
+        firstCheckTimer = null;
+        this.checkAll();
+      }, FIRST_CHECK_DELAY_MS);
+    } else {
+      clearInterval(pollTimer);
+    }
+    pollMinutes = minutes;
+    pollTimer = setInterval(() => this.checkAll(), minutes * 60 * 1000);
+  },
+
+  /**
+   * Stop checking subscriptions
+   */
+  stopPolling(): void {
+    if (pollTimer) clearInterval(pollTimer);
+    if (firstCheckTimer) clearTimeout(firstCheckTimer);
+    pollTimer = null;
+    firstCheckTimer = null;
+  },
+};
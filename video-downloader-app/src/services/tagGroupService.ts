@@ -1,21 +1,17 @@
-import { storageService } from './storageService';
 import { db } from '../db/database';
 import type { TagGroup } from '../types/tag.types';
 
 /**
  * Tag Group Service for managing tag categories/groups
- * Uses localStorage for persistence
+ * Uses the tagGroups and tagGroupAssignments tables in IndexedDB
  */
-const STORAGE_KEY = 'tagGroups';
-
 export const tagGroupService = {
   /**
    * Get all tag groups
    */
-  getAllGroups(): TagGroup[] {
+  async getAllGroups(): Promise<TagGroup[]> {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      return stored ? JSON.parse(stored) : [];
+      return await db.tagGroups.toCollection().sortBy('createdAt');
     } catch (error) {
       console.error('Error loading tag groups:', error);
       return [];
@@ -25,16 +21,14 @@ export const tagGroupService = {
   /**
    * Get a specific tag group by ID
    */
-  getGroupById(id: string): TagGroup | undefined {
-    const groups = this.getAllGroups();
-    return groups.find((g) => g.id === id);
+  async getGroupById(id: string): Promise<TagGroup | undefined> {
+    return db.tagGroups.get(id);
   },
 
   /**
    * Create a new tag group
    */
-  createGroup(name: string, color: string, description?: string): TagGroup {
-    const groups = this.getAllGroups();
+  async createGroup(name: string, color: string, description?: string): Promise<TagGroup> {
     const newGroup: TagGroup = {
       id: `group-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       name,
@@ -42,62 +36,62 @@ export const tagGroupService = {
       description,
       createdAt: Date.now(),
     };
-    groups.push(newGroup);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(groups));
+    await db.tagGroups.add(newGroup);
     return newGroup;
   },
 
   /**
    * Update a tag group
    */
-  updateGroup(id: string, updates: Partial<TagGroup>): TagGroup | null {
-    const groups = this.getAllGroups();
-    const index = groups.findIndex((g) => g.id === id);
-    if (index === -1) return null;
+  async updateGroup(id: string, updates: Partial<TagGroup>): Promise<TagGroup | null> {
+    const updatedCount = await db.tagGroups.update(id, updates);
+    if (updatedCount === 0) return null;
 
-    groups[index] = { ...groups[index], ...updates };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(groups));
-    return groups[index];
+    return (await db.tagGroups.get(id)) || null;
   },
 
   /**
-   * Delete a tag group
+   * Delete a tag group and unassign its tags
    */
-  deleteGroup(id: string): boolean {
-    const groups = this.getAllGroups();
-    const filtered = groups.filter((g) => g.id !== id);
-    if (filtered.length === groups.length) return false;
+  async deleteGroup(id: string): Promise<boolean> {
+    return db.transaction('rw', db.tagGroups, db.tagGroupAssignments, async () => {
+      const existing = await db.tagGroups.get(id);
+      if (!existing) return false;
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
-    return true;
+      await db.tagGroupAssignments.where('groupId').equals(id).delete();
+      await db.tagGroups.delete(id);
+      return true;
+    });
   },
 
   /**
-   * Get group for a tag (if assigned)
+   * Get group for a tag (assigned group, or a group named like the tag)
    */
-  getGroupForTag(tagName: string): TagGroup | undefined {
-    const groups = this.getAllGroups();
-    // In a real implementation, you'd have a mapping of tags to groups
-    // For now, we'll check if the tag name matches a group name pattern
+  async getGroupForTag(tagName: string): Promise<TagGroup | undefined> {
+    const assignment = await db.tagGroupAssignments.get(tagName);
+    if (assignment) {
+      const assignedGroup = await db.tagGroups.get(assignment.groupId);
+      if (assignedGroup) return assignedGroup;
+    }
+
+    const groups = await this.getAllGroups();
     return groups.find((g) => g.name.toLowerCase() === tagName.toLowerCase());
   },
 
   /**
    * Assign a tag to a group
    */
-  assignTagToGroup(tagName: string, groupId: string): void {
-    const tagGroupMap = this.getTagGroupMap();
-    tagGroupMap[tagName] = groupId;
-    localStorage.setItem('tagGroupMap', JSON.stringify(tagGroupMap));
+  async assignTagToGroup(tagName: string, groupId: string): Promise<void> {
+    await db.tagGroupAssignments.put({ tagName, groupId });
   },
 
   /**
    * Get tag to group mapping
    */
-  getTagGroupMap(): Record<string, string> {
+  async getTagGroupMap(): Promise<Record<string, string>> {
     try {
-      const stored = localStorage.getItem('tagGroupMap');
-      return stored ? JSON.parse(stored) : {};
+      const assignments = await db.tagGroupAssignments.toArray();
+      return Object.fromEntries(assignments.map((a) => [a.tagName, a.groupId]));
     } catch (error) {
       console.error('Error loading tag group map:', error);
       return {};
@@ -107,10 +101,7 @@ export const tagGroupService = {
   /**
    * Remove tag from group
    */
-  removeTagFromGroup(tagName: string): void {
-    const tagGroupMap = this.getTagGroupMap();
-    delete tagGroupMap[tagName];
-    localStorage.setItem('tagGroupMap', JSON.stringify(tagGroupMap));
+  async removeTagFromGroup(tagName: string): Promise<void> {
+    await db.tagGroupAssignments.delete(tagName);
   },
 };
-
@@ -1,8 +1,24 @@
 import { storageService } from './storageService';
+import { collectionService } from './collectionService';
+import { integrityService } from './integrityService';
+import { platformRegistry } from './platforms';
 import { db } from '../db/database';
 import type { Video } from '../types';
 import type { Tag, TagGroup, TagFilterLogic } from '../types/tag.types';
 
+/**
+ * Replace or delete a tag in one transaction, including tag group assignments and
+ * smart collections, then update the search index
+ */
+async function applyTagChange(tagName: string, replacement: string | null): Promise<void> {
+  const changedVideoIds = await db.transaction('rw', db.videos, db.tagGroupAssignments, db.collections, async () => {
+    const videoIds = await integrityService.replaceTag(tagName, replacement);
+    await collectionService.refreshSmartCollections('tag');
+    return videoIds;
+  });
+  await integrityService.reindexVideos(changedVideoIds);
+}
+
 /**
  * Tag Service for managing tags across all videos
  */
@@ -37,21 +53,11 @@ export const tagService = {
   },
 
   /**
-   * Rename a tag globally across all videos
+   * Rename a tag globally across all videos, tag groups and smart collection rules
    */
   async renameTag(oldName: string, newName: string): Promise<void> {
     try {
-      const videos = await storageService.getAllVideos();
-      const updates = videos
-        .filter((video) => video.tags?.includes(oldName))
-        .map((video) => {
-          const updatedTags = video.tags?.map((tag) =>
-            tag === oldName ? newName : tag
-          );
-          return db.updateVideo(video.id, { tags: updatedTags });
-        });
-
-      await Promise.all(updates);
+      await applyTagChange(oldName, newName);
     } catch (error) {
       console.error('Error renaming tag:', error);
       throw error;
@@ -60,32 +66,11 @@ export const tagService = {
 
   /**
    * Merge two tags into one
+   * Videos with either tag end up with the target tag only; the target keeps its tag group.
    */
   async mergeTags(sourceTag: string, targetTag: string): Promise<void> {
     try {
-      const videos = await storageService.getAllVideos();
-      const updates = videos
-        .filter((video) => video.tags?.includes(sourceTag))
-        .map((video) => {
-          const tags = video.tags || [];
-          const hasSource = tags.includes(sourceTag);
-          const hasTarget = tags.includes(targetTag);
-
-          if (hasSource && !hasTarget) {
-            // Replace source with target
-            const updatedTags = tags.map((tag) =>
-              tag === sourceTag ? targetTag : tag
-            );
-            return db.updateVideo(video.id, { tags: updatedTags });
-          } else if (hasSource && hasTarget) {
-            // Remove source, keep target
-            const updatedTags = tags.filter((tag) => tag !== sourceTag);
-            return db.updateVideo(video.id, { tags: updatedTags });
-          }
-          return Promise.resolve(0);
-        });
-
-      await Promise.all(updates);
+      await applyTagChange(sourceTag, targetTag);
     } catch (error) {
       console.error('Error merging tags:', error);
       throw error;
@@ -93,19 +78,11 @@ export const tagService = {
   },
 
   /**
-   * Delete a tag from all videos
+   * Delete a tag from all videos and its tag group
    */
   async deleteTag(tagName: string): Promise<void> {
     try {
-      const videos = await storageService.getAllVideos();
-      const updates = videos
-        .filter((video) => video.tags?.includes(tagName))
-        .map((video) => {
-          const updatedTags = video.tags?.filter((tag) => tag !== tagName);
-          return db.updateVideo(video.id, { tags: updatedTags });
-        });
-
-      await Promise.all(updates);
+      await applyTagChange(tagName, null);
     } catch (error) {
       console.error('Error deleting tag:', error);
       throw error;
@@ -234,10 +211,9 @@ export const tagService = {
     const suggestions: string[] = [];
 
     // Platform-based suggestions
-    if (video.platform === 'youtube') {
-      suggestions.push('YouTube', 'Video');
-    } else if (video.platform === 'tiktok') {
-      suggestions.push('TikTok', 'Short Video');
+    const provider = platformRegistry.find(video.platform);
+    if (provider) {
+      suggestions.push(provider.branding.name, provider.isVertical(video.url) ? 'Short Video' : 'Video');
     }
 
     // Title-based suggestions (extract keywords)
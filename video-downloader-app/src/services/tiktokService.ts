@@ -1,5 +1,12 @@
 import axios from 'axios';
+import { HttpStatusError } from '../utils/streamDownload';
 import { parseVideoUrl } from '../utils/urlParser';
+import { fetchCreatorFeed } from '../utils/creatorFeed';
+import { DownloadError, toDownloadError } from '../utils/downloadErrors';
+import { resumableDownload } from './resumableDownload';
+import type { ResumableDownloadOptions } from './resumableDownload';
+import { createUntimedTranscript } from '../utils/transcriptParser';
+import type { CreatorFeed, Transcript } from '../types';
 
 /**
  * TikTok video metadata response interface
@@ -222,7 +229,8 @@ export const tiktokService = {
           const data = error.response.data;
 
           if (status === 404) {
-            throw new Error(
+            throw new DownloadError(
+              'not-found',
               'Video not found. The video may have been deleted, the URL is incorrect, or the video is private.'
             );
           }
@@ -230,17 +238,19 @@ export const tiktokService = {
           if (status === 403) {
             // Check for specific error reasons
             if (data?.error?.code === 'PRIVATE_VIDEO') {
-              throw new Error('This video is private and cannot be accessed.');
+              throw new DownloadError('private', 'This video is private and cannot be accessed.');
             }
             if (data?.error?.code === 'REGION_RESTRICTED') {
-              throw new Error('This video is not available in your region.');
+              throw new DownloadError('private', 'This video is not available in your region.');
             }
-            throw new Error('Access denied. The video may be private or you lack permission to view it.');
+            throw new DownloadError('private', 'Access denied. The video may be private or you lack permission to view it.');
           }
 
           if (status === 429) {
-            throw new Error(
-              'Rate limit exceeded. TikTok has temporarily restricted access. Please wait before trying again.'
+            throw new DownloadError(
+              'rate-limited',
+              'Rate limit exceeded. TikTok has temporarily restricted access. Please wait before trying again.',
+              Number(error.response.headers['retry-after']) || undefined
             );
           }
 
@@ -248,18 +258,21 @@ export const tiktokService = {
             throw new Error('Invalid request. Please check the TikTok URL or video ID.');
           }
 
-          throw new Error(`TikTok API error: ${data?.error?.message || 'Unknown error'}`);
+          // The backend server names the kind of failure
+          throw toDownloadError(
+            new HttpStatusError(status, `TikTok API error: ${data?.details || data?.error?.message || 'Unknown error'}`, data?.code)
+          );
         }
 
         if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
-          throw new Error('Request timeout. Please check your internet connection and try again.');
+          throw new DownloadError('network', 'Request timeout. Please check your internet connection and try again.');
         }
 
         if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-          throw new Error('Network error. Unable to connect to TikTok API or proxy.');
+          throw new DownloadError('network', 'Network error. Unable to connect to TikTok API or proxy.');
         }
 
-        throw new Error(`Network error: ${error.message}`);
+        throw new DownloadError('network', `Network error: ${error.message}`);
       }
 
       // Re-throw if it's already our custom error
@@ -383,10 +396,12 @@ export const tiktokService = {
    * 
    * @param url - TikTok video URL
    * @param watermarkFree - Whether to request watermark-free version (requires backend processing)
+   * @param options - Abort signal, byte-level progress callback and resume key;
+   *   an interrupted download continues where it stopped
    * @returns Promise that resolves to video blob data
    * @throws Error if download fails
    */
-  async downloadVideo(url: string, watermarkFree: boolean = false): Promise<Blob> {
+  async downloadVideo(url: string, watermarkFree: boolean = false, options: ResumableDownloadOptions = {}): Promise<Blob> {
     const downloadProxy = import.meta.env.VITE_TIKTOK_DOWNLOAD_PROXY;
 
     if (!downloadProxy) {
@@ -400,53 +415,40 @@ export const tiktokService = {
 
     const videoId = await this.extractVideoId(url);
 
-    try {
-      const response = await axios.get(downloadProxy, {
-        params: {
-          url: url,
-          id: videoId,
-          watermarkFree: watermarkFree,
-        },
-        responseType: 'blob',
-        timeout: 300000, // 5 minutes timeout for large files
-        onDownloadProgress: (progressEvent) => {
-          // Progress can be handled by the caller
-          if (progressEvent.total) {
-            const percentCompleted = Math.round(
-              (progressEvent.loaded * 100) / progressEvent.total
-            );
-            // You can emit progress events here if needed
-          }
-        },
-      });
+    const params = new URLSearchParams({ url, id: videoId, watermarkFree: String(watermarkFree) });
 
-      return response.data;
+    try {
+      return await resumableDownload.download(`${downloadProxy}?${params}`, options);
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        if (error.response) {
-          const status = error.response.status;
-          if (status === 404) {
-            throw new Error('Video not found or unavailable for download.');
-          }
-          if (status === 403) {
-            throw new Error(
-              'Access denied. The video may be private, deleted, region-restricted, or you lack permission to download it.'
-            );
-          }
-          if (status === 429) {
-            throw new Error('Rate limit exceeded. Please wait before trying again.');
-          }
-          throw new Error(`Download failed: ${error.response.statusText}`);
-        }
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        throw error;
+      }
 
-        if (error.code === 'ECONNABORTED') {
-          throw new Error('Download timeout. The file may be too large or the connection is slow.');
+      if (error instanceof HttpStatusError) {
+        // Only the backend server knows whether the video was gone or the scraping failed
+        if (error.code) {
+          throw toDownloadError(error);
+        }
+        if (error.status === 404) {
+          throw new DownloadError('not-found', 'Video not found or unavailable for download.');
+        }
+        if (error.status === 403) {
+          throw new DownloadError(
+            'private',
+            'Access denied. The video may be private, deleted, region-restricted, or you lack permission to download it.'
+          );
         }
+        if (error.status === 429) {
+          throw new DownloadError('rate-limited', 'Rate limit exceeded. Please wait before trying again.', error.retryAfter);
+        }
+        throw toDownloadError(error);
+      }
 
-        throw new Error(`Network error during download: ${error.message}`);
+      if (error instanceof TypeError) {
+        throw new DownloadError('network', `Network error during download: ${error.message}`);
       }
 
-      throw new Error('An unexpected error occurred during TikTok video download.');
+      throw new DownloadError('unknown', 'An unexpected error occurred during TikTok video download.');
     }
   },
 
@@ -456,10 +458,10 @@ export const tiktokService = {
    * This returns the video description/caption text instead
    *
    * @param url - TikTok video URL
-   * @returns Promise that resolves to transcript text (video description)
+   * @returns Promise that resolves to an untimed transcript of the video description
    * @throws Error if transcript is unavailable or fetch fails
    */
-  async getTranscript(url: string): Promise<string> {
+  async getTranscript(url: string): Promise<Transcript> {
     try {
       // Get video metadata which includes the caption/description
       const metadata = await this.getVideoMetadata(url);
@@ -470,7 +472,7 @@ export const tiktokService = {
 
       // Return the description as the transcript
       // TikTok doesn't have traditional transcripts, so we use the caption
-      return `TikTok Video Caption:\n\n${metadata.description}\n\nAuthor: @${metadata.author}`;
+      return createUntimedTranscript(metadata.description, 'captions', metadata.duration);
 
     } catch (error) {
       if (error instanceof Error) {
@@ -479,5 +481,27 @@ export const tiktokService = {
       throw new Error('Failed to fetch TikTok video caption. The video may not have a description.');
     }
   },
+
+  /**
+   * Get the latest videos of a creator from their profile, through the backend server
+   * @param source - Username, with or without @, or profile URL (tiktok.com/@username)
+   * @returns Promise that resolves to the creator name and their videos, newest first
+   * @throws Error if the username is invalid or the profile cannot be found
+   */
+  async getUploads(source: string): Promise<CreatorFeed> {
+    const username = source.trim().match(/^(?:https?:\/\/(?:www\.)?tiktok\.com\/)?@?([\w.-]+)\/?$/i)?.[1];
+    if (!username) {
+      throw new Error('Invalid TikTok creator. Please enter a username or profile URL.');
+    }
+
+    try {
+      return await fetchCreatorFeed('tiktok', username);
+    } catch (error) {
+      if (error instanceof HttpStatusError && error.status === 404) {
+        throw new Error(`TikTok creator @${username} not found.`);
+      }
+      throw error;
+    }
+  },
 };
 
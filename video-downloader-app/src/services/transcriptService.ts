@@ -0,0 +1,141 @@
+import JSZip from 'jszip';
+import { db } from '../db/database';
+import { storageService } from './storageService';
+import { collectionService } from './collectionService';
+import { formatSubtitles, SUBTITLE_FORMATS } from '../utils/subtitleFormats';
+import type { SubtitleFormat } from '../utils/subtitleFormats';
+import type { Transcript, TranscriptVersion, TranscriptVersionKind } from '../types';
+
+/** Versions kept per video besides the original; older ones are deleted */
+const MAX_TRANSCRIPT_VERSIONS = 20;
+
+// Title usable as a file name
+const toFileName = (title: string): string =>
+  title.replace(/[^a-z0-9\s\-_]/gi, '_').replace(/\s+/g, '_').slice(0, 100) || 'transcript';
+
+/**
+ * Transcript service for attaching, versioning and exporting transcripts
+ */
+export const transcriptService = {
+  /**
+   * Attach a transcript to a video, replacing any transcript it has
+   * The replaced transcript stays available as a version.
+   * @param videoId - Video ID
+   * @param transcript - Transcript, such as one read from a subtitle file
+   */
+  async attach(videoId: string, transcript: Transcript): Promise<void> {
+    await this.saveVersion(videoId, transcript, 'import');
+  },
+
+  /**
+   * Save an edited transcript as the video's transcript and as a new version
+   * @param videoId - Video ID
+   * @param transcript - Edited transcript
+   */
+  async saveEdit(videoId: string, transcript: Transcript): Promise<void> {
+    await this.saveVersion(videoId, transcript, 'edit');
+  },
+
+  /**
+   * Saved versions of a video's transcript
+   * @param videoId - Video ID
+   * @returns Versions, newest first
+   */
+  async getVersions(videoId: string): Promise<TranscriptVersion[]> {
+    const versions = await db.transcriptVersions.where('videoId').equals(videoId).sortBy('savedAt');
+    return versions.reverse();
+  },
+
+  /**
+   * Make a saved version the video's transcript again
+   * @param videoId - Video ID
+   * @param versionId - ID of the version to restore
+   * @returns The restored transcript
+   * @throws Error if the version does not exist
+   */
+  async restoreVersion(videoId: string, versionId: string): Promise<Transcript> {
+    const version = await db.transcriptVersions.get(versionId);
+    if (!version || version.videoId !== videoId) {
+      throw new Error('Transcript version not found');
+    }
+    await this.saveVersion(videoId, version.transcript, 'restore');
+    return version.transcript;
+  },
+
+  /**
+   * Replace a video's transcript and record it as a version
+   * The first change also records the transcript it replaces as the original, so
+   * downloaded captions can always be restored.
+   * @param videoId - Video ID
+   * @param transcript - New transcript of the video
+   * @param kind - How the new transcript came about
+   */
+  async saveVersion(videoId: string, transcript: Transcript, kind: TranscriptVersionKind): Promise<void> {
+    const video = await storageService.getVideo(videoId);
+
+    await db.transaction('rw', db.transcriptVersions, async () => {
+      const versions = await db.transcriptVersions.where('videoId').equals(videoId).sortBy('savedAt');
+      const now = Date.now();
+
+      if (versions.length === 0 && video.transcript) {
+        await db.transcriptVersions.add({
+          id: crypto.randomUUID(),
+          videoId,
+          kind: 'original',
+          transcript: video.transcript,
+          savedAt: new Date(now - 1),
+        });
+      }
+      await db.transcriptVersions.add({ id: crypto.randomUUID(), videoId, kind, transcript, savedAt: new Date(now) });
+
+      // The original is kept however many versions there are
+      const prunable = versions.filter((version) => version.kind !== 'original');
+      const excess = prunable.length + 1 - MAX_TRANSCRIPT_VERSIONS;
+      if (excess > 0) {
+        await db.transcriptVersions.bulkDelete(prunable.slice(0, excess).map((version) => version.id));
+      }
+    });
+
+    await storageService.updateVideoMetadata(videoId, { transcript });
+  },
+
+  /**
+   * Export the transcripts of all videos in a collection as a ZIP of subtitle files
+   * Videos without a transcript are left out.
+   * @param collectionId - Collection ID
+   * @param format - File format of the transcripts
+   * @returns The ZIP file and the number of transcripts in it
+   * @throws Error if no video in the collection has a transcript
+   */
+  async exportCollection(collectionId: string, format: SubtitleFormat): Promise<{ blob: Blob; count: number }> {
+    const videos = await collectionService.getCollectionVideos(collectionId);
+    const { extension } = SUBTITLE_FORMATS[format];
+
+    const zip = new JSZip();
+    const usedNames = new Set<string>();
+    let count = 0;
+
+    for (const video of videos) {
+      if (!video.transcript || video.transcript.cues.length === 0) continue;
+
+      // Videos with the same title get numbered files
+      const baseName = toFileName(video.title);
+      let fileName = `${baseName}.${extension}`;
+      for (let n = 2; usedNames.has(fileName); n++) {
+        fileName = `${baseName}_${n}.${extension}`;
+      }
+      usedNames.add(fileName);
+
+      zip.file(fileName, formatSubtitles(video.transcript, format));
+      count++;
+    }
+
+    if (count === 0) {
+      throw new Error('No video in this collection has a transcript');
+    }
+
+    const blob = await zip.generateAsync({ type: 'blob' });
+    console.log(`[Transcript Service] Exported ${count} transcript(s) as ${extension}`);
+    return { blob, count };
+  },
+};
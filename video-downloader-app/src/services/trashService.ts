@@ -0,0 +1,307 @@
+import { db } from '../db/database';
+import { mediaStore } from './mediaStore';
+import { searchIndex } from './searchIndex';
+import { collectionService } from './collectionService';
+import { integrityService } from './integrityService';
+import type { Video, Collection, TrashItem, TrashedVideo, TrashedCollection, TrashedTag } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Insert an ID at its old position, or at the end if the list has shrunk
+const insertAt = (ids: string[], id: string, index: number): string[] => {
+  if (ids.includes(id)) return ids;
+  const next = [...ids];
+  next.splice(index < 0 ? next.length : Math.min(index, next.length), 0, id);
+  return next;
+};
+
+/**
+ * Trash service for soft-deleting videos, collections and tags
+ *
+ * Trashed items are moved out of the library into the trash table, along with
+ * what is needed to put them back: a video keeps its tags and its position in
+ * each collection, a tag remembers the videos it was removed from. Video files
+ * stay in the media store until the item is purged.
+ */
+export const trashService = {
+  /**
+   * Move a video to the trash and remove it from its collections
+   * @param id - Video ID
+   * @returns Promise that resolves to the trash entry
+   * @throws Error if the video is not found
+   */
+  async trashVideo(id: string): Promise<TrashedVideo> {
+    const item = await db.transaction('rw', db.videos, db.collections, db.trash, async () => {
+      const video = await db.videos.get(id);
+      if (!video) {
+        throw new Error(`Video with id ${id} not found`);
+      }
+
+      const memberships = await integrityService.detachVideo(id);
+      const trashed: TrashedVideo = {
+        id: crypto.randomUUID(),
+        kind: 'video',
+        name: video.title,
+        deletedAt: new Date(),
+        video,
+        memberships,
+      };
+      await db.trash.add(trashed);
+      await db.videos.delete(id);
+      return trashed;
+    });
+
+    await searchIndex.removeVideo(id).catch((error) => {
+      console.error('[Trash Service] Error removing video from search index:', error);
+    });
+    return item;
+  },
+
+  /**
+   * Move a collection to the trash
+   * Videos in the collection are not affected; nested collections move up a level.
+   * @param id - Collection ID
+   * @returns Promise that resolves to the trash entry
+   * @throws Error if the collection is not found
+   */
+  async trashCollection(id: string): Promise<TrashedCollection> {
+    return db.transaction('rw', db.collections, db.trash, async () => {
+      const collection = await db.collections.get(id);
+      if (!collection) {
+        throw new Error('Collection not found');
+      }
+
+      const trashed: TrashedCollection = {
+        id: crypto.randomUUID(),
+        kind: 'collection',
+        name: collection.name,
+        deletedAt: new Date(),
+        collection,
+        childIds: await integrityService.detachCollection(id),
+      };
+      await db.trash.add(trashed);
+      await db.collections.delete(id);
+      return trashed;
+    });
+  },
+
+  /**
+   * Remove a tag from all videos and move it to the trash
+   * @param tagName - Tag to remove
+   * @returns Promise that resolves to the trash entry
+   */
+  async trashTag(tagName: string): Promise<TrashedTag> {
+    const trashed = await db.transaction('rw', [db.videos, db.tagGroupAssignments, db.collections, db.trash], async () => {
+      const assignment = await db.tagGroupAssignments.get(tagName);
+      const item: TrashedTag = {
+        id: crypto.randomUUID(),
+        kind: 'tag',
+        name: tagName,
+        deletedAt: new Date(),
+        videoIds: await integrityService.replaceTag(tagName, null),
+        groupId: assignment?.groupId,
+      };
+      await db.trash.add(item);
+      await collectionService.refreshSmartCollections('tag');
+      return item;
+    });
+
+    await integrityService.reindexVideos(trashed.videoIds);
+    return trashed;
+  },
+
+  /**
+   * Get all trashed items, most recently deleted first
+   * @returns Promise that resolves to the trash entries
+   */
+  async getItems(): Promise<TrashItem[]> {
+    return db.trash.orderBy('deletedAt').reverse().toArray();
+  },
+
+  /**
+   * Put a trashed item back
+   * Videos return to the collections they were in (if those still exist) with
+   * their tags; tags are added back to the videos they were removed from.
+   * @param id - Trash entry ID
+   * @throws Error if the entry is not found or the item is already back in the library
+   */
+  async restore(id: string): Promise<void> {
+    const item = await db.trash.get(id);
+    if (!item) {
+      throw new Error('Item is no longer in the trash');
+    }
+
+    switch (item.kind) {
+      case 'video':
+        await this.restoreVideo(item);
+        break;
+      case 'collection':
+        await this.restoreCollection(item);
+        break;
+      case 'tag':
+        await this.restoreTag(item);
+        break;
+    }
+    console.log(`[Trash Service] Restored ${item.kind} "${item.name}"`);
+  },
+
+  /**
+   * Put a trashed video back into the library and its collections
+   */
+  async restoreVideo(item: TrashedVideo): Promise<void> {
+    const video: Video = await db.transaction('rw', db.videos, db.collections, db.trash, async () => {
+      if (await db.videos.get(item.video.id)) {
+        throw new Error(`"${item.name}" is already in the library`);
+      }
+      await db.videos.add(item.video);
+
+      for (const membership of item.memberships) {
+        const collection = await db.collections.get(membership.collectionId);
+        if (!collection) continue;
+        await db.collections.update(collection.id, {
+          videoIds: insertAt(collection.videoIds, item.video.id, membership.index),
+          videoOrder: collection.videoOrder
+            ? insertAt(collection.videoOrder, item.video.id, membership.orderIndex)
+            : undefined,
+          modifiedDate: new Date(),
+        });
+      }
+
+      await db.trash.delete(item.id);
+      return item.video;
+    });
+
+    await searchIndex.indexVideo(video).catch((error) => {
+      console.error('[Trash Service] Error indexing video:', error);
+    });
+  },
+
+  /**
+   * Put a trashed collection back
+   */
+  async restoreCollection(item: TrashedCollection): Promise<void> {
+    await db.transaction('rw', db.videos, db.collections, db.trash, async () => {
+      if (await db.collections.get(item.collection.id)) {
+        throw new Error(`"${item.name}" is already in the library`);
+      }
+
+      // Leave out videos deleted while the collection was in the trash
+      const existing = new Set(await db.videos.where('id').anyOf(item.collection.videoIds).primaryKeys());
+      const collection: Collection = {
+        ...item.collection,
+        videoIds: item.collection.videoIds.filter((id) => existing.has(id)),
+        videoOrder: item.collection.videoOrder?.filter((id) => existing.has(id)),
+      };
+
+      await db.collections.add(collection);
+
+      // Take back children that were moved up a level and have not been moved since
+      for (const childId of item.childIds) {
+        const child = await db.collections.get(childId);
+        if (child && child.parentId === item.collection.parentId) {
+          await db.collections.update(childId, { parentId: collection.id, modifiedDate: new Date() });
+        }
+      }
+
+      await db.trash.delete(item.id);
+    });
+  },
+
+  /**
+   * Add a trashed tag back to its videos and tag group
+   */
+  async restoreTag(item: TrashedTag): Promise<void> {
+    const restoredVideoIds = await db.transaction(
+      'rw',
+      [db.videos, db.tagGroups, db.tagGroupAssignments, db.collections, db.trash],
+      async () => {
+        const videos = (await db.videos.bulkGet(item.videoIds)).filter(
+          (video): video is Video => !!video && !video.tags.includes(item.name)
+        );
+        for (const video of videos) {
+          await db.videos.update(video.id, { tags: [...video.tags, item.name] });
+        }
+
+        if (item.groupId && (await db.tagGroups.get(item.groupId)) && !(await db.tagGroupAssignments.get(item.name))) {
+          await db.tagGroupAssignments.put({ tagName: item.name, groupId: item.groupId });
+        }
+
+        await collectionService.refreshSmartCollections('tag');
+        await db.trash.delete(item.id);
+        return videos.map((video) => video.id);
+      }
+    );
+
+    await integrityService.reindexVideos(restoredVideoIds);
+  },
+
+  /**
+   * Delete a trashed item permanently, freeing the storage of trashed videos
+   * Transcript versions of a video are kept while it is in the trash, so restoring
+   * it brings back its transcript history, and deleted with it here.
+   * @param id - Trash entry ID
+   */
+  async purge(id: string): Promise<void> {
+    const item = await db.transaction('rw', db.trash, db.transcriptVersions, async () => {
+      const trashed = await db.trash.get(id);
+      if (!trashed) return undefined;
+
+      await db.trash.delete(id);
+      if (trashed.kind === 'video') {
+        await db.transcriptVersions.where('videoId').equals(trashed.video.id).delete();
+      }
+      return trashed;
+    });
+
+    if (item?.kind === 'video') {
+      if (item.video.thumbnail.startsWith('blob:')) {
+        URL.revokeObjectURL(item.video.thumbnail);
+      }
+      if (item.video.mediaHash) {
+        await mediaStore.releaseBlob(item.video.mediaHash);
+      }
+    }
+  },
+
+  /**
+   * Delete everything in the trash permanently
+   * @returns Promise that resolves to the number of items deleted
+   */
+  async emptyTrash(): Promise<number> {
+    const ids = await db.trash.toCollection().primaryKeys();
+    for (const id of ids) {
+      await this.purge(id);
+    }
+    return ids.length;
+  },
+
+  /**
+   * Permanently delete items that have been in the trash longer than the retention period
+   * @param retentionDays - Days to keep trashed items; 0 keeps them until the trash is emptied
+   * @returns Promise that resolves to the number of items deleted
+   */
+  async purgeExpired(retentionDays: number): Promise<number> {
+    if (retentionDays <= 0) return 0;
+
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+    const ids = await db.trash.where('deletedAt').below(cutoff).primaryKeys();
+    for (const id of ids) {
+      await this.purge(id);
+    }
+    if (ids.length > 0) {
+      console.log(`[Trash Service] Purged ${ids.length} expired item(s)`);
+    }
+    return ids.length;
+  },
+
+  /**
+   * Get the date a trashed item will be deleted permanently
+   * @param item - Trash entry
+   * @param retentionDays - Days to keep trashed items
+   * @returns The purge date, or null if items are kept until the trash is emptied
+   */
+  getPurgeDate(item: TrashItem, retentionDays: number): Date | null {
+    if (retentionDays <= 0) return null;
+    return new Date(new Date(item.deletedAt).getTime() + retentionDays * DAY_MS);
+  },
+};
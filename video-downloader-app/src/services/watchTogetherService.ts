@@ -0,0 +1,214 @@
+/**
+ * Participant in a watch-together room
+ */
+export interface RoomParticipant {
+  id: string;
+  name: string;
+  /** Whether this participant has the room's video in their library */
+  hasVideo: boolean;
+  isHost: boolean;
+}
+
+/**
+ * Shared playback state of a room
+ * `position` is the playback position (seconds) at server time `updatedAt` (ms)
+ */
+export interface RoomPlaybackState {
+  playing: boolean;
+  position: number;
+  rate: number;
+  updatedAt: number;
+}
+
+/**
+ * Video a room is watching, identified by its source key
+ */
+export interface RoomVideo {
+  key: string;
+  url: string;
+  title: string;
+}
+
+export type RoomControlAction = 'play' | 'pause' | 'seek' | 'rate';
+
+export type RoomServerMessage =
+  | {
+      type: 'joined';
+      code: string;
+      selfId: string;
+      video: RoomVideo;
+      state: RoomPlaybackState;
+      participants: RoomParticipant[];
+      serverTime: number;
+    }
+  | { type: 'presence'; participants: RoomParticipant[]; serverTime: number }
+  | { type: 'state'; state: RoomPlaybackState; by: string; serverTime: number }
+  | { type: 'pong'; clientTime: number; serverTime: number }
+  | { type: 'error'; message: string; serverTime: number }
+  /** Emitted locally when the connection drops */
+  | { type: 'closed' };
+
+type MessageListener = (message: RoomServerMessage) => void;
+
+const DEFAULT_ROOMS_URL = 'ws://localhost:3000/ws/rooms';
+const CLOCK_SYNC_INTERVAL = 5000;
+
+/**
+ * Client for the watch-together room server
+ *
+ * Keeps a WebSocket connection to the local server, relays playback controls
+ * and estimates the offset between the local clock and the server clock so
+ * that shared positions can be extrapolated accurately.
+ */
+export class WatchTogetherClient {
+  private url: string;
+  private socket: WebSocket | null = null;
+  private listeners = new Set<MessageListener>();
+  private clockOffset = 0;
+  private bestRoundTrip = Infinity;
+  private clockSyncTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(url: string = import.meta.env.VITE_WATCH_TOGETHER_URL || DEFAULT_ROOMS_URL) {
+    this.url = url;
+  }
+
+  /**
+   * Open the connection (no-op if already open)
+   * @throws Error if the room server cannot be reached
+   */
+  async connect(): Promise<void> {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+
+      socket.onopen = () => {
+        this.socket = socket;
+        resolve();
+      };
+      socket.onerror = () => {
+        reject(new Error('Cannot connect to the watch-together server. Make sure "npm run server" is running.'));
+      };
+      socket.onclose = () => {
+        if (this.socket === socket) {
+          this.socket = null;
+          this.stopClockSync();
+          this.listeners.forEach((listener) => listener({ type: 'closed' }));
+        }
+      };
+      socket.onmessage = (event) => {
+        try {
+          this.handleMessage(JSON.parse(event.data) as RoomServerMessage);
+        } catch (error) {
+          console.error('[WatchTogether] Invalid message from server:', error);
+        }
+      };
+    });
+
+    this.startClockSync();
+  }
+
+  /**
+   * Join a room by code, or create a new room when no code is given
+   */
+  join(code: string | null, name: string, video: RoomVideo): void {
+    this.send({ type: 'join', code, name, video });
+  }
+
+  /**
+   * Leave the current room but keep the connection open
+   */
+  leave(): void {
+    this.send({ type: 'leave' });
+  }
+
+  /**
+   * Broadcast a playback control to the room
+   * @param position - Local playback position in seconds when the action happened
+   */
+  sendControl(action: RoomControlAction, position: number, rate?: number): void {
+    this.send({ type: 'control', action, position, rate });
+  }
+
+  /**
+   * Subscribe to server messages
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: MessageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Current time on the server clock (ms)
+   */
+  getServerNow(): number {
+    return Date.now() + this.clockOffset;
+  }
+
+  /**
+   * Position a room's video should be at right now
+   */
+  getExpectedPosition(state: RoomPlaybackState): number {
+    if (!state.playing) {
+      return state.position;
+    }
+    return state.position + ((this.getServerNow() - state.updatedAt) / 1000) * state.rate;
+  }
+
+  /**
+   * Close the connection and drop all listeners
+   */
+  disconnect(): void {
+    this.stopClockSync();
+    this.listeners.clear();
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      console.warn('[WatchTogether] Not connected, dropping message:', message.type);
+      return;
+    }
+    this.socket.send(JSON.stringify(message));
+  }
+
+  private handleMessage(message: RoomServerMessage): void {
+    if (message.type === 'pong') {
+      // Keep the sample with the smallest round trip; it bounds the offset error best
+      const now = Date.now();
+      const roundTrip = now - message.clientTime;
+      if (roundTrip <= this.bestRoundTrip) {
+        this.bestRoundTrip = roundTrip;
+        this.clockOffset = message.serverTime + roundTrip / 2 - now;
+      }
+      return;
+    }
+
+    this.listeners.forEach((listener) => listener(message));
+  }
+
+  private startClockSync(): void {
+    this.stopClockSync();
+    this.bestRoundTrip = Infinity;
+
+    const ping = () => this.send({ type: 'ping', clientTime: Date.now() });
+    ping();
+    this.clockSyncTimer = setInterval(ping, CLOCK_SYNC_INTERVAL);
+  }
+
+  private stopClockSync(): void {
+    if (this.clockSyncTimer) {
+      clearInterval(this.clockSyncTimer);
+      this.clockSyncTimer = null;
+    }
+  }
+}
@@ -1,6 +1,12 @@
-import { Innertube } from 'youtubei.js/web';
+import { Innertube, YTNodes } from 'youtubei.js/web';
+import type { Helpers } from 'youtubei.js/web';
 import { parseVideoUrl } from '../utils/urlParser';
-import type { VideoMetadata } from '../types';
+import { HttpStatusError, toHttpStatusError } from '../utils/streamDownload';
+import { fetchCreatorFeed } from '../utils/creatorFeed';
+import { DownloadError, toDownloadError } from '../utils/downloadErrors';
+import { resumableDownload } from './resumableDownload';
+import type { ResumableDownloadOptions } from './resumableDownload';
+import type { CreatorFeed, QualityOption, Transcript, TranscriptCue } from '../types';
 
 /**
  * YouTube video metadata response interface
@@ -17,6 +23,206 @@ export interface YouTubeVideoMetadata {
   isShort: boolean;
 }
 
+/**
+ * Video listed in a YouTube playlist or channel
+ */
+export interface YouTubeVideoListEntry {
+  videoId: string;
+  url: string; // watch URL
+  title: string;
+  duration: number; // in seconds, 0 if unknown
+  thumbnail: string;
+  author: string; // channel name, '' if not listed
+  position: number; // position in the playlist or channel, from 0
+}
+
+/**
+ * Videos of a YouTube playlist or channel
+ */
+export interface YouTubeVideoList {
+  type: 'playlist' | 'channel';
+  url: string; // playlist or channel URL
+  title: string; // playlist title or channel name
+  author: string; // playlist owner or channel name
+  entries: YouTubeVideoListEntry[];
+  truncated: boolean; // true if the list has more than MAX_LIST_ENTRIES videos
+}
+
+/**
+ * Downloadable format of a YouTube video, as listed by the backend server
+ */
+interface YouTubeFormat {
+  itag: number;
+  container: string | null; // 'mp4' or 'webm'
+  hasVideo: boolean;
+  hasAudio: boolean;
+  videoCodec: string | null;
+  audioCodec: string | null;
+  width: number;
+  height: number;
+  fps: number;
+  hdr: boolean;
+  bitrate: number; // in bits per second
+  audioBitrate: number; // in kbps
+  contentLength: number; // in bytes, 0 if unknown
+}
+
+// Video codecs by preference: H.264 plays everywhere, VP9 and AV1 need newer players
+const VIDEO_CODEC_PREFERENCE = ['avc1', 'vp9', 'vp09', 'av01'];
+
+// Quality names by the short side of the frame
+const QUALITY_NAMES: Array<[number, string]> = [
+  [4320, '8K'],
+  [2160, '4K'],
+  [1440, '2K'],
+  [1080, 'Full HD'],
+  [720, 'HD'],
+  [480, 'SD'],
+  [360, 'Low'],
+  [0, 'Very Low'],
+];
+
+// Short side of the frame, which YouTube's quality labels go by (so Shorts are 1080p, not 1920p)
+const shortSide = (format: YouTubeFormat): number => Math.min(format.width || format.height, format.height);
+
+const videoCodecRank = (format: YouTubeFormat): number => {
+  const rank = VIDEO_CODEC_PREFERENCE.indexOf((format.videoCodec || '').split('.')[0]);
+  return rank === -1 ? VIDEO_CODEC_PREFERENCE.length : rank;
+};
+
+// e.g. '1080p', '1080p60' or '2160p60 HDR'
+const resolutionLabel = (format: YouTubeFormat): string =>
+  `${shortSide(format)}p${format.fps > 30 ? Math.round(format.fps) : ''}${format.hdr ? ' HDR' : ''}`;
+
+// One quality per resolution, frame rate and dynamic range: the most compatible video
+// format for it, paired with the best audio format when it has no sound of its own
+function toQualityOptions(formats: YouTubeFormat[], duration: number): QualityOption[] {
+  const [audio] = formats
+    .filter((format) => format.hasAudio && !format.hasVideo)
+    // AAC (m4a) first, so it can go into the MP4 file
+    .sort((a, b) => Number(b.container === 'mp4') - Number(a.container === 'mp4') || b.audioBitrate - a.audioBitrate);
+
+  const isBetter = (format: YouTubeFormat, current: YouTubeFormat): boolean => {
+    // Without an audio format to merge, the formats that have sound come first
+    if (!audio && format.hasAudio !== current.hasAudio) return format.hasAudio;
+    return (videoCodecRank(format) - videoCodecRank(current) || current.bitrate - format.bitrate) < 0;
+  };
+
+  const best = new Map<string, YouTubeFormat>();
+  for (const format of formats) {
+    if (!format.hasVideo) continue;
+    const resolution = resolutionLabel(format);
+    const current = best.get(resolution);
+    if (!current || isBetter(format, current)) best.set(resolution, format);
+  }
+
+  const options = [...best].map(([resolution, video]): QualityOption => {
+    const parts = video.hasAudio || !audio ? [video] : [video, audio];
+    const exactSize = parts.every((part) => part.contentLength > 0);
+    // (bits per second / 8) * duration in seconds = bytes
+    const estimatedSize = (parts.reduce((sum, part) => sum + (part.bitrate || part.audioBitrate * 1000), 0) / 8) * duration;
+    const height = shortSide(video);
+
+    return {
+      resolution,
+      width: video.width,
+      height: video.height,
+      fileSize: exactSize ? parts.reduce((sum, part) => sum + part.contentLength, 0) : Math.round(estimatedSize),
+      exactSize,
+      bitrate: Math.round(video.bitrate / 1000),
+      available: true,
+      label: QUALITY_NAMES.find(([minHeight]) => height >= minHeight)?.[1],
+      formatId: parts.map((part) => part.itag).join('+'),
+      videoCodec: video.videoCodec || undefined,
+      audioCodec: (video.hasAudio ? video.audioCodec : audio?.audioCodec) || undefined,
+      fps: video.fps || undefined,
+      hdr: video.hdr,
+      hasVideo: true,
+      hasAudio: parts.some((part) => part.hasAudio),
+    };
+  });
+
+  // Highest resolution first; SDR before HDR, then higher frame rates
+  const heightOf = (option: QualityOption) => Math.min(option.width || option.height, option.height);
+  options.sort(
+    (a, b) => heightOf(b) - heightOf(a) || Number(a.hdr) - Number(b.hdr) || (b.fps || 0) - (a.fps || 0)
+  );
+
+  // Full HD (or the best below it) plays well and keeps files reasonably small
+  const recommended = options.find((option) => !option.hdr && heightOf(option) <= 1080) ?? options[0];
+  if (recommended) recommended.recommended = true;
+
+  return options;
+}
+
+/**
+ * Options for a download through the backend server
+ */
+export interface YouTubeDownloadOptions extends ResumableDownloadOptions {
+  formatId?: string; // exact format from getAvailableQualities, takes precedence over quality
+  audioBitrate?: number; // MP3 bitrate in kbps
+}
+
+// Channel ID, as in youtube.com/channel/UC...
+const CHANNEL_ID_PATTERN = /^UC[\w-]{22}$/;
+
+/** Playlists and channels are read up to this many videos */
+const MAX_LIST_ENTRIES = 500;
+
+// youtube.com/playlist?list=PLAYLIST_ID
+const PLAYLIST_URL_PATTERN = /youtube\.com\/playlist\?(?:.*&)?list=([\w-]+)/i;
+// youtube.com/@handle, /channel/UC..., /c/name or /user/name, optionally with a tab (/videos)
+const CHANNEL_URL_PATTERN =
+  /youtube\.com\/(@[\w.-]+|channel\/UC[\w-]+|c\/[\w.-]+|user\/[\w.-]+)(?:\/(?:videos|featured|shorts|streams))?\/?(?:[?#].*)?$/i;
+
+// Playlist and channel pages list videos with different node types
+function toListEntry(node: Helpers.YTNode, position: number): YouTubeVideoListEntry | null {
+  let videoId: string | undefined;
+  let title = '';
+  let duration = 0;
+  let author = '';
+  let thumbnails: Array<{ url: string }> = [];
+
+  if (node.is(YTNodes.PlaylistVideo)) {
+    if (!node.is_playable || node.is_live || node.is_upcoming) return null;
+    videoId = node.id;
+    title = node.title.toString();
+    duration = node.duration.seconds;
+    author = node.author?.name || '';
+    thumbnails = node.thumbnails;
+  } else if (node.is(YTNodes.Video)) {
+    if (node.is_live || node.is_upcoming) return null;
+    videoId = node.video_id;
+    title = node.title.toString();
+    duration = node.duration.seconds;
+    author = node.author?.name || '';
+    thumbnails = node.thumbnails;
+  } else if (node.is(YTNodes.GridVideo, YTNodes.CompactVideo)) {
+    videoId = node.video_id;
+    title = node.title.toString();
+    thumbnails = node.thumbnails;
+  } else if (node.is(YTNodes.ReelItem)) {
+    videoId = node.id;
+    title = node.title.toString();
+    thumbnails = node.thumbnails;
+  } else if (node.is(YTNodes.ShortsLockupView)) {
+    videoId = node.on_tap_endpoint?.payload?.videoId;
+    title = node.overlay_metadata.primary_text?.toString() || '';
+    thumbnails = node.thumbnail;
+  }
+
+  if (!videoId) return null;
+  return {
+    videoId,
+    url: `https://www.youtube.com/watch?v=${videoId}`,
+    title: title || 'Untitled',
+    duration: duration || 0,
+    thumbnail: thumbnails[0]?.url || '',
+    author,
+    position,
+  };
+}
+
 /**
  * YouTube service for video operations
  * 
@@ -118,21 +324,21 @@ export const youtubeService = {
         const errorMessage = error.message.toLowerCase();
 
         if (errorMessage.includes('not found') || errorMessage.includes('404')) {
-          throw new Error('Video not found. The video may have been deleted or the URL is incorrect.');
+          throw new DownloadError('not-found', 'Video not found. The video may have been deleted or the URL is incorrect.');
         }
 
         if (errorMessage.includes('private') || errorMessage.includes('403')) {
-          throw new Error('This video is private or unavailable');
+          throw new DownloadError('private', 'This video is private or unavailable');
         }
 
         if (errorMessage.includes('age') || errorMessage.includes('restricted')) {
-          throw new Error('This video is age-restricted');
+          throw new DownloadError('age-restricted', 'This video is age-restricted');
         }
 
-        throw error;
+        throw toDownloadError(error);
       }
 
-      throw new Error('Failed to fetch video metadata. Please check the URL and try again.');
+      throw new DownloadError('unknown', 'Failed to fetch video metadata. Please check the URL and try again.');
     }
   },
 
@@ -209,100 +415,93 @@ export const youtubeService = {
   },
 
   /**
-   * Get available qualities for a YouTube video
+   * Get the qualities a YouTube video can be downloaded in, from the formats
+   * YouTube offers for it (listed by the backend server)
    * @param videoId - YouTube video ID
-   * @param duration - Video duration in seconds (for file size estimation)
-   * @param isShort - Whether the video is a Short
-   * @returns Promise that resolves to array of quality options
+   * @param duration - Video duration in seconds, to estimate sizes YouTube does not list
+   * @returns Promise that resolves to the quality options, highest first
+   * @throws Error if the formats cannot be listed
    */
-  async getAvailableQualities(
-    videoId: string,
-    duration: number = 0,
-    isShort: boolean = false
-  ): Promise<Array<{
-    resolution: string;
-    width: number;
-    height: number;
-    fileSize: number;
-    bitrate: number;
-    available: boolean;
-    recommended?: boolean;
-    label?: string;
-  }>> {
-    // Standard YouTube video qualities
-    const standardQualities = [
-      { resolution: '2160p', width: 3840, height: 2160, bitrate: 15000, label: '4K' },
-      { resolution: '1440p', width: 2560, height: 1440, bitrate: 9000, label: '2K' },
-      { resolution: '1080p', width: 1920, height: 1080, bitrate: 5000, label: 'Full HD' },
-      { resolution: '720p', width: 1280, height: 720, bitrate: 2500, label: 'HD' },
-      { resolution: '480p', width: 854, height: 480, bitrate: 1500, label: 'SD' },
-      { resolution: '360p', width: 640, height: 360, bitrate: 1000, label: 'Low' },
-      { resolution: '240p', width: 426, height: 240, bitrate: 500, label: 'Very Low' },
-    ];
-
-    // YouTube Shorts are vertical videos (9:16 aspect ratio)
-    const shortsQualities = [
-      { resolution: '1080p', width: 1080, height: 1920, bitrate: 5000, label: 'Full HD' },
-      { resolution: '720p', width: 720, height: 1280, bitrate: 2500, label: 'HD' },
-      { resolution: '480p', width: 480, height: 854, bitrate: 1500, label: 'SD' },
-      { resolution: '360p', width: 360, height: 640, bitrate: 1000, label: 'Low' },
-    ];
-
-    const qualities = isShort ? shortsQualities : standardQualities;
-
-    const availableQualities = qualities.map((q) => {
-      // Estimate file size: (bitrate in kbps * duration in seconds) / 8 = bytes
-      const estimatedSize = (q.bitrate * duration) / 8;
-
-      // Shorts don't have 4K typically
-      let available = true;
-      if (isShort && (q.resolution === '2160p' || q.resolution === '1440p')) {
-        available = false;
-      }
+  async getAvailableQualities(videoId: string, duration: number = 0): Promise<QualityOption[]> {
+    const proxyUrl = import.meta.env.VITE_YOUTUBE_API_PROXY || 'http://localhost:3000/api/youtube';
 
-      // 4K and 2K might not always be available for regular videos
-      if (!isShort && (q.resolution === '2160p' || q.resolution === '1440p')) {
-        available = Math.random() > 0.6; // Simulate availability
+    let data: { duration: number; formats: YouTubeFormat[] };
+    try {
+      const response = await fetch(`${proxyUrl}/formats?${new URLSearchParams({ id: videoId })}`);
+      if (!response.ok) {
+        throw await toHttpStatusError(response);
       }
+      data = await response.json();
+    } catch (error) {
+      if (error instanceof TypeError) {
+        throw new DownloadError(
+          'server-down',
+          'Could not list the video formats. Please make sure the server is running ("npm run server").'
+        );
+      }
+      throw toDownloadError(error);
+    }
 
-      return {
-        resolution: q.resolution,
-        width: q.width,
-        height: q.height,
-        fileSize: Math.round(estimatedSize),
-        bitrate: q.bitrate,
-        available,
-        recommended: q.resolution === '1080p',
-        label: q.label,
-      };
-    });
-
-    return availableQualities.filter(q => q.available);
+    return toQualityOptions(data.formats, data.duration || duration);
   },
 
   /**
-   * Download video from YouTube (DEPRECATED - requires backend)
+   * Download video from YouTube through the backend server (npm run server)
    * @param videoId - YouTube video ID
-   * @param quality - Desired quality (e.g., '1080p')
+   * @param quality - Desired quality (e.g., '1080p'); the best format up to it is chosen
    * @param format - Desired format ('mp4' or 'mp3')
+   * @param options - Exact format and MP3 bitrate, plus the abort signal, byte-level
+   *   progress callback and resume key; an interrupted download continues where it stopped
    * @returns Promise that resolves to video blob data
    * @throws Error if download fails
    */
-  async downloadVideo(videoId: string, quality: string = '1080p', format: 'mp4' | 'mp3' = 'mp4'): Promise<Blob> {
-    throw new Error(
-      'Direct video download is not available. This feature requires a backend server. ' +
-      'Please start the server by running "npm run server" in a terminal.'
-    );
+  async downloadVideo(
+    videoId: string,
+    quality: string = '1080p',
+    format: 'mp4' | 'mp3' = 'mp4',
+    options: YouTubeDownloadOptions = {}
+  ): Promise<Blob> {
+    const proxyUrl = import.meta.env.VITE_YOUTUBE_API_PROXY || 'http://localhost:3000/api/youtube';
+    const { formatId, audioBitrate, ...downloadOptions } = options;
+    const params = new URLSearchParams({ id: videoId, quality, format });
+    if (formatId && format === 'mp4') {
+      params.set('formatId', formatId);
+    }
+    if (audioBitrate && format === 'mp3') {
+      params.set('audioBitrate', String(audioBitrate));
+    }
+
+    try {
+      return await resumableDownload.download(`${proxyUrl}/download?${params}`, downloadOptions);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        throw error;
+      }
+
+      // The server names the kind of failure
+      if (error instanceof HttpStatusError) {
+        throw toDownloadError(error);
+      }
+
+      if (error instanceof TypeError) {
+        throw new DownloadError(
+          'server-down',
+          'Network error during download. Please make sure the server is running ("npm run server").'
+        );
+      }
+
+      throw error;
+    }
   },
 
   /**
    * Get video transcript/captions from YouTube using YouTube.js
    *
    * @param urlOrId - YouTube video URL or video ID
-   * @returns Promise that resolves to transcript text
+   * @returns Promise that resolves to the transcript, timed by caption segment
    * @throws Error if transcript is unavailable or fetch fails
    */
-  async getTranscript(urlOrId: string): Promise<string> {
+  async getTranscript(urlOrId: string): Promise<Transcript> {
     const videoId = this.extractVideoId(urlOrId);
 
     try {
@@ -336,19 +535,31 @@ export const youtubeService = {
         throw new Error('Could not extract transcript text');
       }
 
-      // Extract text from segments
-      const transcriptLines: string[] = [];
-      for (const segment of segments) {
-        if (segment.snippet && segment.snippet.text) {
-          transcriptLines.push(segment.snippet.text);
+      // Section headers (chapter titles) are not spoken text
+      const cues: TranscriptCue[] = [];
+      for (const segment of segments.filterType(YTNodes.TranscriptSegment)) {
+        const text = segment.snippet?.text?.trim();
+        if (text) {
+          cues.push({ start: Number(segment.start_ms) / 1000, end: Number(segment.end_ms) / 1000, text });
         }
       }
 
-      if (transcriptLines.length === 0) {
+      if (cues.length === 0) {
         throw new Error('Could not extract transcript text');
       }
 
-      return transcriptLines.join('\n');
+      // The transcript names its language the way the caption tracks do, e.g. "English (auto-generated)"
+      const track = videoInfo.captions?.caption_tracks?.find(
+        (captionTrack) => captionTrack.name.toString() === transcriptData.selectedLanguage
+      );
+      const autoGenerated = track ? track.kind === 'asr' : /auto-generated/i.test(transcriptData.selectedLanguage);
+
+      return {
+        cues,
+        language: track?.language_code,
+        source: autoGenerated ? 'asr' : 'captions',
+        timed: true,
+      };
 
     } catch (error) {
       console.error('[YouTube Service] Error fetching transcript:', error);
@@ -370,5 +581,132 @@ export const youtubeService = {
       throw new Error('Failed to fetch transcript. The video may not have captions available.');
     }
   },
+
+  /**
+   * Check whether a URL points to a YouTube playlist or channel rather than a single video
+   * @param url - YouTube URL
+   * @returns 'playlist', 'channel', or null for any other URL
+   */
+  getVideoListType(url: string): YouTubeVideoList['type'] | null {
+    if (PLAYLIST_URL_PATTERN.test(url)) return 'playlist';
+    if (CHANNEL_URL_PATTERN.test(url)) return 'channel';
+    return null;
+  },
+
+  /**
+   * Get the videos of a playlist or channel using YouTube.js (no backend required)
+   * Live streams, premieres and unavailable playlist entries are left out.
+   *
+   * @param url - Playlist URL (youtube.com/playlist?list=...) or channel URL (youtube.com/@handle)
+   * @returns Promise that resolves to the videos, in playlist order (channels: newest first)
+   * @throws Error if the URL is not a playlist or channel, or the list cannot be loaded
+   */
+  async getVideoList(url: string): Promise<YouTubeVideoList> {
+    const type = this.getVideoListType(url);
+    if (!type) {
+      throw new Error('Invalid YouTube URL. Please provide a playlist or channel URL.');
+    }
+
+    try {
+      console.log(`[YouTube Service] Fetching ${type}:`, url);
+
+      const youtube = await Innertube.create({
+        fetch: fetch.bind(globalThis)
+      });
+
+      const nodes: Helpers.YTNode[] = [];
+      let title: string;
+      let author: string;
+      let hasMore: boolean;
+
+      if (type === 'playlist') {
+        const playlistId = url.match(PLAYLIST_URL_PATTERN)![1];
+        let page = await youtube.getPlaylist(playlistId);
+        title = page.info.title || 'Untitled Playlist';
+        author = page.info.author?.name || '';
+        nodes.push(...page.items);
+        while (page.has_continuation && nodes.length < MAX_LIST_ENTRIES) {
+          page = await page.getContinuation();
+          nodes.push(...page.items);
+        }
+        hasMore = page.has_continuation;
+      } else {
+        const endpoint = await youtube.resolveURL(url);
+        const channelId: string | undefined = endpoint.payload?.browseId;
+        if (!channelId) {
+          throw new Error('Channel not found');
+        }
+        const channel = await youtube.getChannel(channelId);
+        title = channel.metadata.title || 'Unknown Channel';
+        author = title;
+
+        let page: { videos: Helpers.YTNode[]; has_continuation: boolean; getContinuation(): Promise<typeof page> } =
+          await channel.getVideos();
+        nodes.push(...page.videos);
+        while (page.has_continuation && nodes.length < MAX_LIST_ENTRIES) {
+          page = await page.getContinuation();
+          nodes.push(...page.videos);
+        }
+        hasMore = page.has_continuation;
+      }
+
+      const entries: YouTubeVideoListEntry[] = [];
+      const seen = new Set<string>();
+      for (const node of nodes) {
+        const entry = toListEntry(node, entries.length);
+        if (!entry || seen.has(entry.videoId)) continue;
+        seen.add(entry.videoId);
+        entries.push({ ...entry, author: entry.author || author });
+        if (entries.length === MAX_LIST_ENTRIES) break;
+      }
+
+      return {
+        type,
+        url,
+        title,
+        author,
+        entries,
+        truncated: hasMore || nodes.length > MAX_LIST_ENTRIES,
+      };
+    } catch (error) {
+      console.error(`[YouTube Service] Error fetching ${type}:`, error);
+
+      if (error instanceof Error) {
+        const errorMessage = error.message.toLowerCase();
+
+        if (errorMessage.includes('not found') || errorMessage.includes('404') || errorMessage.includes('does not exist')) {
+          throw new Error(`${type === 'playlist' ? 'Playlist' : 'Channel'} not found. It may be private or deleted.`);
+        }
+
+        throw error;
+      }
+
+      throw new Error(`Failed to load the ${type}. Please check the URL and try again.`);
+    }
+  },
+
+  /**
+   * Get the latest uploads of a channel from its feed, through the backend server
+   * The feed does not list durations, so uploads have a duration of 0.
+   *
+   * @param source - Channel URL, @handle or channel ID (UC...)
+   * @returns Promise that resolves to the channel name and its uploads, newest first
+   * @throws Error if the source is not a channel or the channel cannot be found
+   */
+  async getUploads(source: string): Promise<CreatorFeed> {
+    const channel = source.trim();
+    if (!CHANNEL_ID_PATTERN.test(channel) && !/^@[\w.-]+$/.test(channel) && this.getVideoListType(channel) !== 'channel') {
+      throw new Error('Invalid YouTube channel. Please enter a channel URL, @handle or channel ID.');
+    }
+
+    try {
+      return await fetchCreatorFeed('youtube', channel);
+    } catch (error) {
+      if (error instanceof HttpStatusError && error.status === 404) {
+        throw new Error('Channel not found. It may have been deleted or renamed.');
+      }
+      throw error;
+    }
+  },
 };
 
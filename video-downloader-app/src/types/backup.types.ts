@@ -0,0 +1,92 @@
+/**
+ * How a backup is restored into the library
+ * - merge: add what is missing and keep everything already in the library
+ * - replace: clear the library first, so it matches the backup exactly
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * Video entry of a backup manifest
+ */
+export interface BackupVideoEntry {
+  id: string;
+  title: string;
+  /** Archive path of the video file, absent if the video had no file */
+  mediaPath?: string;
+  /** Content hash of the video file, checked on restore */
+  mediaHash?: string;
+  /** Archive path of the thumbnail image, absent if the thumbnail is a URL */
+  thumbnailPath?: string;
+}
+
+/**
+ * manifest.json at the root of a backup archive
+ */
+export interface BackupManifest {
+  format: 'video-downloader-backup';
+  /** Backup format version */
+  version: number;
+  /** Unique ID of this backup, used to resume an interrupted restore */
+  backupId: string;
+  createdAt: string;
+  videos: BackupVideoEntry[];
+  /** Archive paths of the JSON data files */
+  data: {
+    videos: string;
+    collections: string;
+    tagGroups: string;
+    preferences: string;
+  };
+  /** Total size of all video files in bytes */
+  mediaBytes: number;
+}
+
+/**
+ * App preferences included in a backup
+ */
+export interface BackupPreferences {
+  /** Contents of the settings store (see SettingsContext) */
+  settings: Record<string, unknown> | null;
+  /** Storage management policy (see storageManager) */
+  storagePolicy: Record<string, unknown> | null;
+}
+
+/**
+ * Progress of a restore, saved so an interrupted restore can resume
+ */
+export interface RestoreJob {
+  backupId: string;
+  mode: RestoreMode;
+  /** Whether the library has already been cleared (replace mode) */
+  libraryCleared: boolean;
+  /** Videos already restored or skipped */
+  completedVideoIds: string[];
+  totalVideos: number;
+  startedAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Progress reported while creating or restoring a backup
+ */
+export interface BackupProgress {
+  /** Items processed so far */
+  current: number;
+  total: number;
+  /** Item being processed */
+  label: string;
+}
+
+/**
+ * Outcome of a restore
+ */
+export interface RestoreResult {
+  restored: number;
+  /** Videos already in the library (merge mode) */
+  skipped: number;
+  /** Videos that could not be restored, with the reason */
+  failed: Array<{ id: string; title: string; error: string }>;
+  collections: number;
+  tagGroups: number;
+  preferences: BackupPreferences;
+}
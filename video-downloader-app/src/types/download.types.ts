@@ -0,0 +1,150 @@
+/**
+ * Download interrupted part-way, kept so it can resume with a Range request
+ */
+export interface PartialDownload {
+  /** Key the download is stored under */
+  key: string;
+  /** URL the bytes were requested from */
+  url: string;
+  /** MIME type of the file */
+  type: string;
+  /** Size of the whole file, or null if the server did not say */
+  totalBytes: number | null;
+  /** Bytes received and stored so far */
+  receivedBytes: number;
+  /** Number of stored chunks */
+  chunkCount: number;
+  /** ETag or Last-Modified of the file, so a resume only continues the same file */
+  validator?: string;
+  /** Date when bytes were last stored */
+  updatedAt: Date;
+}
+
+/**
+ * Chunk of bytes received for a partial download
+ */
+export interface PartialDownloadChunk {
+  /** Key of the partial download this chunk belongs to */
+  key: string;
+  /** Position of the chunk within the file */
+  index: number;
+  /** Chunk data */
+  data: Blob;
+}
+
+/**
+ * Part of a file, as given by an HLS byte range or a DASH mediaRange
+ */
+export interface ByteRange {
+  /** Position of the first byte */
+  offset: number;
+  /** Number of bytes */
+  length: number;
+}
+
+/**
+ * One segment of a segmented stream (HLS or DASH)
+ */
+export interface StreamSegment {
+  /** Absolute segment URL */
+  url: string;
+  /** Part of the URL to fetch, if the segment is not the whole file */
+  byteRange?: ByteRange;
+  /** AES-128 key the segment is encrypted with (HLS) */
+  key?: {
+    /** Absolute key URL */
+    url: string;
+    /** Initialization vector; defaults to the media sequence number */
+    iv?: Uint8Array<ArrayBuffer>;
+  };
+  /** Media sequence number, used as the default initialization vector */
+  sequence: number;
+}
+
+/**
+ * Segments of one rendition, in playback order
+ */
+export interface StreamTrack {
+  /** Initialization segment (fMP4 streams) */
+  init?: StreamSegment;
+  /** Media segments */
+  segments: StreamSegment[];
+  /** Whether the segments are MPEG-TS rather than fragmented MP4 */
+  transportStream: boolean;
+}
+
+/**
+ * One quality of a segmented stream
+ */
+export interface StreamRendition {
+  /** Rendition ID, unique within the manifest */
+  id: string;
+  /** 'video' for video (with or without audio), 'audio' for audio-only renditions */
+  kind: 'video' | 'audio';
+  /** Peak bitrate in bits per second */
+  bandwidth: number;
+  /** Video width in pixels, if known */
+  width?: number;
+  /** Video height in pixels, if known */
+  height?: number;
+  /** Codecs (e.g., 'avc1.640028,mp4a.40.2') */
+  codecs?: string;
+  /** Frames per second, if known */
+  frameRate?: number;
+  /** HLS media playlist to load the segments from; unset when `track` is already known */
+  playlistUrl?: string;
+  /** Segments, for renditions listed in full in the manifest */
+  track?: StreamTrack;
+  /** ID of the separate audio rendition to mux with this one (HLS audio groups, DASH) */
+  audioRenditionId?: string;
+}
+
+/**
+ * Parsed HLS or DASH manifest
+ */
+export interface StreamManifest {
+  /** Manifest format */
+  type: 'hls' | 'dash';
+  /** Manifest URL */
+  url: string;
+  /** Duration in seconds, 0 if unknown */
+  duration: number;
+  /** Renditions, video renditions first, highest bandwidth first */
+  renditions: StreamRendition[];
+}
+
+/**
+ * Part of a video to keep, in seconds from the start of the video
+ */
+export interface ClipRange {
+  /** Start of the clip */
+  start: number;
+  /** End of the clip; to the end of the video when unset */
+  end?: number;
+}
+
+/**
+ * How a download is processed before it is saved
+ */
+export interface DownloadProcessingOptions {
+  /** Keep only this part of the video */
+  clip?: ClipRange;
+  /** MP3 bitrate in kbps (MP3 downloads only) */
+  audioBitrate?: number;
+}
+
+/**
+ * Kind of download failure, which decides whether and when it is retried
+ * and what the user is told to do about it
+ */
+export type DownloadErrorKind =
+  | 'network'
+  | 'not-found'
+  | 'private'
+  | 'age-restricted'
+  | 'rate-limited'
+  | 'server-down'
+  | 'unsupported-format'
+  | 'storage-full'
+  | 'internal'
+  | 'unknown';
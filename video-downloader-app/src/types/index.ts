@@ -2,12 +2,16 @@ export type {
   VideoPlatform,
   VideoFormat,
   DownloadStatus,
+  DuplicateAction,
   CollectionColorTheme,
   SmartCollectionRuleType,
 } from './video.types';
 
 export type {
   Video,
+  NewVideoInput,
+  DuplicateGroup,
+  TransferProgress,
   DownloadProgress,
   VideoMetadata,
   QualityOption,
@@ -16,3 +20,95 @@ export type {
   CollectionStats,
 } from './video.types';
 
+export type {
+  QueuedDownload,
+  DownloadJobStatus,
+  DownloadPriority,
+  DownloadStage,
+  DownloadWindow,
+  DownloadSchedule,
+  DownloadWaitReason,
+  DownloadWait,
+  DownloadJob,
+  BatchQueueItemStatus,
+  BatchQueueItem,
+  BatchHistory,
+} from './queue.types';
+
+export type {
+  MediaBlobRecord,
+  MediaChunkRecord,
+} from './media.types';
+
+export type {
+  SearchField,
+  SearchPosting,
+  SearchDocument,
+  SearchSnippet,
+  TranscriptHit,
+  SearchResult,
+} from './search.types';
+
+export type {
+  RestoreMode,
+  BackupVideoEntry,
+  BackupManifest,
+  BackupPreferences,
+  RestoreJob,
+  BackupProgress,
+  RestoreResult,
+} from './backup.types';
+
+export type {
+  EvictionPolicy,
+  StoragePolicy,
+  StorageStatus,
+  CapacityCheck,
+  EvictionCandidate,
+  EvictionPlan,
+} from './storage.types';
+
+export type {
+  TrashItemKind,
+  CollectionMembership,
+  TrashedVideo,
+  TrashedCollection,
+  TrashedTag,
+  TrashItem,
+} from './trash.types';
+
+export type {
+  PartialDownload,
+  PartialDownloadChunk,
+  ByteRange,
+  StreamSegment,
+  StreamTrack,
+  StreamRendition,
+  StreamManifest,
+  ClipRange,
+  DownloadProcessingOptions,
+  DownloadErrorKind,
+} from './download.types';
+
+export type {
+  PlatformCapabilities,
+  PlatformDownloadRequest,
+  PlatformBranding,
+  CreatorUpload,
+  CreatorFeed,
+  UploadsSource,
+  PlatformProvider,
+} from './platform.types';
+
+export type {
+  SubscriptionFilters,
+  Subscription,
+} from './subscription.types';
+
+export type {
+  TranscriptSource,
+  TranscriptCue,
+  Transcript,
+  TranscriptVersionKind,
+  TranscriptVersion,
+} from './transcript.types';
@@ -0,0 +1,29 @@
+/**
+ * Media file stored in the content-addressed media store
+ */
+export interface MediaBlobRecord {
+  /** Content hash identifying the file */
+  hash: string;
+  /** File size in bytes */
+  size: number;
+  /** MIME type of the file */
+  type: string;
+  /** Number of chunks the file is split into */
+  chunkCount: number;
+  /** Number of videos referencing this file */
+  refCount: number;
+  /** Date when the file was first stored */
+  createdAt: Date;
+}
+
+/**
+ * Chunk of a media file
+ */
+export interface MediaChunkRecord {
+  /** Content hash of the file this chunk belongs to */
+  hash: string;
+  /** Position of the chunk within the file */
+  index: number;
+  /** Chunk data */
+  data: Blob;
+}
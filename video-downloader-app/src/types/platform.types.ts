@@ -0,0 +1,144 @@
+import type { LucideIcon } from 'lucide-react';
+import type { ResumableDownloadOptions } from '../services/resumableDownload';
+import type { VideoFormat, VideoMetadata, QualityOption } from './video.types';
+import type { Transcript } from './transcript.types';
+
+/**
+ * What a platform supports, so the UI only offers what will work
+ */
+export interface PlatformCapabilities {
+  /** Can download the audio track only (MP3) */
+  audioOnly: boolean;
+  /** Can fetch a transcript or caption text */
+  transcripts: boolean;
+  /** Serves byte ranges, so interrupted downloads continue where they stopped */
+  resumableDownloads: boolean;
+  /** Downloads go through the backend server (npm run server) */
+  requiresServer: boolean;
+  /** Has Shorts, which upload feeds mark so subscriptions can leave them out */
+  shorts: boolean;
+}
+
+/**
+ * Video a platform is asked to download
+ */
+export interface PlatformDownloadRequest {
+  /** Original video URL */
+  url: string;
+  /** Desired quality (e.g., '1080p'), from getAvailableQualities */
+  quality: string;
+  /** Exact format of the chosen quality, when getAvailableQualities lists one */
+  formatId?: string;
+  /** MP3 bitrate in kbps, for platforms that encode MP3s themselves */
+  audioBitrate?: number;
+  /** Desired format; ignored without audio-only support */
+  format: VideoFormat;
+}
+
+/**
+ * Video in a channel's or creator's feed of latest uploads
+ */
+export interface CreatorUpload {
+  videoId: string;
+  url: string;
+  title: string;
+  /** Duration in seconds, 0 if the feed does not list it */
+  duration: number;
+  thumbnail: string;
+  publishedAt: Date;
+  /** YouTube Short */
+  isShort: boolean;
+}
+
+/**
+ * Latest uploads of a channel or creator, newest first
+ */
+export interface CreatorFeed {
+  /** Channel or creator name */
+  name: string;
+  uploads: CreatorUpload[];
+}
+
+/**
+ * How a subscription names the channel or creator to follow
+ */
+export interface UploadsSource {
+  /** Field label (e.g., 'Channel') */
+  label: string;
+  /** Accepted input, shown as the field placeholder */
+  placeholder: string;
+}
+
+/**
+ * How a platform is shown in the UI
+ */
+export interface PlatformBranding {
+  /** Display name (e.g., 'YouTube') */
+  name: string;
+  /** Platform icon */
+  icon: LucideIcon;
+  /** Tailwind classes for the icon on a neutral background */
+  iconClassName: string;
+  /** Tailwind background classes for badges and selected filters */
+  badgeClassName: string;
+  /** Color used in charts */
+  chartColor: string;
+}
+
+/**
+ * A video platform the app can download from
+ *
+ * Each platform is one provider registered in services/platforms; the URL parser,
+ * the download flows and the platform icons are all driven from the registry.
+ */
+export interface PlatformProvider<Id extends string = string> {
+  /** Platform ID stored on videos (e.g., 'youtube') */
+  id: Id;
+  /** Name, icon and colors */
+  branding: PlatformBranding;
+  /** Video URL patterns, most specific first; the first capture group is the video ID */
+  urlPatterns: RegExp[];
+  /** Supported features */
+  capabilities: PlatformCapabilities;
+  /**
+   * Whether the video at a URL is vertical (Shorts, Reels)
+   * @param url - Video URL
+   */
+  isVertical(url: string): boolean;
+  /**
+   * Get the metadata of a video
+   * @param url - Video URL
+   * @returns Promise that resolves to the video metadata
+   */
+  getMetadata(url: string): Promise<VideoMetadata>;
+  /**
+   * Get the qualities a video can be downloaded in
+   * @param url - Video URL
+   * @param metadata - Metadata from getMetadata (for file size estimation)
+   * @returns Promise that resolves to the available qualities
+   */
+  getAvailableQualities(url: string, metadata: VideoMetadata): Promise<QualityOption[]>;
+  /**
+   * Download a video
+   * @param request - Video URL, quality and format
+   * @param options - Abort signal, byte-level progress callback and resume key
+   * @returns Promise that resolves to the video file
+   */
+  download(request: PlatformDownloadRequest, options?: ResumableDownloadOptions): Promise<Blob>;
+  /**
+   * Get the transcript or caption text of a video
+   * @param url - Video URL
+   * @returns Promise that resolves to the transcript
+   * @throws Error if the platform or video has no transcript
+   */
+  getTranscript(url: string): Promise<Transcript>;
+  /**
+   * Get the latest uploads of a channel or creator, for platforms that support subscriptions
+   * @param source - Channel or creator, as entered on the Subscriptions page
+   * @returns Promise that resolves to the feed
+   * @throws Error if the channel or creator cannot be found
+   */
+  getUploads?(source: string): Promise<CreatorFeed>;
+  /** What getUploads takes as its source, for the Subscriptions page */
+  uploadsSource?: UploadsSource;
+}
@@ -0,0 +1,153 @@
+import type { VideoPlatform, VideoFormat, DuplicateAction } from './video.types';
+import type { DownloadErrorKind, DownloadProcessingOptions } from './download.types';
+
+/**
+ * Download request saved while offline, processed when back online
+ * Kept in the offlineQueue table until version 11 moved it into the download manager.
+ */
+export interface QueuedDownload {
+  id: string;
+  url: string;
+  platform: VideoPlatform;
+  quality: string;
+  format: 'mp4' | 'mp3';
+  /** Clip range and MP3 bitrate chosen when the download was queued */
+  options?: DownloadProcessingOptions;
+  timestamp: Date;
+  retries: number;
+}
+
+/**
+ * Status of a download in the download manager
+ */
+export type DownloadJobStatus = 'pending' | 'downloading' | 'paused' | 'completed' | 'failed' | 'skipped';
+
+/**
+ * Downloads with a higher priority start first
+ */
+export type DownloadPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Step a running download is at
+ */
+export type DownloadStage = 'metadata' | 'downloading' | 'processing' | 'saving';
+
+/**
+ * Time of day downloads may run, as "HH:MM"; a window that ends before it starts runs past midnight
+ */
+export interface DownloadWindow {
+  start: string;
+  end: string;
+}
+
+/**
+ * When a queued download may start
+ */
+export interface DownloadSchedule {
+  /** Earliest time the download may start */
+  startAt?: Date;
+  /** Only download within the download windows set in Settings */
+  useWindows?: boolean;
+  /** Download even on a metered or slow connection */
+  ignoreNetwork?: boolean;
+}
+
+/**
+ * Why a queued download has not started
+ */
+export type DownloadWaitReason = 'scheduled' | 'window' | 'metered' | 'slow' | 'retry';
+
+/**
+ * Constraint a queued download is waiting for
+ */
+export interface DownloadWait {
+  reason: DownloadWaitReason;
+  /** When the download may start, if that is known */
+  until?: Date;
+}
+
+/**
+ * Download in the download manager queue
+ */
+export interface DownloadJob {
+  id: string;
+  url: string;
+  platform: VideoPlatform;
+  quality: string;
+  format: VideoFormat;
+  /** Exact format chosen from the available qualities, if any */
+  formatId?: string;
+  /** Clip range and MP3 bitrate to apply once downloaded */
+  options?: DownloadProcessingOptions;
+  /** What to do when the video is already in the library */
+  duplicateAction: DuplicateAction;
+  priority: DownloadPriority;
+  status: DownloadJobStatus;
+  /** Step of a running download */
+  stage?: DownloadStage;
+  /** Overall progress, 0-100 */
+  progress: number;
+  error?: string;
+  /** Kind of the last failure */
+  errorKind?: DownloadErrorKind;
+  /** Automatic retries made since the download was last started by hand */
+  retries?: number;
+  /** When the next automatic retry may start */
+  retryAt?: Date;
+  title?: string;
+  thumbnail?: string;
+  videoId?: string;
+  /** Library video the download was saved as, or the existing copy it was skipped for */
+  libraryVideoId?: string;
+  /** Collection the video is added to once downloaded (playlists added as a collection) */
+  collectionId?: string;
+  /** Position of the video in its playlist, to keep the collection in playlist order */
+  collectionPosition?: number;
+  /** Tags added to the video once downloaded */
+  tags?: string[];
+  /** When the download may start; right away if not set */
+  schedule?: DownloadSchedule;
+  /** Constraint a pending download is waiting for */
+  waiting?: DownloadWait;
+  /** Batch the download was queued with, recorded in the batch history once all of it has finished */
+  batchId?: string;
+  createdAt: Date;
+}
+
+/**
+ * Status of an item in the batch download queue
+ */
+export type BatchQueueItemStatus = DownloadJobStatus;
+
+/**
+ * Item of a batch download run, as kept in the batch history
+ * Also the batch queue as stored until version 11 moved it into the download manager.
+ */
+export interface BatchQueueItem {
+  id: string;
+  url: string;
+  platform: VideoPlatform | null;
+  status: BatchQueueItemStatus;
+  progress: number;
+  error?: string;
+  title?: string;
+  videoId?: string;
+  /** Library video the item was saved as, or the existing copy it was skipped for */
+  libraryVideoId?: string;
+  /** Collection the video is added to once downloaded (playlists added as a collection) */
+  collectionId?: string;
+  /** Position of the video in its playlist, to keep the collection in playlist order */
+  collectionPosition?: number;
+}
+
+/**
+ * Summary of a finished batch download run
+ */
+export interface BatchHistory {
+  id: string;
+  timestamp: Date;
+  total: number;
+  completed: number;
+  failed: number;
+  items: BatchQueueItem[];
+}
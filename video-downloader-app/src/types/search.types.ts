@@ -0,0 +1,60 @@
+/**
+ * Video fields covered by the search index
+ */
+export type SearchField = 'title' | 'description' | 'author' | 'tags' | 'transcript';
+
+/**
+ * Posting in the inverted index: where a term occurs in one video
+ */
+export interface SearchPosting {
+  term: string;
+  videoId: string;
+  /** Token positions of the term, per field */
+  positions: Partial<Record<SearchField, number[]>>;
+}
+
+/**
+ * Per-video statistics kept alongside the postings
+ */
+export interface SearchDocument {
+  videoId: string;
+  /** Index format version the video was indexed with */
+  version: number;
+  /** Number of tokens per field */
+  fieldLengths: Record<SearchField, number>;
+  /** Token position at which each transcript segment starts */
+  segmentStarts: number[];
+  /** Whether the transcript has timestamps */
+  timed: boolean;
+}
+
+/**
+ * Text with the character ranges that matched the query
+ */
+export interface SearchSnippet {
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+/**
+ * Transcript segment that matched the query
+ */
+export interface TranscriptHit {
+  /** Segment start in seconds, null if the transcript has no timestamps */
+  time: number | null;
+  snippet: SearchSnippet;
+}
+
+/**
+ * Search result for one video
+ */
+export interface SearchResult {
+  videoId: string;
+  score: number;
+  /** Fields that matched */
+  fields: SearchField[];
+  title: SearchSnippet;
+  /** Best matching excerpt from the description or transcript */
+  snippet: SearchSnippet | null;
+  transcriptHits: TranscriptHit[];
+}
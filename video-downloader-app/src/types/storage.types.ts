@@ -0,0 +1,77 @@
+import type { Video } from './video.types';
+
+/**
+ * Order in which videos are removed to free up space
+ */
+export type EvictionPolicy = 'oldest-unwatched' | 'largest' | 'oldest';
+
+/**
+ * User-configurable storage management settings
+ */
+export interface StoragePolicy {
+  /** Order in which videos are evicted */
+  evictionPolicy: EvictionPolicy;
+  /** Evict videos automatically when a new download would not fit */
+  autoEvict: boolean;
+  /** Fraction of the quota (0-1) above which saves warn that storage is nearly full */
+  warningThreshold: number;
+  /** Videos with any of these tags are never evicted */
+  protectedTags: string[];
+}
+
+/**
+ * Storage usage as reported by the browser
+ */
+export interface StorageStatus {
+  /** Whether the browser supports storage estimates */
+  supported: boolean;
+  /** Bytes used by this site */
+  usage: number;
+  /** Bytes this site may use, 0 if unknown */
+  quota: number;
+  /** Bytes still available before the quota is reached */
+  available: number;
+  /** Bytes used by stored video files */
+  mediaBytes: number;
+  /** Whether storage is persistent (not cleared by the browser under pressure) */
+  persisted: boolean;
+}
+
+/**
+ * Result of checking whether a file of a given size fits in storage
+ */
+export interface CapacityCheck {
+  /** Whether the file fits without exceeding the quota */
+  fits: boolean;
+  /** Whether usage would cross the warning threshold */
+  nearLimit: boolean;
+  /** Bytes requested */
+  required: number;
+  /** Bytes available before the quota is reached */
+  available: number;
+  /** Bytes that would have to be freed for the file to fit */
+  shortfall: number;
+}
+
+/**
+ * Video selected for eviction
+ */
+export interface EvictionCandidate {
+  video: Video;
+  /** Bytes freed by removing this video (0 if its file is shared with a kept video) */
+  bytesFreed: number;
+}
+
+/**
+ * Videos an eviction run would remove
+ */
+export interface EvictionPlan {
+  policy: EvictionPolicy;
+  /** Bytes the plan was asked to free */
+  targetBytes: number;
+  candidates: EvictionCandidate[];
+  /** Total bytes freed by the plan */
+  bytesFreed: number;
+  /** Whether the plan frees at least the target */
+  satisfied: boolean;
+}
@@ -0,0 +1,41 @@
+import type { VideoFormat, VideoPlatform } from './video.types';
+
+/**
+ * Which new uploads of a subscription are downloaded
+ */
+export interface SubscriptionFilters {
+  /** Only uploads whose title contains one of these words; all uploads if empty */
+  keywords: string[];
+  /** Longest upload to download, in seconds; no limit if not set */
+  maxDuration?: number;
+  /** Download YouTube Shorts too */
+  includeShorts: boolean;
+}
+
+/**
+ * YouTube channel or TikTok creator whose new uploads are queued automatically
+ */
+export interface Subscription {
+  id: string;
+  platform: VideoPlatform;
+  /** Channel URL, @handle or channel ID on YouTube; username on TikTok */
+  source: string;
+  /** Channel or creator name, from their feed */
+  name: string;
+  filters: SubscriptionFilters;
+  /** Quality and format new uploads are downloaded in */
+  quality: string;
+  format: VideoFormat;
+  /** Tags added to the downloaded videos */
+  tags: string[];
+  /** Paused subscriptions are not checked */
+  enabled: boolean;
+  /** Uploads already seen in the feed, queued or not; the first check only records these */
+  seenVideoIds: string[];
+  /** Number of uploads queued since subscribing */
+  queuedCount: number;
+  lastCheckedAt?: Date;
+  /** Why the last check failed, if it did */
+  lastError?: string;
+  createdAt: Date;
+}
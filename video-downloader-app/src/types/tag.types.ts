@@ -15,5 +15,9 @@ export interface TagGroup {
   createdAt: number;
 }
 
-export type TagFilterLogic = 'AND' | 'OR';
+export interface TagGroupAssignment {
+  tagName: string;
+  groupId: string;
+}
 
+export type TagFilterLogic = 'AND' | 'OR';
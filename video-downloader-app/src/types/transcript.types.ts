@@ -0,0 +1,54 @@
+/**
+ * Where a transcript came from
+ * - captions: captions uploaded by the creator, or a post caption
+ * - asr: automatic speech recognition (YouTube auto-captions, speech recognition in the app)
+ * - manual: written or edited by the user
+ */
+export type TranscriptSource = 'captions' | 'asr' | 'manual';
+
+/**
+ * Span of a transcript with the text spoken in it
+ */
+export interface TranscriptCue {
+  /** Start in seconds */
+  start: number;
+  /** End in seconds */
+  end: number;
+  text: string;
+}
+
+/**
+ * Transcript of a video as a list of timed cues
+ */
+export interface Transcript {
+  /** Cues in order of their start time */
+  cues: TranscriptCue[];
+  /** BCP 47 language code (e.g. 'en', 'pt-BR'), undefined if unknown */
+  language?: string;
+  source: TranscriptSource;
+  /**
+   * Whether the cue times are real. Text without timing (such as a post caption)
+   * is kept as a single cue from the start of the video.
+   */
+  timed: boolean;
+}
+
+/**
+ * How a saved version of a transcript came about
+ * - original: the transcript before it was first changed
+ * - edit: saved from the transcript editor
+ * - import: attached from a subtitle file
+ * - restore: an earlier version put back
+ */
+export type TranscriptVersionKind = 'original' | 'edit' | 'import' | 'restore';
+
+/**
+ * Saved state of a video's transcript, kept so earlier versions can be restored
+ */
+export interface TranscriptVersion {
+  id: string;
+  videoId: string;
+  kind: TranscriptVersionKind;
+  transcript: Transcript;
+  savedAt: Date;
+}
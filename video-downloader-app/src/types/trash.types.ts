@@ -0,0 +1,58 @@
+import type { Video, Collection } from './video.types';
+
+/**
+ * Kind of item in the trash
+ */
+export type TrashItemKind = 'video' | 'collection' | 'tag';
+
+/**
+ * Position a video had in a collection before it was trashed
+ */
+export interface CollectionMembership {
+  collectionId: string;
+  /** Index in the collection's videoIds */
+  index: number;
+  /** Index in the collection's videoOrder, -1 if it was not listed */
+  orderIndex: number;
+}
+
+interface TrashItemBase {
+  /** Unique identifier of the trash entry */
+  id: string;
+  kind: TrashItemKind;
+  /** Display name of the trashed item */
+  name: string;
+  /** Date when the item was moved to the trash */
+  deletedAt: Date;
+}
+
+/**
+ * Trashed video; its file stays in the media store until it is purged
+ */
+export interface TrashedVideo extends TrashItemBase {
+  kind: 'video';
+  video: Video;
+  memberships: CollectionMembership[];
+}
+
+/**
+ * Trashed collection
+ */
+export interface TrashedCollection extends TrashItemBase {
+  kind: 'collection';
+  collection: Collection;
+  /** Nested collections that were moved up a level when the collection was trashed */
+  childIds: string[];
+}
+
+/**
+ * Trashed tag, with the videos it was removed from
+ */
+export interface TrashedTag extends TrashItemBase {
+  kind: 'tag';
+  videoIds: string[];
+  /** Tag group the tag was assigned to */
+  groupId?: string;
+}
+
+export type TrashItem = TrashedVideo | TrashedCollection | TrashedTag;
@@ -1,7 +1,10 @@
+import type { RegisteredPlatformId } from '../services/platforms';
+import type { Transcript } from './transcript.types';
+
 /**
- * Video platform types
+ * Video platform types, one per provider in the platform registry
  */
-export type VideoPlatform = 'youtube' | 'instagram' | 'tiktok';
+export type VideoPlatform = RegisteredPlatformId;
 
 /**
  * Video format types
@@ -21,6 +24,8 @@ export interface Video {
   id: string;
   /** Original video URL */
   url: string;
+  /** Platform and platform video ID the video was downloaded from (see getVideoSourceKey) */
+  sourceKey?: string;
   /** Platform where the video is from */
   platform: VideoPlatform;
   /** Video title */
@@ -41,12 +46,57 @@ export interface Video {
   quality: string;
   /** Video format */
   format: VideoFormat;
-  /** Actual video file data as Blob */
-  videoBlob: Blob;
-  /** Video captions/transcript, null if not available */
-  transcript: string | null;
+  /** Start of the saved clip in seconds of the original video, when only part of it was saved */
+  clipStart?: number;
+  /** End of the saved clip in seconds of the original video */
+  clipEnd?: number;
+  /** Bitrate in kbps the audio was encoded at (MP3 downloads) */
+  audioBitrate?: number;
+  /** Content hash of the video file in the media store (loaded lazily via storageService.getVideoBlob) */
+  mediaHash?: string;
+  /** Video captions/transcript as timed cues, null if not available */
+  transcript: Transcript | null;
   /** User-added categories/tags */
   tags: string[];
+  /** Date when the video was last played, undefined if never watched */
+  lastWatchedAt?: Date;
+}
+
+/**
+ * Video data accepted when saving a new video
+ * The file itself is passed as `videoBlob` and stored separately from the metadata
+ */
+export type NewVideoInput = Partial<Video> & { videoBlob?: Blob };
+
+/**
+ * How to handle a download that is already in the library
+ */
+export type DuplicateAction = 'skip' | 'replace' | 'keep-both';
+
+/**
+ * Library videos that are copies of each other
+ */
+export interface DuplicateGroup {
+  /** Shared source key or content hash */
+  key: string;
+  /** 'source' for downloads of the same video (possibly at different qualities), 'content' for identical files */
+  reason: 'source' | 'content';
+  /** Videos in the group, newest first */
+  videos: Video[];
+}
+
+/**
+ * Byte-level progress of a file transfer
+ */
+export interface TransferProgress {
+  /** Bytes received so far */
+  bytesReceived: number;
+  /** Total size in bytes, null if the server did not report it */
+  totalBytes: number | null;
+  /** Current transfer speed in bytes per second */
+  speed: number;
+  /** Estimated seconds remaining, null if the total size is unknown */
+  eta: number | null;
 }
 
 /**
@@ -73,6 +123,8 @@ export interface VideoMetadata {
   platform: VideoPlatform;
   /** Video title */
   title: string;
+  /** Video description or caption */
+  description: string;
   /** Base64 encoded image or blob URL for thumbnail */
   thumbnail: string;
   /** Duration in seconds */
@@ -91,8 +143,10 @@ export interface QualityOption {
   width: number;
   /** Video height in pixels */
   height: number;
-  /** Estimated file size in bytes (based on duration and bitrate) */
+  /** File size in bytes; estimated from duration and bitrate unless exactSize is set */
   fileSize: number;
+  /** Whether fileSize is the real size of the file rather than an estimate */
+  exactSize?: boolean;
   /** Video bitrate in kbps */
   bitrate: number;
   /** Whether this quality is available for the current video */
@@ -101,6 +155,20 @@ export interface QualityOption {
   recommended?: boolean;
   /** Quality description (e.g., 'Full HD', 'HD', 'SD') */
   label?: string;
+  /** Platform ID of the exact format(s) to download (e.g., YouTube itags '137+140') */
+  formatId?: string;
+  /** Video codec (e.g., 'avc1.640028', 'vp9') */
+  videoCodec?: string;
+  /** Audio codec (e.g., 'mp4a.40.2', 'opus') */
+  audioCodec?: string;
+  /** Frames per second */
+  fps?: number;
+  /** Whether the video is HDR */
+  hdr?: boolean;
+  /** Whether the download has a video track; false for audio only */
+  hasVideo?: boolean;
+  /** Whether the download has an audio track; false for video only */
+  hasAudio?: boolean;
 }
 
 /**
@@ -161,6 +229,10 @@ export interface Collection {
   parentId?: string;
   /** Order of videos in collection */
   videoOrder?: string[];
+  /** Playlist or channel URL the collection was created from */
+  sourceUrl?: string;
+  /** Position of each video (by ID) in the source playlist, used to keep its order */
+  sourcePositions?: Record<string, number>;
 }
 
 /**
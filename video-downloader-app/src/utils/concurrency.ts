@@ -0,0 +1,43 @@
+/**
+ * Run an async function over a list with at most `limit` calls in flight
+ *
+ * Results keep the order of the items. The first failure stops further items
+ * from starting and rejects the whole run; calls already in flight are left to
+ * finish (pass the same abort signal to them to cancel them as well).
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls (at least 1)
+ * @param fn - Function to run for each item
+ * @param signal - Optional abort signal; no new items start once it is aborted
+ * @returns Promise that resolves to the results, in item order
+ *
+ * @example
+ * const blobs = await mapWithConcurrency(urls, 4, (url) => fetch(url).then((r) => r.blob()));
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && nextIndex < items.length) {
+      signal?.throwIfAborted();
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
@@ -0,0 +1,38 @@
+import { toHttpStatusError } from './streamDownload';
+import type { CreatorFeed, CreatorUpload } from '../types';
+
+/** Feed endpoints of the bundled server; point VITE_FEED_PROXY at scripts/stub-feed-server.cjs to test */
+const DEFAULT_FEED_PROXY = 'http://localhost:3000/api/feeds';
+
+/**
+ * Fetch the latest uploads of a channel or creator from the server's feed endpoint
+ * @param platform - Platform ID, the feed endpoint path (e.g., 'youtube' for /api/feeds/youtube)
+ * @param source - Channel or creator, as the endpoint expects it
+ * @returns Promise that resolves to the feed, newest upload first
+ * @throws HttpStatusError if the endpoint responds with an error status
+ * @throws Error if the server cannot be reached
+ */
+export async function fetchCreatorFeed(platform: string, source: string): Promise<CreatorFeed> {
+  const feedProxy = import.meta.env.VITE_FEED_PROXY || DEFAULT_FEED_PROXY;
+
+  let response: Response;
+  try {
+    response = await fetch(`${feedProxy}/${platform}?${new URLSearchParams({ source })}`, {
+      signal: AbortSignal.timeout(60000),
+    });
+  } catch {
+    throw new Error('Could not check for new uploads. Please make sure the server is running ("npm run server").');
+  }
+  if (!response.ok) {
+    throw await toHttpStatusError(response);
+  }
+
+  const data: { name: string; uploads: Array<Omit<CreatorUpload, 'publishedAt'> & { publishedAt: string }> } =
+    await response.json();
+  return {
+    name: data.name,
+    uploads: data.uploads
+      .map((upload) => ({ ...upload, publishedAt: new Date(upload.publishedAt) }))
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime()),
+  };
+}
@@ -41,3 +41,30 @@ export function formatRelativeTime(date: Date | string): string {
   return diffInYears === 1 ? '1 year ago' : `${diffInYears} years ago`;
 }
 
+
+/**
+ * Parse a timecode such as "1:30", "01:30:00" or "90" into seconds
+ * @param text - HH:MM:SS, MM:SS or seconds; the last part may have decimals
+ * @returns Seconds, or null if the text is not a timecode
+ */
+export function parseTimecode(text: string): number | null {
+  const trimmed = text.trim();
+  if (!/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(trimmed)) {
+    return null;
+  }
+  return trimmed.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/**
+ * Format seconds as a timecode (e.g., "1:30" or "1:02:03")
+ * @param seconds - Time in seconds
+ * @returns M:SS, or H:MM:SS from one hour
+ */
+export function formatTimecode(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  return hours > 0
+    ? `${hours}:${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`
+    : `${mins}:${String(secs).padStart(2, '0')}`;
+}
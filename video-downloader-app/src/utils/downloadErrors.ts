@@ -0,0 +1,184 @@
+import { HttpStatusError } from './streamDownload';
+import type { DownloadErrorKind } from '../types';
+
+/**
+ * Error for a failed download, with the kind of failure
+ * Services throw it where they know what went wrong; toDownloadError classifies anything else.
+ */
+export class DownloadError extends Error {
+  kind: DownloadErrorKind;
+  /** Seconds the server asked to wait before trying again */
+  retryAfter?: number;
+
+  constructor(kind: DownloadErrorKind, message: string, retryAfter?: number) {
+    super(message);
+    this.name = 'DownloadError';
+    this.kind = kind;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * How often and how long apart a kind of failure is retried
+ */
+export interface RetryPolicy {
+  /** Automatic retries before the download fails; 0 for failures retrying cannot fix */
+  maxRetries: number;
+  /** Wait before the first retry; doubles with every retry */
+  baseDelayMs: number;
+  /** Longest wait between retries */
+  maxDelayMs: number;
+}
+
+const NO_RETRY: RetryPolicy = { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 };
+
+export const RETRY_POLICIES: Record<DownloadErrorKind, RetryPolicy> = {
+  network: { maxRetries: 5, baseDelayMs: 2000, maxDelayMs: 60 * 1000 },
+  'server-down': { maxRetries: 4, baseDelayMs: 5000, maxDelayMs: 2 * 60 * 1000 },
+  // Platforms lift rate limits after minutes rather than seconds
+  'rate-limited': { maxRetries: 4, baseDelayMs: 30 * 1000, maxDelayMs: 15 * 60 * 1000 },
+  unknown: { maxRetries: 2, baseDelayMs: 5000, maxDelayMs: 30 * 1000 },
+  'not-found': NO_RETRY,
+  private: NO_RETRY,
+  'age-restricted': NO_RETRY,
+  'unsupported-format': NO_RETRY,
+  'storage-full': NO_RETRY,
+  internal: NO_RETRY,
+};
+
+/**
+ * What a failure means for the user, and what they can do about it
+ */
+export const DOWNLOAD_ERROR_GUIDANCE: Record<DownloadErrorKind, { title: string; remedy: string }> = {
+  network: {
+    title: 'Connection Problem',
+    remedy: 'Check your internet connection, then retry. Downloads continue where they stopped.',
+  },
+  'not-found': {
+    title: 'Video Not Found',
+    remedy: 'Check the URL. The video may have been deleted, or the link may be incomplete.',
+  },
+  private: {
+    title: 'Private Video',
+    remedy: 'Only videos anyone can watch can be downloaded. Ask the owner to make it public or unlisted.',
+  },
+  'age-restricted': {
+    title: 'Age-Restricted Video',
+    remedy: 'Age-restricted videos need a signed-in account, which the download server does not use.',
+  },
+  'rate-limited': {
+    title: 'Too Many Requests',
+    remedy: 'The platform is limiting downloads for now. Wait a few minutes, then retry.',
+  },
+  'server-down': {
+    title: 'Download Server Unavailable',
+    remedy: 'Start the server by running "npm run server" in a terminal, then retry.',
+  },
+  'unsupported-format': {
+    title: 'Format Not Available',
+    remedy: 'This quality or format is not offered for the video. Choose another one and download again.',
+  },
+  'storage-full': {
+    title: 'Storage Full',
+    remedy: 'There is no room left to save the video. Free up space in Settings → Storage Management, then retry.',
+  },
+  internal: {
+    title: 'Unexpected Error',
+    remedy: 'Something went wrong in the app itself. Reload the page and retry; if it keeps failing, report the problem.',
+  },
+  unknown: {
+    title: 'Download Failed',
+    remedy: 'Retry the download. If it keeps failing, try another quality.',
+  },
+};
+
+const ERROR_KINDS = new Set<string>(Object.keys(RETRY_POLICIES));
+
+// Messages of the TypeError fetch rejects with when a request does not get through (Chrome, Firefox, Safari)
+const FETCH_FAILURE_MESSAGES = ['failed to fetch', 'networkerror', 'load failed'];
+
+// Errors for a full browser storage quota, from the browser, Dexie or the storage manager
+const STORAGE_FULL_ERRORS = new Set(['QuotaExceededError', 'StorageQuotaError']);
+
+// Kind of an error response from its status code
+function kindOfStatus(status: number): DownloadErrorKind {
+  if (status === 404 || status === 410) return 'not-found';
+  if (status === 401 || status === 403) return 'private';
+  if (status === 429) return 'rate-limited';
+  if (status === 415 || status === 422 || status === 501) return 'unsupported-format';
+  if (status === 502 || status === 503 || status === 504) return 'server-down';
+  return 'unknown';
+}
+
+// Kind of an error from its message, for errors from libraries and older services
+function kindOfMessage(message: string): DownloadErrorKind {
+  const text = message.toLowerCase();
+  if (text.includes('quotaexceedederror')) return 'storage-full';
+  // Platform APIs report an exhausted request quota as "quota exceeded"
+  if (text.includes('quota exceeded') || text.includes('rate limit') || text.includes('too many requests')) {
+    return 'rate-limited';
+  }
+  if (text.includes('age-restricted') || text.includes('age restricted') || text.includes('confirm your age')) {
+    return 'age-restricted';
+  }
+  if (text.includes('private') || text.includes('access denied')) return 'private';
+  if (text.includes('not found') || text.includes('unavailable') || text.includes('deleted')) return 'not-found';
+  if (text.includes('econnrefused') || text.includes('server is not running')) return 'server-down';
+  if (text.includes('network') || text.includes('timeout') || text.includes('etimedout') || text.includes('enotfound')) {
+    return 'network';
+  }
+  return 'unknown';
+}
+
+/**
+ * Classify any error thrown while downloading
+ * @param error - Thrown value
+ * @returns The error as a DownloadError; DownloadErrors are returned as they are
+ */
+export function toDownloadError(error: unknown): DownloadError {
+  if (error instanceof DownloadError) return error;
+
+  if (error instanceof HttpStatusError) {
+    // The server names the kind; other hosts only have the status code
+    const kind = error.code && ERROR_KINDS.has(error.code) ? (error.code as DownloadErrorKind) : kindOfStatus(error.status);
+    return new DownloadError(kind, error.message, error.retryAfter);
+  }
+
+  if (error instanceof Error && STORAGE_FULL_ERRORS.has(error.name)) {
+    return new DownloadError('storage-full', error.name === 'StorageQuotaError' ? error.message : 'Storage is full.');
+  }
+
+  // fetch rejects with a TypeError when the request does not get through; any other TypeError is a bug
+  if (error instanceof TypeError) {
+    const message = error.message.toLowerCase();
+    if (FETCH_FAILURE_MESSAGES.some((failure) => message.includes(failure))) {
+      return new DownloadError('network', 'Network error. Check your internet connection.');
+    }
+    return new DownloadError('internal', error.message);
+  }
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new DownloadError('network', 'The request timed out. Check your internet connection.');
+  }
+
+  if (error instanceof Error) {
+    return new DownloadError(kindOfMessage(error.message), error.message);
+  }
+  return new DownloadError('unknown', 'Download failed');
+}
+
+/**
+ * Wait before the next automatic retry: exponential backoff with jitter, so
+ * downloads that failed together do not all retry at the same moment
+ * @param error - Error the download failed with
+ * @param retries - Retries made so far
+ * @returns Milliseconds to wait, or null if the download should not be retried
+ */
+export function getRetryDelay(error: DownloadError, retries: number): number | null {
+  const policy = RETRY_POLICIES[error.kind];
+  if (retries >= policy.maxRetries) return null;
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retries);
+  // Between half and all of the backoff
+  const delay = backoff / 2 + Math.random() * (backoff / 2);
+  return Math.round(Math.max(delay, (error.retryAfter ?? 0) * 1000));
+}
@@ -0,0 +1,177 @@
+import type { DownloadSchedule, DownloadWait, DownloadWindow } from '../types';
+
+/**
+ * Rules that apply to every queued download
+ */
+export interface DownloadConstraints {
+  /** Times of day downloads marked for the download windows may run */
+  windows: DownloadWindow[];
+  /** Wait while the connection is metered (mobile data, Data Saver) */
+  deferOnMetered: boolean;
+  /** Wait while the connection is slow */
+  deferOnSlow: boolean;
+}
+
+/**
+ * What the browser reports about the network connection
+ */
+export interface NetworkConditions {
+  metered: boolean;
+  slow: boolean;
+}
+
+/**
+ * Network Information API (navigator.connection), available in Chromium-based browsers
+ */
+export interface NetworkInformationLike extends EventTarget {
+  type?: string;
+  effectiveType?: string;
+  /** Estimated bandwidth in Mbps */
+  downlink?: number;
+  saveData?: boolean;
+}
+
+/** Connections slower than this (in Mbps) count as slow */
+const SLOW_DOWNLINK_MBPS = 1;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Get the browser's Network Information API, if it has one
+ */
+export function getNetworkConnection(): NetworkInformationLike | undefined {
+  return (navigator as Navigator & { connection?: NetworkInformationLike }).connection;
+}
+
+/**
+ * Read whether the connection is metered or slow
+ * Browsers without the Network Information API report neither.
+ */
+export function readNetworkConditions(): NetworkConditions {
+  const connection = getNetworkConnection();
+  if (!connection) {
+    return { metered: false, slow: false };
+  }
+
+  return {
+    metered: connection.saveData === true || connection.type === 'cellular',
+    slow:
+      connection.effectiveType === 'slow-2g' ||
+      connection.effectiveType === '2g' ||
+      (connection.downlink !== undefined && connection.downlink > 0 && connection.downlink < SLOW_DOWNLINK_MBPS),
+  };
+}
+
+/**
+ * Parse a time of day such as "22:30"
+ * @returns Minutes since midnight, or null if the text is not a time
+ */
+export function parseTimeOfDay(text: string): number | null {
+  const match = text.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+const minutesOfDay = (date: Date): number => date.getHours() * 60 + date.getMinutes();
+
+/**
+ * Check whether a time falls within one of the download windows
+ * A window that starts and ends at the same time covers the whole day.
+ */
+export function isWithinWindows(windows: DownloadWindow[], now: Date): boolean {
+  const minute = minutesOfDay(now);
+  return windows.some((window) => {
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    if (start === null || end === null) return false;
+    if (start === end) return true;
+    return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+  });
+}
+
+/**
+ * Find when the next download window opens
+ * @returns Start of the next window, or null if no window is valid
+ */
+export function nextWindowStart(windows: DownloadWindow[], now: Date): Date | null {
+  const minute = minutesOfDay(now);
+  let next: Date | null = null;
+
+  for (const window of windows) {
+    const start = parseTimeOfDay(window.start);
+    if (start === null || parseTimeOfDay(window.end) === null) continue;
+
+    const minutesUntil = (start - minute + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+    const opensAt = new Date(now);
+    opensAt.setSeconds(0, 0);
+    opensAt.setMinutes(opensAt.getMinutes() + minutesUntil);
+    if (!next || opensAt < next) {
+      next = opensAt;
+    }
+  }
+  return next;
+}
+
+/**
+ * Decide whether a queued download may start
+ * @param schedule - Schedule of the download
+ * @param constraints - Download windows and network rules from Settings
+ * @param network - Current network conditions
+ * @param now - Current time
+ * @returns What the download is waiting for, or null if it may start
+ */
+export function evaluateSchedule(
+  schedule: DownloadSchedule | undefined,
+  constraints: DownloadConstraints,
+  network: NetworkConditions,
+  now: Date
+): DownloadWait | null {
+  if (schedule?.startAt && new Date(schedule.startAt) > now) {
+    return { reason: 'scheduled', until: new Date(schedule.startAt) };
+  }
+
+  // Without any window set, the windows do not hold anything back
+  if (schedule?.useWindows && constraints.windows.length > 0 && !isWithinWindows(constraints.windows, now)) {
+    return { reason: 'window', until: nextWindowStart(constraints.windows, now) ?? undefined };
+  }
+
+  if (!schedule?.ignoreNetwork) {
+    if (constraints.deferOnMetered && network.metered) {
+      return { reason: 'metered' };
+    }
+    if (constraints.deferOnSlow && network.slow) {
+      return { reason: 'slow' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Describe what a download is waiting for (e.g., "Waiting for download window (opens 01:00)")
+ */
+export function describeDownloadWait(wait: DownloadWait): string {
+  const until = wait.until ? new Date(wait.until) : undefined;
+  const sameDay = until && until.toDateString() === new Date().toDateString();
+  const time = until
+    ? sameDay
+      ? until.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : until.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })
+    : '';
+
+  switch (wait.reason) {
+    case 'scheduled':
+      return `Scheduled for ${time}`;
+    case 'window':
+      return time ? `Waiting for download window (opens ${time})` : 'Waiting for download window';
+    case 'metered':
+      return 'Waiting for an unmetered connection';
+    case 'slow':
+      return 'Waiting for a faster connection';
+    case 'retry':
+      return time ? `Retrying at ${time}` : 'Retrying shortly';
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Token produced by the search tokenizer
+ */
+export interface SearchToken {
+  /** Normalized term (lowercase, without diacritics) */
+  term: string;
+  /** Start offset of the token in the original text */
+  start: number;
+  /** End offset (exclusive) of the token in the original text */
+  end: number;
+}
+
+/**
+ * Parsed search query
+ */
+export interface ParsedSearchQuery {
+  /** Single terms, matched exactly or by prefix */
+  terms: string[];
+  /** Quoted phrases, matched as consecutive terms */
+  phrases: string[][];
+}
+
+// Words are runs of letters and digits, optionally joined by apostrophes ("don't")
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Normalize a word for indexing and matching
+ * @param word - Word as it appears in the text
+ * @returns Lowercase word without diacritics or apostrophes
+ * @example
+ * normalizeTerm('Café') // 'cafe'
+ * normalizeTerm("Don't") // 'dont'
+ */
+export function normalizeTerm(word: string): string {
+  return word
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/['’]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Split text into normalized tokens, keeping their offsets in the original text
+ * @param text - Text to tokenize
+ * @returns Array of tokens in order of appearance
+ */
+export function tokenize(text: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const start = match.index ?? 0;
+    tokens.push({ term: normalizeTerm(match[0]), start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+/**
+ * Parse a search query into terms and quoted phrases
+ * @param query - Raw query, e.g. `react "state management" hooks`
+ * @returns Parsed query; one-word quotes become terms
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const terms: string[] = [];
+  const phrases: string[][] = [];
+
+  const rest = query.replace(/"([^"]*)"?/g, (_, quoted: string) => {
+    const phraseTerms = tokenize(quoted).map((token) => token.term);
+    if (phraseTerms.length > 1) {
+      phrases.push(phraseTerms);
+    } else {
+      terms.push(...phraseTerms);
+    }
+    return ' ';
+  });
+
+  terms.push(...tokenize(rest).map((token) => token.term));
+
+  return { terms: [...new Set(terms)], phrases };
+}
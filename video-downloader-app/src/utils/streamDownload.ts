@@ -0,0 +1,235 @@
+import type { TransferProgress } from '../types';
+
+/** Minimum time between progress callbacks */
+const PROGRESS_INTERVAL_MS = 250;
+/** Speed is averaged over this window so it does not jump with every chunk */
+const SPEED_WINDOW_MS = 3000;
+/** localStorage key of the measured download throughput */
+const THROUGHPUT_STORAGE_KEY = 'download_throughput';
+
+/**
+ * Error for a download request the server answered with an error status
+ */
+export class HttpStatusError extends Error {
+  status: number;
+  /** Kind of failure the server reported (e.g., 'rate-limited'), if any */
+  code?: string;
+  /** Seconds the server asked to wait before trying again (Retry-After) */
+  retryAfter?: number;
+
+  constructor(status: number, message: string, code?: string, retryAfter?: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+    this.status = status;
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export interface StreamDownloadOptions {
+  /** Aborts the request and the transfer */
+  signal?: AbortSignal;
+  /** Called as bytes arrive, at most every 250 ms, and once when the transfer completes */
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+// Format bytes to human-readable
+const formatBytes = (bytes: number): string => {
+  if (bytes <= 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return `${(bytes / Math.pow(k, i)).toFixed(1)} ${sizes[i]}`;
+};
+
+// Use the server's error message and code if the body is JSON, otherwise the status text
+async function readErrorBody(response: Response): Promise<{ message: string; code?: string }> {
+  try {
+    const body = await response.json();
+    return {
+      message: body.details || body.message || body.error || response.statusText,
+      code: typeof body.code === 'string' ? body.code : undefined,
+    };
+  } catch {
+    return { message: response.statusText || `HTTP ${response.status}` };
+  }
+}
+
+// Blend a new measurement into the stored throughput
+function recordThroughput(bytesPerSecond: number): void {
+  const previous = getMeasuredThroughput();
+  const blended = previous ? previous * 0.7 + bytesPerSecond * 0.3 : bytesPerSecond;
+  localStorage.setItem(THROUGHPUT_STORAGE_KEY, String(Math.round(blended)));
+}
+
+/**
+ * Create the error for a response with an error status
+ * @param response - Response that is not ok
+ * @returns Promise that resolves to the error, with the server's message and error code if it sent them
+ */
+export async function toHttpStatusError(response: Response): Promise<HttpStatusError> {
+  const { message, code } = await readErrorBody(response);
+  // Retry-After in seconds; the HTTP-date form is rare enough to ignore
+  const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+  return new HttpStatusError(response.status, message, code, retryAfter);
+}
+
+/**
+ * Measures a transfer as bytes arrive and reports its progress
+ */
+export interface TransferMeter {
+  /** Count received bytes, reporting progress at most every 250 ms */
+  add(byteCount: number): void;
+  /** Report the completed transfer and record the measured throughput */
+  finish(): void;
+}
+
+/**
+ * Start measuring a transfer
+ * @param totalBytes - Size of the whole file, or null if unknown
+ * @param onProgress - Progress callback
+ * @param bytesReceived - Bytes already received earlier, when resuming a transfer
+ * @returns Meter to feed with the received bytes
+ */
+export function createTransferMeter(
+  totalBytes: number | null,
+  onProgress?: (progress: TransferProgress) => void,
+  bytesReceived: number = 0
+): TransferMeter {
+  const startedAt = performance.now();
+  const startBytes = bytesReceived;
+  const samples: Array<{ time: number; bytes: number }> = [{ time: startedAt, bytes: bytesReceived }];
+  let lastReport = 0;
+
+  const progressAt = (now: number): TransferProgress => {
+    while (samples.length > 1 && now - samples[0].time > SPEED_WINDOW_MS) {
+      samples.shift();
+    }
+    const elapsed = (now - samples[0].time) / 1000;
+    const speed = elapsed > 0 ? (bytesReceived - samples[0].bytes) / elapsed : 0;
+    const eta = totalBytes !== null && speed > 0 ? Math.max(0, (totalBytes - bytesReceived) / speed) : null;
+    return { bytesReceived, totalBytes, speed, eta };
+  };
+
+  return {
+    add(byteCount: number): void {
+      bytesReceived += byteCount;
+      const now = performance.now();
+      samples.push({ time: now, bytes: bytesReceived });
+      if (onProgress && now - lastReport >= PROGRESS_INTERVAL_MS) {
+        lastReport = now;
+        onProgress(progressAt(now));
+      }
+    },
+
+    finish(): void {
+      const seconds = (performance.now() - startedAt) / 1000;
+      const transferred = bytesReceived - startBytes;
+      // Very short transfers say more about latency than throughput
+      if (seconds >= 1 && transferred > 0) {
+        recordThroughput(transferred / seconds);
+      }
+      onProgress?.({
+        bytesReceived,
+        totalBytes: bytesReceived,
+        speed: seconds > 0 ? transferred / seconds : 0,
+        eta: 0,
+      });
+    },
+  };
+}
+
+/**
+ * Download a URL, reading the response as a stream to report byte-level progress
+ * @param url - URL to download
+ * @param options - Abort signal and progress callback
+ * @returns Promise that resolves to the downloaded file
+ * @throws HttpStatusError if the server responds with an error status
+ * @throws DOMException (AbortError) if the signal is aborted
+ */
+export async function fetchWithProgress(url: string, options: StreamDownloadOptions = {}): Promise<Blob> {
+  const { signal, onProgress } = options;
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw await toHttpStatusError(response);
+  }
+
+  const type = response.headers.get('Content-Type') || 'video/mp4';
+  const contentLength = Number(response.headers.get('Content-Length'));
+  const meter = createTransferMeter(contentLength > 0 ? contentLength : null, onProgress);
+
+  if (!response.body) {
+    const blob = await response.blob();
+    meter.add(blob.size);
+    meter.finish();
+    return blob;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    meter.add(value.byteLength);
+  }
+  meter.finish();
+
+  return new Blob(chunks, { type });
+}
+
+/**
+ * Get the average download throughput measured on this device
+ * @returns Bytes per second, or null if nothing has been downloaded yet
+ */
+export function getMeasuredThroughput(): number | null {
+  const stored = Number(localStorage.getItem(THROUGHPUT_STORAGE_KEY));
+  return stored > 0 ? stored : null;
+}
+
+/**
+ * Format a duration in seconds as a short estimate (e.g., "45s", "3m 20s")
+ * @param seconds - Duration in seconds
+ * @returns Formatted duration string
+ */
+export function formatEta(seconds: number): string {
+  if (seconds < 1) return '< 1s';
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    const remainingSeconds = Math.round(seconds % 60);
+    return remainingSeconds > 0 ? `${minutes}m ${remainingSeconds}s` : `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+}
+
+/**
+ * Format transfer progress for display (e.g., "12.3 MB of 40.0 MB · 2.1 MB/s · 13s left")
+ * @param progress - Transfer progress
+ * @returns Formatted progress string
+ */
+export function formatTransferProgress(progress: TransferProgress): string {
+  const parts = [
+    progress.totalBytes !== null
+      ? `${formatBytes(progress.bytesReceived)} of ${formatBytes(progress.totalBytes)}`
+      : formatBytes(progress.bytesReceived),
+  ];
+  if (progress.speed > 0) {
+    parts.push(`${formatBytes(progress.speed)}/s`);
+  }
+  if (progress.eta !== null && progress.eta > 0) {
+    parts.push(`${formatEta(progress.eta)} left`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Get the completed fraction of a transfer as a percentage
+ * @param progress - Transfer progress
+ * @returns Percentage (0-100), or null if the total size is unknown
+ */
+export function getTransferPercent(progress: TransferProgress): number | null {
+  if (!progress.totalBytes) return null;
+  return Math.min(100, Math.round((progress.bytesReceived / progress.totalBytes) * 100));
+}
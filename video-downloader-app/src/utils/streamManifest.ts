@@ -0,0 +1,499 @@
+import type { ByteRange, StreamManifest, StreamRendition, StreamSegment, StreamTrack } from '../types';
+
+/**
+ * Media playlist of one HLS rendition
+ */
+export interface HlsMediaPlaylist {
+  /** Segments of the rendition */
+  track: StreamTrack;
+  /** Sum of the segment durations, in seconds */
+  duration: number;
+}
+
+// Codec prefixes of video codecs (H.264, H.265, VP8/VP9, AV1)
+const VIDEO_CODEC_PATTERN = /^(avc|hvc|hev|vp0?[89]|av01)/i;
+
+// Resolve a possibly relative URL against the URL of the file it appears in
+const resolveUrl = (url: string, base: string): string => new URL(url, base).href;
+
+/**
+ * Parse the attribute list of an HLS tag (e.g., 'BANDWIDTH=1280000,CODECS="avc1.4d401f,mp4a.40.2"')
+ * @param value - Text after the tag's colon
+ * @returns Attribute values by name, with quotes removed
+ */
+function parseAttributes(value: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+}
+
+// Parse an HLS byte range ("length[@offset]"); without an offset, defaultOffset is used
+function parseHlsByteRange(value: string, defaultOffset: number): ByteRange {
+  const [length, offset] = value.split('@');
+  return { offset: offset !== undefined ? Number(offset) : defaultOffset, length: Number(length) };
+}
+
+// Parse a hexadecimal initialization vector ("0x..."), padded to 16 bytes
+function parseIv(value: string): Uint8Array<ArrayBuffer> {
+  const hex = value.replace(/^0x/i, '').padStart(32, '0').slice(-32);
+  const iv = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    iv[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return iv;
+}
+
+// Frame rates are written as decimals in HLS and as fractions ("30000/1001") in DASH
+function parseFrameRate(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const [numerator, denominator = '1'] = value.split('/');
+  const rate = Number(numerator) / Number(denominator);
+  return Number.isFinite(rate) && rate > 0 ? Math.round(rate * 100) / 100 : undefined;
+}
+
+// Video renditions first, highest bandwidth first
+function sortRenditions(renditions: StreamRendition[]): StreamRendition[] {
+  return [...renditions].sort((a, b) => {
+    if (a.kind !== b.kind) return a.kind === 'video' ? -1 : 1;
+    return b.bandwidth - a.bandwidth;
+  });
+}
+
+/**
+ * Check whether an HLS playlist is a master playlist (a list of renditions)
+ * rather than a media playlist (a list of segments)
+ * @param text - Playlist text
+ * @returns true for a master playlist
+ */
+export function isHlsMasterPlaylist(text: string): boolean {
+  return /^#EXT-X-STREAM-INF:/m.test(text);
+}
+
+/**
+ * Detect the format of a manifest from its contents
+ * @param text - Manifest text
+ * @returns 'hls', 'dash', or null if the text is neither
+ */
+export function detectManifestType(text: string): StreamManifest['type'] | null {
+  const start = text.trimStart();
+  if (start.startsWith('#EXTM3U')) return 'hls';
+  if (/<MPD[\s>]/.test(start)) return 'dash';
+  return null;
+}
+
+/**
+ * Parse an HLS master playlist
+ *
+ * Variants (EXT-X-STREAM-INF) become video renditions, or audio renditions when
+ * their codecs are audio-only. Audio groups (EXT-X-MEDIA TYPE=AUDIO with a URI)
+ * become audio renditions, linked from the variants that use them.
+ *
+ * @param text - Playlist text
+ * @param url - Playlist URL, to resolve relative URLs against
+ * @returns Renditions, video renditions first, highest bandwidth first
+ */
+export function parseHlsMasterPlaylist(text: string, url: string): StreamRendition[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  const renditions: StreamRendition[] = [];
+  // Audio rendition ID of each audio group: the default rendition, or the first one
+  const audioGroups = new Map<string, { id: string; isDefault: boolean }>();
+  const variantAudioGroups = new Map<StreamRendition, string>();
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('#EXT-X-MEDIA:')) {
+      const attributes = parseAttributes(line.slice('#EXT-X-MEDIA:'.length));
+      if (attributes.TYPE !== 'AUDIO' || !attributes.URI) continue;
+
+      const id = `audio-${attributes['GROUP-ID']}-${attributes.NAME || renditions.length}`;
+      renditions.push({
+        id,
+        kind: 'audio',
+        bandwidth: 0,
+        playlistUrl: resolveUrl(attributes.URI, url),
+      });
+
+      const groupId = attributes['GROUP-ID'];
+      const isDefault = attributes.DEFAULT === 'YES';
+      const current = audioGroups.get(groupId);
+      if (!current || (isDefault && !current.isDefault)) {
+        audioGroups.set(groupId, { id, isDefault });
+      }
+    } else if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      const attributes = parseAttributes(line.slice('#EXT-X-STREAM-INF:'.length));
+      // The variant's URI is the next line that is not a tag or a comment
+      let uri = '';
+      while (++i < lines.length) {
+        if (lines[i] && !lines[i].startsWith('#')) {
+          uri = lines[i];
+          break;
+        }
+      }
+      if (!uri) continue;
+
+      const [width, height] = (attributes.RESOLUTION || '').split('x').map(Number);
+      const codecs = attributes.CODECS || undefined;
+      const audioOnly =
+        !!codecs && !attributes.RESOLUTION && !codecs.split(',').some((codec) => VIDEO_CODEC_PATTERN.test(codec.trim()));
+
+      const rendition: StreamRendition = {
+        id: `variant-${renditions.length}`,
+        kind: audioOnly ? 'audio' : 'video',
+        bandwidth: Number(attributes['AVERAGE-BANDWIDTH'] || attributes.BANDWIDTH) || 0,
+        width: width || undefined,
+        height: height || undefined,
+        codecs,
+        frameRate: parseFrameRate(attributes['FRAME-RATE']),
+        playlistUrl: resolveUrl(uri, url),
+      };
+      renditions.push(rendition);
+      if (attributes.AUDIO && !audioOnly) {
+        variantAudioGroups.set(rendition, attributes.AUDIO);
+      }
+    }
+  }
+
+  for (const [rendition, groupId] of variantAudioGroups) {
+    rendition.audioRenditionId = audioGroups.get(groupId)?.id;
+  }
+
+  return sortRenditions(renditions);
+}
+
+/**
+ * Parse an HLS media playlist
+ * @param text - Playlist text
+ * @param url - Playlist URL, to resolve relative URLs against
+ * @returns Segments and total duration
+ * @throws Error for live playlists (no EXT-X-ENDLIST) and SAMPLE-AES (DRM) encryption
+ */
+export function parseHlsMediaPlaylist(text: string, url: string): HlsMediaPlaylist {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  const segments: StreamSegment[] = [];
+  let init: StreamSegment | undefined;
+  let key: StreamSegment['key'];
+  let sequence = 0;
+  let duration = 0;
+  let segmentDuration = 0;
+  let byteRange: ByteRange | undefined;
+  // End of the last byte range per URL, for ranges without an offset
+  const rangeEnds = new Map<string, number>();
+  let ended = false;
+
+  for (const line of lines) {
+    if (!line) continue;
+
+    if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+      sequence = Number(line.slice('#EXT-X-MEDIA-SEQUENCE:'.length)) || 0;
+    } else if (line.startsWith('#EXTINF:')) {
+      segmentDuration = parseFloat(line.slice('#EXTINF:'.length)) || 0;
+    } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+      // Applies to the next segment; a missing offset (NaN) is filled in once its URL is known
+      byteRange = parseHlsByteRange(line.slice('#EXT-X-BYTERANGE:'.length), NaN);
+    } else if (line.startsWith('#EXT-X-KEY:')) {
+      const attributes = parseAttributes(line.slice('#EXT-X-KEY:'.length));
+      if (attributes.METHOD === 'NONE') {
+        key = undefined;
+      } else if (attributes.METHOD === 'AES-128' && attributes.URI) {
+        key = {
+          url: resolveUrl(attributes.URI, url),
+          iv: attributes.IV ? parseIv(attributes.IV) : undefined,
+        };
+      } else {
+        throw new Error('This stream is protected with DRM and cannot be downloaded.');
+      }
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const attributes = parseAttributes(line.slice('#EXT-X-MAP:'.length));
+      if (!attributes.URI) continue;
+      const mapUrl = resolveUrl(attributes.URI, url);
+      init = {
+        url: mapUrl,
+        byteRange: attributes.BYTERANGE ? parseHlsByteRange(attributes.BYTERANGE, 0) : undefined,
+        key,
+        sequence,
+      };
+    } else if (line === '#EXT-X-ENDLIST') {
+      ended = true;
+    } else if (!line.startsWith('#')) {
+      const segmentUrl = resolveUrl(line, url);
+      let range: ByteRange | undefined;
+      if (byteRange) {
+        const offset = Number.isNaN(byteRange.offset) ? rangeEnds.get(segmentUrl) ?? 0 : byteRange.offset;
+        range = { offset, length: byteRange.length };
+        rangeEnds.set(segmentUrl, offset + byteRange.length);
+      }
+      segments.push({ url: segmentUrl, byteRange: range, key, sequence });
+      duration += segmentDuration;
+      sequence++;
+      segmentDuration = 0;
+      byteRange = undefined;
+    }
+  }
+
+  if (!ended) {
+    throw new Error('Live streams are not supported. Try again once the broadcast has ended.');
+  }
+  if (segments.length === 0) {
+    throw new Error('The playlist does not contain any segments.');
+  }
+
+  return {
+    track: { init, segments, transportStream: !init },
+    duration,
+  };
+}
+
+// Child elements with a given name (DASH manifests use a default namespace)
+const childElements = (element: Element, name: string): Element[] =>
+  Array.from(element.children).filter((child) => child.localName === name);
+
+const firstChild = (element: Element | undefined, name: string): Element | undefined =>
+  element ? childElements(element, name)[0] : undefined;
+
+// Resolve the BaseURL of an element against the base of its parent
+const resolveBaseUrl = (element: Element, parentBase: string): string => {
+  const baseUrl = firstChild(element, 'BaseURL')?.textContent?.trim();
+  return baseUrl ? resolveUrl(baseUrl, parentBase) : parentBase;
+};
+
+// Parse a DASH range ("start-end")
+function parseDashRange(value: string | null): ByteRange | undefined {
+  const match = value?.match(/^(\d+)-(\d+)$/);
+  if (!match) return undefined;
+  const start = Number(match[1]);
+  return { offset: start, length: Number(match[2]) - start + 1 };
+}
+
+/**
+ * Parse an ISO 8601 duration as used in DASH (e.g., 'PT1H2M3.5S')
+ * @param value - Duration text
+ * @returns Duration in seconds, 0 if missing or invalid
+ */
+export function parseIsoDuration(value: string | null): number {
+  const match = value?.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return 0;
+  const [, days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  return Number(days) * 86400 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+// Fill in a SegmentTemplate URL ($RepresentationID$, $Number%05d$, $Time$, $Bandwidth$, $$)
+function fillTemplate(
+  template: string,
+  values: { RepresentationID: string; Bandwidth: number; Number?: number; Time?: number }
+): string {
+  return template.replace(/\$(RepresentationID|Number|Time|Bandwidth|)(?:%0(\d+)d)?\$/g, (whole, name: string, width?: string) => {
+    if (name === '') return '$';
+    const value = values[name as keyof typeof values];
+    if (value === undefined) return whole;
+    const text = String(value);
+    return width ? text.padStart(Number(width), '0') : text;
+  });
+}
+
+// Attribute of a SegmentTemplate, falling back to the one of the adaptation set
+const templateAttribute = (templates: Element[], name: string): string | null => {
+  for (const template of templates) {
+    const value = template.getAttribute(name);
+    if (value !== null) return value;
+  }
+  return null;
+};
+
+// Segments of a representation described by a SegmentTemplate
+function templateTrack(
+  templates: Element[],
+  base: string,
+  values: { RepresentationID: string; Bandwidth: number },
+  periodDuration: number,
+  transportStream: boolean
+): StreamTrack {
+  const media = templateAttribute(templates, 'media');
+  if (!media) {
+    throw new Error('The manifest has a segment template without a media URL.');
+  }
+  const initialization = templateAttribute(templates, 'initialization');
+  const timescale = Number(templateAttribute(templates, 'timescale')) || 1;
+  const startNumber = Number(templateAttribute(templates, 'startNumber') ?? 1);
+  const timeline = templates.map((template) => firstChild(template, 'SegmentTimeline')).find(Boolean);
+
+  const segments: StreamSegment[] = [];
+  const addSegment = (number: number, time: number) => {
+    segments.push({
+      url: resolveUrl(fillTemplate(media, { ...values, Number: number, Time: time }), base),
+      sequence: segments.length,
+    });
+  };
+
+  if (timeline) {
+    let time = 0;
+    let number = startNumber;
+    const end = periodDuration * timescale;
+    for (const entry of childElements(timeline, 'S')) {
+      const start = entry.getAttribute('t');
+      if (start !== null) time = Number(start);
+      const segmentDuration = Number(entry.getAttribute('d'));
+      if (!segmentDuration) continue;
+      let repeat = Number(entry.getAttribute('r') ?? 0);
+      if (repeat < 0) {
+        // Repeat until the end of the period
+        repeat = Math.max(0, Math.ceil((end - time) / segmentDuration) - 1);
+      }
+      for (let i = 0; i <= repeat; i++) {
+        addSegment(number++, time);
+        time += segmentDuration;
+      }
+    }
+  } else {
+    const segmentDuration = Number(templateAttribute(templates, 'duration'));
+    if (!segmentDuration || !periodDuration) {
+      throw new Error('The manifest does not say how many segments there are.');
+    }
+    const count = Math.ceil((periodDuration * timescale) / segmentDuration);
+    for (let i = 0; i < count; i++) {
+      addSegment(startNumber + i, i * segmentDuration);
+    }
+  }
+
+  return {
+    init: initialization
+      ? { url: resolveUrl(fillTemplate(initialization, values), base), sequence: 0 }
+      : undefined,
+    segments,
+    transportStream,
+  };
+}
+
+// Segments of a representation described by a SegmentList
+function listTrack(list: Element, base: string, transportStream: boolean): StreamTrack {
+  const initialization = firstChild(list, 'Initialization');
+  const initUrl = initialization?.getAttribute('sourceURL');
+  const initRange = parseDashRange(initialization?.getAttribute('range') ?? null);
+
+  return {
+    init: initialization
+      ? { url: initUrl ? resolveUrl(initUrl, base) : base, byteRange: initRange, sequence: 0 }
+      : undefined,
+    segments: childElements(list, 'SegmentURL').map((segment, index) => {
+      const media = segment.getAttribute('media');
+      return {
+        url: media ? resolveUrl(media, base) : base,
+        byteRange: parseDashRange(segment.getAttribute('mediaRange')),
+        sequence: index,
+      };
+    }),
+    transportStream,
+  };
+}
+
+/**
+ * Parse a DASH manifest (MPD)
+ *
+ * Only the first period is read. Segments may be described by a SegmentTemplate
+ * (with a duration or a SegmentTimeline), a SegmentList, or a single file per
+ * representation. Video renditions are linked to the best audio rendition.
+ *
+ * @param xml - Manifest XML
+ * @param url - Manifest URL, to resolve relative URLs against
+ * @returns Parsed manifest
+ * @throws Error for invalid, live (dynamic) or DRM-protected manifests
+ */
+export function parseDashManifest(xml: string, url: string): StreamManifest {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const mpd = document.documentElement;
+  if (mpd.localName !== 'MPD' || document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The DASH manifest could not be read.');
+  }
+  if (mpd.getAttribute('type') === 'dynamic') {
+    throw new Error('Live streams are not supported. Try again once the broadcast has ended.');
+  }
+
+  const period = firstChild(mpd, 'Period');
+  if (!period) {
+    throw new Error('The DASH manifest does not contain any media.');
+  }
+  const duration =
+    parseIsoDuration(mpd.getAttribute('mediaPresentationDuration')) || parseIsoDuration(period.getAttribute('duration'));
+  const periodBase = resolveBaseUrl(period, resolveBaseUrl(mpd, url));
+
+  const renditions: StreamRendition[] = [];
+  let protectedContent = false;
+
+  for (const adaptationSet of childElements(period, 'AdaptationSet')) {
+    if (childElements(adaptationSet, 'ContentProtection').length > 0) {
+      protectedContent = true;
+      continue;
+    }
+    const setBase = resolveBaseUrl(adaptationSet, periodBase);
+    const setTemplate = firstChild(adaptationSet, 'SegmentTemplate');
+    const setList = firstChild(adaptationSet, 'SegmentList');
+
+    for (const representation of childElements(adaptationSet, 'Representation')) {
+      if (childElements(representation, 'ContentProtection').length > 0) {
+        protectedContent = true;
+        continue;
+      }
+      const attribute = (name: string) => representation.getAttribute(name) ?? adaptationSet.getAttribute(name);
+      const mimeType = attribute('mimeType') || '';
+      const contentType = adaptationSet.getAttribute('contentType') || mimeType.split('/')[0];
+      if (contentType !== 'video' && contentType !== 'audio') continue;
+
+      const id = representation.getAttribute('id') || `${contentType}-${renditions.length}`;
+      const bandwidth = Number(representation.getAttribute('bandwidth')) || 0;
+      const base = resolveBaseUrl(representation, setBase);
+      const transportStream = mimeType.endsWith('mp2t');
+
+      const templates = [firstChild(representation, 'SegmentTemplate'), setTemplate].filter(
+        (template): template is Element => !!template
+      );
+      const list = firstChild(representation, 'SegmentList') ?? setList;
+
+      let track: StreamTrack;
+      if (templates.length > 0) {
+        track = templateTrack(templates, base, { RepresentationID: id, Bandwidth: bandwidth }, duration, transportStream);
+      } else if (list) {
+        track = listTrack(list, base, transportStream);
+      } else {
+        // The whole representation is one file (SegmentBase or just a BaseURL)
+        track = { segments: [{ url: base, sequence: 0 }], transportStream };
+      }
+
+      renditions.push({
+        id,
+        kind: contentType,
+        bandwidth,
+        width: Number(attribute('width')) || undefined,
+        height: Number(attribute('height')) || undefined,
+        codecs: attribute('codecs') || undefined,
+        frameRate: parseFrameRate(attribute('frameRate')),
+        track,
+      });
+    }
+  }
+
+  if (renditions.length === 0) {
+    throw new Error(
+      protectedContent
+        ? 'This stream is protected with DRM and cannot be downloaded.'
+        : 'The DASH manifest does not contain any video or audio.'
+    );
+  }
+
+  const sorted = sortRenditions(renditions);
+  const bestAudio = sorted.find((rendition) => rendition.kind === 'audio');
+  if (bestAudio) {
+    for (const rendition of sorted) {
+      // Representations that carry their own audio need no separate track
+      const muxed = rendition.codecs?.split(',').some((codec) => !VIDEO_CODEC_PATTERN.test(codec.trim()));
+      if (rendition.kind === 'video' && !muxed) {
+        rendition.audioRenditionId = bestAudio.id;
+      }
+    }
+  }
+
+  return { type: 'dash', url, duration, renditions: sorted };
+}
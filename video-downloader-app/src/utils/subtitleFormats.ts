@@ -0,0 +1,371 @@
+import { transcriptToText } from './transcriptParser';
+import type { Transcript, TranscriptCue } from '../types';
+
+/**
+ * File formats transcripts can be exported in
+ */
+export type SubtitleFormat = 'txt' | 'srt' | 'vtt' | 'json';
+
+/**
+ * Subtitle file formats that can be imported
+ */
+export type SubtitleFileFormat = Exclude<SubtitleFormat, 'txt'>;
+
+export const SUBTITLE_FORMATS: Record<SubtitleFormat, { label: string; extension: string; mimeType: string }> = {
+  txt: { label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+  srt: { label: 'SubRip (SRT)', extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+};
+
+/** Encodings offered when the detected encoding of a subtitle file is wrong */
+export const SUBTITLE_ENCODINGS = [
+  'utf-8',
+  'utf-16le',
+  'utf-16be',
+  'windows-1252',
+  'iso-8859-2',
+  'windows-1251',
+  'koi8-r',
+  'iso-8859-7',
+  'windows-1254',
+  'shift_jis',
+  'euc-kr',
+  'gb18030',
+  'big5',
+] as const;
+
+/** Length given to cues that have no end, such as the single cue of an untimed transcript */
+const MIN_CUE_SECONDS = 1;
+
+const TIMING_LINE = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+// Blocks of a WebVTT file that are not cues
+const VTT_NON_CUE_BLOCK = /^(NOTE|STYLE|REGION)(\s|$)/;
+
+// Language code in a file name such as "video.en.srt" or "video.pt-BR.vtt"
+const FILE_NAME_LANGUAGE = /\.([a-z]{2,3}(?:[-_][a-z0-9]{2,4})?)\.(srt|vtt|json)$/i;
+
+/**
+ * Error for a subtitle file that cannot be read
+ */
+export class SubtitleParseError extends Error {
+  /** Line of the file the error is on, if it is about one line */
+  line?: number;
+
+  constructor(message: string, line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = 'SubtitleParseError';
+    this.line = line;
+  }
+}
+
+/**
+ * Subtitle file read into a transcript
+ */
+export interface ParsedSubtitles {
+  transcript: Transcript;
+  format: SubtitleFileFormat;
+  /** Problems that were worked around, such as cues that were skipped */
+  warnings: string[];
+}
+
+/**
+ * Text of a subtitle file with the encoding it was decoded with
+ */
+export interface DecodedSubtitleFile {
+  text: string;
+  encoding: string;
+  /** Whether the encoding was found from a byte order mark or valid UTF-8 rather than guessed */
+  certain: boolean;
+}
+
+// HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}${separator}${String(ms).padStart(3, '0')}`;
+}
+
+function parseTimestamp(text: string): number {
+  const parts = text.replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+const cueEnd = (cue: TranscriptCue): number => (cue.end > cue.start ? cue.end : cue.start + MIN_CUE_SECONDS);
+
+// A blank line ends a cue in both formats
+const singleBlockText = (text: string): string => text.replace(/\n\s*\n/g, '\n').trim();
+
+/**
+ * Write a transcript as a SubRip (.srt) file
+ */
+export function toSrt(transcript: Transcript): string {
+  return (
+    transcript.cues
+      .map(
+        (cue, index) =>
+          `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cueEnd(cue), ',')}\n${singleBlockText(cue.text)}`
+      )
+      .join('\n\n') + '\n'
+  );
+}
+
+/**
+ * Write a transcript as a WebVTT (.vtt) file
+ * @param transcript - Transcript
+ * @param cueSettings - Settings added to every cue, such as "line:0" to show captions at the top
+ */
+export function toWebVtt(transcript: Transcript, cueSettings?: string): string {
+  const header = transcript.language ? `WEBVTT\nLanguage: ${transcript.language}` : 'WEBVTT';
+  const cues = transcript.cues.map((cue) => {
+    const text = singleBlockText(cue.text)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+    const timing = `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cueEnd(cue), '.')}`;
+    return `${cueSettings ? `${timing} ${cueSettings}` : timing}\n${text}`;
+  });
+  return [header, ...cues].join('\n\n') + '\n';
+}
+
+/**
+ * Write a transcript in a file format
+ * @param transcript - Transcript
+ * @param format - File format; JSON holds the cues with their times, language and source
+ */
+export function formatSubtitles(transcript: Transcript, format: SubtitleFormat): string {
+  switch (format) {
+    case 'srt':
+      return toSrt(transcript);
+    case 'vtt':
+      return toWebVtt(transcript);
+    case 'json':
+      return JSON.stringify(transcript, null, 2);
+    case 'txt':
+      return transcriptToText(transcript);
+  }
+}
+
+// Cue text without formatting tags (<i>, <c.yellow>, <v Speaker>, {\an8}) and entities
+function cleanCueText(lines: string[]): string {
+  return lines
+    .map((line) =>
+      line
+        .replace(/<[^>]*>/g, '')
+        .replace(/\{\\[^}]*\}/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lrm;|&rlm;/g, '')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&')
+        .trim()
+    )
+    .filter(Boolean)
+    .join('\n');
+}
+
+// Cues of an SRT or WebVTT file, which differ mostly in their header
+function parseCueBlocks(text: string, format: 'srt' | 'vtt'): { cues: TranscriptCue[]; language?: string; warnings: string[] } {
+  const cues: TranscriptCue[] = [];
+  const warnings: string[] = [];
+  let language: string | undefined;
+
+  const lines = text.split('\n');
+  let index = 0;
+
+  if (format === 'vtt') {
+    if (!/^WEBVTT(\s|$)/.test(lines[0])) {
+      throw new SubtitleParseError('A WebVTT file must start with "WEBVTT"', 1);
+    }
+    // Header lines run until the first blank line
+    for (index = 1; index < lines.length && lines[index].trim(); index++) {
+      const match = lines[index].match(/^Language:\s*(\S+)/i);
+      if (match) language = match[1];
+    }
+  }
+
+  while (index < lines.length) {
+    // Skip the blank lines between blocks
+    while (index < lines.length && !lines[index].trim()) index++;
+    if (index >= lines.length) break;
+
+    const blockStart = index;
+    const block: string[] = [];
+    while (index < lines.length && lines[index].trim()) {
+      block.push(lines[index].trim());
+      index++;
+    }
+
+    if (format === 'vtt' && VTT_NON_CUE_BLOCK.test(block[0])) continue;
+
+    // An SRT cue starts with its number, a WebVTT cue may start with an identifier
+    const timingIndex = block.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1 || timingIndex > 1) {
+      warnings.push(`Line ${blockStart + 1}: skipped text without a cue timing`);
+      continue;
+    }
+
+    const timingLine = blockStart + timingIndex + 1;
+    const timing = block[timingIndex].match(TIMING_LINE);
+    if (!timing) {
+      warnings.push(`Line ${timingLine}: skipped a cue with an invalid timing "${block[timingIndex]}"`);
+      continue;
+    }
+
+    const start = parseTimestamp(timing[1]);
+    let end = parseTimestamp(timing[2]);
+    if (end <= start) {
+      warnings.push(`Line ${timingLine}: the cue ends before it starts; it was given ${MIN_CUE_SECONDS}s`);
+      end = start + MIN_CUE_SECONDS;
+    }
+
+    const cueText = cleanCueText(block.slice(timingIndex + 1));
+    if (!cueText) continue;
+    cues.push({ start, end, text: cueText });
+  }
+
+  return { cues, language, warnings };
+}
+
+// Transcript saved by formatSubtitles as JSON, or a plain array of cues
+function parseTranscriptJson(text: string): { cues: TranscriptCue[]; language?: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SubtitleParseError('The file is not valid JSON');
+  }
+
+  const record = data as { cues?: unknown; language?: unknown };
+  const items = Array.isArray(data) ? data : record?.cues;
+  if (!Array.isArray(items)) {
+    throw new SubtitleParseError('The JSON file has no "cues" list');
+  }
+
+  const cues = items.map((item, index) => {
+    const cue = item as Partial<TranscriptCue>;
+    if (typeof cue?.start !== 'number' || typeof cue.end !== 'number' || typeof cue.text !== 'string') {
+      throw new SubtitleParseError(`Cue ${index + 1} needs a numeric "start" and "end" and a "text"`);
+    }
+    return { start: cue.start, end: Math.max(cue.end, cue.start), text: cue.text };
+  });
+
+  const language = !Array.isArray(data) && typeof record.language === 'string' ? record.language : undefined;
+  return { cues, language };
+}
+
+/**
+ * Find the format of a subtitle file from its contents
+ * @param text - File contents
+ * @returns The format, or null if the text is not a subtitle file
+ */
+export function detectSubtitleFormat(text: string): SubtitleFileFormat | null {
+  const start = text.trimStart();
+  if (/^WEBVTT(\s|$)/.test(start)) return 'vtt';
+  if (start.startsWith('{') || start.startsWith('[')) return 'json';
+  if (TIMING_LINE.test(start.split('\n').find((line) => line.includes('-->'))?.trim() ?? '')) return 'srt';
+  return null;
+}
+
+/**
+ * Read a subtitle file into a transcript
+ * Malformed cues are skipped with a warning rather than failing the whole file.
+ * @param text - File contents
+ * @param fileName - File name, for the language in names such as "video.en.srt"
+ * @returns The transcript with the format of the file and any warnings
+ * @throws SubtitleParseError if the file is not SRT, WebVTT or transcript JSON, or has no cues
+ */
+export function parseSubtitles(text: string, fileName?: string): ParsedSubtitles {
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const format = detectSubtitleFormat(normalized);
+  if (!format) {
+    throw new SubtitleParseError('The file is not an SRT, WebVTT or transcript JSON file');
+  }
+
+  const parsed = format === 'json' ? { ...parseTranscriptJson(normalized), warnings: [] } : parseCueBlocks(normalized.trimStart(), format);
+  if (parsed.cues.length === 0) {
+    throw new SubtitleParseError('The file has no cues');
+  }
+
+  const warnings = [...parsed.warnings];
+  const cues = [...parsed.cues];
+  if (cues.some((cue, index) => index > 0 && cue.start < cues[index - 1].start)) {
+    cues.sort((a, b) => a.start - b.start);
+    warnings.push('Cues were out of order and have been sorted by start time');
+  }
+
+  const language = parsed.language ?? fileName?.match(FILE_NAME_LANGUAGE)?.[1].replace('_', '-');
+  return {
+    transcript: { cues, language, source: 'captions', timed: true },
+    format,
+    warnings,
+  };
+}
+
+// UTF-16 text without a byte order mark has a zero byte in every other position for Latin text
+function detectUtf16(bytes: Uint8Array): 'utf-16le' | 'utf-16be' | null {
+  const sample = bytes.subarray(0, 2000);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const half = sample.length / 2;
+  if (oddZeros > half * 0.4 && evenZeros < half * 0.05) return 'utf-16le';
+  if (evenZeros > half * 0.4 && oddZeros < half * 0.05) return 'utf-16be';
+  return null;
+}
+
+// Cyrillic text in windows-1251 is mostly letters above 0xC0; Western text has only a few accented ones
+function guessSingleByteEncoding(bytes: Uint8Array): string {
+  let letters = 0;
+  let high = 0;
+  for (const byte of bytes.subarray(0, 20000)) {
+    if ((byte >= 0x41 && byte <= 0x5a) || (byte >= 0x61 && byte <= 0x7a)) letters++;
+    else if (byte >= 0xc0) high++;
+  }
+  return high > (letters + high) * 0.5 ? 'windows-1251' : 'windows-1252';
+}
+
+/**
+ * Decode a subtitle file, detecting its encoding unless one is given
+ * The byte order mark and valid UTF-8 are certain; other encodings are guessed and
+ * may need to be chosen by the user.
+ * @param bytes - File contents
+ * @param encoding - Encoding to decode with instead of detecting it
+ * @returns The text and the encoding it was decoded with
+ */
+export function decodeSubtitleFile(bytes: Uint8Array, encoding?: string): DecodedSubtitleFile {
+  if (encoding) {
+    return { text: new TextDecoder(encoding).decode(bytes), encoding, certain: true };
+  }
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes), encoding: 'utf-8', certain: true };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'utf-16le', certain: true };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'utf-16be', certain: true };
+  }
+
+  const utf16 = detectUtf16(bytes);
+  if (utf16) {
+    return { text: new TextDecoder(utf16).decode(bytes), encoding: utf16, certain: false };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8', certain: true };
+  } catch {
+    const guessed = guessSingleByteEncoding(bytes);
+    return { text: new TextDecoder(guessed).decode(bytes), encoding: guessed, certain: false };
+  }
+}
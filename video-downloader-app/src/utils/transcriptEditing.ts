@@ -0,0 +1,129 @@
+import type { TranscriptCue } from '../types';
+
+/** Shortest a cue can be made by splitting or nudging, in seconds */
+export const MIN_CUE_DURATION = 0.1;
+
+/** Step of the timing nudge buttons, in seconds */
+export const NUDGE_STEP = 0.1;
+
+// Times are kept to the millisecond, like subtitle files
+const roundTime = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Replace the text of a cue
+ * @returns New cue list; the input is not changed
+ */
+export const setCueText = (cues: TranscriptCue[], index: number, text: string): TranscriptCue[] =>
+  cues.map((cue, i) => (i === index ? { ...cue, text } : cue));
+
+/**
+ * Split a cue in two at a position in its text
+ * The split time is the playback time if it falls inside the cue, otherwise
+ * proportional to where the text is split.
+ * @param cues - Cues
+ * @param index - Cue to split
+ * @param offset - Character position to split the text at
+ * @param time - Playback time in seconds
+ * @returns New cue list, or the input if the cue is too short or the split would leave an empty cue
+ */
+export const splitCue = (cues: TranscriptCue[], index: number, offset: number, time: number): TranscriptCue[] => {
+  const cue = cues[index];
+  const before = cue.text.slice(0, offset).trim();
+  const after = cue.text.slice(offset).trim();
+  if (!before || !after || cue.end - cue.start < MIN_CUE_DURATION * 2) return cues;
+
+  const inside = time > cue.start + MIN_CUE_DURATION && time < cue.end - MIN_CUE_DURATION;
+  const splitTime = roundTime(
+    inside ? time : cue.start + (cue.end - cue.start) * (offset / cue.text.length)
+  );
+
+  return [
+    ...cues.slice(0, index),
+    { start: cue.start, end: splitTime, text: before },
+    { start: splitTime, end: cue.end, text: after },
+    ...cues.slice(index + 1),
+  ];
+};
+
+/**
+ * Merge a cue with the one after it
+ * @returns New cue list, or the input if the cue is the last one
+ */
+export const mergeWithNext = (cues: TranscriptCue[], index: number): TranscriptCue[] => {
+  if (index >= cues.length - 1) return cues;
+
+  const cue = cues[index];
+  const next = cues[index + 1];
+  return [
+    ...cues.slice(0, index),
+    { start: cue.start, end: Math.max(cue.end, next.end), text: `${cue.text.trim()} ${next.text.trim()}` },
+    ...cues.slice(index + 2),
+  ];
+};
+
+/**
+ * Move the start or end of a cue
+ * The start stays after the start of the previous cue so cues keep their order,
+ * and a cue never becomes shorter than MIN_CUE_DURATION.
+ * @param cues - Cues
+ * @param index - Cue to change
+ * @param edge - Which end of the cue to move
+ * @param time - New time in seconds
+ * @returns New cue list
+ */
+export const setCueTime = (
+  cues: TranscriptCue[],
+  index: number,
+  edge: 'start' | 'end',
+  time: number
+): TranscriptCue[] => {
+  const cue = cues[index];
+  let changed: TranscriptCue;
+
+  if (edge === 'start') {
+    const earliest = index > 0 ? cues[index - 1].start : 0;
+    changed = { ...cue, start: roundTime(Math.min(Math.max(time, earliest), cue.end - MIN_CUE_DURATION)) };
+  } else {
+    changed = { ...cue, end: roundTime(Math.max(time, cue.start + MIN_CUE_DURATION)) };
+  }
+  return cues.map((c, i) => (i === index ? changed : c));
+};
+
+/**
+ * Count occurrences of text across cues
+ * @param cues - Cues
+ * @param find - Text to look for
+ * @param matchCase - Whether upper and lower case must match
+ */
+export const countMatches = (cues: TranscriptCue[], find: string, matchCase: boolean): number => {
+  if (!find) return 0;
+  const pattern = new RegExp(escapeRegExp(find), matchCase ? 'g' : 'gi');
+  return cues.reduce((count, cue) => count + (cue.text.match(pattern)?.length ?? 0), 0);
+};
+
+/**
+ * Replace every occurrence of text across cues
+ * @param cues - Cues
+ * @param find - Text to look for, matched literally
+ * @param replacement - Text to put in its place
+ * @param matchCase - Whether upper and lower case must match
+ * @returns New cue list
+ */
+export const replaceInCues = (
+  cues: TranscriptCue[],
+  find: string,
+  replacement: string,
+  matchCase: boolean
+): TranscriptCue[] => {
+  if (!find) return cues;
+  const pattern = new RegExp(escapeRegExp(find), matchCase ? 'g' : 'gi');
+  // A function keeps "$" in the replacement literal
+  return cues.map((cue) => {
+    const text = cue.text.replace(pattern, () => replacement);
+    return text === cue.text ? cue : { ...cue, text };
+  });
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
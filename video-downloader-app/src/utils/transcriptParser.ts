@@ -0,0 +1,124 @@
+import type { Transcript, TranscriptCue, TranscriptSource } from '../types';
+
+// "[HH:MM:SS] Text", "[MM:SS] Text" or the same without brackets, as written by older versions
+const LEGACY_TIMESTAMP_PATTERNS = [
+  /^\[(\d{1,2}):(\d{2})(?::(\d{2}))?\]\s*(.+)/,
+  /^(\d{1,2}):(\d{2})(?::(\d{2}))?\s+(.+)/,
+];
+
+/** How each transcript source is named in the UI */
+export const TRANSCRIPT_SOURCE_LABELS: Record<TranscriptSource, string> = {
+  captions: 'Captions',
+  asr: 'Auto-generated',
+  manual: 'Manual',
+};
+
+/**
+ * Create a transcript for text without timing, as a single cue from the start of the video
+ * @param text - Transcript or caption text
+ * @param source - Where the text came from
+ * @param duration - Video duration in seconds, 0 if unknown
+ * @param language - Language code, if known
+ */
+export const createUntimedTranscript = (
+  text: string,
+  source: TranscriptSource,
+  duration: number = 0,
+  language?: string
+): Transcript => ({
+  cues: [{ start: 0, end: duration, text: text.trim() }],
+  language,
+  source,
+  timed: false,
+});
+
+/**
+ * Convert a transcript stored as text by older versions of the app into cues
+ * Only speech recognition wrote timestamps ("[01:23] Text" lines); those lines become
+ * cues ending where the next one starts. Any other text (YouTube captions were kept
+ * as plain lines) becomes an untimed transcript.
+ * @param text - Stored transcript text
+ * @param duration - Video duration in seconds, the end of the last cue
+ * @returns The transcript, or null if the text is empty
+ */
+export const parseLegacyTranscript = (text: string, duration: number): Transcript | null => {
+  if (!text.trim()) return null;
+
+  const cues: TranscriptCue[] = [];
+  for (const line of text.split('\n')) {
+    for (const pattern of LEGACY_TIMESTAMP_PATTERNS) {
+      const match = line.trim().match(pattern);
+      if (match) {
+        const [hours, minutes, seconds] = match[3]
+          ? [Number(match[1]), Number(match[2]), Number(match[3])]
+          : [0, Number(match[1]), Number(match[2])];
+        cues.push({ start: hours * 3600 + minutes * 60 + seconds, end: 0, text: match[4].trim() });
+        break;
+      }
+    }
+  }
+
+  if (cues.length === 0) {
+    return createUntimedTranscript(text, 'captions', duration);
+  }
+
+  cues.forEach((cue, index) => {
+    cue.end = index < cues.length - 1 ? cues[index + 1].start : Math.max(duration, cue.start);
+  });
+  return { cues, source: 'asr', timed: true };
+};
+
+/**
+ * Read a stored transcript, converting the text kept by older versions
+ * @param value - Stored transcript: cues, or text from before transcripts had cues
+ * @param duration - Video duration in seconds
+ */
+export const toTranscript = (value: Transcript | string | null | undefined, duration: number): Transcript | null => {
+  if (!value) return null;
+  return typeof value === 'string' ? parseLegacyTranscript(value, duration) : value;
+};
+
+/**
+ * Plain text of a transcript
+ * @param transcript - Transcript
+ * @param timestamps - Start each cue on a line with its start time ("[01:23] Text");
+ *   defaults to whether the transcript is timed
+ */
+export const transcriptToText = (transcript: Transcript, timestamps: boolean = transcript.timed): string =>
+  transcript.cues.map((cue) => (timestamps ? `[${formatTime(cue.start)}] ${cue.text}` : cue.text)).join('\n');
+
+/**
+ * Index of the cue playing at a time: the last cue starting at or before it
+ * @param cues - Cues in order of their start time
+ * @param time - Playback time in seconds
+ * @returns Cue index, or -1 if the time is before the first cue
+ */
+export const findCueIndex = (cues: TranscriptCue[], time: number): number => {
+  let low = 0;
+  let high = cues.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (cues[mid].start <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * Format seconds to HH:MM:SS or MM:SS
+ */
+export const formatTime = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  if (hours > 0) {
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  }
+  return `${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+};
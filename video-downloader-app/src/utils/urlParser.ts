@@ -1,3 +1,4 @@
+import { platformRegistry } from '../services/platforms';
 import type { VideoPlatform } from '../types';
 
 /**
@@ -8,32 +9,9 @@ export interface ParsedVideoUrl {
   videoId: string;
 }
 
-/**
- * Regex patterns for different video platforms
- */
-const URL_PATTERNS = {
-  // YouTube regular videos: youtube.com/watch?v=VIDEO_ID or youtu.be/VIDEO_ID
-  youtube: [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]{11})/i,
-    /youtube\.com\/embed\/([a-zA-Z0-9_-]{11})/i,
-  ],
-  
-  // YouTube Shorts: youtube.com/shorts/VIDEO_ID
-  youtubeShorts: [
-    /youtube\.com\/shorts\/([a-zA-Z0-9_-]{11})/i,
-  ],
-  
-  
-  // TikTok videos: tiktok.com/@username/video/VIDEO_ID or vm.tiktok.com/SHORT_CODE
-  tiktok: [
-    /tiktok\.com\/@[\w.-]+\/video\/(\d+)/i,
-    /vm\.tiktok\.com\/([a-zA-Z0-9]+)/i,
-    /tiktok\.com\/t\/([a-zA-Z0-9]+)/i,
-  ],
-};
-
 /**
  * Parse a video URL and extract platform and video ID
+ * The URL is matched against the patterns of the providers in the platform registry.
  * 
  * @param url - The video URL to parse
  * @returns Object with platform and videoId, or null if invalid
@@ -64,6 +42,11 @@ const URL_PATTERNS = {
  * // Returns: { platform: 'tiktok', videoId: 'ZMabc123def' }
  * 
  * @example
+ * // Instagram reel
+ * parseVideoUrl('https://www.instagram.com/reel/C1a2B3c4D5e/')
+ * // Returns: { platform: 'instagram', videoId: 'C1a2B3c4D5e' }
+ * 
+ * @example
  * // Invalid URL
  * parseVideoUrl('https://example.com/video')
  * // Returns: null
@@ -86,37 +69,13 @@ export function parseVideoUrl(url: string): ParsedVideoUrl | null {
   // Normalize URL: remove trailing slashes, handle www vs non-www
   const normalizedUrl = url.trim().replace(/\/+$/, '');
 
-  // Test YouTube Shorts first (more specific pattern)
-  for (const pattern of URL_PATTERNS.youtubeShorts) {
-    const match = normalizedUrl.match(pattern);
-    if (match && match[1]) {
-      return {
-        platform: 'youtube',
-        videoId: match[1],
-      };
-    }
-  }
-
-  // Test YouTube regular videos
-  for (const pattern of URL_PATTERNS.youtube) {
-    const match = normalizedUrl.match(pattern);
-    if (match && match[1]) {
-      return {
-        platform: 'youtube',
-        videoId: match[1],
-      };
-    }
-  }
-
-  // Test TikTok
-  for (const pattern of URL_PATTERNS.tiktok) {
-    const match = normalizedUrl.match(pattern);
-    if (match && match[1]) {
-      return {
-        platform: 'tiktok',
-        videoId: match[1],
-      };
-    }
+  // Providers list their most specific patterns first (e.g., YouTube Shorts)
+  const match = platformRegistry.match(normalizedUrl);
+  if (match) {
+    return {
+      platform: match.provider.id,
+      videoId: match.videoId,
+    };
   }
 
   return null;
@@ -156,6 +115,10 @@ export function isValidVideoUrl(url: string): boolean {
  * // Returns: 'tiktok'
  * 
  * @example
+ * getPlatformFromUrl('https://instagram.com/p/C1a2B3c4D5e')
+ * // Returns: 'instagram'
+ * 
+ * @example
  * getPlatformFromUrl('https://example.com/video')
  * // Returns: null
  */
@@ -164,3 +127,25 @@ export function getPlatformFromUrl(url: string): VideoPlatform | null {
   return parsed ? parsed.platform : null;
 }
 
+
+/**
+ * Get a stable key identifying the source video behind a URL
+ * 
+ * Different URL shapes for the same video (short links, embeds, query parameters)
+ * resolve to the same key, so it can be used to match library copies of a video.
+ * 
+ * @param url - The video URL
+ * @returns `platform:videoId` for recognised URLs, otherwise the trimmed URL
+ * 
+ * @example
+ * getVideoSourceKey('https://youtu.be/dQw4w9WgXcQ')
+ * // Returns: 'youtube:dQw4w9WgXcQ'
+ * 
+ * @example
+ * getVideoSourceKey('https://example.com/video.mp4')
+ * // Returns: 'https://example.com/video.mp4'
+ */
+export function getVideoSourceKey(url: string): string {
+  const parsed = parseVideoUrl(url);
+  return parsed ? `${parsed.platform}:${parsed.videoId}` : url.trim();
+}
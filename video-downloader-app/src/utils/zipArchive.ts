@@ -0,0 +1,334 @@
+/**
+ * Minimal streaming zip writer and reader
+ *
+ * Entries are stored uncompressed (video files don't compress), which lets the
+ * writer pass file blobs straight through and the reader return entries as slices
+ * of the archive file, so neither side ever holds a whole archive in memory.
+ * ZIP64 records are written and read when sizes or offsets exceed 4 GB.
+ */
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_SIGNATURE = 0x06054b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EXTRA_ID = 0x0001;
+
+const UINT32_MAX = 0xffffffff;
+const UINT16_MAX = 0xffff;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+/**
+ * Entry in a zip archive
+ */
+export interface ZipEntry {
+  name: string;
+  /** Uncompressed size in bytes */
+  size: number;
+  crc32: number;
+  /** Compression method (only 0, stored, can be read) */
+  method: number;
+  /** Offset of the entry's local header in the archive */
+  localHeaderOffset: number;
+}
+
+/**
+ * Destination for archive bytes, called with each part in order
+ */
+export type ZipSink = (part: Blob | Uint8Array<ArrayBuffer>) => Promise<void>;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Continue a CRC-32 over more data
+ */
+function updateCrc32(crc: number, data: Uint8Array): number {
+  let c = crc ^ UINT32_MAX;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ UINT32_MAX) >>> 0;
+}
+
+/**
+ * Compute the CRC-32 of a blob, reading it as a stream
+ */
+export async function crc32Blob(blob: Blob): Promise<number> {
+  const reader = blob.stream().getReader();
+  let crc = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return crc;
+    crc = updateCrc32(crc, value);
+  }
+}
+
+// DOS date and time fields of a zip header
+const toDosDateTime = (date: Date): [number, number] => [
+  (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+];
+
+/**
+ * Writes a zip archive entry by entry to a sink
+ */
+export class ZipWriter {
+  private sink: ZipSink;
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private encoder = new TextEncoder();
+
+  constructor(sink: ZipSink) {
+    this.sink = sink;
+  }
+
+  private async write(part: Blob | Uint8Array<ArrayBuffer>): Promise<void> {
+    await this.sink(part);
+    this.offset += part instanceof Blob ? part.size : part.byteLength;
+  }
+
+  /**
+   * Add a file to the archive
+   * @param name - Path of the file inside the archive
+   * @param data - File contents; strings are stored as UTF-8
+   */
+  async addFile(name: string, data: Blob | string): Promise<void> {
+    const blob = typeof data === 'string' ? new Blob([data], { type: 'application/json' }) : data;
+    const crc32 = await crc32Blob(blob);
+    const nameBytes = this.encoder.encode(name);
+    const zip64 = blob.size >= UINT32_MAX;
+    const [time, date] = toDosDateTime(new Date());
+
+    const extra = zip64 ? new Uint8Array(20) : new Uint8Array(0);
+    if (zip64) {
+      const view = new DataView(extra.buffer);
+      view.setUint16(0, ZIP64_EXTRA_ID, true);
+      view.setUint16(2, 16, true);
+      view.setBigUint64(4, BigInt(blob.size), true);
+      view.setBigUint64(12, BigInt(blob.size), true);
+    }
+
+    const header = new Uint8Array(30 + nameBytes.length + extra.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+    view.setUint16(6, UTF8_FLAG, true);
+    view.setUint16(8, METHOD_STORE, true);
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, crc32, true);
+    view.setUint32(18, zip64 ? UINT32_MAX : blob.size, true);
+    view.setUint32(22, zip64 ? UINT32_MAX : blob.size, true);
+    view.setUint16(26, nameBytes.length, true);
+    view.setUint16(28, extra.length, true);
+    header.set(nameBytes, 30);
+    header.set(extra, 30 + nameBytes.length);
+
+    this.entries.push({ name, size: blob.size, crc32, method: METHOD_STORE, localHeaderOffset: this.offset });
+    await this.write(header);
+    await this.write(blob);
+  }
+
+  /**
+   * Write the central directory; no files can be added afterwards
+   */
+  async finish(): Promise<void> {
+    const centralStart = this.offset;
+    const [time, date] = toDosDateTime(new Date());
+
+    for (const entry of this.entries) {
+      const nameBytes = this.encoder.encode(entry.name);
+      const sizeOverflow = entry.size >= UINT32_MAX;
+      const offsetOverflow = entry.localHeaderOffset >= UINT32_MAX;
+      const zip64Values = [
+        ...(sizeOverflow ? [entry.size, entry.size] : []),
+        ...(offsetOverflow ? [entry.localHeaderOffset] : []),
+      ];
+
+      const extra = new Uint8Array(zip64Values.length > 0 ? 4 + zip64Values.length * 8 : 0);
+      if (zip64Values.length > 0) {
+        const extraView = new DataView(extra.buffer);
+        extraView.setUint16(0, ZIP64_EXTRA_ID, true);
+        extraView.setUint16(2, zip64Values.length * 8, true);
+        zip64Values.forEach((value, index) => extraView.setBigUint64(4 + index * 8, BigInt(value), true));
+      }
+
+      const header = new Uint8Array(46 + nameBytes.length + extra.length);
+      const view = new DataView(header.buffer);
+      const version = zip64Values.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT;
+      view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+      view.setUint16(4, VERSION_ZIP64, true);
+      view.setUint16(6, version, true);
+      view.setUint16(8, UTF8_FLAG, true);
+      view.setUint16(10, METHOD_STORE, true);
+      view.setUint16(12, time, true);
+      view.setUint16(14, date, true);
+      view.setUint32(16, entry.crc32, true);
+      view.setUint32(20, sizeOverflow ? UINT32_MAX : entry.size, true);
+      view.setUint32(24, sizeOverflow ? UINT32_MAX : entry.size, true);
+      view.setUint16(28, nameBytes.length, true);
+      view.setUint16(30, extra.length, true);
+      view.setUint32(42, offsetOverflow ? UINT32_MAX : entry.localHeaderOffset, true);
+      header.set(nameBytes, 46);
+      header.set(extra, 46 + nameBytes.length);
+      await this.write(header);
+    }
+
+    const centralSize = this.offset - centralStart;
+    const needsZip64 =
+      this.entries.length >= UINT16_MAX || centralStart >= UINT32_MAX || centralSize >= UINT32_MAX;
+
+    if (needsZip64) {
+      const zip64End = new Uint8Array(56 + 20);
+      const view = new DataView(zip64End.buffer);
+      view.setUint32(0, ZIP64_END_SIGNATURE, true);
+      view.setBigUint64(4, 44n, true);
+      view.setUint16(12, VERSION_ZIP64, true);
+      view.setUint16(14, VERSION_ZIP64, true);
+      view.setBigUint64(24, BigInt(this.entries.length), true);
+      view.setBigUint64(32, BigInt(this.entries.length), true);
+      view.setBigUint64(40, BigInt(centralSize), true);
+      view.setBigUint64(48, BigInt(centralStart), true);
+      // Locator pointing at the ZIP64 end record
+      view.setUint32(56, ZIP64_LOCATOR_SIGNATURE, true);
+      view.setBigUint64(64, BigInt(this.offset), true);
+      view.setUint32(72, 1, true);
+      await this.write(zip64End);
+    }
+
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, END_SIGNATURE, true);
+    view.setUint16(8, Math.min(this.entries.length, UINT16_MAX), true);
+    view.setUint16(10, Math.min(this.entries.length, UINT16_MAX), true);
+    view.setUint32(12, Math.min(centralSize, UINT32_MAX), true);
+    view.setUint32(16, Math.min(centralStart, UINT32_MAX), true);
+    await this.write(end);
+  }
+}
+
+const readView = async (file: Blob, start: number, end: number): Promise<DataView> =>
+  new DataView(await file.slice(start, end).arrayBuffer());
+
+/**
+ * Read the list of entries of a zip archive from its central directory
+ * @param file - Archive file
+ * @throws Error if the file is not a zip archive
+ */
+export async function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+  // The end record is at most 22 bytes plus a 64 KB comment from the end
+  const tailStart = Math.max(0, file.size - (22 + UINT16_MAX));
+  const tail = await readView(file, tailStart, file.size);
+  let endOffset = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a zip archive');
+  }
+
+  let entryCount = tail.getUint16(endOffset + 10, true);
+  let centralSize = tail.getUint32(endOffset + 12, true);
+  let centralStart = tail.getUint32(endOffset + 16, true);
+
+  if (entryCount === UINT16_MAX || centralSize === UINT32_MAX || centralStart === UINT32_MAX) {
+    const locatorStart = tailStart + endOffset - 20;
+    const locator = await readView(file, locatorStart, locatorStart + 20);
+    if (locator.getUint32(0, true) !== ZIP64_LOCATOR_SIGNATURE) {
+      throw new Error('Corrupt zip archive: missing ZIP64 locator');
+    }
+    const zip64EndStart = Number(locator.getBigUint64(8, true));
+    const zip64End = await readView(file, zip64EndStart, zip64EndStart + 56);
+    if (zip64End.getUint32(0, true) !== ZIP64_END_SIGNATURE) {
+      throw new Error('Corrupt zip archive: missing ZIP64 end record');
+    }
+    entryCount = Number(zip64End.getBigUint64(32, true));
+    centralSize = Number(zip64End.getBigUint64(40, true));
+    centralStart = Number(zip64End.getBigUint64(48, true));
+  }
+
+  const central = await readView(file, centralStart, centralStart + centralSize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let position = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (central.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt zip archive: bad central directory');
+    }
+    const nameLength = central.getUint16(position + 28, true);
+    const extraLength = central.getUint16(position + 30, true);
+    const commentLength = central.getUint16(position + 32, true);
+    const name = decoder.decode(
+      new Uint8Array(central.buffer, central.byteOffset + position + 46, nameLength)
+    );
+
+    let size = central.getUint32(position + 24, true);
+    let localHeaderOffset = central.getUint32(position + 42, true);
+
+    // ZIP64 extra field holds the values that overflowed, in a fixed order
+    let extraPosition = position + 46 + nameLength;
+    const extraEnd = extraPosition + extraLength;
+    while (extraPosition + 4 <= extraEnd) {
+      const id = central.getUint16(extraPosition, true);
+      const length = central.getUint16(extraPosition + 2, true);
+      if (id === ZIP64_EXTRA_ID) {
+        let valuePosition = extraPosition + 4;
+        if (size === UINT32_MAX) {
+          size = Number(central.getBigUint64(valuePosition, true));
+          valuePosition += 16; // Uncompressed and compressed size
+        }
+        if (localHeaderOffset === UINT32_MAX) {
+          localHeaderOffset = Number(central.getBigUint64(valuePosition, true));
+        }
+      }
+      extraPosition += 4 + length;
+    }
+
+    entries.push({
+      name,
+      size,
+      crc32: central.getUint32(position + 16, true),
+      method: central.getUint16(position + 10, true),
+      localHeaderOffset,
+    });
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Get the contents of a stored zip entry as a slice of the archive
+ * @param file - Archive file
+ * @param entry - Entry from readZipEntries
+ * @throws Error if the entry is compressed or its header is corrupt
+ */
+export async function getZipEntryBlob(file: Blob, entry: ZipEntry): Promise<Blob> {
+  if (entry.method !== METHOD_STORE) {
+    throw new Error(`Unsupported compression for ${entry.name}`);
+  }
+
+  const header = await readView(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt zip archive: bad header for ${entry.name}`);
+  }
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  return file.slice(dataStart, dataStart + entry.size);
+}